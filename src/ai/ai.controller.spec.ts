@@ -1,5 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { AiController } from './ai.controller';
+import { AiService } from './ai.service';
+import { UsageService } from '../usage/usage.service';
+import { TenantsService } from '../tenants/tenants.service';
 
 describe('AiController', () => {
   let controller: AiController;
@@ -7,6 +10,11 @@ describe('AiController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [AiController],
+      providers: [
+        { provide: AiService, useValue: {} },
+        { provide: UsageService, useValue: {} },
+        { provide: TenantsService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<AiController>(AiController);
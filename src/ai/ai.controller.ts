@@ -1,35 +1,52 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import { Controller, Post, Body, Get, Query, Res } from '@nestjs/common';
+import { Response } from 'express';
 import { AiService } from './ai.service';
-import { getPromptSchema } from './dto/get-prompt/get-prompt.dto';
-import { ApiTags, ApiOperation, ApiBody, ApiResponse } from '@nestjs/swagger';
+import { GetPrompt } from './dto/get-prompt/get-prompt.dto';
+import { ApiTags, ApiOperation, ApiBody, ApiResponse, ApiProduces } from '@nestjs/swagger';
+import { writeSse } from '../common/sse/write-sse';
+import { ApiErrorResponses } from '../common/errors/api-error-responses.decorator';
+import { ErrorCode } from '../common/errors/error-code';
+import { Metered, MeteredClient } from '../usage/decorators/metered.decorator';
+import { UsageContext } from '../usage/interfaces/usage.interface';
+import { Authenticated, CurrentTenant } from '../tenants/decorators/authenticated.decorator';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
 
 @ApiTags('AI')  // Grouping endpoints under "AI" for Swagger
+@Authenticated()  // Tenant API key (`x-api-key`) once TENANTS_FILE is set
 @Controller('ai')
 export class AiController {
   constructor(private readonly aiService: AiService) {}
 
   @Post('prompt')
+  @Metered()  // Quotas and token accounting of the caller
   @ApiOperation({ summary: 'Get the result of a prompt' })  // Brief description of the endpoint
-  @ApiBody({  // Details of the request body
-    description: 'Body to send the prompt to the AI',
-    schema: {
-      type: 'object',
-      properties: {
-        prompt: {
-          type: 'string',
-          description: 'The prompt to be sent to the AI',
-          example: 'Write a poem about the sea',
-        },
-      },
-    },
-  })
+  @ApiBody({ type: GetPrompt, description: 'Body to send the prompt to the AI' })  // Documented from the Joi schema of the DTO
   @ApiResponse({ status: 201, description: 'Prompt result' })  // Response documentation for success
-  @ApiResponse({ status: 500, description: 'Validation error' })  // Response documentation for errors
-  async getPromptSchema(@Body() body: { prompt: string }) {
-    const { error, value } = getPromptSchema.validate(body);
-    if (error) {
-      throw new Error(`Validation error: ${error.message}`);
-    }
-    return this.aiService.getPrompt(value.prompt);
+  @ApiErrorResponses(ErrorCode.VALIDATION_ERROR, ErrorCode.UNAUTHORIZED, ErrorCode.NOT_FOUND, ErrorCode.RATE_LIMITED, ErrorCode.CONTENT_POLICY, ErrorCode.GUARDRAIL_BLOCKED, ErrorCode.UPSTREAM_AUTH, ErrorCode.UPSTREAM_UNAVAILABLE, ErrorCode.UPSTREAM_TIMEOUT)  // Error responses, see ErrorResponse
+  async getPromptSchema(@Body() body: GetPrompt, @MeteredClient() usage: UsageContext, @CurrentTenant() tenant: Tenant) {  // Validated by the global JoiValidationPipe
+    return this.aiService.getPrompt(body, usage, tenant);
+  }
+
+  @Post('prompt/stream')
+  @Metered()
+  @ApiOperation({ summary: 'Stream the result of a prompt over Server-Sent Events' })
+  @ApiBody({ type: GetPrompt, description: 'Body to send the prompt to the AI' })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: 'Stream of `delta`, `tool_start`, `tool_end` and `done` (or `error`) events' })
+  @ApiErrorResponses(ErrorCode.VALIDATION_ERROR, ErrorCode.UNAUTHORIZED, ErrorCode.NOT_FOUND, ErrorCode.RATE_LIMITED, ErrorCode.CONTENT_POLICY, ErrorCode.GUARDRAIL_BLOCKED, ErrorCode.UPSTREAM_AUTH, ErrorCode.UPSTREAM_UNAVAILABLE, ErrorCode.UPSTREAM_TIMEOUT)
+  async streamPrompt(@Body() body: GetPrompt, @MeteredClient() usage: UsageContext, @CurrentTenant() tenant: Tenant, @Res() res: Response) {
+    const events = await this.aiService.streamPrompt(body, usage, tenant);
+    await writeSse(res, events);
+  }
+
+  @Get('prompt/stream')
+  @Metered()
+  @ApiOperation({ summary: 'Stream the result of a prompt over Server-Sent Events (EventSource friendly)' })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: 'Stream of `delta`, `tool_start`, `tool_end` and `done` (or `error`) events' })
+  @ApiErrorResponses(ErrorCode.VALIDATION_ERROR, ErrorCode.UNAUTHORIZED, ErrorCode.NOT_FOUND, ErrorCode.RATE_LIMITED, ErrorCode.CONTENT_POLICY, ErrorCode.GUARDRAIL_BLOCKED, ErrorCode.UPSTREAM_AUTH, ErrorCode.UPSTREAM_UNAVAILABLE, ErrorCode.UPSTREAM_TIMEOUT)
+  async streamPromptQuery(@Query() query: GetPrompt, @MeteredClient() usage: UsageContext, @CurrentTenant() tenant: Tenant, @Res() res: Response) {
+    const events = await this.aiService.streamPrompt(query, usage, tenant);
+    await writeSse(res, events);
   }
 }
@@ -1,10 +1,47 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
 import { AiController } from './ai.controller';
 import { AiService } from './ai.service';
+import { CityInfoService } from './city-info.service';
+import { ConversationsModule } from '../conversations/conversations.module';
+import { ToolsModule } from '../tools/tools.module';
+import { HttpClientModule } from '../http/http-client.module';
+import { HttpClient } from '../http/http-client';
+import { CacheModule } from '../cache/cache.module';
+import { UsageModule } from '../usage/usage.module';
+import { TenantsModule } from '../tenants/tenants.module';
+import { PromptsModule } from '../prompts/prompts.module';
+import { TranscriptsModule } from '../transcripts/transcripts.module';
+import { GuardrailsModule } from '../guardrails/guardrails.module';
+import { CityInfoProvider } from './providers/city-info.provider';
+import { OpenWeatherMapCityInfoProvider } from './providers/open-weather-map-city-info.provider';
+import { StaticCityInfoProvider } from './providers/static-city-info.provider';
 
 
 @Module({
+  imports: [ConversationsModule, ToolsModule, HttpClientModule, CacheModule, UsageModule, TenantsModule, PromptsModule, TranscriptsModule, GuardrailsModule],
   controllers: [AiController],
-  providers: [AiService],
+  providers: [
+    AiService,
+    CityInfoService,
+    {
+      // CITY_INFO_PROVIDER=openweathermap|static; defaults to the offline table when no OpenWeatherMap key is set
+      provide: CityInfoProvider,
+      inject: [ConfigService, HttpClient],
+      useFactory: (configService: ConfigService, httpClient: HttpClient) => {
+        const apiKey = configService.get('OPEN_WEATHER_API_KEY');
+        const provider =
+          configService.get('CITY_INFO_PROVIDER') ||
+          (apiKey ? 'openweathermap' : 'static');
+        return provider === 'openweathermap'
+          ? new OpenWeatherMapCityInfoProvider(httpClient, apiKey)
+          : new StaticCityInfoProvider(
+              configService.get('CITY_INFO_FILE') ||
+                join(__dirname, '..', '..', 'data', 'city-info.json'),
+            );
+      },
+    },
+  ],
 })
 export class AiModule { }
@@ -1,18 +1,483 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
+import { join } from 'path';
 import { AiService } from './ai.service';
+import { CITY_TOOLSET } from './dto/city-tools/city-tools.dto';
+import { ConversationsService } from '../conversations/conversations.service';
+import { ConversationStore } from '../conversations/stores/conversation.store';
+import { InMemoryConversationStore } from '../conversations/stores/in-memory-conversation.store';
+import { ToolLoopService } from '../tools/tool-loop.service';
+import { ToolRegistry } from '../tools/tool-registry.service';
+import { LlmProvider } from '../llm/llm.provider';
+import { MockLlmProvider } from '../llm/providers/mock-llm.provider';
+import { HttpClient } from '../http/http-client';
+import { FetchHttpClient } from '../http/clients/fetch-http.client';
+import { RecordReplayHttpClient } from '../http/clients/record-replay-http.client';
+import { CacheService } from '../cache/cache.service';
+import { CacheStore } from '../cache/cache.store';
+import { MemoryCacheStore } from '../cache/stores/memory-cache.store';
+import { UsageService } from '../usage/usage.service';
+import { PromptsService } from '../prompts/prompts.service';
+import { UsageStore } from '../usage/stores/usage.store';
+import { InMemoryUsageStore } from '../usage/stores/in-memory-usage.store';
+import { TranscriptsService } from '../transcripts/transcripts.service';
+import { TranscriptStore } from '../transcripts/stores/transcript.store';
+import { InMemoryTranscriptStore } from '../transcripts/stores/in-memory-transcript.store';
+import { GuardrailsService } from '../guardrails/guardrails.service';
+import { GuardrailPipeline } from '../guardrails/guardrail-pipeline';
+import { InjectionCheck } from '../guardrails/checks/injection.check';
+import { TopicCheck } from '../guardrails/checks/topic.check';
+import { PiiCheck } from '../guardrails/checks/pii.check';
+import {
+  CircuitOpenException,
+  UpstreamTimeoutException,
+} from '../common/errors/app.exception';
+
+const FIXTURES_DIR = join(__dirname, '..', '..', 'test', 'fixtures', 'http');
 
 describe('AiService', () => {
   let service: AiService;
+  let registry: ToolRegistry;
+  let llm: MockLlmProvider;
+  let httpClient: HttpClient;
+  let usageService: UsageService;
+  let transcriptsService: TranscriptsService;
 
   beforeEach(async () => {
+    llm = new MockLlmProvider();
     const module: TestingModule = await Test.createTestingModule({
-      providers: [AiService],
+      imports: [DiscoveryModule],
+      providers: [
+        AiService,
+        ConfigService,
+        ConversationsService,
+        ToolLoopService,
+        ToolRegistry,
+        { provide: ConversationStore, useClass: InMemoryConversationStore },
+        { provide: LlmProvider, useValue: llm },
+        CacheService,
+        { provide: CacheStore, useValue: new MemoryCacheStore() },
+        UsageService,
+        PromptsService,
+        { provide: UsageStore, useClass: InMemoryUsageStore },
+        TranscriptsService,
+        { provide: TranscriptStore, useValue: new InMemoryTranscriptStore() },
+        GuardrailsService,
+        {
+          provide: GuardrailPipeline,
+          useValue: new GuardrailPipeline([
+            new InjectionCheck(),
+            new TopicCheck(),
+            new PiiCheck(),
+          ]),
+        },
+        {
+          provide: HttpClient,
+          useValue: new RecordReplayHttpClient(
+            new FetchHttpClient(),
+            FIXTURES_DIR,
+            'replay',
+          ),
+        },
+      ],
     }).compile();
 
     service = module.get<AiService>(AiService);
+    registry = module.get<ToolRegistry>(ToolRegistry);
+    httpClient = module.get<HttpClient>(HttpClient);
+    usageService = module.get<UsageService>(UsageService);
+    transcriptsService = module.get<TranscriptsService>(TranscriptsService);
+    await module.init();
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('registers the city tools', () => {
+    expect(
+      registry.getTools(CITY_TOOLSET).map((tool) => tool.function.name),
+    ).toEqual(['getWeather', 'getPopulation']);
+  });
+
+  describe('getWeather', () => {
+    it('maps the OpenWeatherMap response', async () => {
+      expect(await service.getWeather('Madrid')).toEqual({
+        ok: true,
+        city: 'Madrid',
+        temperature: 21.4,
+        description: 'few clouds',
+        humidity: 45,
+        windSpeed: 3.6,
+        unit: 'metric',
+      });
+    });
+
+    it('asks for imperial units', async () => {
+      expect(await service.getWeather('Madrid', 'imperial')).toMatchObject({
+        ok: true,
+        temperature: 70.52,
+        windSpeed: 8.05,
+        unit: 'imperial',
+      });
+    });
+
+    it('caches successful lookups per city', async () => {
+      const request = jest.spyOn(httpClient, 'request');
+
+      await service.getWeather('Madrid');
+      expect(await service.getWeather(' madrid ')).toMatchObject({
+        ok: true,
+        city: 'Madrid',
+      });
+
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not cache failed lookups', async () => {
+      const request = jest.spyOn(httpClient, 'request');
+
+      await service.getWeather('Atlantis');
+      await service.getWeather('Atlantis');
+
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns an error for an unknown city', async () => {
+      expect(await service.getWeather('Atlantis')).toEqual({
+        ok: false,
+        error: 'Weather API error: Error fetching weather data',
+      });
+    });
+  });
+
+  describe('getPopulation', () => {
+    it('maps the population API response', async () => {
+      expect(await service.getPopulation('Madrid')).toEqual({
+        ok: true,
+        city: 'Madrid',
+        country: 'Spain',
+        population: 3223334,
+      });
+    });
+
+    it('returns an error when the API fails', async () => {
+      expect(await service.getPopulation('Atlantis')).toEqual({
+        ok: false,
+        error: 'Population API error: Error fetching population data',
+      });
+    });
+  });
+
+  describe('getPrompt', () => {
+    it('answers through the configured LLM provider', async () => {
+      llm.enqueue({ content: 'Hello from the mock' });
+
+      const result = await service.getPrompt({
+        prompt: 'Hi there, how are you?',
+      });
+
+      expect(result).toMatchObject({
+        ok: true,
+        response: 'Hello from the mock',
+      });
+      expect(llm.requests[0].messages.at(-1)).toEqual({
+        role: 'user',
+        content: 'Hi there, how are you?',
+      });
+    });
+
+    it('returns the usage and records it under the metered client', async () => {
+      llm.enqueue({
+        content: 'Hello from the mock',
+        usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+      });
+      const context = { clientId: 'client:web', endpoint: 'POST /ai/prompt' };
+
+      const result = await service.getPrompt({ prompt: 'Hi there' }, context);
+      const report = await usageService.report({ groupBy: ['client'] });
+
+      expect(result.usage).toEqual({
+        model: 'mock-model',
+        prompt_tokens: 100,
+        completion_tokens: 20,
+        total_tokens: 120,
+        costUsd: 0,
+      });
+      expect(report.rows).toEqual([
+        expect.objectContaining({
+          clientId: 'client:web',
+          requests: 1,
+          totalTokens: 120,
+        }),
+      ]);
+    });
+
+    it('runs the weather tool and sends its result to the model', async () => {
+      llm.enqueue(
+        { toolCalls: [{ name: 'getWeather', arguments: { city: 'Madrid' } }] },
+        { content: 'It is 21°C in Madrid' },
+      );
+
+      const result = await service.getPrompt({
+        prompt: 'What is the weather in Madrid?',
+      });
+
+      expect(result.steps).toEqual([
+        expect.objectContaining({
+          name: 'getWeather',
+          arguments: { city: 'Madrid' },
+          ok: true,
+          result:
+            'The weather in Madrid is few clouds, with a temperature of 21.4°C, a humidity of 45% and a wind speed of 3.6 m/s',
+        }),
+      ]);
+      expect(llm.requests[1].messages.at(-1)).toMatchObject({
+        role: 'tool',
+        content: expect.stringContaining('few clouds'),
+      });
+      expect(result.response).toBe('It is 21°C in Madrid');
+    });
+
+    it('passes the requested unit to the weather tool', async () => {
+      llm.enqueue(
+        {
+          toolCalls: [
+            {
+              name: 'getWeather',
+              arguments: { city: 'Madrid', unit: 'imperial' },
+            },
+          ],
+        },
+        { content: 'It is 70°F in Madrid' },
+      );
+
+      const result = await service.getPrompt({
+        prompt: 'What is the weather in Madrid in Fahrenheit?',
+      });
+
+      expect(result.steps[0].result).toBe(
+        'The weather in Madrid is few clouds, with a temperature of 70.52°F, a humidity of 45% and a wind speed of 8.05 mph',
+      );
+    });
+
+    it('calls only the tool the model requested', async () => {
+      const request = jest.spyOn(httpClient, 'request');
+      llm.enqueue(
+        {
+          toolCalls: [{ name: 'getPopulation', arguments: { city: 'Madrid' } }],
+        },
+        { content: 'About 3.2 million people' },
+      );
+
+      const result = await service.getPrompt({
+        prompt: 'How many people live in Madrid?',
+      });
+
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(request.mock.calls[0][0].dependency).toBe('population');
+      expect(result.steps).toEqual([
+        expect.objectContaining({
+          name: 'getPopulation',
+          ok: true,
+          result: 'The population of Madrid (Spain) is 3223334, only this data',
+        }),
+      ]);
+    });
+
+    it('offers the unit parameter to the model', async () => {
+      const [weather] = registry.getTools(CITY_TOOLSET);
+
+      expect(weather.function.parameters).toMatchObject({
+        properties: {
+          unit: { type: 'string', enum: ['metric', 'imperial'] },
+        },
+        required: ['city'],
+      });
+    });
+
+    it('reports invalid tool arguments to the model as errors', async () => {
+      llm.enqueue(
+        { toolCalls: [{ name: 'getPopulation', arguments: {} }] },
+        { content: 'Which city?' },
+      );
+
+      const result = await service.getPrompt({
+        prompt: 'How many people live there?',
+      });
+
+      expect(result.steps[0]).toMatchObject({
+        name: 'getPopulation',
+        ok: false,
+        code: 'VALIDATION_ERROR',
+        error: expect.stringContaining('Invalid arguments for getPopulation'),
+      });
+      expect(result.response).toBe('Which city?');
+    });
+
+    it('continues a conversation with its history', async () => {
+      const first = await service.getPrompt({
+        prompt: 'My name is Ada, remember it',
+      });
+      await service.getPrompt({
+        prompt: 'What is my name again?',
+        conversationId: first.conversationId,
+      });
+
+      expect(llm.requests[1].messages.map((message) => message.role)).toEqual([
+        'system',
+        'user',
+        'assistant',
+        'user',
+      ]);
+    });
+
+    it('asks the model to answer in the requested locale', async () => {
+      await service.getPrompt({
+        prompt: 'What is the weather today?',
+        locale: 'es-CO',
+      });
+
+      expect(llm.requests[0].messages[0].content).toContain('"es-CO" locale');
+    });
+
+    it('passes provider errors on to the exception filter', async () => {
+      jest
+        .spyOn(llm, 'chat')
+        .mockRejectedValueOnce(new UpstreamTimeoutException('mock'));
+
+      await expect(
+        service.getPrompt({ prompt: 'What is the weather today?' }),
+      ).rejects.toBeInstanceOf(UpstreamTimeoutException);
+    });
+
+    it('tells the model a tool is unavailable while its breaker is open', async () => {
+      jest
+        .spyOn(httpClient, 'request')
+        .mockRejectedValueOnce(new CircuitOpenException('weather', 30000));
+      llm.enqueue(
+        { toolCalls: [{ name: 'getWeather', arguments: { city: 'Madrid' } }] },
+        { content: 'The weather service is down right now' },
+      );
+
+      const result = await service.getPrompt({
+        prompt: 'What is the weather in Madrid?',
+      });
+
+      expect(result.steps[0]).toMatchObject({
+        ok: false,
+        code: 'UPSTREAM_UNAVAILABLE',
+        error: expect.stringContaining('weather is unavailable'),
+      });
+      expect(llm.requests[1].messages.at(-1).content).toContain(
+        'UPSTREAM_UNAVAILABLE',
+      );
+    });
+
+    it('reports failed API lookups to the model as tool errors', async () => {
+      llm.enqueue(
+        {
+          toolCalls: [
+            { name: 'getPopulation', arguments: { city: 'Atlantis' } },
+          ],
+        },
+        { content: 'I could not find that city' },
+      );
+
+      const result = await service.getPrompt({
+        prompt: 'How many people live in Atlantis?',
+      });
+
+      expect(result.steps[0]).toMatchObject({
+        ok: false,
+        code: 'TOOL_FAILED',
+        error:
+          'getPopulation failed: Population API error: Error fetching population data',
+      });
+      expect(llm.requests[1].messages.at(-1)).toMatchObject({
+        role: 'tool',
+        content: expect.stringContaining('"code":"TOOL_FAILED"'),
+      });
+    });
+  });
+
+  describe('streamPrompt', () => {
+    it('never streams personal data the output guardrails mask', async () => {
+      llm.enqueue({
+        content: 'Write to ada@example.com today. Or call +34 612 345 678.',
+      });
+
+      const events = [];
+      for await (const event of await service.streamPrompt({
+        prompt: 'How can I reach the store?',
+      })) {
+        events.push(event);
+      }
+      const deltas = events
+        .filter((event) => event.event === 'delta')
+        .map((event) => event.data.content);
+
+      expect(deltas).toEqual(['Write to [email] today. ', 'Or call [phone].']);
+      expect(events.at(-1)).toMatchObject({
+        event: 'done',
+        data: { response: deltas.join('') },
+      });
+    });
+
+    it('records what was sent before the client disconnected mid-answer', async () => {
+      llm.enqueue({ content: 'Madrid is big. About 3.2 million people.' });
+      const context = { clientId: 'ip:10.0.0.1', endpoint: 'GET /ai/stream' };
+
+      for await (const event of await service.streamPrompt(
+        { prompt: 'How many people live in Madrid?' },
+        context,
+      )) {
+        if (event.event === 'delta') break;
+      }
+      const report = await usageService.report({ groupBy: ['client'] });
+      const transcripts = await transcriptsService.list({
+        clientId: 'ip:10.0.0.1',
+      });
+
+      expect(report.totals.totalTokens).toBeGreaterThan(0);
+      expect(transcripts.items).toEqual([
+        expect.objectContaining({
+          interrupted: 'CLIENT_CLOSED',
+          answer: 'Madrid is big. ',
+        }),
+      ]);
+    });
+
+    it('records the tokens used before the client disconnected', async () => {
+      llm.enqueue(
+        {
+          toolCalls: [{ name: 'getPopulation', arguments: { city: 'Madrid' } }],
+          usage: { prompt_tokens: 80, completion_tokens: 10, total_tokens: 90 },
+        },
+        { content: 'About 3.2 million people' },
+      );
+      const context = { clientId: 'ip:10.0.0.1', endpoint: 'GET /ai/stream' };
+
+      for await (const event of await service.streamPrompt(
+        { prompt: 'How many people live in Madrid?' },
+        context,
+      )) {
+        if (event.event === 'tool_end') break;
+      }
+      const report = await usageService.report({ groupBy: ['client'] });
+      const transcripts = await transcriptsService.list({
+        clientId: 'ip:10.0.0.1',
+      });
+
+      expect(report.totals).toMatchObject({ requests: 1, totalTokens: 90 });
+      expect(transcripts.items).toEqual([
+        expect.objectContaining({
+          interrupted: 'CLIENT_CLOSED',
+          answer: '',
+          toolCalls: [expect.objectContaining({ name: 'getPopulation' })],
+        }),
+      ]);
+    });
+  });
 });
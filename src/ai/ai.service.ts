@@ -1,92 +1,183 @@
 import { Injectable } from '@nestjs/common';
 // DTO
-import { getPromptSchema, populationTypes, weatherResponseType, weatherTypes } from './dto/get-prompt/get-prompt.dto';
+import { GetPrompt, populationResponseType, weatherResponseType } from './dto/get-prompt/get-prompt.dto';
 import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
-import { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { CITY_TOOLSET, GetPopulationToolArgs, GetWeatherToolArgs, MeasurementUnit, UNIT_SYMBOLS } from './dto/city-tools/city-tools.dto';
+import { ConversationsService } from '../conversations/conversations.service';
+import { ToolLoopService } from '../tools/tool-loop.service';
+import { ToolRegistry } from '../tools/tool-registry.service';
+import { AiTool } from '../tools/decorators/ai-tool.decorator';
+import { toPromptStream } from '../tools/utils/prompt-stream';
+import { SseEvent } from '../common/sse/sse.interface';
+import { HttpClient } from '../http/http-client';
+import { AppException, ToolFailureException } from '../common/errors/app.exception';
+import { CacheService } from '../cache/cache.service';
+import { UsageService } from '../usage/usage.service';
+import { UsageContext } from '../usage/interfaces/usage.interface';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
+import { DEFAULT_TENANT } from '../tenants/tenants.service';
+import { ToolScope } from '../tools/tool-registry.service';
+import { AI_SYSTEM_PROMPT, PromptsService } from '../prompts/prompts.service';
+import { TranscriptsService } from '../transcripts/transcripts.service';
+import { GuardedRequest, GuardrailsService } from '../guardrails/guardrails.service';
 
 
 @Injectable()
 export class AiService {
-    constructor(private configService: ConfigService) { }
+    constructor(
+        private configService: ConfigService,
+        private conversationsService: ConversationsService,
+        private toolLoopService: ToolLoopService,
+        private toolRegistry: ToolRegistry,
+        private httpClient: HttpClient,
+        private cacheService: CacheService,
+        private usageService: UsageService,
+        private promptsService: PromptsService,
+        private transcriptsService: TranscriptsService,
+        private guardrailsService: GuardrailsService,
+    ) { }
 
     /**
-     * Generates a response based on the provided prompt using OpenAI's GPT-4 model.
+     * Generates a response based on the provided prompt using the tenant's model (`LLM_MODEL_AI`, or the provider default).
      * 
-     * @param {string} prompt - The input prompt to generate a response for.
-     * @returns {Promise<{ ok: boolean, response?: string, error?: string }>} - An object containing the response or an error message.
+     * @param {GetPrompt} input - The prompt, validated by the `JoiValidationPipe`, with the optional `conversationId` and `locale`.
+     * @param {UsageContext} [usage] - Client and endpoint the token usage is counted under, from `@MeteredClient()`.
+     * @param {Tenant} [tenant] - Tenant of the request, from `@CurrentTenant()`: system prompt, model and enabled tools.
+     * @returns {Promise<{ ok: boolean, conversationId: string, response: string, steps: ToolStep[], usage: RequestUsage }>} - An object containing the response, the tool steps that ran and the tokens and cost of the request.
      * 
-     * @throws {Error} - Throws an error if the prompt validation fails.
+     * @throws {NotFoundException} - If `conversationId` does not match a stored conversation of the tenant.
+     * @throws {GuardrailException} - If a guardrail check blocked the prompt or the answer (`GUARDRAIL_BLOCKED`).
+     * @throws {AppException} - If the model provider fails (`UPSTREAM_TIMEOUT`, `UPSTREAM_AUTH`, `CONTENT_POLICY`…).
      * 
      * The function performs the following steps:
-     * 1. Validates the input prompt using a predefined schema.
-     * 2. Creates an initial message array based on the prompt.
-     * 3. Sends the initial message to OpenAI's chat completion API.
-     * 4. If the response includes tool calls, it processes the tool calls and fetches additional data (e.g., weather and population).
-     * 5. Sends an updated message array to OpenAI's chat completion API for a refined response.
-     * 6. Returns the final response or an error message if any step fails.
+     * 1. Runs the input guardrails on the prompt (injection attempts and off-topic requests are blocked, personal data is masked),
+     *    then creates an initial message array based on the prompt, the locale and the conversation history.
+     * 2. Runs the tool loop: every tool call the model requests (e.g., weather and population) is executed and
+     *    answered, until the model replies without tool calls or the iteration cap is reached.
+     * 3. Runs the output guardrails on the answer, stores the exchange in the conversation and its transcript, and returns
+     *    the final response and the tool steps that ran.
+     *    Failed tools are reported to the model as errors, never as data.
      */
-    async getPrompt(prompt: string) {
-        const openai = new OpenAI({ apiKey: this.configService.get('OPEN_AI_API_KEY') });
+    async getPrompt({ prompt: rawPrompt, conversationId, locale }: GetPrompt, usage?: UsageContext, tenant: Tenant = DEFAULT_TENANT) {
+        const conversation = await this.conversationsService.resolve(conversationId, tenant);
+        const guarded: GuardedRequest = { assistant: 'ai', tenant, conversationId: conversation.id, context: usage, startedAt: Date.now() };
+        const input = await this.guardrailsService.checkInput(rawPrompt, guarded);
+        const prompt = input.text;
+        const messages: ChatCompletionMessageParam[] = this.createMessage(prompt, this.conversationsService.toChatHistory(conversation), { locale, tenant });
+        const scope = this.toolScope(tenant);
 
-        // Validación del prompt
-        const { error } = getPromptSchema.validate({ prompt });
-        if (error) {
-            throw new Error(`Validation error: ${error.message}`);
-        }
-        const messages: ChatCompletionMessageParam[] = this.createMessage(prompt);
 
+        const result = await this.toolLoopService.run({
+            model: tenant.models.ai ?? this.configService.get('LLM_MODEL_AI'),
+            messages,
+            tools: this.toolRegistry.getTools(CITY_TOOLSET, scope),
+            handlers: this.guardrailsService.guardHandlers(this.toolRegistry.getHandlers(CITY_TOOLSET, scope), guarded),
+        });
+        const requestUsage = await this.usageService.record(usage, result);
+        const output = await this.guardrailsService.checkOutput(result.message.content, { ...guarded, prompt, usage: requestUsage });
+        const response = output.text;
+        await this.conversationsService.recordTurn(conversation, prompt, response);
+        await this.transcriptsService.record({
+            ...guarded,
+            prompt,
+            result,
+            answer: response,
+            usage: requestUsage,
+            guardrails: [...input.findings, ...output.findings],
+        });
+        return {
+            ok: true,
+            conversationId: conversation.id,
+            response,
+            steps: result.steps,
+            usage: requestUsage,
+        };
+    }
 
-        try {
-            const firstResponse = await openai.chat.completions.create({
-                model: 'gpt-4o-mini',
-                messages: messages,
-                tools: this.toolsAi(),
-            });
-            if (firstResponse.choices[0].message?.tool_calls) {
-                const toolCall = firstResponse.choices[0]?.message?.tool_calls[0];
-                const argument = JSON.parse(toolCall.function.arguments);
-                const city = argument.city;
-                const toolName = toolCall.function.name;
-                const weatherResponse = await this.getWeather(city) as weatherTypes;
-                const populationResponse = await this.getPopulation(city) as populationTypes;
+    /**
+     * Streaming variant of `getPrompt`, used by the `prompt/stream` endpoints.
+     *
+     * The conversation lookup and the input guardrails run before anything is streamed, so an unknown
+     * `conversationId` or a blocked prompt still surfaces as a regular HTTP error. The answer is streamed
+     * sentence by sentence, each sentence once the output guardrails have checked and masked it; a blocked
+     * sentence ends the stream with an `error` event instead.
+     * A stream that fails or loses its client before `done` still records the tokens used so far, with an interrupted transcript.
+     *
+     * @param {GetPrompt} input - The prompt, validated by the `JoiValidationPipe`, with the optional `conversationId` and `locale`.
+     * @param {UsageContext} [usage] - Client and endpoint the token usage is counted under, from `@MeteredClient()`.
+     * @param {Tenant} [tenant] - Tenant of the request, from `@CurrentTenant()`.
+     * @returns {Promise<AsyncGenerator<SseEvent>>} - Tool progress events, the checked answer and a final `done` event with the usage and cost.
+     *
+     * @throws {NotFoundException} - If `conversationId` does not match a stored conversation of the tenant.
+     * @throws {GuardrailException} - If a guardrail check blocked the prompt.
+     */
+    async streamPrompt({ prompt: rawPrompt, conversationId, locale }: GetPrompt, usage?: UsageContext, tenant: Tenant = DEFAULT_TENANT): Promise<AsyncGenerator<SseEvent>> {
+        const conversation = await this.conversationsService.resolve(conversationId, tenant);
+        const guarded: GuardedRequest = { assistant: 'ai', tenant, conversationId: conversation.id, context: usage, startedAt: Date.now() };
+        const input = await this.guardrailsService.checkInput(rawPrompt, guarded);
+        const prompt = input.text;
+        const messages: ChatCompletionMessageParam[] = this.createMessage(prompt, this.conversationsService.toChatHistory(conversation), { locale, tenant });
+        const scope = this.toolScope(tenant);
 
-                messages.push(...this.createMessageWithTool(toolName, weatherResponse, populationResponse));
+        const events = this.toolLoopService.stream({
+            model: tenant.models.ai ?? this.configService.get('LLM_MODEL_AI'),
+            messages,
+            tools: this.toolRegistry.getTools(CITY_TOOLSET, scope),
+            handlers: this.guardrailsService.guardHandlers(this.toolRegistry.getHandlers(CITY_TOOLSET, scope), guarded),
+            labels: this.toolRegistry.getLabels(CITY_TOOLSET, scope),
+        });
+        const output = this.guardrailsService.guardStream(guarded);
+        return toPromptStream(events, async (result) => {
+            const requestUsage = await this.usageService.record(usage, result);
+            await this.conversationsService.recordTurn(conversation, prompt, output.text);
+            await this.transcriptsService.record({
+                ...guarded,
+                prompt,
+                result,
+                answer: output.text,
+                usage: requestUsage,
+                guardrails: [...input.findings, ...output.findings],
+            });
+            return { conversationId: conversation.id, response: output.text, usage: requestUsage };
+        }, async (progress, reason) => {
+            const requestUsage = await this.usageService.record(usage, progress);
+            await this.transcriptsService.record({
+                ...guarded,
+                prompt,
+                result: progress,
+                answer: output.text,
+                usage: requestUsage,
+                guardrails: [...input.findings, ...output.findings],
+                blocked: output.blocked,
+                interrupted: reason,
+            });
+        }, [output]);
+    }
 
-                const secondResponse = await openai.chat.completions.create({
-                    model: 'gpt-4o-mini',
-                    messages: messages,
-                });
-                return {
-                    ok: true,
-                    response: secondResponse.choices[0].message.content,
-                };
-            } else {
-                return {
-                    ok: true,
-                    response: firstResponse.choices[0].message.content,
-                };
-            }
-        } catch (error) {
-            return {
-                ok: false,
-                error: `Error in OpenAI API: ${error.message}`,
-            };
-        }
+    /** Tools the tenant enabled, with the tenant passed on to their handlers. */
+    private toolScope(tenant: Tenant): ToolScope {
+        return { enabled: tenant.tools, context: { tenant } };
     }
 
     /**
      * Generates an array of chat completion message parameters based on the provided prompt.
      *
      * @param prompt - The user's input prompt to be included in the chat messages.
-     * @returns An array of `ChatCompletionMessageParam` objects, including a system message and the user's prompt.
+     * @param history - Earlier turns of the conversation, placed between the system message and the prompt.
+     * @param options - `locale`: BCP 47 tag the answer must be written in; `tenant`: whose instructions, prompt variables and
+     *                  prompt version apply.
+     * @returns An array of `ChatCompletionMessageParam` objects, including a system message rendered from the `ai-system`
+     *          prompt template, the history and the user's prompt.
      */
-    createMessage(prompt: string): ChatCompletionMessageParam[] {
+    createMessage(prompt: string, history: ChatCompletionMessageParam[] = [], { locale, tenant = DEFAULT_TENANT }: Pick<GetPrompt, 'locale'> & { tenant?: Tenant } = {}): ChatCompletionMessageParam[] {
+        const system = this.promptsService.render(AI_SYSTEM_PROMPT, { instructions: tenant.systemPrompts.ai, language: locale }, { tenant });
         return [
             {
                 role: 'system',
-                content: 'You are a helpful assistant.',
+                content: system.text,
             },
+            ...history,
             {
                 role: 'user',
                 content: prompt
@@ -95,122 +186,100 @@ export class AiService {
     }
 
     /**
-     * Creates an array of chat completion messages using the provided tool name, weather information, and population data.
+     * `getWeather` tool: current weather of a city, as text for the model.
      *
-     * @param toolName - The name of the tool to be used in the messages.
-     * @param weather - An object containing weather information, including city, description, temperature, humidity, and wind speed.
-     * @param population - An object containing population information, including city and population count.
-     * @returns An array of chat completion messages formatted with the provided tool name, weather, and population data.
+     * @param args - Validated tool arguments; `unit` defaults to `metric`.
+     * @returns A sentence describing the weather in the city, with the symbols of the requested unit system.
+     * @throws {ToolFailureException} If the weather API fails; the model receives it as a tool error.
+     * @throws {AppException} If the weather API timed out or its circuit breaker is open; the model is told the tool is unavailable.
      */
-    createMessageWithTool(toolName: string, weather: weatherTypes, population: populationTypes): ChatCompletionMessageParam[] {
-        return [
-            {
-                role: "function",
-                name: toolName,
-                content: `The population of ${population.city} is ${population.population}, only this data`
-            }, {
-                role: 'function',
-                name: toolName,
-                content: `The weather in ${weather.city} is ${weather.description}, with a temperature of ${weather.temperature}°C, a humidity of ${weather.humidity}% and a wind speed of ${weather.windSpeed}m/s`
-            }
-        ]
+    @AiTool({
+        name: 'getWeather',
+        description: 'Get the weather of a city',
+        schema: GetWeatherToolArgs,
+        toolsets: [CITY_TOOLSET],
+        label: 'Checking the weather…',
+    })
+    async getWeatherTool({ city, unit }: GetWeatherToolArgs) {
+        const weather = await this.getWeather(city, unit);
+        if (weather.ok === false) {
+            throw new ToolFailureException('getWeather', weather.error);
+        }
+        const symbols = UNIT_SYMBOLS[weather.unit];
+        return `The weather in ${weather.city} is ${weather.description}, with a temperature of ${weather.temperature}${symbols.temperature}, a humidity of ${weather.humidity}% and a wind speed of ${weather.windSpeed} ${symbols.windSpeed}`;
     }
 
-
     /**
-     * Generates an array of tools for AI chat completions.
-     * 
-     * @returns {ChatCompletionTool[]} An array of tools, each containing a function with its name, description, and parameters.
-     * 
-     * The available tools are:
-     * - `getWeather`: Retrieves the weather information for a specified city.
-     *   - Parameters:
-     *     - `city` (string, required): The name of the city to get the weather for.
-     *     - `unit` (string, optional): The unit of the temperature, either "metric" or "imperial".
-     * - `getPopulation`: Retrieves the population information for a specified city.
-     *   - Parameters:
-     *     - `city` (string, required): The name of the city to get the population for.
+     * `getPopulation` tool: population of a city, as text for the model.
+     *
+     * @param args - Validated tool arguments.
+     * @returns A sentence with the population of the city.
+     * @throws {ToolFailureException} If the population API fails; the model receives it as a tool error.
+     * @throws {AppException} If the population API timed out or its circuit breaker is open; the model is told the tool is unavailable.
      */
-    toolsAi() {
-        const tools: ChatCompletionTool[] = [
-            {
-                type: "function",
-                function: {
-                    name: "getWeather",
-                    description: "Get the weather of a city",
-                    parameters: {
-                        type: "object",
-                        properties: {
-                            city: {
-                                type: "string",
-                                description: "The name of the city to get the weather for"
-                            }
-                        },
-                        required: ["city"],
-                        unit: {
-                            type: "string",
-                            enum: ["metric", "imperial"],
-                            description: "The unit of the temperature"
-                        }
-
-                    },
-                }
-            },
-            {
-                type: "function",
-                function: {
-                    name: "getPopulation",
-                    description: "Get the population of a city",
-                    parameters: {
-                        type: "object",
-                        properties: {
-                            city: {
-                                type: "string",
-                                description: "The name of the city to get the population for"
-                            }
-                        },
-                        required: ["city"],
-
-                    },
-
-
-                }
-            }
-        ];
-        return tools;
+    @AiTool({
+        name: 'getPopulation',
+        description: 'Get the population of a city',
+        schema: GetPopulationToolArgs,
+        toolsets: [CITY_TOOLSET],
+        label: 'Looking up the population…',
+    })
+    async getPopulationTool({ city }: GetPopulationToolArgs) {
+        const population = await this.getPopulation(city);
+        if (population.ok === false) {
+            throw new ToolFailureException('getPopulation', population.error);
+        }
+        return `The population of ${population.city} (${population.country}) is ${population.population}, only this data`;
     }
 
     /**
-     * Fetches the weather information for a given city using the OpenWeatherMap API.
+     * Fetches the weather information for a given city using the OpenWeatherMap API (through the injected `HttpClient`).
      * 
      * @param city - The name of the city to fetch the weather for.
+     * @param unit - `metric` (default) or `imperial`, passed to the API as `units`.
      * @returns A promise that resolves to an object containing weather information:
      * - `ok`: A boolean indicating if the request was successful.
      * - `city`: The name of the city.
-     * - `temperature`: The current temperature in Celsius.
+     * - `temperature`: The current temperature in Celsius (Fahrenheit for `imperial`).
      * - `description`: A brief description of the weather.
      * - `humidity`: The humidity percentage.
-     * - `windSpeed`: The wind speed in meters per second.
+     * - `windSpeed`: The wind speed in meters per second (miles per hour for `imperial`).
+     * - `unit`: The unit system of `temperature` and `windSpeed`.
      * 
      * If an error occurs, the promise resolves to an object containing:
      * - `ok`: A boolean indicating the request was not successful.
      * - `error`: A string describing the error.
+     * 
+     * Successful answers are cached per city and unit in the `weather` namespace of the `CacheService`; errors are not.
+     * 
+     * @throws {AppException} If the API timed out or its circuit breaker is open (`UPSTREAM_TIMEOUT`, `UPSTREAM_UNAVAILABLE`).
      */
-    async getWeather(city: string) {
+    async getWeather(city: string, unit: MeasurementUnit = 'metric'): Promise<weatherResponseType> {
+        return this.cacheService.wrap('weather', `${cityCacheKey(city)}|${unit}`, () => this.fetchWeather(city, unit), {
+            cacheIf: (weather) => weather.ok !== false,
+        });
+    }
+
+    private async fetchWeather(city: string, unit: MeasurementUnit): Promise<weatherResponseType> {
         try {
-            const response = await fetch(`https://api.openweathermap.org/data/2.5/weather?q=${city}&appid=${this.configService.get('OPEN_WEATHER_API_KEY')}&units=metric`);
+            const response = await this.httpClient.request({
+                dependency: 'weather',
+                url: `https://api.openweathermap.org/data/2.5/weather?q=${encodeURIComponent(city)}&appid=${this.configService.get('OPEN_WEATHER_API_KEY')}&units=${unit}`,
+            });
             if (!response.ok) throw new Error('Error fetching weather data');
 
-            const data = await response.json();
+            const data = response.body;
             return {
                 ok: true,
                 city: data.name,
                 temperature: data.main.temp,
                 description: data.weather[0].description,
                 humidity: data.main.humidity,
-                windSpeed: data.wind.speed
+                windSpeed: data.wind.speed,
+                unit,
             };
         } catch (error) {
+            if (error instanceof AppException) throw error;
             return {
                 ok: false,
                 error: `Weather API error: ${error.message}`,
@@ -220,17 +289,27 @@ export class AiService {
 
 
     /**
-     * Fetches the population and weather data for a given city.
+     * Fetches the population of a given city using the Place Population Finder API (through the injected `HttpClient`).
      * 
      * @param city - The name of the city to fetch data for.
-     * @returns An object containing the city's population, weather description, temperature, humidity, and wind speed.
-     *          If an error occurs, returns an object with an error message.
+     * @returns An object containing `ok: true`, the city's name, its country and its population.
+     *          If an error occurs, returns `ok: false` with an error message.
      * 
-     * @throws Will throw an error if the response from the API is not ok.
+     * Successful answers are cached per city in the `population` namespace of the `CacheService`; errors are not.
+     * 
+     * @throws {AppException} If the API timed out or its circuit breaker is open (`UPSTREAM_TIMEOUT`, `UPSTREAM_UNAVAILABLE`).
      */
-    async getPopulation(city: string) {
+    async getPopulation(city: string): Promise<populationResponseType> {
+        return this.cacheService.wrap('population', cityCacheKey(city), () => this.fetchPopulation(city), {
+            cacheIf: (population) => population.ok !== false,
+        });
+    }
+
+    private async fetchPopulation(city: string): Promise<populationResponseType> {
         try {
-            const response = await fetch(`https://place-population-finder-api.p.rapidapi.com/${city}`, {
+            const response = await this.httpClient.request({
+                dependency: 'population',
+                url: `https://place-population-finder-api.p.rapidapi.com/${encodeURIComponent(city)}`,
                 headers: {
                     "x-rapidapi-key": this.configService.get('RAPID_API_KEY'),
                     "x-rapidapi-host": "place-population-finder-api.p.rapidapi.com",
@@ -238,16 +317,16 @@ export class AiService {
             });
             if (!response.ok) throw new Error('Error fetching population data');
 
-            const data = await response.json();
+            const data = response.body;
+            if (typeof data?.population !== 'number') throw new Error(`No population data for ${city}`);
             return {
+                ok: true,
                 city: data.city,
+                country: data.country,
                 population: data.population,
-                description: data.weather[0].description,
-                temperature: data.main.temp,
-                humidity: data.main.humidity,
-                windSpeed: data.wind.speed
             };
         } catch (error) {
+            if (error instanceof AppException) throw error;
             return {
                 ok: false,
                 error: `Population API error: ${error.message}`,
@@ -255,3 +334,8 @@ export class AiService {
         }
     }
 }
+
+/** "  New York " and "new york" share a cache entry. */
+function cityCacheKey(city: string) {
+    return city.trim().toLowerCase();
+}
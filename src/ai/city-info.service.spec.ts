@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
+import { join } from 'path';
+import { CityInfoService } from './city-info.service';
+import { CITY_TOOLSET } from './dto/city-tools/city-tools.dto';
+import { CityInfoProvider } from './providers/city-info.provider';
+import { StaticCityInfoProvider } from './providers/static-city-info.provider';
+import { ToolRegistry } from '../tools/tool-registry.service';
+import { CacheService } from '../cache/cache.service';
+import { CacheStore } from '../cache/cache.store';
+import { MemoryCacheStore } from '../cache/stores/memory-cache.store';
+import { CircuitOpenException } from '../common/errors/app.exception';
+
+const CITY_INFO_FILE = join(__dirname, '..', '..', 'data', 'city-info.json');
+const NOW = new Date('2024-10-19T15:30:00Z');
+
+describe('CityInfoService', () => {
+  let service: CityInfoService;
+  let registry: ToolRegistry;
+  let provider: StaticCityInfoProvider;
+
+  beforeEach(async () => {
+    provider = new StaticCityInfoProvider(CITY_INFO_FILE, () => NOW);
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        CityInfoService,
+        ConfigService,
+        ToolRegistry,
+        CacheService,
+        { provide: CacheStore, useValue: new MemoryCacheStore() },
+        { provide: CityInfoProvider, useValue: provider },
+      ],
+    }).compile();
+
+    service = module.get<CityInfoService>(CityInfoService);
+    registry = module.get<ToolRegistry>(ToolRegistry);
+    await module.init();
+  });
+
+  it('registers the extended city tools', () => {
+    expect(
+      registry.getTools(CITY_TOOLSET).map((tool) => tool.function.name),
+    ).toEqual(['geocodeCity', 'getForecast', 'getAirQuality', 'getLocalTime']);
+  });
+
+  describe('geocodeCity', () => {
+    it('lists every place with the name, accents ignored', async () => {
+      expect(await service.geocodeCityTool({ city: 'paris' })).toBe(
+        'Places named paris: Paris, Ile-de-France, FR (48.8589, 2.32); Paris, Texas, US (33.6609, -95.5555)',
+      );
+      expect(await service.geocodeCity('Bogota')).toMatchObject({
+        ok: true,
+        places: [{ name: 'Bogotá', country: 'CO' }],
+      });
+    });
+
+    it('narrows the matches with the country qualifier', async () => {
+      expect(await service.geocodeCity('London', 'ca')).toEqual({
+        ok: true,
+        query: 'London, CA',
+        places: [
+          {
+            name: 'London',
+            country: 'CA',
+            state: 'Ontario',
+            lat: 42.9832,
+            lon: -81.2433,
+          },
+        ],
+      });
+    });
+  });
+
+  describe('getForecast', () => {
+    it('forecasts consecutive local days', async () => {
+      const forecast = await service.getForecast('Bogotá', { days: 2 });
+
+      expect(forecast).toMatchObject({
+        ok: true,
+        place: { name: 'Bogotá', country: 'CO' },
+        unit: 'metric',
+        days: [
+          { date: '2024-10-19', description: 'light rain' },
+          { date: '2024-10-20', precipitationProbability: 95 },
+        ],
+      });
+    });
+
+    it('describes the forecast in imperial units', async () => {
+      const text = await service.getForecastTool({
+        city: 'Paris',
+        country: 'US',
+        days: 1,
+        unit: 'imperial',
+      });
+
+      expect(text).toBe(
+        'Forecast for Paris, Texas, US:\n2024-10-19: clear sky, 54.1–80.2°F, 0% chance of precipitation, wind up to 7.61 mph',
+      );
+    });
+
+    it('returns an error for an unknown city', async () => {
+      expect(await service.getForecast('Atlantis')).toEqual({
+        ok: false,
+        error: 'Forecast API error: No city named Atlantis was found',
+      });
+      await expect(
+        service.getForecastTool({ city: 'Atlantis', country: 'GR' }),
+      ).rejects.toThrow(
+        'getForecast failed: Forecast API error: No city named Atlantis in GR was found',
+      );
+    });
+
+    it('caches forecasts per place, days and unit', async () => {
+      const forecast = jest.spyOn(provider, 'forecast');
+
+      await service.getForecast('Madrid');
+      await service.getForecast('madrid');
+      await service.getForecast('Madrid', { unit: 'imperial' });
+
+      expect(forecast).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getAirQuality', () => {
+    it('names the air quality level', async () => {
+      expect(await service.getAirQualityTool({ city: 'Madrid' })).toBe(
+        'The air quality in Madrid, Community of Madrid, ES is Fair (AQI 2 of 5). Concentrations in μg/m³: pm2_5 8.4, pm10 14.1, o3 61.2, no2 18.7, so2 2.1, co 226.9',
+      );
+    });
+
+    it('passes breaker errors on so the model is told the tool is unavailable', async () => {
+      jest
+        .spyOn(provider, 'airQuality')
+        .mockRejectedValue(new CircuitOpenException('air-quality', 10000));
+
+      await expect(service.getAirQuality('Madrid')).rejects.toBeInstanceOf(
+        CircuitOpenException,
+      );
+    });
+  });
+
+  describe('getLocalTime', () => {
+    it('gives the wall-clock time of the city', async () => {
+      expect(await service.getLocalTime('Tokyo', undefined, NOW)).toEqual({
+        ok: true,
+        place: expect.objectContaining({ name: 'Tokyo', country: 'JP' }),
+        timezone: 'Asia/Tokyo',
+        utcOffset: '+09:00',
+        localTime: '2024-10-20T00:30:00',
+      });
+    });
+
+    it('tells apart cities with the same name', async () => {
+      const time = await service.getLocalTime('London', 'CA', NOW);
+
+      expect(time).toMatchObject({
+        timezone: 'America/Toronto',
+        localTime: '2024-10-19T11:30:00',
+      });
+    });
+  });
+});
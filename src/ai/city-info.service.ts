@@ -0,0 +1,254 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AppException,
+  ToolFailureException,
+} from '../common/errors/app.exception';
+import { CacheService } from '../cache/cache.service';
+import { AiTool } from '../tools/decorators/ai-tool.decorator';
+import {
+  CITY_TOOLSET,
+  GeocodeCityToolArgs,
+  GetAirQualityToolArgs,
+  GetForecastToolArgs,
+  GetLocalTimeToolArgs,
+  MeasurementUnit,
+  UNIT_SYMBOLS,
+} from './dto/city-tools/city-tools.dto';
+import {
+  airQualityResponseType,
+  forecastResponseType,
+  geocodeResponseType,
+  localTimeResponseType,
+  placeTypes,
+} from './dto/get-prompt/get-prompt.dto';
+import { CityInfoProvider } from './providers/city-info.provider';
+import { zonedTime } from './utils/local-time';
+
+/** Names of the OpenWeatherMap air quality index, from 1 to 5. */
+const AQI_LEVELS = ['Good', 'Fair', 'Moderate', 'Poor', 'Very poor'];
+
+/**
+ * Extended `city` tools: geocoding, multi-day forecast, air quality and
+ * local time, backed by the configured `CityInfoProvider`.
+ *
+ * Every lookup resolves the city first (the best match, restricted to
+ * `country` when given), so "Paris" and "Paris, US" can be told apart.
+ * Provider answers are cached; failures are returned as `ok: false` and
+ * reported to the model as tool errors.
+ */
+@Injectable()
+export class CityInfoService {
+  constructor(
+    private readonly cityInfoProvider: CityInfoProvider,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  @AiTool({
+    name: 'geocodeCity',
+    description:
+      'List the places that match a city name, with their region, country code and coordinates. Use it when a city name is ambiguous',
+    schema: GeocodeCityToolArgs,
+    toolsets: [CITY_TOOLSET],
+    label: 'Looking up the city…',
+  })
+  async geocodeCityTool({ city, country }: GeocodeCityToolArgs) {
+    const result = await this.geocodeCity(city, country);
+    if (result.ok === false) {
+      throw new ToolFailureException('geocodeCity', result.error);
+    }
+    if (!result.places.length) {
+      return `No place named ${result.query} was found`;
+    }
+    return `Places named ${result.query}: ${result.places
+      .map((place) => `${formatPlace(place)} (${place.lat}, ${place.lon})`)
+      .join('; ')}`;
+  }
+
+  @AiTool({
+    name: 'getForecast',
+    description:
+      'Get the daily weather forecast of a city for up to 5 days, starting today',
+    schema: GetForecastToolArgs,
+    toolsets: [CITY_TOOLSET],
+    label: 'Checking the forecast…',
+  })
+  async getForecastTool({ city, country, days, unit }: GetForecastToolArgs) {
+    const forecast = await this.getForecast(city, { country, days, unit });
+    if (forecast.ok === false) {
+      throw new ToolFailureException('getForecast', forecast.error);
+    }
+    const symbols = UNIT_SYMBOLS[forecast.unit];
+    const lines = forecast.days.map(
+      (day) =>
+        `${day.date}: ${day.description}, ${day.minTemperature}–${day.maxTemperature}${symbols.temperature}, ${day.precipitationProbability}% chance of precipitation, wind up to ${day.windSpeed} ${symbols.windSpeed}`,
+    );
+    return `Forecast for ${formatPlace(forecast.place)}:\n${lines.join('\n')}`;
+  }
+
+  @AiTool({
+    name: 'getAirQuality',
+    description: 'Get the current air quality of a city',
+    schema: GetAirQualityToolArgs,
+    toolsets: [CITY_TOOLSET],
+    label: 'Checking the air quality…',
+  })
+  async getAirQualityTool({ city, country }: GetAirQualityToolArgs) {
+    const airQuality = await this.getAirQuality(city, country);
+    if (airQuality.ok === false) {
+      throw new ToolFailureException('getAirQuality', airQuality.error);
+    }
+    const components = Object.entries(airQuality.components)
+      .map(([name, value]) => `${name} ${value}`)
+      .join(', ');
+    return `The air quality in ${formatPlace(airQuality.place)} is ${airQuality.level} (AQI ${airQuality.aqi} of 5). Concentrations in μg/m³: ${components}`;
+  }
+
+  @AiTool({
+    name: 'getLocalTime',
+    description: 'Get the current local time and time zone of a city',
+    schema: GetLocalTimeToolArgs,
+    toolsets: [CITY_TOOLSET],
+    label: 'Checking the local time…',
+  })
+  async getLocalTimeTool({ city, country }: GetLocalTimeToolArgs) {
+    const time = await this.getLocalTime(city, country);
+    if (time.ok === false) {
+      throw new ToolFailureException('getLocalTime', time.error);
+    }
+    return `The local time in ${formatPlace(time.place)} is ${time.localTime} (${time.timezone}, UTC${time.utcOffset})`;
+  }
+
+  /**
+   * Places named `city`, best match first. Cached in the `geocoding` namespace.
+   *
+   * @param country - ISO 3166-1 alpha-2 code that restricts the matches.
+   * @throws {AppException} If the API timed out, rejected the key or its circuit breaker is open.
+   */
+  async geocodeCity(
+    city: string,
+    country?: string,
+  ): Promise<geocodeResponseType> {
+    const query = country ? `${city}, ${country.toUpperCase()}` : city;
+    try {
+      return { ok: true, query, places: await this.places(city, country) };
+    } catch (error) {
+      return failure('Geocoding', error);
+    }
+  }
+
+  /**
+   * Daily forecast of the best match for `city`. Cached in the `forecast` namespace.
+   *
+   * @param options - `country` qualifier, number of `days` (3 by default) and `unit` system.
+   * @throws {AppException} If the API timed out, rejected the key or its circuit breaker is open.
+   */
+  async getForecast(
+    city: string,
+    {
+      country,
+      days = 3,
+      unit = 'metric',
+    }: { country?: string; days?: number; unit?: MeasurementUnit } = {},
+  ): Promise<forecastResponseType> {
+    try {
+      const place = await this.resolvePlace(city, country);
+      const forecast = await this.cacheService.wrap(
+        'forecast',
+        `${placeKey(place)}|${days}|${unit}`,
+        () => this.cityInfoProvider.forecast(place, days, unit),
+      );
+      return { ok: true, place, unit, days: forecast };
+    } catch (error) {
+      return failure('Forecast', error);
+    }
+  }
+
+  /**
+   * Current air quality of the best match for `city`. Cached in the `air-quality` namespace.
+   *
+   * @throws {AppException} If the API timed out, rejected the key or its circuit breaker is open.
+   */
+  async getAirQuality(
+    city: string,
+    country?: string,
+  ): Promise<airQualityResponseType> {
+    try {
+      const place = await this.resolvePlace(city, country);
+      const { aqi, components } = await this.cacheService.wrap(
+        'air-quality',
+        placeKey(place),
+        () => this.cityInfoProvider.airQuality(place),
+      );
+      return {
+        ok: true,
+        place,
+        aqi,
+        level: AQI_LEVELS[aqi - 1] ?? 'Unknown',
+        components,
+      };
+    } catch (error) {
+      return failure('Air quality', error);
+    }
+  }
+
+  /**
+   * Local time of the best match for `city`. The time zone is cached in the
+   * `timezone` namespace; the time itself is computed at `now`.
+   *
+   * @throws {AppException} If the API timed out, rejected the key or its circuit breaker is open.
+   */
+  async getLocalTime(
+    city: string,
+    country?: string,
+    now = new Date(),
+  ): Promise<localTimeResponseType> {
+    try {
+      const place = await this.resolvePlace(city, country);
+      const timezone = await this.cacheService.wrap(
+        'timezone',
+        placeKey(place),
+        () => this.cityInfoProvider.timezone(place),
+      );
+      return { ok: true, place, timezone, ...zonedTime(timezone, now) };
+    } catch (error) {
+      return failure('Time zone', error);
+    }
+  }
+
+  private places(city: string, country?: string): Promise<placeTypes[]> {
+    return this.cacheService.wrap(
+      'geocoding',
+      `${city.trim().toLowerCase()}|${country?.toUpperCase() ?? ''}`,
+      () => this.cityInfoProvider.geocode(city.trim(), country?.toUpperCase()),
+      { cacheIf: (places) => places.length > 0 },
+    );
+  }
+
+  private async resolvePlace(
+    city: string,
+    country?: string,
+  ): Promise<placeTypes> {
+    const [place] = await this.places(city, country);
+    if (!place) {
+      throw new Error(
+        `No city named ${city}${country ? ` in ${country.toUpperCase()}` : ''} was found`,
+      );
+    }
+    return place;
+  }
+}
+
+/** e.g. "Paris, Texas, US". */
+function formatPlace(place: placeTypes): string {
+  return [place.name, place.state, place.country].filter(Boolean).join(', ');
+}
+
+function placeKey(place: placeTypes): string {
+  return `${place.lat},${place.lon}`;
+}
+
+/** Catalogue errors (timeouts, open breakers…) are passed on; anything else becomes `ok: false`. */
+function failure(api: string, error: Error): { ok: false; error: string } {
+  if (error instanceof AppException) throw error;
+  return { ok: false, error: `${api} API error: ${error.message}` };
+}
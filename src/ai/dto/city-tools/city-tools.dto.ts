@@ -0,0 +1,128 @@
+import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+
+/** Tool set exposed by `POST /ai/prompt`. */
+export const CITY_TOOLSET = 'city';
+
+/** Unit systems of OpenWeatherMap: °C and m/s, or °F and mph. */
+export const MEASUREMENT_UNITS = ['metric', 'imperial'] as const;
+export type MeasurementUnit = (typeof MEASUREMENT_UNITS)[number];
+
+/** Symbols of the temperature and wind speed of each unit system. */
+export const UNIT_SYMBOLS: Record<
+  MeasurementUnit,
+  { temperature: string; windSpeed: string }
+> = {
+  metric: { temperature: '°C', windSpeed: 'm/s' },
+  imperial: { temperature: '°F', windSpeed: 'mph' },
+};
+
+const measurementUnit = () =>
+  Joi.string()
+    .valid(...MEASUREMENT_UNITS)
+    .default('metric')
+    .description(
+      'Unit system of the answer: "metric" (°C, m/s) or "imperial" (°F, mph). Use imperial when the user asks for Fahrenheit or miles',
+    );
+
+/** Optional country of a city tool, to tell apart cities with the same name. */
+const countryQualifier = () =>
+  Joi.string()
+    .pattern(/^[a-zA-Z]{2}$/)
+    .uppercase()
+    .messages({
+      'string.pattern.base':
+        '{{#label}} must be an ISO 3166-1 alpha-2 country code, e.g. "CO"',
+    })
+    .description(
+      'ISO 3166-1 alpha-2 code of the country of the city, e.g. "CO" for Bogotá, Colombia. Pass it when the user names the country or a city name is ambiguous',
+    );
+
+export const getWeatherToolSchema = Joi.object({
+  city: Joi.string()
+    .required()
+    .description('The name of the city to get the weather for'),
+  unit: measurementUnit(),
+});
+
+export const getPopulationToolSchema = Joi.object({
+  city: Joi.string()
+    .required()
+    .description('The name of the city to get the population for'),
+});
+
+export const geocodeCityToolSchema = Joi.object({
+  city: Joi.string().required().description('The name of the city to look up'),
+  country: countryQualifier(),
+});
+
+export const getForecastToolSchema = Joi.object({
+  city: Joi.string()
+    .required()
+    .description('The name of the city to get the forecast for'),
+  country: countryQualifier(),
+  days: Joi.number()
+    .integer()
+    .min(1)
+    .max(5)
+    .default(3)
+    .description('Number of days to forecast, starting today'),
+  unit: measurementUnit(),
+});
+
+export const getAirQualityToolSchema = Joi.object({
+  city: Joi.string()
+    .required()
+    .description('The name of the city to get the air quality for'),
+  country: countryQualifier(),
+});
+
+export const getLocalTimeToolSchema = Joi.object({
+  city: Joi.string()
+    .required()
+    .description('The name of the city to get the local time for'),
+  country: countryQualifier(),
+});
+
+/** Arguments of the `getWeather` tool. */
+@JoiSchema(getWeatherToolSchema)
+export class GetWeatherToolArgs {
+  city: string;
+  unit?: MeasurementUnit;
+}
+
+/** Arguments of the `getPopulation` tool. */
+@JoiSchema(getPopulationToolSchema)
+export class GetPopulationToolArgs {
+  city: string;
+}
+
+/** Arguments of the `geocodeCity` tool. */
+@JoiSchema(geocodeCityToolSchema)
+export class GeocodeCityToolArgs {
+  city: string;
+  country?: string;
+}
+
+/** Arguments of the `getForecast` tool. */
+@JoiSchema(getForecastToolSchema)
+export class GetForecastToolArgs {
+  city: string;
+  country?: string;
+  days?: number;
+  unit?: MeasurementUnit;
+}
+
+/** Arguments of the `getAirQuality` tool. */
+@JoiSchema(getAirQualityToolSchema)
+export class GetAirQualityToolArgs {
+  city: string;
+  country?: string;
+}
+
+/** Arguments of the `getLocalTime` tool. */
+@JoiSchema(getLocalTimeToolSchema)
+export class GetLocalTimeToolArgs {
+  city: string;
+  country?: string;
+}
@@ -1,27 +1,104 @@
 import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+import { MeasurementUnit } from '../city-tools/city-tools.dto';
 
 export const getPromptSchema = Joi.object({
-    prompt: Joi.string().min(10).max(512).required(),
+    prompt: Joi.string().min(10).max(512).required()
+        .description('The prompt to be sent to the AI')
+        .example('What is the weather in Bogotá?'),
+    conversationId: Joi.string().uuid().optional()
+        .description('ID returned by a previous response, to continue that conversation'),
+    locale: Joi.string().pattern(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/).optional()
+        .messages({ 'string.pattern.base': '{{#label}} must be a BCP 47 language tag, e.g. "es" or "pt-BR"' })
+        .description('BCP 47 language tag the answer should be written in; defaults to the language of the prompt')
+        .example('es-CO'),
 });
 
+/** Body (or query) of the AI prompt endpoints. */
+@JoiSchema(getPromptSchema)
+export class GetPrompt {
+    prompt: string;
+    conversationId?: string;
+    locale?: string;
+}
+
 export type populationTypes = {
-    ok?: boolean,
-    error?: string,
+    ok: true,
     city: string,
+    country: string,
     population: number
 }
 export type weatherTypes = {
-    ok?: boolean,
+    ok: true,
     city: string,
     description: string,
     temperature: number,
     humidity: number,
     windSpeed: number,
+    unit: MeasurementUnit,
 }
 
 export type weatherTypesError = {
-    ok?: false,
+    ok: false,
     error: string,
 }
 
-export type weatherResponseType = weatherTypes | weatherTypesError;
\ No newline at end of file
+export type weatherResponseType = weatherTypes | weatherTypesError;
+export type populationResponseType = populationTypes | weatherTypesError;
+
+export type placeTypes = {
+    name: string,
+    /** ISO 3166-1 alpha-2 code, e.g. "CO". */
+    country: string,
+    state?: string,
+    lat: number,
+    lon: number,
+}
+export type geocodeTypes = {
+    ok: true,
+    query: string,
+    places: placeTypes[],
+}
+
+export type forecastDayTypes = {
+    /** Local date, YYYY-MM-DD. */
+    date: string,
+    description: string,
+    minTemperature: number,
+    maxTemperature: number,
+    /** Highest chance of precipitation of the day, 0–100. */
+    precipitationProbability: number,
+    windSpeed: number,
+}
+export type forecastTypes = {
+    ok: true,
+    place: placeTypes,
+    unit: MeasurementUnit,
+    days: forecastDayTypes[],
+}
+
+export type airQualityTypes = {
+    ok: true,
+    place: placeTypes,
+    /** OpenWeatherMap index, from 1 (good) to 5 (very poor). */
+    aqi: number,
+    level: string,
+    /** Pollutant concentrations in μg/m³, e.g. `pm2_5`, `pm10`, `o3`. */
+    components: Record<string, number>,
+}
+
+export type localTimeTypes = {
+    ok: true,
+    place: placeTypes,
+    /** IANA time zone, e.g. "Europe/Madrid". */
+    timezone: string,
+    /** Offset from UTC, e.g. "+02:00". */
+    utcOffset: string,
+    /** Wall-clock time, YYYY-MM-DDTHH:mm:ss. */
+    localTime: string,
+}
+
+export type geocodeResponseType = geocodeTypes | weatherTypesError;
+export type forecastResponseType = forecastTypes | weatherTypesError;
+export type airQualityResponseType = airQualityTypes | weatherTypesError;
+export type localTimeResponseType = localTimeTypes | weatherTypesError;
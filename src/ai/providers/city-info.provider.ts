@@ -0,0 +1,37 @@
+import { MeasurementUnit } from '../dto/city-tools/city-tools.dto';
+import {
+  airQualityTypes,
+  forecastDayTypes,
+  placeTypes,
+} from '../dto/get-prompt/get-prompt.dto';
+
+export type AirQualityReading = Pick<airQualityTypes, 'aqi' | 'components'>;
+
+/**
+ * Source of the extended city data of the `city` tools: geocoding, forecast,
+ * air quality and time zone. Pick the implementation with
+ * `CITY_INFO_PROVIDER`; see `AiModule`.
+ */
+export abstract class CityInfoProvider {
+  /** e.g. "openweathermap". */
+  abstract readonly id: string;
+
+  /**
+   * Places named `city`, best match first.
+   *
+   * @param country - ISO 3166-1 alpha-2 code that restricts the matches.
+   */
+  abstract geocode(city: string, country?: string): Promise<placeTypes[]>;
+
+  /** Daily forecast of a place, starting today (local date). */
+  abstract forecast(
+    place: placeTypes,
+    days: number,
+    unit: MeasurementUnit,
+  ): Promise<forecastDayTypes[]>;
+
+  abstract airQuality(place: placeTypes): Promise<AirQualityReading>;
+
+  /** IANA time zone of a place, e.g. "America/Bogota". */
+  abstract timezone(place: placeTypes): Promise<string>;
+}
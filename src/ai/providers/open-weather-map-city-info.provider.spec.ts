@@ -0,0 +1,102 @@
+import { join } from 'path';
+import { FetchHttpClient } from '../../http/clients/fetch-http.client';
+import { RecordReplayHttpClient } from '../../http/clients/record-replay-http.client';
+import { HttpClient } from '../../http/http-client';
+import { OpenWeatherMapCityInfoProvider } from './open-weather-map-city-info.provider';
+
+const FIXTURES_DIR = join(
+  __dirname,
+  '..',
+  '..',
+  '..',
+  'test',
+  'fixtures',
+  'http',
+);
+
+describe('OpenWeatherMapCityInfoProvider', () => {
+  const bogota = {
+    name: 'Bogotá',
+    country: 'CO',
+    lat: 4.6534,
+    lon: -74.0837,
+  };
+  let provider: OpenWeatherMapCityInfoProvider;
+
+  beforeEach(() => {
+    provider = new OpenWeatherMapCityInfoProvider(
+      new RecordReplayHttpClient(new FetchHttpClient(), FIXTURES_DIR, 'replay'),
+      'test-key',
+    );
+  });
+
+  it('geocodes a city, optionally within a country', async () => {
+    const places = await provider.geocode('Paris');
+
+    expect(places.map((place) => place.country)).toEqual(['FR', 'US', 'US']);
+    expect(places[1]).toEqual({
+      name: 'Paris',
+      country: 'US',
+      state: 'Texas',
+      lat: 33.6617962,
+      lon: -95.555513,
+    });
+    expect(await provider.geocode('Paris', 'US')).toHaveLength(2);
+  });
+
+  it('folds the 3-hour forecast into local days', async () => {
+    expect(await provider.forecast(bogota, 5, 'metric')).toEqual([
+      {
+        date: '2024-10-19',
+        description: 'light rain',
+        minTemperature: 9.1,
+        maxTemperature: 18.6,
+        precipitationProbability: 80,
+        windSpeed: 3.1,
+      },
+      {
+        date: '2024-10-20',
+        description: 'scattered clouds',
+        minTemperature: 8.7,
+        maxTemperature: 18,
+        precipitationProbability: 40,
+        windSpeed: 3.4,
+      },
+    ]);
+    expect(await provider.forecast(bogota, 1, 'metric')).toHaveLength(1);
+  });
+
+  it('reads the main pollutants of the air quality', async () => {
+    expect(await provider.airQuality(bogota)).toEqual({
+      aqi: 3,
+      components: {
+        pm2_5: 21.3,
+        pm10: 34.8,
+        o3: 38.5,
+        no2: 29.4,
+        so2: 6.2,
+        co: 410.56,
+      },
+    });
+  });
+
+  it('finds the time zone of a place', async () => {
+    expect(await provider.timezone(bogota)).toBe('America/Bogota');
+  });
+
+  it('reports a rejected API key', async () => {
+    const httpClient: HttpClient = {
+      request: jest.fn().mockResolvedValue({
+        status: 401,
+        ok: false,
+        body: { cod: 401, message: 'Invalid API key' },
+      }),
+    };
+
+    await expect(
+      new OpenWeatherMapCityInfoProvider(httpClient, 'bad-key').geocode(
+        'Paris',
+      ),
+    ).rejects.toThrow('OpenWeatherMap rejected the configured credentials');
+  });
+});
@@ -0,0 +1,157 @@
+import { UpstreamAuthException } from '../../common/errors/app.exception';
+import { HttpClient } from '../../http/http-client';
+import { MeasurementUnit } from '../dto/city-tools/city-tools.dto';
+import { forecastDayTypes, placeTypes } from '../dto/get-prompt/get-prompt.dto';
+import { AirQualityReading, CityInfoProvider } from './city-info.provider';
+
+const API_URL = 'https://api.openweathermap.org';
+const MAX_GEOCODE_RESULTS = 5;
+
+/** Pollutants reported by the air quality tool, in μg/m³. */
+const AIR_COMPONENTS = ['pm2_5', 'pm10', 'o3', 'no2', 'so2', 'co'];
+
+interface ForecastEntry {
+  dt: number;
+  main: { temp_min: number; temp_max: number };
+  weather: { description: string }[];
+  wind: { speed: number };
+  pop?: number;
+}
+
+/**
+ * Geocoding, 5-day forecast and air pollution from OpenWeatherMap (same
+ * `OPEN_WEATHER_API_KEY` as `getWeather`), and time zones from timeapi.io,
+ * which needs no key.
+ */
+export class OpenWeatherMapCityInfoProvider extends CityInfoProvider {
+  readonly id = 'openweathermap';
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly apiKey: string,
+  ) {
+    super();
+  }
+
+  async geocode(city: string, country?: string): Promise<placeTypes[]> {
+    const query = country ? `${city},${country}` : city;
+    const body = await this.get<
+      {
+        name: string;
+        country: string;
+        state?: string;
+        lat: number;
+        lon: number;
+      }[]
+    >(
+      'geocoding',
+      `/geo/1.0/direct?q=${encodeURIComponent(query)}&limit=${MAX_GEOCODE_RESULTS}`,
+    );
+    return body.map(({ name, country, state, lat, lon }) => ({
+      name,
+      country,
+      ...(state && { state }),
+      lat,
+      lon,
+    }));
+  }
+
+  async forecast(
+    place: placeTypes,
+    days: number,
+    unit: MeasurementUnit,
+  ): Promise<forecastDayTypes[]> {
+    const body = await this.get<{
+      list: ForecastEntry[];
+      city: { timezone: number };
+    }>(
+      'forecast',
+      `/data/2.5/forecast?lat=${place.lat}&lon=${place.lon}&units=${unit}`,
+    );
+    return dailyForecast(body.list, body.city.timezone).slice(0, days);
+  }
+
+  async airQuality(place: placeTypes): Promise<AirQualityReading> {
+    const body = await this.get<{
+      list: { main: { aqi: number }; components: Record<string, number> }[];
+    }>(
+      'air-quality',
+      `/data/2.5/air_pollution?lat=${place.lat}&lon=${place.lon}`,
+    );
+    const [current] = body.list;
+    if (!current)
+      throw new Error('OpenWeatherMap returned no air quality data');
+
+    const components: Record<string, number> = {};
+    for (const name of AIR_COMPONENTS) {
+      if (current.components[name] !== undefined) {
+        components[name] = current.components[name];
+      }
+    }
+    return { aqi: current.main.aqi, components };
+  }
+
+  async timezone(place: placeTypes): Promise<string> {
+    const response = await this.httpClient.request<{ timeZone?: string }>({
+      dependency: 'timezone',
+      url: `https://timeapi.io/api/timezone/coordinate?latitude=${place.lat}&longitude=${place.lon}`,
+    });
+    if (!response.ok || !response.body?.timeZone) {
+      throw new Error(`timeapi.io answered with status ${response.status}`);
+    }
+    return response.body.timeZone;
+  }
+
+  private async get<T>(dependency: string, path: string): Promise<T> {
+    const response = await this.httpClient.request<T>({
+      dependency,
+      url: `${API_URL}${path}&appid=${encodeURIComponent(this.apiKey)}`,
+    });
+    if (response.status === 401) {
+      throw new UpstreamAuthException('OpenWeatherMap');
+    }
+    if (!response.ok) {
+      throw new Error(`OpenWeatherMap answered with status ${response.status}`);
+    }
+    return response.body;
+  }
+}
+
+/**
+ * Folds the 3-hour steps of the forecast into local days: lowest and highest
+ * temperature, highest chance of precipitation and wind speed, and the most
+ * frequent description.
+ */
+function dailyForecast(
+  entries: ForecastEntry[],
+  timezoneOffsetSeconds: number,
+): forecastDayTypes[] {
+  const days = new Map<string, ForecastEntry[]>();
+  for (const entry of entries) {
+    const date = new Date((entry.dt + timezoneOffsetSeconds) * 1000)
+      .toISOString()
+      .slice(0, 10);
+    days.set(date, [...(days.get(date) ?? []), entry]);
+  }
+
+  return [...days].map(([date, steps]) => {
+    const descriptions = new Map<string, number>();
+    for (const step of steps) {
+      const description = step.weather[0]?.description;
+      if (description) {
+        descriptions.set(description, (descriptions.get(description) ?? 0) + 1);
+      }
+    }
+    return {
+      date,
+      description:
+        [...descriptions].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'unknown',
+      minTemperature: Math.min(...steps.map((step) => step.main.temp_min)),
+      maxTemperature: Math.max(...steps.map((step) => step.main.temp_max)),
+      precipitationProbability: Math.round(
+        Math.max(...steps.map((step) => step.pop ?? 0)) * 100,
+      ),
+      windSpeed: Math.max(...steps.map((step) => step.wind.speed)),
+    };
+  });
+}
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import { MeasurementUnit } from '../dto/city-tools/city-tools.dto';
+import { forecastDayTypes, placeTypes } from '../dto/get-prompt/get-prompt.dto';
+import { addDays, zonedTime } from '../utils/local-time';
+import { AirQualityReading, CityInfoProvider } from './city-info.provider';
+
+interface CityInfoEntry extends placeTypes {
+  timezone: string;
+  airQuality: AirQualityReading;
+  /** Metric forecast of consecutive days, the first one being today. */
+  forecast: Omit<forecastDayTypes, 'date'>[];
+}
+
+/**
+ * Offline city data from a JSON table (`data/city-info.json` by default),
+ * shaped as `{ cities: [...] }`. Forecast days are dated from today in the
+ * city's time zone, and converted when imperial units are asked for.
+ */
+export class StaticCityInfoProvider extends CityInfoProvider {
+  readonly id = 'static';
+  private table?: Promise<CityInfoEntry[]>;
+
+  constructor(
+    private readonly file: string,
+    private readonly now: () => Date = () => new Date(),
+  ) {
+    super();
+  }
+
+  async geocode(city: string, country?: string): Promise<placeTypes[]> {
+    const name = normalize(city);
+    return (await this.load())
+      .filter(
+        (entry) =>
+          normalize(entry.name) === name &&
+          (!country || entry.country === country.toUpperCase()),
+      )
+      .map(({ name, country, state, lat, lon }) => ({
+        name,
+        country,
+        ...(state && { state }),
+        lat,
+        lon,
+      }));
+  }
+
+  async forecast(
+    place: placeTypes,
+    days: number,
+    unit: MeasurementUnit,
+  ): Promise<forecastDayTypes[]> {
+    const entry = await this.find(place);
+    const today = zonedTime(entry.timezone, this.now()).localTime.slice(0, 10);
+    return entry.forecast.slice(0, days).map((day, index) => ({
+      ...day,
+      date: addDays(today, index),
+      ...(unit === 'imperial' && {
+        minTemperature: toFahrenheit(day.minTemperature),
+        maxTemperature: toFahrenheit(day.maxTemperature),
+        windSpeed: Math.round(day.windSpeed * 2.23694 * 100) / 100,
+      }),
+    }));
+  }
+
+  async airQuality(place: placeTypes): Promise<AirQualityReading> {
+    return (await this.find(place)).airQuality;
+  }
+
+  async timezone(place: placeTypes): Promise<string> {
+    return (await this.find(place)).timezone;
+  }
+
+  private async find(place: placeTypes): Promise<CityInfoEntry> {
+    const entry = (await this.load()).find(
+      (candidate) =>
+        candidate.name === place.name && candidate.country === place.country,
+    );
+    if (!entry) {
+      throw new Error(`No static data for ${place.name}, ${place.country}`);
+    }
+    return entry;
+  }
+
+  private load(): Promise<CityInfoEntry[]> {
+    this.table ??= fs
+      .readFile(this.file, 'utf8')
+      .then((raw) => (JSON.parse(raw) as { cities: CityInfoEntry[] }).cities)
+      .catch((error) => {
+        this.table = undefined;
+        throw new Error(
+          `Cannot read city table ${this.file}: ${error.message}`,
+        );
+      });
+    return this.table;
+  }
+}
+
+/** "Bogotá" and "bogota" are the same city. */
+function normalize(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function toFahrenheit(celsius: number): number {
+  return Math.round(((celsius * 9) / 5 + 32) * 10) / 10;
+}
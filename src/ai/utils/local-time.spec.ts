@@ -0,0 +1,27 @@
+import { addDays, zonedTime } from './local-time';
+
+describe('zonedTime', () => {
+  const now = new Date('2024-10-19T15:30:00Z');
+
+  it('applies the offset of the time zone, daylight saving included', () => {
+    expect(zonedTime('Europe/Madrid', now)).toEqual({
+      localTime: '2024-10-19T17:30:00',
+      utcOffset: '+02:00',
+    });
+    expect(zonedTime('America/Bogota', now)).toEqual({
+      localTime: '2024-10-19T10:30:00',
+      utcOffset: '-05:00',
+    });
+    expect(zonedTime('UTC', now).utcOffset).toBe('+00:00');
+  });
+
+  it('rejects unknown time zones', () => {
+    expect(() => zonedTime('Mars/Olympus_Mons', now)).toThrow(RangeError);
+  });
+});
+
+describe('addDays', () => {
+  it('crosses month ends', () => {
+    expect(addDays('2024-10-31', 1)).toBe('2024-11-01');
+  });
+});
@@ -0,0 +1,43 @@
+/** Wall-clock time of an IANA time zone. */
+export interface ZonedTime {
+  /** YYYY-MM-DDTHH:mm:ss, without offset. */
+  localTime: string;
+  /** Offset from UTC, e.g. "+02:00" or "-05:00". */
+  utcOffset: string;
+}
+
+/**
+ * Local time of `timezone` at the instant `now`, daylight saving included.
+ *
+ * @throws {RangeError} If `timezone` is not a known IANA time zone.
+ */
+export function zonedTime(timezone: string, now = new Date()): ZonedTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      timeZoneName: 'longOffset',
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value]),
+  );
+  // "GMT+02:00", or plain "GMT" for UTC itself
+  const offset = parts.timeZoneName.replace('GMT', '') || '+00:00';
+  return {
+    localTime: `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}`,
+    utcOffset: offset,
+  };
+}
+
+/** YYYY-MM-DD `days` after the date `date` (YYYY-MM-DD). */
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
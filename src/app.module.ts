@@ -1,18 +1,37 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { APP_FILTER, APP_PIPE } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AiModule } from './ai/ai.module';
-import { AiService } from './ai/ai.service';
 import { ConfigModule } from '@nestjs/config';
 import { ProductsModule } from './products/products.module';
-import { ProductsService } from './products/products.service';
+import { ConversationsModule } from './conversations/conversations.module';
+import { CurrenciesModule } from './currencies/currencies.module';
+import { HealthModule } from './health/health.module';
+import { CacheModule } from './cache/cache.module';
+import { UsageModule } from './usage/usage.module';
+import { PromptsModule } from './prompts/prompts.module';
+import { CartModule } from './cart/cart.module';
+import { TranscriptsModule } from './transcripts/transcripts.module';
+import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
+import { CorrelationIdMiddleware } from './common/middleware/correlation-id.middleware';
+import { RequestLoggingMiddleware } from './common/middleware/request-logging.middleware';
+import { JoiValidationPipe } from './common/validation/joi-validation.pipe';
 
 @Module({
   imports: [AiModule, ConfigModule.forRoot({
     envFilePath: '.env',
     isGlobal: true,
-  }), ProductsModule],
+  }), ProductsModule, ConversationsModule, CurrenciesModule, HealthModule, CacheModule, UsageModule, PromptsModule, CartModule, TranscriptsModule],
   controllers: [AppController],
-  providers: [AppService, ProductsService, AiService],
+  providers: [
+    AppService,
+    { provide: APP_FILTER, useClass: AllExceptionsFilter },  // Error responses with a stable `code` and correlation ID
+    { provide: APP_PIPE, useClass: JoiValidationPipe },  // Validates `@JoiSchema` DTOs in bodies and queries
+  ],
 })
-export class AppModule { }
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(CorrelationIdMiddleware, RequestLoggingMiddleware).forRoutes('*');
+  }
+}
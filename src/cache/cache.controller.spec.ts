@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CacheController } from './cache.controller';
+import { CacheService } from './cache.service';
+
+describe('CacheController', () => {
+  let controller: CacheController;
+  const cacheService = { metrics: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CacheController],
+      providers: [{ provide: CacheService, useValue: cacheService }],
+    }).compile();
+
+    controller = module.get<CacheController>(CacheController);
+  });
+
+  it('returns the cache metrics', () => {
+    const metrics = { store: 'memory', namespaces: {} };
+    cacheService.metrics.mockReturnValue(metrics);
+
+    expect(controller.metrics()).toBe(metrics);
+  });
+});
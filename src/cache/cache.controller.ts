@@ -0,0 +1,20 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CacheService } from './cache.service';
+
+@ApiTags('Cache') // Grouping under "Cache" for Swagger
+@Controller('cache')
+export class CacheController {
+  constructor(private readonly cacheService: CacheService) {}
+
+  @Get('metrics')
+  @ApiOperation({ summary: 'Hit and miss counters of each cache namespace' })
+  @ApiResponse({
+    status: 200,
+    description:
+      '`{ store, namespaces: { weather: { hits, misses, coalesced, stale, hitRate }, … } }`',
+  })
+  metrics() {
+    return this.cacheService.metrics();
+  }
+}
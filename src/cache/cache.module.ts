@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { CacheController } from './cache.controller';
+import { CacheService } from './cache.service';
+import { CacheStore } from './cache.store';
+import { FileCacheStore } from './stores/file-cache.store';
+import { MemoryCacheStore } from './stores/memory-cache.store';
+
+@Module({
+  controllers: [CacheController],
+  providers: [
+    CacheService,
+    {
+      // CACHE_STORE=file keeps cached lookups on disk, anything else is an in-memory LRU
+      provide: CacheStore,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const maxEntries =
+          Number(configService.get('CACHE_MAX_ENTRIES')) || undefined;
+        return configService.get('CACHE_STORE') === 'file'
+          ? new FileCacheStore(
+              configService.get('CACHE_FILE') ||
+                join(process.cwd(), 'data', 'cache.json'),
+              maxEntries,
+            )
+          : new MemoryCacheStore(maxEntries);
+      },
+    },
+  ],
+  exports: [CacheService],
+})
+export class CacheModule {}
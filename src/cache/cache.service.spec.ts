@@ -0,0 +1,120 @@
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from './cache.service';
+import { CacheStore } from './cache.store';
+import { MemoryCacheStore } from './stores/memory-cache.store';
+
+describe('CacheService', () => {
+  let service: CacheService;
+  let store: CacheStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    store = new MemoryCacheStore();
+    service = new CacheService(
+      new ConfigService({ CACHE_TTL_SECONDS: '{"weather":60}' }),
+      store,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('loads on a miss and serves hits until the TTL expires', async () => {
+    const loader = jest.fn().mockResolvedValue('sunny');
+
+    await service.wrap('weather', 'madrid', loader);
+    jest.advanceTimersByTime(59_000);
+    expect(await service.wrap('weather', 'madrid', loader)).toBe('sunny');
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(2_000);
+    await service.wrap('weather', 'madrid', loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one loader call between concurrent lookups', async () => {
+    const loader = jest.fn().mockResolvedValue('sunny');
+
+    const results = await Promise.all([
+      service.wrap('weather', 'madrid', loader),
+      service.wrap('weather', 'madrid', loader),
+    ]);
+
+    expect(results).toEqual(['sunny', 'sunny']);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(service.metrics().namespaces.weather).toMatchObject({
+      misses: 1,
+      coalesced: 1,
+    });
+  });
+
+  it('does not store values rejected by cacheIf', async () => {
+    const loader = jest
+      .fn<Promise<{ ok: boolean }>, []>()
+      .mockResolvedValue({ ok: false });
+
+    await service.wrap('weather', 'atlantis', loader, {
+      cacheIf: (value) => value.ok,
+    });
+    await service.wrap('weather', 'atlantis', loader, {
+      cacheIf: (value) => value.ok,
+    });
+
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves an expired entry when asked to and the loader fails', async () => {
+    await service.wrap('weather', 'madrid', async () => 'sunny');
+    jest.advanceTimersByTime(61_000);
+    const failing = () => Promise.reject(new Error('offline'));
+
+    await expect(
+      service.wrap('weather', 'madrid', failing, { staleIfError: true }),
+    ).resolves.toBe('sunny');
+    await expect(service.wrap('weather', 'madrid', failing)).rejects.toThrow(
+      'offline',
+    );
+    expect(service.metrics().namespaces.weather.stale).toBe(1);
+  });
+
+  it('uses the default TTL of namespaces that are not overridden', () => {
+    expect(service.ttlMs('weather')).toBe(60_000);
+    expect(service.ttlMs('population')).toBe(86_400_000);
+    expect(service.ttlMs('unknown')).toBe(300_000);
+  });
+
+  it('clears a single namespace', async () => {
+    const loader = jest.fn().mockResolvedValue('result');
+    await service.wrap('product-search', 'boots', loader);
+    await service.wrap('weather', 'madrid', loader);
+
+    await service.clear('product-search');
+    await service.wrap('product-search', 'boots', loader);
+    await service.wrap('weather', 'madrid', loader);
+
+    expect(loader).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports hit rates per namespace', async () => {
+    await service.wrap('weather', 'madrid', async () => 'sunny');
+    await service.wrap('weather', 'madrid', async () => 'sunny');
+
+    expect(service.metrics()).toEqual({
+      store: 'memory',
+      namespaces: expect.objectContaining({
+        weather: { hits: 1, misses: 1, coalesced: 0, stale: 0, hitRate: 0.5 },
+        'product-search': expect.objectContaining({ hitRate: 0 }),
+      }),
+    });
+  });
+
+  it('falls back to the default TTLs on invalid JSON', () => {
+    const fallback = new CacheService(
+      new ConfigService({ CACHE_TTL_SECONDS: '{weather' }),
+      store,
+    );
+
+    expect(fallback.ttlMs('weather')).toBe(600_000);
+  });
+});
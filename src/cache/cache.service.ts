@@ -0,0 +1,166 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CacheStore } from './cache.store';
+import {
+  CacheMetrics,
+  CacheNamespaceMetrics,
+  CacheOptions,
+} from './interfaces/cache.interface';
+
+/** Default TTL of each namespace, in seconds; `CACHE_TTL_SECONDS` overrides them. */
+export const DEFAULT_CACHE_TTL_SECONDS: Record<string, number> = {
+  weather: 600,
+  population: 86400,
+  'currency-rates': 3600,
+  'product-search': 300,
+  geocoding: 604800,
+  forecast: 1800,
+  'air-quality': 1800,
+  timezone: 604800,
+};
+
+/** Used for namespaces without a TTL of their own. */
+const FALLBACK_TTL_SECONDS = 300;
+
+type Counters = Omit<CacheNamespaceMetrics, 'hitRate'>;
+
+/**
+ * Read-through cache on top of the configured `CacheStore`. Values are
+ * grouped in namespaces ("weather", "product-search"…), each with its own
+ * TTL and hit/miss counters. Concurrent lookups of the same missing key
+ * share one loader call.
+ */
+@Injectable()
+export class CacheService {
+  private readonly logger = new Logger(CacheService.name);
+  private readonly ttls: Record<string, number>;
+  private readonly pending = new Map<string, Promise<unknown>>();
+  private readonly counters = new Map<string, Counters>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly store: CacheStore,
+  ) {
+    this.ttls = this.loadTtls();
+    for (const namespace of Object.keys(this.ttls)) this.countersOf(namespace);
+  }
+
+  /**
+   * Returns the cached value of `key`, or loads, stores and returns it.
+   *
+   * @param namespace - Groups keys for TTLs, metrics and `clear`.
+   * @param loader - Called on a miss; its errors are rethrown unless a stale entry can be served.
+   */
+  async wrap<T>(
+    namespace: string,
+    key: string,
+    loader: () => Promise<T>,
+    options: CacheOptions<T> = {},
+  ): Promise<T> {
+    const counters = this.countersOf(namespace);
+    const fullKey = `${namespace}:${key}`;
+
+    const cached = await this.store.get<T>(fullKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      counters.hits++;
+      return cached.value;
+    }
+
+    const inFlight = this.pending.get(fullKey) as Promise<T> | undefined;
+    if (inFlight) {
+      counters.coalesced++;
+      return inFlight;
+    }
+
+    counters.misses++;
+    const load = this.load(
+      namespace,
+      fullKey,
+      loader,
+      options,
+      cached?.value,
+    ).finally(() => this.pending.delete(fullKey));
+    this.pending.set(fullKey, load);
+    return load;
+  }
+
+  /** Drops every entry of a namespace, e.g. after the catalog changed. */
+  async clear(namespace: string): Promise<void> {
+    await this.store.clear(`${namespace}:`);
+  }
+
+  metrics(): CacheMetrics {
+    const namespaces: Record<string, CacheNamespaceMetrics> = {};
+    for (const [namespace, counters] of this.counters) {
+      const lookups = counters.hits + counters.misses + counters.coalesced;
+      namespaces[namespace] = {
+        ...counters,
+        hitRate: lookups ? (counters.hits + counters.coalesced) / lookups : 0,
+      };
+    }
+    return { store: this.store.name, namespaces };
+  }
+
+  /** TTL of a namespace, in milliseconds. */
+  ttlMs(namespace: string): number {
+    return (this.ttls[namespace] ?? FALLBACK_TTL_SECONDS) * 1000;
+  }
+
+  private async load<T>(
+    namespace: string,
+    fullKey: string,
+    loader: () => Promise<T>,
+    options: CacheOptions<T>,
+    stale: T | undefined,
+  ): Promise<T> {
+    let value: T;
+    try {
+      value = await loader();
+    } catch (error) {
+      if (options.staleIfError && stale !== undefined) {
+        this.countersOf(namespace).stale++;
+        this.logger.warn(`Serving expired ${fullKey}: ${error.message}`);
+        return stale;
+      }
+      throw error;
+    }
+
+    if (options.cacheIf?.(value) ?? true) {
+      try {
+        await this.store.set(fullKey, {
+          value,
+          expiresAt: Date.now() + (options.ttlMs ?? this.ttlMs(namespace)),
+        });
+      } catch (error) {
+        // A cache that cannot be written must not fail the lookup itself
+        this.logger.warn(`Could not cache ${fullKey}: ${error.message}`);
+      }
+    }
+    return value;
+  }
+
+  private countersOf(namespace: string): Counters {
+    let counters = this.counters.get(namespace);
+    if (!counters) {
+      counters = { hits: 0, misses: 0, coalesced: 0, stale: 0 };
+      this.counters.set(namespace, counters);
+    }
+    return counters;
+  }
+
+  private loadTtls(): Record<string, number> {
+    const raw = this.configService.get('CACHE_TTL_SECONDS');
+    if (!raw) return { ...DEFAULT_CACHE_TTL_SECONDS };
+    try {
+      const override = typeof raw === 'string' ? JSON.parse(raw) : raw;
+      const ttls = { ...DEFAULT_CACHE_TTL_SECONDS };
+      for (const [namespace, seconds] of Object.entries(override)) {
+        if (typeof seconds === 'number') ttls[namespace] = seconds;
+      }
+      return ttls;
+    } catch (error) {
+      this.logger.warn(`Ignoring invalid CACHE_TTL_SECONDS: ${error.message}`);
+      return { ...DEFAULT_CACHE_TTL_SECONDS };
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { CacheEntry } from './interfaces/cache.interface';
+
+/**
+ * Storage contract for cached values. Stores only keep entries; expiry,
+ * coalescing and metrics live in `CacheService`.
+ */
+export abstract class CacheStore {
+  /** Reported by the metrics, e.g. "memory". */
+  abstract readonly name: string;
+  abstract get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  abstract set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  abstract delete(key: string): Promise<void>;
+  /** Removes the keys starting with `prefix`, or every key without one. */
+  abstract clear(prefix?: string): Promise<void>;
+}
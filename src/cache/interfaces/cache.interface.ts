@@ -0,0 +1,33 @@
+export interface CacheEntry<T = unknown> {
+  value: T;
+  /** Epoch milliseconds; expired entries are kept for `staleIfError`. */
+  expiresAt: number;
+}
+
+export interface CacheOptions<T> {
+  /** Overrides the TTL of the namespace. */
+  ttlMs?: number;
+  /** Results for which this returns false are returned but not stored, e.g. failed lookups. */
+  cacheIf?: (value: T) => boolean;
+  /** Serve an expired entry when the loader throws. */
+  staleIfError?: boolean;
+}
+
+export interface CacheNamespaceMetrics {
+  /** Fresh entries served. */
+  hits: number;
+  /** Lookups that called the loader. */
+  misses: number;
+  /** Lookups that joined an in-flight load instead of calling the loader. */
+  coalesced: number;
+  /** Expired entries served because the loader failed. */
+  stale: number;
+  /** `(hits + coalesced) / lookups`, 0 before the first lookup. */
+  hitRate: number;
+}
+
+export interface CacheMetrics {
+  /** `memory` or `file`. */
+  store: string;
+  namespaces: Record<string, CacheNamespaceMetrics>;
+}
@@ -0,0 +1,36 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCacheStore } from './file-cache.store';
+
+describe('FileCacheStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists entries across store instances', async () => {
+    const filePath = join(dir, 'nested', 'cache.json');
+    const entry = { value: { temperature: 21 }, expiresAt: 1700000000000 };
+
+    const store = new FileCacheStore(filePath);
+    await store.set('weather:madrid', entry);
+    await store.set('weather:paris', entry);
+    await store.delete('weather:paris');
+    const reopened = new FileCacheStore(filePath);
+
+    expect(await reopened.get('weather:madrid')).toEqual(entry);
+    expect(await reopened.get('weather:paris')).toBeUndefined();
+  });
+
+  it('starts empty when the file does not exist', async () => {
+    const store = new FileCacheStore(join(dir, 'missing.json'));
+
+    expect(await store.get('weather:madrid')).toBeUndefined();
+  });
+});
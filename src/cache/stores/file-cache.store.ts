@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { CacheEntry } from '../interfaces/cache.interface';
+import { MemoryCacheStore } from './memory-cache.store';
+
+/**
+ * LRU store that is loaded from a JSON file on first use and written back
+ * after every change, so cached lookups survive restarts. Writes go through
+ * a temporary file and a rename so a crash never leaves a half-written file.
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  readonly name = 'file';
+  private loaded?: Promise<void>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    maxEntries?: number,
+  ) {
+    super(maxEntries);
+  }
+
+  async get<T>(key: string) {
+    await this.load();
+    return super.get<T>(key);
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>) {
+    await this.load();
+    await super.set(key, entry);
+    await this.persist();
+  }
+
+  async delete(key: string) {
+    await this.load();
+    await super.delete(key);
+    await this.persist();
+  }
+
+  async clear(prefix?: string) {
+    await this.load();
+    await super.clear(prefix);
+    await this.persist();
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= fs.readFile(this.filePath, 'utf8').then(
+      async (raw) => {
+        const stored: Record<string, CacheEntry> = JSON.parse(raw);
+        for (const [key, entry] of Object.entries(stored)) {
+          await super.set(key, entry);
+        }
+      },
+      (error) => {
+        if (error.code !== 'ENOENT') throw error;
+      },
+    );
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    // Serialise writes so a slow one never overwrites a newer snapshot
+    const next = this.writeQueue.then(async () => {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(
+        tmpPath,
+        JSON.stringify(Object.fromEntries(this.entries)),
+      );
+      await fs.rename(tmpPath, this.filePath);
+    });
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
@@ -0,0 +1,28 @@
+import { MemoryCacheStore } from './memory-cache.store';
+
+describe('MemoryCacheStore', () => {
+  const entry = (value: string) => ({ value, expiresAt: Infinity });
+
+  it('evicts the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', entry('A'));
+    await store.set('b', entry('B'));
+    await store.get('a');
+    await store.set('c', entry('C'));
+
+    expect(await store.get('a')).toEqual(entry('A'));
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toEqual(entry('C'));
+  });
+
+  it('clears the keys with a prefix', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('weather:madrid', entry('sunny'));
+    await store.set('population:madrid', entry('3M'));
+
+    await store.clear('weather:');
+
+    expect(await store.get('weather:madrid')).toBeUndefined();
+    expect(await store.get('population:madrid')).toEqual(entry('3M'));
+  });
+});
@@ -0,0 +1,44 @@
+import { CacheEntry } from '../interfaces/cache.interface';
+import { CacheStore } from '../cache.store';
+
+/**
+ * Default store: a least-recently-used map in the process. Once
+ * `maxEntries` is reached, the entry read or written longest ago is evicted.
+ * Values are kept by reference and must not be mutated by callers.
+ */
+export class MemoryCacheStore extends CacheStore {
+  readonly name: string = 'memory';
+  protected readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 1000) {
+    super();
+  }
+
+  async get<T>(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert so the Map's insertion order doubles as recency order
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry as CacheEntry<T> | undefined;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async clear(prefix?: string) {
+    for (const key of [...this.entries.keys()]) {
+      if (!prefix || key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+}
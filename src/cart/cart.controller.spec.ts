@@ -0,0 +1,43 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
+import { DEFAULT_TENANT, TenantsService } from '../tenants/tenants.service';
+import { CartController } from './cart.controller';
+import { CartService } from './cart.service';
+
+describe('CartController', () => {
+  let controller: CartController;
+  const cartService = { remove: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CartController],
+      providers: [
+        { provide: CartService, useValue: cartService },
+        { provide: TenantsService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<CartController>(CartController);
+  });
+
+  it('removes units of an item for the tenant', async () => {
+    const tenant: Tenant = { ...DEFAULT_TENANT, id: 'tea-shop' };
+    cartService.remove.mockResolvedValue({ items: [] });
+
+    await expect(
+      controller.remove(
+        's1',
+        'sencha-green-tea:50g',
+        { quantity: 2, currency: 'USD' },
+        tenant,
+      ),
+    ).resolves.toEqual({ items: [] });
+    expect(cartService.remove).toHaveBeenCalledWith(
+      's1',
+      'sencha-green-tea:50g',
+      tenant,
+      2,
+      'USD',
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ApiErrorResponses } from '../common/errors/api-error-responses.decorator';
+import { ErrorCode } from '../common/errors/error-code';
+import {
+  Authenticated,
+  CurrentTenant,
+} from '../tenants/decorators/authenticated.decorator';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
+import { CartService } from './cart.service';
+import {
+  AddCartItemBody,
+  CartQuery,
+  RemoveCartItemQuery,
+} from './dto/cart-item/cart-item.dto';
+
+const SESSION_PARAM = {
+  name: 'sessionId',
+  description:
+    'Cart session; the `conversationId` of `/products/prompt` to share the cart with the assistant',
+};
+
+@ApiTags('Cart')
+@Authenticated() // Each tenant has its own carts
+@Controller('cart')
+export class CartController {
+  constructor(private readonly cartService: CartService) {}
+
+  @Get(':sessionId')
+  @ApiOperation({ summary: 'Get the cart of a session with its totals' })
+  @ApiParam(SESSION_PARAM)
+  @ApiResponse({
+    status: 200,
+    description:
+      'The cart: `{ sessionId, currency, items, itemCount, subtotal, discount, total, discountPercent, unavailable }`',
+  })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.UPSTREAM_UNAVAILABLE,
+  )
+  view(
+    @Param('sessionId') sessionId: string,
+    @Query() query: CartQuery,
+    @CurrentTenant() tenant: Tenant,
+  ) {
+    return this.cartService.view(sessionId, tenant, query.currency);
+  }
+
+  @Post(':sessionId/items')
+  @ApiOperation({ summary: 'Add a product variant to the cart' })
+  @ApiParam(SESSION_PARAM)
+  @ApiResponse({ status: 201, description: 'The updated cart' })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.NOT_FOUND,
+    ErrorCode.UPSTREAM_UNAVAILABLE,
+  )
+  add(
+    @Param('sessionId') sessionId: string,
+    @Body() body: AddCartItemBody,
+    @Query() query: CartQuery,
+    @CurrentTenant() tenant: Tenant,
+  ) {
+    return this.cartService.add(sessionId, body, tenant, query.currency);
+  }
+
+  @Delete(':sessionId/items/:itemId')
+  @ApiOperation({
+    summary: 'Remove an item, or some of its units, from the cart',
+  })
+  @ApiParam(SESSION_PARAM)
+  @ApiParam({
+    name: 'itemId',
+    description:
+      'Cart item ID: the product ID followed by the chosen variant values',
+    example: 'sencha-green-tea:100g',
+  })
+  @ApiResponse({ status: 200, description: 'The updated cart' })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.NOT_FOUND,
+    ErrorCode.UPSTREAM_UNAVAILABLE,
+  )
+  remove(
+    @Param('sessionId') sessionId: string,
+    @Param('itemId') itemId: string,
+    @Query() query: RemoveCartItemQuery,
+    @CurrentTenant() tenant: Tenant,
+  ) {
+    return this.cartService.remove(
+      sessionId,
+      itemId,
+      tenant,
+      query.quantity,
+      query.currency,
+    );
+  }
+
+  @Delete(':sessionId')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Empty the cart' })
+  @ApiParam(SESSION_PARAM)
+  @ApiResponse({ status: 204, description: 'Cart emptied' })
+  @ApiErrorResponses(ErrorCode.UNAUTHORIZED)
+  async clear(
+    @Param('sessionId') sessionId: string,
+    @CurrentTenant() tenant: Tenant,
+  ) {
+    await this.cartService.clear(sessionId, tenant);
+  }
+}
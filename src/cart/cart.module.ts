@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { CatalogModule } from '../catalog/catalog.module';
+import { CurrenciesModule } from '../currencies/currencies.module';
+import { TenantsModule } from '../tenants/tenants.module';
+import { CartController } from './cart.controller';
+import { CartService } from './cart.service';
+import { CartStore } from './stores/cart.store';
+import { FileCartStore } from './stores/file-cart.store';
+import { InMemoryCartStore } from './stores/in-memory-cart.store';
+
+@Module({
+  imports: [CatalogModule, CurrenciesModule, TenantsModule],
+  controllers: [CartController],
+  providers: [
+    CartService,
+    {
+      // CART_STORE=file keeps carts across restarts, anything else stays in memory
+      provide: CartStore,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get('CART_STORE') === 'file'
+          ? new FileCartStore(
+              configService.get('CART_FILE') ||
+                join(process.cwd(), 'data', 'carts.json'),
+            )
+          : new InMemoryCartStore(),
+    },
+  ],
+  exports: [CartService],
+})
+export class CartModule {}
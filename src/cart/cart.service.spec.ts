@@ -0,0 +1,318 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CacheService } from '../cache/cache.service';
+import { MemoryCacheStore } from '../cache/stores/memory-cache.store';
+import { CatalogService } from '../catalog/catalog.service';
+import {
+  parseShopifyProduct,
+  readShopifyProducts,
+} from '../catalog/utils/shopify-product';
+import {
+  ToolFailureException,
+  ValidationException,
+} from '../common/errors/app.exception';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { StaticRatesProvider } from '../currencies/providers/static-rates.provider';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
+import { DEFAULT_TENANT } from '../tenants/tenants.service';
+import { CartService } from './cart.service';
+import { InMemoryCartStore } from './stores/in-memory-cart.store';
+
+const ROOT = join(__dirname, '..', '..');
+
+describe('CartService', () => {
+  let service: CartService;
+  let catalogService: CatalogService;
+  const teaShop: Tenant = {
+    ...DEFAULT_TENANT,
+    id: 'tea-shop',
+    catalogId: 'tea-shop',
+  };
+
+  beforeEach(async () => {
+    const configService = new ConfigService({ CART_DISCOUNT_PERCENT: '20' });
+    catalogService = new CatalogService(configService);
+    await catalogService.load(
+      'tea-shop',
+      join(ROOT, 'test', 'fixtures', 'catalogs', 'tea-shop.csv'),
+    );
+    const currenciesService = new CurrenciesService(
+      configService,
+      new StaticRatesProvider(join(ROOT, 'data', 'exchange-rates.json')),
+      new CacheService(configService, new MemoryCacheStore()),
+    );
+    service = new CartService(
+      configService,
+      new InMemoryCartStore(),
+      catalogService,
+      currenciesService,
+    );
+  });
+
+  it('starts with an empty cart', async () => {
+    await expect(service.view('s1', teaShop)).resolves.toEqual({
+      sessionId: 's1',
+      currency: undefined,
+      items: [],
+      itemCount: 0,
+      subtotal: 0,
+      discount: 0,
+      total: 0,
+      discountPercent: 20,
+      unavailable: [],
+    });
+  });
+
+  it('adds variants and totals them with the discount', async () => {
+    await service.add(
+      's1',
+      {
+        productId: 'cast-iron-teapot',
+        variant: [{ name: 'color', value: 'red' }],
+      },
+      teaShop,
+    );
+    await service.add(
+      's1',
+      {
+        productId: 'sencha-green-tea',
+        variant: [{ name: 'Size', value: '100g' }],
+        quantity: 2,
+      },
+      teaShop,
+    );
+    const cart = await service.add(
+      's1',
+      {
+        productId: 'sencha-green-tea',
+        variant: [{ name: 'Size', value: '100G' }],
+      },
+      teaShop,
+    );
+
+    expect(cart.items).toEqual([
+      expect.objectContaining({
+        id: 'cast-iron-teapot:Red',
+        variant: { Color: 'Red' },
+        quantity: 1,
+        unitPrice: 45,
+        discountAmount: 0,
+        total: 45,
+      }),
+      expect.objectContaining({
+        id: 'sencha-green-tea:100g',
+        variant: { Size: '100g' },
+        quantity: 3,
+        unitPrice: 9.5,
+        subtotal: 28.5,
+        discountAmount: 5.7,
+        total: 22.8,
+      }),
+    ]);
+    expect(cart).toMatchObject({
+      currency: 'EUR',
+      itemCount: 4,
+      subtotal: 73.5,
+      discount: 5.7,
+      total: 67.8,
+    });
+  });
+
+  it('converts the totals to the requested currency', async () => {
+    await service.add(
+      's1',
+      {
+        productId: 'cast-iron-teapot',
+        variant: [{ name: 'Color', value: 'Black' }],
+      },
+      teaShop,
+    );
+
+    const cart = await service.view('s1', teaShop, 'usd');
+
+    expect(cart.currency).toBe('USD');
+    expect(cart.items[0].unitPrice).toBeCloseTo(45 / 0.9225, 1);
+    expect(cart.total).toBe(cart.items[0].total);
+  });
+
+  it('rejects variants that do not match the product', async () => {
+    const add = (variant: { name: string; value: string }[]) =>
+      service.add('s1', { productId: 'sencha-green-tea', variant }, teaShop);
+
+    await expect(add([])).rejects.toThrow('Choose a Size: 50g, 100g');
+    await expect(add([{ name: 'Size', value: '1kg' }])).rejects.toThrow(
+      '1kg is not a Size of sencha-green-tea; choose one of 50g, 100g',
+    );
+    await expect(
+      add([
+        { name: 'Size', value: '50g' },
+        { name: 'Color', value: 'Green' },
+      ]),
+    ).rejects.toThrow(ValidationException);
+    await expect(
+      service.add('s1', { productId: 'unknown' }, teaShop),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('prices the chosen SKU of Shopify products', async () => {
+    const [dress] = readShopifyProducts(
+      JSON.parse(
+        readFileSync(
+          join(ROOT, 'test', 'fixtures', 'shopify', 'products.json'),
+          'utf8',
+        ),
+      ),
+    );
+    catalogService.replace(
+      'tea-shop',
+      [
+        parseShopifyProduct(dress, {
+          storeUrl: 'https://shop.example.com',
+          currency: 'EUR',
+        }),
+      ],
+      'test',
+    );
+    const add = (color: string, size: string) =>
+      service.add(
+        's1',
+        {
+          productId: 'womens-ruffle-tiered-dress',
+          variant: [
+            { name: 'Color', value: color },
+            { name: 'Size', value: size },
+          ],
+        },
+        teaShop,
+      );
+
+    await add('Black', 'S');
+    const cart = await add('Pink', 'M');
+
+    expect(cart.items).toEqual([
+      expect.objectContaining({
+        unitPrice: 17,
+        imageUrl:
+          'https://cdn.shopify.com/s/files/1/0779/8125/3922/files/dress-black.png',
+      }),
+      expect.objectContaining({
+        unitPrice: 19.5,
+        imageUrl:
+          'https://cdn.shopify.com/s/files/1/0779/8125/3922/files/dress.png',
+      }),
+    ]);
+    await expect(add('Black', 'M')).rejects.toThrow(
+      'womens-ruffle-tiered-dress (Color: Black, Size: M) is sold out',
+    );
+    await expect(add('Pink', 'S')).rejects.toThrow(
+      'womens-ruffle-tiered-dress (Color: Pink, Size: S) is not sold',
+    );
+  });
+
+  it('removes units, items and whole carts', async () => {
+    await service.add(
+      's1',
+      {
+        productId: 'sencha-green-tea',
+        variant: [{ name: 'Size', value: '50g' }],
+        quantity: 3,
+      },
+      teaShop,
+    );
+
+    let cart = await service.remove('s1', 'sencha-green-tea:50g', teaShop, 2);
+    expect(cart.items[0].quantity).toBe(1);
+    cart = await service.remove('s1', 'sencha-green-tea:50g', teaShop);
+    expect(cart.items).toEqual([]);
+    await expect(
+      service.remove('s1', 'sencha-green-tea:50g', teaShop),
+    ).rejects.toThrow(NotFoundException);
+
+    await service.add(
+      's1',
+      {
+        productId: 'sencha-green-tea',
+        variant: [{ name: 'Size', value: '50g' }],
+      },
+      teaShop,
+    );
+    await service.clear('s1', teaShop);
+    expect((await service.view('s1', teaShop)).items).toEqual([]);
+  });
+
+  it('keeps the carts of each tenant apart', async () => {
+    await service.add(
+      's1',
+      {
+        productId: 'sencha-green-tea',
+        variant: [{ name: 'Size', value: '50g' }],
+      },
+      teaShop,
+    );
+
+    expect((await service.view('s1')).items).toEqual([]);
+  });
+
+  describe('tools', () => {
+    const context = { tenant: teaShop, conversationId: 'c1' };
+
+    it('operate on the cart of the conversation', async () => {
+      const added = await service.addToCartTool(
+        {
+          productId: 'sencha-green-tea',
+          variant: [{ name: 'Size', value: '100g' }],
+          quantity: 2,
+        },
+        context,
+      );
+
+      expect(added).toContain('Added 2 × Sencha Green Tea (Size: 100g).');
+      expect(added).toContain(
+        '- Item sencha-green-tea:100g: 2 × Sencha Green Tea (Size: 100g) at 9.50 EUR, 20% off = 15.20 EUR',
+      );
+      expect(await service.viewCartTool({}, context)).toContain(
+        'Subtotal: 19.00 EUR. Discount: 3.80 EUR. Total: 15.20 EUR.',
+      );
+      expect(
+        await service.removeFromCartTool(
+          { itemId: 'sencha-green-tea:100g' },
+          context,
+        ),
+      ).toBe('Removed sencha-green-tea:100g.\nThe cart is empty.');
+    });
+
+    it('keep every item of parallel calls', async () => {
+      await Promise.all([
+        service.addToCartTool(
+          {
+            productId: 'sencha-green-tea',
+            variant: [{ name: 'Size', value: '100g' }],
+          },
+          context,
+        ),
+        service.addToCartTool(
+          {
+            productId: 'cast-iron-teapot',
+            variant: [{ name: 'color', value: 'red' }],
+          },
+          context,
+        ),
+      ]);
+
+      const { items } = await service.view('c1', teaShop);
+
+      expect(items.map((item) => item.id).sort()).toEqual([
+        'cast-iron-teapot:Red',
+        'sencha-green-tea:100g',
+      ]);
+    });
+
+    it('need a conversation', async () => {
+      await expect(service.viewCartTool({}, {})).rejects.toThrow(
+        ToolFailureException,
+      );
+    });
+  });
+});
@@ -0,0 +1,446 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CatalogService } from '../catalog/catalog.service';
+import {
+  CatalogProduct,
+  ProductSku,
+} from '../catalog/interfaces/catalog-product.interface';
+import { formatPrice } from '../catalog/utils/parse-product';
+import {
+  ToolFailureException,
+  ValidationException,
+} from '../common/errors/app.exception';
+import { KeyedQueue } from '../common/utils/keyed-queue';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { roundAmount } from '../currencies/data/iso-4217';
+import { PRODUCTS_TOOLSET } from '../products/dto/product-tools/product-tools.dto';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
+import { DEFAULT_TENANT } from '../tenants/tenants.service';
+import { AiTool } from '../tools/decorators/ai-tool.decorator';
+import { ToolContext } from '../tools/interfaces/tool-loop.interface';
+import {
+  AddCartItemBody,
+  MAX_CART_ITEMS,
+  MAX_ITEM_QUANTITY,
+  VariantOption,
+} from './dto/cart-item/cart-item.dto';
+import {
+  AddToCartToolArgs,
+  RemoveFromCartToolArgs,
+  ViewCartToolArgs,
+} from './dto/cart-tools/cart-tools.dto';
+import {
+  Cart,
+  CartLine,
+  CartView,
+  VariantSelection,
+} from './interfaces/cart.interface';
+import { CartStore } from './stores/cart.store';
+
+const DEFAULT_DISCOUNT_PERCENT = 10;
+
+/**
+ * Session carts of the products assistant. Each tenant has its own carts;
+ * the session is the `conversationId` of `/products/prompt`, so the cart
+ * tools and the `/cart` endpoints share the same cart.
+ *
+ * Items only keep the product, variant and quantity: prices, discounts and
+ * totals are taken from the current catalog every time the cart is viewed.
+ * Changes to one cart run one after another, so parallel tool calls of a
+ * model turn cannot overwrite each other.
+ */
+@Injectable()
+export class CartService {
+  private readonly discountPercent: number;
+  /** Changes of one cart run one at a time. */
+  private readonly changes = new KeyedQueue();
+
+  constructor(
+    configService: ConfigService,
+    private readonly store: CartStore,
+    private readonly catalogService: CatalogService,
+    private readonly currenciesService: CurrenciesService,
+  ) {
+    this.discountPercent = Number(
+      configService.get('CART_DISCOUNT_PERCENT') ?? DEFAULT_DISCOUNT_PERCENT,
+    );
+  }
+
+  @AiTool({
+    name: 'addToCart',
+    description:
+      'Add a product to the shopping cart of the user. Ask the user to choose a value of every variant group (e.g. Size) first',
+    schema: AddToCartToolArgs,
+    toolsets: [PRODUCTS_TOOLSET],
+    label: 'Adding to the cart…',
+  })
+  async addToCartTool(
+    { currency, ...item }: AddToCartToolArgs,
+    context?: ToolContext,
+  ) {
+    const sessionId = this.sessionOf('addToCart', context);
+    const { view, line } = await this.addItem(
+      sessionId,
+      item,
+      context.tenant,
+      currency,
+    );
+    return `Added ${item.quantity ?? 1} × ${line.displayTitle}${formatVariant(line.variant)}.\n${describeCart(view)}`;
+  }
+
+  @AiTool({
+    name: 'viewCart',
+    description:
+      'Show the shopping cart of the user with its items, discounts and total',
+    schema: ViewCartToolArgs,
+    toolsets: [PRODUCTS_TOOLSET],
+    label: 'Checking the cart…',
+  })
+  async viewCartTool({ currency }: ViewCartToolArgs, context?: ToolContext) {
+    const sessionId = this.sessionOf('viewCart', context);
+    return describeCart(await this.view(sessionId, context.tenant, currency));
+  }
+
+  @AiTool({
+    name: 'removeFromCart',
+    description: 'Remove an item, or some of its units, from the shopping cart',
+    schema: RemoveFromCartToolArgs,
+    toolsets: [PRODUCTS_TOOLSET],
+    label: 'Updating the cart…',
+  })
+  async removeFromCartTool(
+    { itemId, quantity, currency }: RemoveFromCartToolArgs,
+    context?: ToolContext,
+  ) {
+    const sessionId = this.sessionOf('removeFromCart', context);
+    const view = await this.remove(
+      sessionId,
+      itemId,
+      context.tenant,
+      quantity,
+      currency,
+    );
+    return `Removed ${quantity ? `${quantity} × ` : ''}${itemId}.\n${describeCart(view)}`;
+  }
+
+  /**
+   * The cart of a session priced in `currency`; an empty cart if the session
+   * has none yet.
+   *
+   * @param currency - ISO 4217 code; the tenant currency, then the catalog one, by default.
+   * @throws {ValidationException} If the currency is unknown or has no rate.
+   */
+  async view(
+    sessionId: string,
+    tenant: Tenant = DEFAULT_TENANT,
+    currency?: string,
+  ): Promise<CartView> {
+    const cart = await this.store.get(cartId(tenant, sessionId));
+    return this.price(sessionId, cart, tenant, currency);
+  }
+
+  /**
+   * Adds units of a product variant. Adding the same variant again raises the
+   * quantity of its item.
+   *
+   * @throws {NotFoundException} If the product is not in the tenant's catalog.
+   * @throws {ValidationException} If the variant does not match the product's variant groups,
+   * or the cart would exceed its limits.
+   */
+  async add(
+    sessionId: string,
+    item: AddCartItemBody,
+    tenant: Tenant = DEFAULT_TENANT,
+    currency?: string,
+  ): Promise<CartView> {
+    return (await this.addItem(sessionId, item, tenant, currency)).view;
+  }
+
+  /**
+   * Removes an item, or `quantity` units of it.
+   *
+   * @throws {NotFoundException} If the cart has no such item.
+   */
+  async remove(
+    sessionId: string,
+    itemId: string,
+    tenant: Tenant = DEFAULT_TENANT,
+    quantity?: number,
+    currency?: string,
+  ): Promise<CartView> {
+    const id = cartId(tenant, sessionId);
+    const cart = await this.changes.run(id, async () => {
+      const cart = await this.store.get(id);
+      const index = cart?.items.findIndex((item) => item.id === itemId) ?? -1;
+      if (index < 0) {
+        throw new NotFoundException(`Cart item ${itemId} not found`);
+      }
+
+      const item = cart.items[index];
+      if (quantity && quantity < item.quantity) {
+        item.quantity -= quantity;
+      } else {
+        cart.items.splice(index, 1);
+      }
+      cart.updatedAt = new Date().toISOString();
+      await this.store.save(cart);
+      return cart;
+    });
+    return this.price(sessionId, cart, tenant, currency);
+  }
+
+  /** Empties the cart of a session. */
+  async clear(sessionId: string, tenant: Tenant = DEFAULT_TENANT) {
+    const id = cartId(tenant, sessionId);
+    await this.changes.run(id, () => this.store.delete(id));
+  }
+
+  private async addItem(
+    sessionId: string,
+    { productId, variant, quantity = 1 }: AddCartItemBody,
+    tenant: Tenant,
+    currency?: string,
+  ): Promise<{ view: CartView; line: CartLine }> {
+    const product = this.catalogService.findById(productId, tenant.catalogId);
+    const selection = resolveVariant(product, variant);
+    const itemId = [product.id, ...Object.values(selection)].join(':');
+
+    const id = cartId(tenant, sessionId);
+    const cart = await this.changes.run(id, async () => {
+      const now = new Date().toISOString();
+      const cart: Cart = (await this.store.get(id)) ?? {
+        id,
+        tenantId: tenant.id,
+        sessionId,
+        items: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      const existing = cart.items.find((item) => item.id === itemId);
+      if (existing) {
+        if (existing.quantity + quantity > MAX_ITEM_QUANTITY) {
+          throw new ValidationException(
+            `A cart item may hold at most ${MAX_ITEM_QUANTITY} units`,
+          );
+        }
+        existing.quantity += quantity;
+      } else {
+        if (cart.items.length >= MAX_CART_ITEMS) {
+          throw new ValidationException(
+            `A cart may hold at most ${MAX_CART_ITEMS} items`,
+          );
+        }
+        cart.items.push({
+          id: itemId,
+          productId: product.id,
+          variant: selection,
+          quantity,
+          addedAt: now,
+        });
+      }
+      cart.updatedAt = now;
+      await this.store.save(cart);
+      return cart;
+    });
+
+    const view = await this.price(sessionId, cart, tenant, currency);
+    return { view, line: view.items.find((line) => line.id === itemId) };
+  }
+
+  /** Prices the items from the catalog and sums them. */
+  private async price(
+    sessionId: string,
+    cart: Cart | undefined,
+    tenant: Tenant,
+    currency?: string,
+  ): Promise<CartView> {
+    const items: { item: Cart['items'][number]; product: CatalogProduct }[] =
+      [];
+    const unavailable: string[] = [];
+    for (const item of cart?.items ?? []) {
+      try {
+        items.push({
+          item,
+          product: this.catalogService.findById(
+            item.productId,
+            tenant.catalogId,
+          ),
+        });
+      } catch (error) {
+        if (!(error instanceof NotFoundException)) throw error;
+        unavailable.push(item.id);
+      }
+    }
+
+    const target = currency
+      ? this.currenciesService.assertCurrency(currency)
+      : (tenant.currency ?? items[0]?.product.price.currency);
+    const lines = await Promise.all(
+      items.map(async ({ item, product }): Promise<CartLine> => {
+        const sku = findSku(product, item.variant);
+        const { amount: unitPrice } = await this.currenciesService.convertPrice(
+          sku?.price ?? {
+            amount: product.price.amount,
+            currency: product.price.currency,
+          },
+          target,
+        );
+        const subtotal = roundAmount(unitPrice * item.quantity, target);
+        const discountAmount = product.discount
+          ? roundAmount((subtotal * this.discountPercent) / 100, target)
+          : 0;
+        return {
+          id: item.id,
+          productId: product.id,
+          displayTitle: product.displayTitle,
+          url: product.url,
+          imageUrl: sku?.imageUrl ?? product.imageUrl,
+          variant: item.variant,
+          quantity: item.quantity,
+          unitPrice,
+          discount: product.discount,
+          subtotal,
+          discountAmount,
+          total: roundAmount(subtotal - discountAmount, target),
+        };
+      }),
+    );
+
+    const sum = (amount: (line: CartLine) => number) =>
+      target
+        ? roundAmount(
+            lines.reduce((total, line) => total + amount(line), 0),
+            target,
+          )
+        : 0;
+    return {
+      sessionId,
+      currency: target,
+      items: lines,
+      itemCount: lines.reduce((count, line) => count + line.quantity, 0),
+      subtotal: sum((line) => line.subtotal),
+      discount: sum((line) => line.discountAmount),
+      total: sum((line) => line.total),
+      discountPercent: this.discountPercent,
+      unavailable,
+    };
+  }
+
+  /** The session of the cart tools, the conversation of the request. */
+  private sessionOf(tool: string, context?: ToolContext): string {
+    if (!context?.conversationId) {
+      throw new ToolFailureException(tool, 'no conversation to keep a cart in');
+    }
+    return context.conversationId;
+  }
+}
+
+function cartId(tenant: Tenant, sessionId: string): string {
+  return `${tenant.id}:${sessionId}`;
+}
+
+/**
+ * Matches the requested options against the variant groups of the product,
+ * case-insensitively, and returns them with the catalog spelling and order.
+ * Groups with a single value are chosen implicitly. Products with SKUs
+ * (Shopify catalogs) must also sell the combination and have it in stock.
+ *
+ * @throws {ValidationException} With one detail per unknown group, unknown value, unchosen group
+ * or unavailable combination.
+ */
+function resolveVariant(
+  product: CatalogProduct,
+  options: VariantOption[] = [],
+): VariantSelection {
+  const chosen = new Map<string, string>();
+  const problems: string[] = [];
+  const same = (a: string, b: string) =>
+    a.trim().toLowerCase() === b.trim().toLowerCase();
+
+  for (const option of options) {
+    const group = product.variants.find(({ name }) => same(name, option.name));
+    const value = group?.values.find((candidate) =>
+      same(candidate, option.value),
+    );
+    if (!group) {
+      problems.push(`${product.id} has no ${option.name} option`);
+    } else if (!value) {
+      problems.push(
+        `${option.value} is not a ${group.name} of ${product.id}; choose one of ${group.values.join(', ')}`,
+      );
+    } else {
+      chosen.set(group.name, value);
+    }
+  }
+
+  const selection: VariantSelection = {};
+  for (const group of product.variants) {
+    const value =
+      chosen.get(group.name) ??
+      (group.values.length === 1 ? group.values[0] : undefined);
+    if (value !== undefined) {
+      selection[group.name] = value;
+    } else if (!options.some((option) => same(option.name, group.name))) {
+      problems.push(`Choose a ${group.name}: ${group.values.join(', ')}`);
+    }
+  }
+
+  if (!problems.length && product.skus) {
+    const sku = findSku(product, selection);
+    if (!sku) {
+      problems.push(`${product.id}${formatVariant(selection)} is not sold`);
+    } else if (!sku.available) {
+      problems.push(`${product.id}${formatVariant(selection)} is sold out`);
+    }
+  }
+
+  if (problems.length) {
+    throw new ValidationException(
+      `Invalid variant of ${product.id}: ${problems.join('; ')}`,
+      problems.map((message) => ({ path: 'variant', message })),
+    );
+  }
+  return selection;
+}
+
+/** The SKU of a variant selection, for products that list their SKUs. */
+function findSku(
+  product: CatalogProduct,
+  selection: VariantSelection,
+): ProductSku | undefined {
+  return product.skus?.find((sku) =>
+    product.variants.every(
+      (group) => sku.options[group.name] === selection[group.name],
+    ),
+  );
+}
+
+function formatVariant(variant: VariantSelection): string {
+  const options = Object.entries(variant).map(
+    ([name, value]) => `${name}: ${value}`,
+  );
+  return options.length ? ` (${options.join(', ')})` : '';
+}
+
+/** Cart summary for the model. */
+function describeCart(view: CartView): string {
+  const money = (amount: number) =>
+    formatPrice({ amount, currency: view.currency });
+  const lines = view.items.map(
+    (line) =>
+      `- Item ${line.id}: ${line.quantity} × ${line.displayTitle}${formatVariant(line.variant)} at ${money(line.unitPrice)}${line.discount ? `, ${view.discountPercent}% off` : ''} = ${money(line.total)}`,
+  );
+  if (view.unavailable.length) {
+    lines.push(
+      `- No longer available, not counted: ${view.unavailable.join(', ')}`,
+    );
+  }
+  if (!view.items.length) {
+    return ['The cart is empty.', ...lines].join('\n');
+  }
+  return [
+    `Cart (${view.itemCount} units):`,
+    ...lines,
+    `Subtotal: ${money(view.subtotal)}. Discount: ${money(view.discount)}. Total: ${money(view.total)}.`,
+  ].join('\n');
+}
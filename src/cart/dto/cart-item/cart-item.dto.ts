@@ -0,0 +1,87 @@
+import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+import { currencyCode } from '../../../currencies/dto/convert-currency/convert-currency.dto';
+
+/** Most units of one item, and most items, a cart may hold. */
+export const MAX_ITEM_QUANTITY = 99;
+export const MAX_CART_ITEMS = 50;
+
+/** Option chosen for one variant group, e.g. `{ name: 'Size', value: 'M' }`. */
+export interface VariantOption {
+  name: string;
+  value: string;
+}
+
+export const variantOptions = () =>
+  Joi.array()
+    .items(
+      Joi.object({
+        name: Joi.string()
+          .max(100)
+          .required()
+          .description('Variant group, e.g. "Size" or "Color"'),
+        value: Joi.string()
+          .max(100)
+          .required()
+          .description('Chosen value of the group, e.g. "M"'),
+      }),
+    )
+    .max(10)
+    .description(
+      'One value for each variant group of the product; groups with a single value may be omitted',
+    );
+
+const cartCurrency = () =>
+  currencyCode()
+    .description(
+      'ISO 4217 code to return the amounts in; the tenant or catalog currency by default',
+    )
+    .example('EUR');
+
+export const addCartItemSchema = Joi.object({
+  productId: Joi.string()
+    .max(200)
+    .required()
+    .description('Catalog ID of the product')
+    .example('luv-betsey-by-betsey-johnson-womens-ruffle-tiered-dress'),
+  variant: variantOptions().example([{ name: 'Size', value: 'M' }]),
+  quantity: Joi.number()
+    .integer()
+    .min(1)
+    .max(MAX_ITEM_QUANTITY)
+    .default(1)
+    .description('Units to add'),
+});
+
+export const cartQuerySchema = Joi.object({
+  currency: cartCurrency(),
+});
+
+export const removeCartItemQuerySchema = Joi.object({
+  quantity: Joi.number()
+    .integer()
+    .min(1)
+    .description('Units to remove; the whole item when omitted'),
+  currency: cartCurrency(),
+});
+
+/** Body of `POST /cart/:sessionId/items`. */
+@JoiSchema(addCartItemSchema)
+export class AddCartItemBody {
+  productId: string;
+  variant?: VariantOption[];
+  quantity?: number;
+}
+
+/** Query of the cart endpoints. */
+@JoiSchema(cartQuerySchema)
+export class CartQuery {
+  currency?: string;
+}
+
+/** Query of `DELETE /cart/:sessionId/items/:itemId`. */
+@JoiSchema(removeCartItemQuerySchema)
+export class RemoveCartItemQuery {
+  quantity?: number;
+  currency?: string;
+}
@@ -0,0 +1,65 @@
+import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+import { currencyCode } from '../../../currencies/dto/convert-currency/convert-currency.dto';
+import {
+  MAX_ITEM_QUANTITY,
+  variantOptions,
+  VariantOption,
+} from '../cart-item/cart-item.dto';
+
+const toolCurrency = () =>
+  currencyCode().description(
+    'ISO 4217 code to show the cart in, when the user asks for a currency other than the store one',
+  );
+
+export const addToCartToolSchema = Joi.object({
+  productId: Joi.string()
+    .required()
+    .description('ID of the product, as listed by searchProduct'),
+  variant: variantOptions(),
+  quantity: Joi.number()
+    .integer()
+    .min(1)
+    .max(MAX_ITEM_QUANTITY)
+    .default(1)
+    .description('Units to add'),
+  currency: toolCurrency(),
+});
+
+export const viewCartToolSchema = Joi.object({
+  currency: toolCurrency(),
+});
+
+export const removeFromCartToolSchema = Joi.object({
+  itemId: Joi.string()
+    .required()
+    .description('ID of the cart item, as listed by viewCart or addToCart'),
+  quantity: Joi.number()
+    .integer()
+    .min(1)
+    .description('Units to remove; the whole item when omitted'),
+  currency: toolCurrency(),
+});
+
+/** Arguments of the `addToCart` tool. */
+@JoiSchema(addToCartToolSchema)
+export class AddToCartToolArgs {
+  productId: string;
+  variant?: VariantOption[];
+  quantity?: number;
+  currency?: string;
+}
+
+/** Arguments of the `viewCart` tool. */
+@JoiSchema(viewCartToolSchema)
+export class ViewCartToolArgs {
+  currency?: string;
+}
+
+/** Arguments of the `removeFromCart` tool. */
+@JoiSchema(removeFromCartToolSchema)
+export class RemoveFromCartToolArgs {
+  itemId: string;
+  quantity?: number;
+  currency?: string;
+}
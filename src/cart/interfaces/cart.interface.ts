@@ -0,0 +1,58 @@
+/** Chosen value of each variant group, e.g. `{ Size: '100g' }`. */
+export type VariantSelection = Record<string, string>;
+
+export interface CartItem {
+  /** Product ID followed by the chosen values, e.g. "sencha-green-tea:100g". */
+  id: string;
+  productId: string;
+  variant: VariantSelection;
+  quantity: number;
+  addedAt: string;
+}
+
+export interface Cart {
+  /** Tenant and session, e.g. "tea-shop:<sessionId>". */
+  id: string;
+  tenantId: string;
+  sessionId: string;
+  items: CartItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Cart item priced from the current catalog. */
+export interface CartLine {
+  id: string;
+  productId: string;
+  displayTitle: string;
+  url: string;
+  imageUrl: string;
+  variant: VariantSelection;
+  quantity: number;
+  /**
+   * Price of one unit: the price of the chosen SKU, or the lowest price of
+   * products listed with a range.
+   */
+  unitPrice: number;
+  discount: boolean;
+  /** `unitPrice × quantity`, before the discount. */
+  subtotal: number;
+  discountAmount: number;
+  total: number;
+}
+
+export interface CartView {
+  sessionId: string;
+  /** Currency of every amount; absent for an empty cart without a currency. */
+  currency?: string;
+  items: CartLine[];
+  /** Sum of the quantities. */
+  itemCount: number;
+  subtotal: number;
+  discount: number;
+  total: number;
+  /** Rate taken off discounted products (`CART_DISCOUNT_PERCENT`). */
+  discountPercent: number;
+  /** Items whose product is no longer in the catalog; not counted. */
+  unavailable: string[];
+}
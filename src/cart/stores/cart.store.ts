@@ -0,0 +1,11 @@
+import { Cart } from '../interfaces/cart.interface';
+
+/**
+ * Persistence contract for carts. Implementations only need to store and
+ * return whole carts; pricing and variant checks live in `CartService`.
+ */
+export abstract class CartStore {
+  abstract get(id: string): Promise<Cart | undefined>;
+  abstract save(cart: Cart): Promise<void>;
+  abstract delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,47 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Cart } from '../interfaces/cart.interface';
+import { FileCartStore } from './file-cart.store';
+
+describe('FileCartStore', () => {
+  let dir: string;
+
+  const cart = (id: string): Cart => ({
+    id,
+    tenantId: 'default',
+    sessionId: id,
+    items: [
+      {
+        id: 'teapot:Red',
+        productId: 'teapot',
+        variant: { Color: 'Red' },
+        quantity: 1,
+        addedAt: '2024-10-01T00:00:00.000Z',
+      },
+    ],
+    createdAt: '2024-10-01T00:00:00.000Z',
+    updatedAt: '2024-10-01T00:00:00.000Z',
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'carts-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps concurrent saves and survives a restart', async () => {
+    const filePath = join(dir, 'nested', 'carts.json');
+    const store = new FileCartStore(filePath);
+
+    await Promise.all([store.save(cart('a')), store.save(cart('b'))]);
+
+    const reopened = new FileCartStore(filePath);
+    await expect(reopened.get('a')).resolves.toEqual(cart('a'));
+    await expect(reopened.delete('b')).resolves.toBe(true);
+    await expect(reopened.delete('b')).resolves.toBe(false);
+    await expect(store.get('b')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,36 @@
+import { JsonFile } from '../../common/storage/json-file';
+import { Cart } from '../interfaces/cart.interface';
+import { CartStore } from './cart.store';
+
+/**
+ * Keeps every cart in a single JSON file so carts survive restarts, like
+ * `FileConversationStore`.
+ */
+export class FileCartStore extends CartStore {
+  private readonly file: JsonFile<Record<string, Cart>>;
+
+  constructor(filePath: string) {
+    super();
+    this.file = new JsonFile(filePath, () => ({}));
+  }
+
+  async get(id: string) {
+    const carts = await this.file.read();
+    return carts[id];
+  }
+
+  async save(cart: Cart) {
+    await this.file.update((carts) => {
+      carts[cart.id] = cart;
+    });
+  }
+
+  async delete(id: string) {
+    let deleted = false;
+    await this.file.update((carts) => {
+      deleted = id in carts;
+      delete carts[id];
+    });
+    return deleted;
+  }
+}
@@ -0,0 +1,20 @@
+import { Cart } from '../interfaces/cart.interface';
+import { CartStore } from './cart.store';
+
+/** Default store. Carts live in the process and are lost on restart. */
+export class InMemoryCartStore extends CartStore {
+  private readonly carts = new Map<string, Cart>();
+
+  async get(id: string) {
+    const cart = this.carts.get(id);
+    return cart ? structuredClone(cart) : undefined;
+  }
+
+  async save(cart: Cart) {
+    this.carts.set(cart.id, structuredClone(cart));
+  }
+
+  async delete(id: string) {
+    return this.carts.delete(id);
+  }
+}
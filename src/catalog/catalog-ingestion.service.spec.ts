@@ -0,0 +1,171 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CacheService } from '../cache/cache.service';
+import { ValidationException } from '../common/errors/app.exception';
+import { CatalogIngestionService } from './catalog-ingestion.service';
+import { CatalogService } from './catalog.service';
+
+const HEADER =
+  'displayTitle,embeddingText,url,imageUrl,productType,discount,price,variants,createDate';
+const MATCHA =
+  '"Matcha",,https://tea-shop.example.com/products/matcha,,Food,0,"20.0 EUR",,';
+const INVALID =
+  '"Oolong",,https://tea-shop.example.com/products/oolong,,Food,0,"cheap",,';
+
+const upload = (...lines: string[]) => ({
+  originalname: 'catalog.csv',
+  buffer: Buffer.from([HEADER, ...lines].join('\n')),
+});
+
+describe('CatalogIngestionService', () => {
+  let module: TestingModule;
+  let service: CatalogIngestionService;
+  let catalogService: CatalogService;
+  let dir: string;
+  const cacheService = { clear: jest.fn() };
+  const config: Record<string, string> = {};
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'catalog-'));
+    const filePath = join(dir, 'tea-shop.csv');
+    await fs.copyFile(
+      join(
+        __dirname,
+        '..',
+        '..',
+        'test',
+        'fixtures',
+        'catalogs',
+        'tea-shop.csv',
+      ),
+      filePath,
+    );
+    cacheService.clear.mockReset();
+
+    module = await Test.createTestingModule({
+      providers: [
+        CatalogService,
+        CatalogIngestionService,
+        { provide: ConfigService, useValue: { get: (key) => config[key] } },
+        { provide: CacheService, useValue: cacheService },
+      ],
+    }).compile();
+    await module.init();
+
+    service = module.get<CatalogIngestionService>(CatalogIngestionService);
+    catalogService = module.get<CatalogService>(CatalogService);
+    await catalogService.load('tea-shop', filePath);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    await fs.rm(dir, { recursive: true, force: true });
+    delete config.CATALOG_WATCH;
+  });
+
+  it('rejects the whole file when a row is invalid', async () => {
+    const import_ = service.import(upload(MATCHA, INVALID), {
+      catalogId: 'tea-shop',
+    });
+
+    await expect(import_).rejects.toThrow(ValidationException);
+    await expect(import_).rejects.toMatchObject({
+      message: '1 of 2 catalog rows are invalid; nothing was imported',
+      details: [{ path: 'row 3.price', message: expect.any(String) }],
+    });
+    expect(catalogService.all('tea-shop')).toHaveLength(2);
+    expect(cacheService.clear).not.toHaveBeenCalled();
+  });
+
+  it('imports the valid rows with skipInvalid and drops cached rankings', async () => {
+    const report = await service.import(upload(MATCHA, INVALID), {
+      catalogId: 'tea-shop',
+      skipInvalid: true,
+    });
+
+    expect(report).toMatchObject({
+      catalogId: 'tea-shop',
+      format: 'csv',
+      rows: 2,
+      imported: 1,
+      errors: [{ row: 3, productId: 'oolong' }],
+      dryRun: false,
+      version: { version: 2, source: 'upload:catalog.csv', active: true },
+    });
+    expect(catalogService.all('tea-shop').map(({ id }) => id)).toEqual([
+      'matcha',
+    ]);
+    expect(cacheService.clear).toHaveBeenCalledWith('product-search');
+  });
+
+  it('only validates on a dry run', async () => {
+    const report = await service.import(upload(MATCHA), {
+      catalogId: 'tea-shop',
+      dryRun: true,
+    });
+
+    expect(report).toMatchObject({ imported: 1, dryRun: true });
+    expect(report.version).toBeUndefined();
+    expect(catalogService.all('tea-shop')).toHaveLength(2);
+  });
+
+  it('rejects unknown catalogs and files without products', async () => {
+    await expect(service.import(upload(MATCHA))).resolves.toBeDefined();
+    await expect(
+      service.import(upload(MATCHA), { catalogId: 'nope' }),
+    ).rejects.toThrow(NotFoundException);
+    await expect(
+      service.import(upload(), { catalogId: 'tea-shop' }),
+    ).rejects.toThrow('The file has no valid products');
+  });
+
+  it('rolls back and exports the live version', async () => {
+    await service.import(upload(MATCHA), { catalogId: 'tea-shop' });
+
+    await expect(service.rollback('tea-shop')).resolves.toMatchObject({
+      version: 1,
+    });
+    expect(cacheService.clear).toHaveBeenCalledTimes(2);
+
+    const exported = service.export('tea-shop', 'jsonl');
+    expect(exported.fileName).toBe('tea-shop-v1.jsonl');
+    expect(exported.content.trim().split('\n')).toHaveLength(2);
+  });
+
+  it('keeps the live catalog when the reloaded file has no products', async () => {
+    const filePath = join(dir, 'tea-shop.csv');
+    await fs.writeFile(filePath, HEADER);
+
+    await expect(service.reload('tea-shop', filePath)).resolves.toBeUndefined();
+    await expect(
+      service.reload('tea-shop', join(dir, 'missing.csv')),
+    ).resolves.toBeUndefined();
+    expect(catalogService.all('tea-shop')).toHaveLength(2);
+  });
+
+  it('reloads a watched catalog file after it changes', async () => {
+    config.CATALOG_WATCH = 'true';
+    config.CATALOG_WATCH_INTERVAL_MS = '20';
+    service.onApplicationBootstrap();
+
+    // Let the first poll record the original mtime
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await fs.writeFile(join(dir, 'tea-shop.csv'), [HEADER, MATCHA].join('\n'));
+
+    for (
+      let i = 0;
+      i < 100 && catalogService.all('tea-shop').length !== 1;
+      i++
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    expect(catalogService.all('tea-shop').map(({ id }) => id)).toEqual([
+      'matcha',
+    ]);
+    expect(catalogService.source('tea-shop')).toBe(join(dir, 'tea-shop.csv'));
+  });
+});
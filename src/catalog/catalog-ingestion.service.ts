@@ -0,0 +1,273 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs, Stats, unwatchFile, watchFile } from 'fs';
+import { CacheService } from '../cache/cache.service';
+import { ValidationException } from '../common/errors/app.exception';
+import { CatalogService, DEFAULT_CATALOG } from './catalog.service';
+import {
+  CatalogFormat,
+  CatalogImportReport,
+  CatalogVersion,
+} from './interfaces/catalog-import.interface';
+import { CatalogProduct } from './interfaces/catalog-product.interface';
+import {
+  catalogFormatOf,
+  readCatalogRows,
+  serializeCatalog,
+  validateCatalogRows,
+} from './utils/catalog-file';
+
+const DEFAULT_WATCH_INTERVAL_MS = 1000;
+
+/** Uploaded file, as kept in memory by multer. */
+export interface CatalogUpload {
+  originalname: string;
+  buffer: Buffer;
+}
+
+export interface ImportOptions {
+  catalogId?: string;
+  /** Taken from the file extension when omitted. */
+  format?: CatalogFormat;
+  /** Import the valid rows instead of rejecting the file. */
+  skipInvalid?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Changes the live catalogs: imports of uploaded files, rollbacks, exports
+ * and, with `CATALOG_WATCH=true`, hot reloads of the catalog files when they
+ * change on disk. Rankings cached in the `product-search` namespace are
+ * dropped after every change.
+ */
+@Injectable()
+export class CatalogIngestionService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(CatalogIngestionService.name);
+  private readonly watchers: {
+    filePath: string;
+    listener: (current: Stats, previous: Stats) => void;
+  }[] = [];
+  private readonly timers = new Set<NodeJS.Timeout>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly catalogService: CatalogService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /** Watches the file of every catalog once all of them are loaded. */
+  onApplicationBootstrap() {
+    if (this.configService.get('CATALOG_WATCH') !== 'true') return;
+    for (const catalogId of this.catalogService.catalogIds()) {
+      const source = this.catalogService.source(catalogId);
+      if (source && !source.startsWith('upload:')) {
+        this.watch(catalogId, source);
+      }
+    }
+  }
+
+  onModuleDestroy() {
+    for (const { filePath, listener } of this.watchers) {
+      unwatchFile(filePath, listener);
+    }
+    this.timers.forEach((timer) => clearTimeout(timer));
+  }
+
+  /**
+   * Validates every row of an uploaded catalog and, unless it is a dry run,
+   * makes it the live catalog in one step.
+   *
+   * @throws {NotFoundException} If the catalog does not exist.
+   * @throws {ValidationException} If a row is invalid (with one detail per problem and row) and
+   * `skipInvalid` is not set, or the file has no valid rows.
+   */
+  async import(
+    file: CatalogUpload,
+    {
+      catalogId = DEFAULT_CATALOG,
+      format,
+      skipInvalid = false,
+      dryRun = false,
+    }: ImportOptions = {},
+  ): Promise<CatalogImportReport> {
+    this.assertCatalog(catalogId);
+    if (!file?.buffer) {
+      throw new ValidationException('Upload the catalog as the "file" field');
+    }
+    format ??= catalogFormatOf(file.originalname ?? '');
+
+    const rows = await readCatalogRows(file.buffer, format);
+    const { products, errors } = validateCatalogRows(rows);
+    if (errors.length && !skipInvalid) {
+      throw new ValidationException(
+        `${errors.length} of ${rows.length} catalog rows are invalid; nothing was imported`,
+        errors.flatMap(({ row, errors: details }) =>
+          details.map(({ path, message }) => ({
+            path: path ? `row ${row}.${path}` : `row ${row}`,
+            message,
+          })),
+        ),
+      );
+    }
+    if (!products.length) {
+      throw new ValidationException('The file has no valid products');
+    }
+
+    const report: CatalogImportReport = {
+      catalogId,
+      format,
+      rows: rows.length,
+      imported: products.length,
+      errors,
+      dryRun,
+    };
+    if (!dryRun) {
+      report.version = await this.publish(
+        catalogId,
+        products,
+        `upload:${file.originalname}`,
+      );
+    }
+    return report;
+  }
+
+  /**
+   * Reads a catalog file again, skipping invalid rows like at startup. The
+   * live catalog is kept if the file cannot be read or has no valid rows,
+   * e.g. while it is being rewritten.
+   *
+   * @returns The new version, or `undefined` if the catalog was kept.
+   */
+  async reload(
+    catalogId: string,
+    filePath: string,
+  ): Promise<CatalogVersion | undefined> {
+    let products: CatalogProduct[];
+    try {
+      const rows = await readCatalogRows(
+        await fs.readFile(filePath),
+        catalogFormatOf(filePath),
+      );
+      const result = validateCatalogRows(rows);
+      products = result.products;
+      if (result.errors.length) {
+        this.logger.warn(
+          `Skipping ${result.errors.length} invalid rows of ${filePath}`,
+        );
+      }
+    } catch (error) {
+      this.logger.warn(`Could not reload ${filePath}: ${error.message}`);
+      return undefined;
+    }
+    if (!products.length) {
+      this.logger.warn(
+        `Keeping the ${catalogId} catalog: ${filePath} is empty`,
+      );
+      return undefined;
+    }
+    return this.publish(catalogId, products, filePath);
+  }
+
+  /**
+   * @throws {NotFoundException} If the catalog or the version does not exist.
+   */
+  async rollback(
+    catalogId = DEFAULT_CATALOG,
+    version?: number,
+  ): Promise<CatalogVersion> {
+    this.assertCatalog(catalogId);
+    const restored = this.catalogService.rollback(catalogId, version);
+    await this.cacheService.clear('product-search');
+    this.logger.log(
+      `Rolled the ${catalogId} catalog back to version ${restored.version}`,
+    );
+    return restored;
+  }
+
+  /**
+   * @throws {NotFoundException} If the catalog does not exist.
+   */
+  versions(catalogId = DEFAULT_CATALOG): CatalogVersion[] {
+    this.assertCatalog(catalogId);
+    return this.catalogService.versions(catalogId);
+  }
+
+  /**
+   * The live catalog in a format `import` reads back.
+   *
+   * @throws {NotFoundException} If the catalog does not exist.
+   */
+  export(
+    catalogId = DEFAULT_CATALOG,
+    format: CatalogFormat = 'csv',
+  ): { fileName: string; content: string } {
+    this.assertCatalog(catalogId);
+    const [live] = this.catalogService
+      .versions(catalogId)
+      .filter((version) => version.active);
+    return {
+      fileName: `${catalogId}-v${live.version}.${format}`,
+      content: serializeCatalog(this.catalogService.all(catalogId), format),
+    };
+  }
+
+  /**
+   * Makes already validated products the live catalog and drops the cached
+   * search rankings.
+   *
+   * @param source - Where the products come from, listed in `versions`.
+   */
+  async publish(
+    catalogId: string,
+    products: CatalogProduct[],
+    source: string,
+  ): Promise<CatalogVersion> {
+    const version = this.catalogService.replace(catalogId, products, source);
+    await this.cacheService.clear('product-search');
+    this.logger.log(
+      `Catalog ${catalogId} is now version ${version.version}: ${products.length} products from ${source}`,
+    );
+    return version;
+  }
+
+  /**
+   * Polls the file, which also survives editors that replace it, and reloads
+   * it once it has stopped changing for one interval.
+   */
+  private watch(catalogId: string, filePath: string) {
+    const interval = Number(
+      this.configService.get('CATALOG_WATCH_INTERVAL_MS') ??
+        DEFAULT_WATCH_INTERVAL_MS,
+    );
+    let timer: NodeJS.Timeout | undefined;
+    const listener = (current: Stats, previous: Stats) => {
+      if (current.mtimeMs === previous.mtimeMs) return;
+      this.timers.delete(timer);
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        this.timers.delete(timer);
+        void this.reload(catalogId, filePath);
+      }, interval);
+      this.timers.add(timer);
+    };
+    watchFile(filePath, { interval, persistent: false }, listener);
+    this.watchers.push({ filePath, listener });
+    this.logger.log(
+      `Watching ${filePath} for changes of the ${catalogId} catalog`,
+    );
+  }
+
+  private assertCatalog(catalogId: string) {
+    if (!this.catalogService.catalogIds().includes(catalogId)) {
+      throw new NotFoundException(`Catalog ${catalogId} not found`);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CatalogIngestionService } from './catalog-ingestion.service';
+import { CatalogController } from './catalog.controller';
+import { ShopifySyncService } from './shopify-sync.service';
+
+describe('CatalogController', () => {
+  let controller: CatalogController;
+  const ingestionService = { import: jest.fn(), export: jest.fn() };
+  const shopifySyncService = { sync: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CatalogController],
+      providers: [
+        ConfigService,
+        { provide: CatalogIngestionService, useValue: ingestionService },
+        { provide: ShopifySyncService, useValue: shopifySyncService },
+      ],
+    }).compile();
+
+    controller = module.get<CatalogController>(CatalogController);
+  });
+
+  it('passes the upload and the options to the import', async () => {
+    const file = { originalname: 'catalog.csv', buffer: Buffer.from('') };
+    const query = { catalogId: 'default', skipInvalid: true, dryRun: false };
+    ingestionService.import.mockResolvedValue({ imported: 1 });
+
+    await expect(controller.import(file, query)).resolves.toEqual({
+      imported: 1,
+    });
+    expect(ingestionService.import).toHaveBeenCalledWith(file, query);
+  });
+
+  it('exports the catalog as a file download', () => {
+    ingestionService.export.mockReturnValue({
+      fileName: 'default-v3.jsonl',
+      content: '{}\n',
+    });
+
+    const file = controller.export({ catalogId: 'default', format: 'jsonl' });
+
+    expect(file.getHeaders()).toMatchObject({
+      type: 'application/x-ndjson',
+      disposition: 'attachment; filename="default-v3.jsonl"',
+    });
+    expect(ingestionService.export).toHaveBeenCalledWith('default', 'jsonl');
+  });
+
+  it('syncs the Shopify store on demand', async () => {
+    shopifySyncService.sync.mockResolvedValue({ imported: 2 });
+
+    await expect(controller.sync()).resolves.toEqual({ imported: 2 });
+  });
+});
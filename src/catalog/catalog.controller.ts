@@ -0,0 +1,166 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  Query,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiProduces,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiErrorResponses } from '../common/errors/api-error-responses.decorator';
+import { ErrorCode } from '../common/errors/error-code';
+import { AdminGuard } from '../common/guards/admin.guard';
+import {
+  CatalogIngestionService,
+  CatalogUpload,
+} from './catalog-ingestion.service';
+import {
+  CatalogIdQuery,
+  ExportCatalogQuery,
+  ImportCatalogQuery,
+  RollbackCatalogBody,
+} from './dto/catalog-admin/catalog-admin.dto';
+import { ShopifySyncService } from './shopify-sync.service';
+
+/** Largest catalog file accepted by the import. */
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+@ApiTags('Admin') // Grouping under "Admin" for Swagger
+@ApiSecurity('admin-key')
+@UseGuards(AdminGuard)
+@Controller('admin/catalog')
+export class CatalogController {
+  constructor(
+    private readonly ingestionService: CatalogIngestionService,
+    private readonly shopifySyncService: ShopifySyncService,
+  ) {}
+
+  @Post('import')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES } }),
+  )
+  @ApiOperation({
+    summary: 'Replace a catalog with an uploaded CSV or JSON Lines file',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description:
+            'Catalog with the columns of data/products_list.csv, as CSV or JSON Lines',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Import report: `{ catalogId, format, rows, imported, errors, dryRun, version }`; `errors` lists the skipped rows',
+  })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.FORBIDDEN,
+    ErrorCode.NOT_FOUND,
+  )
+  import(
+    @UploadedFile() file: CatalogUpload,
+    @Query() query: ImportCatalogQuery,
+  ) {
+    return this.ingestionService.import(file, query);
+  }
+
+  @Get('versions')
+  @ApiOperation({
+    summary: 'List the live and the previous versions of a catalog',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Versions, newest first: `{ version, source, loadedAt, productCount, active }`',
+  })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.FORBIDDEN,
+    ErrorCode.NOT_FOUND,
+  )
+  versions(@Query() query: CatalogIdQuery) {
+    return this.ingestionService.versions(query.catalogId);
+  }
+
+  @Post('rollback')
+  @ApiOperation({ summary: 'Make a previous version of a catalog live again' })
+  @ApiResponse({ status: 201, description: 'The restored version' })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.FORBIDDEN,
+    ErrorCode.NOT_FOUND,
+  )
+  rollback(@Body() body: RollbackCatalogBody) {
+    return this.ingestionService.rollback(body.catalogId, body.version);
+  }
+
+  @Post('sync')
+  @ApiOperation({
+    summary: 'Replace the catalog with the products of the Shopify store',
+  })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Sync report: `{ catalogId, source, fetched, imported, skipped, version }`',
+  })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.FORBIDDEN,
+    ErrorCode.UPSTREAM_AUTH,
+    ErrorCode.UPSTREAM_UNAVAILABLE,
+    ErrorCode.UPSTREAM_TIMEOUT,
+  )
+  sync() {
+    return this.shopifySyncService.sync();
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Download the live catalog as CSV or JSON Lines' })
+  @ApiProduces('text/csv', 'application/x-ndjson')
+  @ApiResponse({
+    status: 200,
+    description: 'The catalog file, ready to be imported again',
+  })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.FORBIDDEN,
+    ErrorCode.NOT_FOUND,
+  )
+  export(@Query() query: ExportCatalogQuery) {
+    const { fileName, content } = this.ingestionService.export(
+      query.catalogId,
+      query.format,
+    );
+    return new StreamableFile(Buffer.from(content), {
+      type: query.format === 'jsonl' ? 'application/x-ndjson' : 'text/csv',
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
+}
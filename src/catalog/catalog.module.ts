@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CacheModule } from '../cache/cache.module';
+import { HttpClientModule } from '../http/http-client.module';
+import { HttpClient } from '../http/http-client';
+import { CatalogController } from './catalog.controller';
+import { CatalogIngestionService } from './catalog-ingestion.service';
+import { CatalogService } from './catalog.service';
+import { ShopifyCatalogProvider } from './providers/shopify-catalog.provider';
+import { ShopifySyncService } from './shopify-sync.service';
+
+@Module({
+  imports: [CacheModule, HttpClientModule],
+  controllers: [CatalogController],
+  providers: [
+    CatalogService,
+    CatalogIngestionService,
+    ShopifySyncService,
+    {
+      // SHOPIFY_API=storefront|admin; defaults to the Admin API when an access token is set
+      provide: ShopifyCatalogProvider,
+      inject: [ConfigService, HttpClient],
+      useFactory: (configService: ConfigService, httpClient: HttpClient) => {
+        const accessToken = configService.get('SHOPIFY_ACCESS_TOKEN');
+        return new ShopifyCatalogProvider(httpClient, {
+          baseUrl: configService.get('SHOPIFY_BASE_URL') ?? '',
+          api:
+            configService.get('SHOPIFY_API') ||
+            (accessToken ? 'admin' : 'storefront'),
+          accessToken,
+          apiVersion: configService.get('SHOPIFY_API_VERSION') || '2024-01',
+          pageSize: Number(configService.get('SHOPIFY_PAGE_SIZE') ?? 250),
+        });
+      },
+    },
+  ],
+  exports: [CatalogService],
+})
+export class CatalogModule {}
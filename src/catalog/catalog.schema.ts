@@ -0,0 +1,32 @@
+import * as Joi from 'joi';
+import { PRICE_PATTERN } from './utils/parse-product';
+
+const url = () => Joi.string().uri({ scheme: ['http', 'https'] });
+
+/**
+ * One catalog row, as read from a CSV file or normalised from a JSON Lines
+ * record. Unknown columns are ignored.
+ */
+export const catalogRowSchema = Joi.object({
+  displayTitle: Joi.string().trim().max(500).required(),
+  embeddingText: Joi.string().allow('').max(5000),
+  url: url().required(),
+  imageUrl: url().allow(''),
+  productType: Joi.string().allow('').max(200),
+  discount: Joi.string()
+    .allow('')
+    .valid('0', '1', 'true', 'false')
+    .insensitive(),
+  price: Joi.string().pattern(PRICE_PATTERN).required().messages({
+    'string.pattern.base':
+      '{{#label}} must be an amount or a range and an ISO 4217 code, e.g. "17.0 USD" or "13.0 - 15.0 USD"',
+  }),
+  variants: Joi.string().allow('').max(2000),
+  createDate: Joi.string()
+    .allow('')
+    .custom((value, helpers) =>
+      value && Number.isNaN(Date.parse(value))
+        ? helpers.error('date.base')
+        : value,
+    ),
+}).unknown(true);
@@ -0,0 +1,131 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { join } from 'path';
+import { CatalogService } from './catalog.service';
+
+describe('CatalogService', () => {
+  let service: CatalogService;
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CatalogService, ConfigService],
+    }).compile();
+    await module.init();
+
+    service = module.get<CatalogService>(CatalogService);
+  });
+
+  it('loads the CSV into typed products, skipping malformed rows', () => {
+    const boots = service.findById('time-and-tru-womens-tall-slouch-boots');
+
+    expect(service.all().length).toBeGreaterThan(80);
+    expect(boots).toMatchObject({
+      discount: false,
+      price: { amount: 0, currency: 'USD' },
+      variants: [
+        { name: 'Color', values: ['Emerald', 'Rose', 'Brown'] },
+        { name: 'Size', values: ['6', '7', '9', '10', '8'] },
+      ],
+    });
+  });
+
+  it('keeps tenant catalogs apart from the default one', async () => {
+    await service.load(
+      'tea-shop',
+      join(
+        __dirname,
+        '..',
+        '..',
+        'test',
+        'fixtures',
+        'catalogs',
+        'tea-shop.csv',
+      ),
+    );
+
+    expect(service.catalogIds()).toEqual(['default', 'tea-shop']);
+    expect(service.findById('sencha-green-tea', 'tea-shop').price).toEqual({
+      amount: 9.5,
+      currency: 'EUR',
+    });
+    expect(service.query({ discount: true }, 'tea-shop').total).toBe(1);
+    expect(() => service.findById('sencha-green-tea')).toThrow(
+      NotFoundException,
+    );
+    expect(service.all('unknown')).toEqual([]);
+  });
+
+  it('throws for unknown products', () => {
+    expect(() => service.findById('nope')).toThrow(NotFoundException);
+  });
+
+  it('filters by type, price range, discount and variant', () => {
+    const { items, total } = service.query({
+      productType: 'clothing',
+      minPrice: 10,
+      maxPrice: 30,
+      discount: true,
+      variant: 'size:M',
+      limit: 100,
+    });
+
+    expect(total).toBe(items.length);
+    for (const product of items) {
+      expect(product.productType).toBe('Clothing');
+      expect(product.discount).toBe(true);
+      expect(product.price.amount).toBeLessThanOrEqual(30);
+      expect(
+        product.variants.find((group) => group.name === 'Size').values,
+      ).toContain('M');
+    }
+  });
+
+  it('sorts and paginates', () => {
+    const first = service.query({ sort: 'price', order: 'asc', limit: 5 });
+    const second = service.query({
+      sort: 'price',
+      order: 'asc',
+      limit: 5,
+      page: 2,
+    });
+    const prices = [...first.items, ...second.items].map(
+      (product) => product.price.amount,
+    );
+
+    expect(first.items).toHaveLength(5);
+    expect(prices).toEqual([...prices].sort((a, b) => a - b));
+    expect(second.items[0].id).not.toBe(first.items[0].id);
+  });
+
+  it('keeps replaced versions for rollback', () => {
+    const [teapot, sencha] = service.all('tea-shop');
+    const first = service.versions('tea-shop')[0].version;
+
+    const replaced = service.replace('tea-shop', [teapot], 'upload:a.csv');
+
+    expect(replaced).toMatchObject({
+      version: first + 1,
+      source: 'upload:a.csv',
+      productCount: 1,
+      active: true,
+    });
+    expect(service.all('tea-shop')).toEqual([teapot]);
+    expect(service.source('tea-shop')).toBe('upload:a.csv');
+
+    expect(service.rollback('tea-shop')).toMatchObject({
+      version: first,
+      active: true,
+    });
+    expect(service.all('tea-shop')).toEqual([teapot, sencha]);
+    expect(
+      service
+        .versions('tea-shop')
+        .map(({ version, active }) => [version, active]),
+    ).toEqual([
+      [first + 1, false],
+      [first, true],
+    ]);
+    expect(() => service.rollback('tea-shop', 99)).toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,285 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { CatalogVersion } from './interfaces/catalog-import.interface';
+import {
+  CatalogPage,
+  CatalogProduct,
+  CatalogQuery,
+} from './interfaces/catalog-product.interface';
+import {
+  catalogFormatOf,
+  readCatalogRows,
+  validateCatalogRows,
+} from './utils/catalog-file';
+
+/** ID of the catalog read from `CATALOG_FILE`. */
+export const DEFAULT_CATALOG = 'default';
+
+/** Previous versions kept per catalog when `CATALOG_VERSIONS_KEPT` is unset. */
+const DEFAULT_VERSIONS_KEPT = 5;
+
+interface LoadedCatalog {
+  products: CatalogProduct[];
+  productsById: Map<string, CatalogProduct>;
+  version: number;
+  source: string;
+  loadedAt: string;
+}
+
+const EMPTY_CATALOG: LoadedCatalog = {
+  products: [],
+  productsById: new Map(),
+  version: 0,
+  source: '',
+  loadedAt: '',
+};
+
+/**
+ * In-memory product catalogs. The default one comes from `CATALOG_FILE`;
+ * tenants with a catalog of their own load it under their ID.
+ *
+ * Every load replaces the whole catalog in one step, so readers see either
+ * the old or the new products, never a mix. The replaced versions are kept
+ * for `rollback`.
+ */
+@Injectable()
+export class CatalogService implements OnModuleInit {
+  private readonly logger = new Logger(CatalogService.name);
+  private readonly catalogs = new Map<string, LoadedCatalog>();
+  /** Replaced versions of each catalog, newest first. */
+  private readonly history = new Map<string, LoadedCatalog[]>();
+  /** Last version number given to each catalog. */
+  private readonly lastVersions = new Map<string, number>();
+  private readonly versionsKept: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.versionsKept = Number(
+      configService.get('CATALOG_VERSIONS_KEPT') ?? DEFAULT_VERSIONS_KEPT,
+    );
+  }
+
+  async onModuleInit() {
+    await this.load();
+  }
+
+  /**
+   * Reads a catalog file (CSV, or JSON Lines for `.jsonl` files) into
+   * memory, replacing the catalog of the same ID. Invalid rows are skipped
+   * with a warning.
+   *
+   * @param catalogId - `DEFAULT_CATALOG` unless the catalog belongs to a tenant.
+   * @param filePath - Defaults to `CATALOG_FILE`, `data/products_list.csv` if unset.
+   * @returns The number of products loaded.
+   */
+  async load(
+    catalogId = DEFAULT_CATALOG,
+    filePath: string = this.configService.get('CATALOG_FILE') ??
+      join(__dirname, '..', '..', 'data', 'products_list.csv'),
+  ): Promise<number> {
+    const rows = await readCatalogRows(
+      await fs.readFile(filePath),
+      catalogFormatOf(filePath),
+    );
+    const { products, errors } = validateCatalogRows(rows);
+    for (const { row, errors: details } of errors) {
+      const reasons = details.map(({ message }) => message).join('; ');
+      this.logger.warn(`Skipping catalog row ${row}: ${reasons}`);
+    }
+
+    this.replace(catalogId, products, filePath);
+    this.logger.log(
+      `Loaded ${products.length} products from ${filePath} into the ${catalogId} catalog`,
+    );
+    return products.length;
+  }
+
+  /**
+   * Makes `products` the live catalog and keeps the replaced version.
+   *
+   * @param source - Where the products come from, e.g. a file path.
+   * @returns The new version.
+   */
+  replace(
+    catalogId: string,
+    products: CatalogProduct[],
+    source: string,
+  ): CatalogVersion {
+    const version = (this.lastVersions.get(catalogId) ?? 0) + 1;
+    this.lastVersions.set(catalogId, version);
+    const loaded: LoadedCatalog = {
+      products,
+      productsById: new Map(products.map((product) => [product.id, product])),
+      version,
+      source,
+      loadedAt: new Date().toISOString(),
+    };
+    this.swap(catalogId, loaded);
+    return this.describe(loaded, true);
+  }
+
+  /**
+   * Makes a previous version live again; the current one is kept in its place.
+   *
+   * @param version - Defaults to the version replaced last.
+   * @throws {NotFoundException} If the catalog has no such previous version.
+   */
+  rollback(catalogId: string, version?: number): CatalogVersion {
+    const history = this.history.get(catalogId) ?? [];
+    const target =
+      version === undefined
+        ? history[0]
+        : history.find((candidate) => candidate.version === version);
+    if (!target) {
+      throw new NotFoundException(
+        version === undefined
+          ? `Catalog ${catalogId} has no previous version`
+          : `Catalog ${catalogId} has no previous version ${version}`,
+      );
+    }
+    this.history.set(
+      catalogId,
+      history.filter((candidate) => candidate !== target),
+    );
+    this.swap(catalogId, target);
+    return this.describe(target, true);
+  }
+
+  /** The live version of a catalog and the kept ones, newest first. */
+  versions(catalogId = DEFAULT_CATALOG): CatalogVersion[] {
+    const current = this.catalogs.get(catalogId);
+    return [current, ...(this.history.get(catalogId) ?? [])]
+      .filter(Boolean)
+      .map((loaded) => this.describe(loaded, loaded === current))
+      .sort((a, b) => b.version - a.version);
+  }
+
+  /** Where the live version of a catalog was read from. */
+  source(catalogId = DEFAULT_CATALOG): string | undefined {
+    return this.catalogs.get(catalogId)?.source;
+  }
+
+  /** IDs of the loaded catalogs. */
+  catalogIds(): string[] {
+    return [...this.catalogs.keys()];
+  }
+
+  all(catalogId = DEFAULT_CATALOG): CatalogProduct[] {
+    return this.catalog(catalogId).products;
+  }
+
+  /**
+   * @throws {NotFoundException} If no product has the given ID.
+   */
+  findById(id: string, catalogId = DEFAULT_CATALOG): CatalogProduct {
+    const product = this.catalog(catalogId).productsById.get(id);
+    if (!product) {
+      throw new NotFoundException(`Product ${id} not found`);
+    }
+    return product;
+  }
+
+  /**
+   * Filters, sorts and paginates the catalog.
+   *
+   * @param query - Filters; omitted filters match every product.
+   * @returns The requested page and the total number of matches.
+   */
+  query(query: CatalogQuery, catalogId = DEFAULT_CATALOG): CatalogPage {
+    const { sort = 'createDate', order = 'desc', page = 1, limit = 20 } = query;
+    const matches = this.all(catalogId)
+      .filter((product) => this.matches(product, query))
+      .sort((a, b) => {
+        const direction = order === 'asc' ? 1 : -1;
+        return direction * this.compare(a, b, sort);
+      });
+
+    return {
+      items: matches.slice((page - 1) * limit, page * limit),
+      total: matches.length,
+      page,
+      limit,
+    };
+  }
+
+  /** Catalogs that were never loaded are empty. */
+  private catalog(catalogId: string): LoadedCatalog {
+    return this.catalogs.get(catalogId) ?? EMPTY_CATALOG;
+  }
+
+  private matches(product: CatalogProduct, query: CatalogQuery): boolean {
+    if (
+      query.productType &&
+      product.productType.toLowerCase() !== query.productType.toLowerCase()
+    ) {
+      return false;
+    }
+    const maxAmount = product.price.maxAmount ?? product.price.amount;
+    if (query.minPrice !== undefined && maxAmount < query.minPrice)
+      return false;
+    if (query.maxPrice !== undefined && product.price.amount > query.maxPrice) {
+      return false;
+    }
+    if (query.discount !== undefined && product.discount !== query.discount) {
+      return false;
+    }
+    if (query.variant && !this.hasVariant(product, query.variant)) return false;
+    return true;
+  }
+
+  private hasVariant(product: CatalogProduct, variant: string): boolean {
+    const separator = variant.indexOf(':');
+    const group = separator >= 0 ? variant.slice(0, separator).trim() : '';
+    const value = (separator >= 0 ? variant.slice(separator + 1) : variant)
+      .trim()
+      .toLowerCase();
+
+    return product.variants.some(
+      (variants) =>
+        (!group || variants.name.toLowerCase() === group.toLowerCase()) &&
+        variants.values.some((candidate) => candidate.toLowerCase() === value),
+    );
+  }
+
+  private compare(
+    a: CatalogProduct,
+    b: CatalogProduct,
+    sort: CatalogQuery['sort'],
+  ): number {
+    switch (sort) {
+      case 'price':
+        return a.price.amount - b.price.amount;
+      case 'displayTitle':
+        return a.displayTitle.localeCompare(b.displayTitle);
+      default:
+        return (
+          new Date(a.createDate).getTime() - new Date(b.createDate).getTime()
+        );
+    }
+  }
+
+  private swap(catalogId: string, loaded: LoadedCatalog) {
+    const current = this.catalogs.get(catalogId);
+    this.catalogs.set(catalogId, loaded);
+    if (current) {
+      const history = [current, ...(this.history.get(catalogId) ?? [])];
+      this.history.set(catalogId, history.slice(0, this.versionsKept));
+    }
+  }
+
+  private describe(loaded: LoadedCatalog, active: boolean): CatalogVersion {
+    return {
+      version: loaded.version,
+      source: loaded.source,
+      loadedAt: loaded.loadedAt,
+      productCount: loaded.products.length,
+      active,
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+import { CatalogFormat } from '../../interfaces/catalog-import.interface';
+
+const catalogId = () =>
+  Joi.string()
+    .max(64)
+    .default('default')
+    .description(
+      'Catalog: "default" or the ID of a tenant with its own catalog',
+    )
+    .example('default');
+
+const catalogFormat = () => Joi.string().valid('csv', 'jsonl');
+
+export const catalogIdQuerySchema = Joi.object({
+  catalogId: catalogId(),
+});
+
+export const importCatalogQuerySchema = Joi.object({
+  catalogId: catalogId(),
+  format: catalogFormat().description(
+    'Format of the file; taken from its extension (.jsonl or .ndjson for JSON Lines) when omitted',
+  ),
+  skipInvalid: Joi.boolean()
+    .default(false)
+    .description(
+      'Import the valid rows and report the invalid ones, instead of rejecting the whole file',
+    ),
+  dryRun: Joi.boolean()
+    .default(false)
+    .description('Only validate the file; the live catalog is not changed'),
+});
+
+export const exportCatalogQuerySchema = Joi.object({
+  catalogId: catalogId(),
+  format: catalogFormat().default('csv').description('Format of the file'),
+});
+
+export const rollbackCatalogSchema = Joi.object({
+  catalogId: catalogId(),
+  version: Joi.number()
+    .integer()
+    .min(1)
+    .description('Version to restore; the one replaced last when omitted')
+    .example(3),
+});
+
+/** Query of `GET /admin/catalog/versions`. */
+@JoiSchema(catalogIdQuerySchema)
+export class CatalogIdQuery {
+  catalogId?: string;
+}
+
+/** Query of `POST /admin/catalog/import`. */
+@JoiSchema(importCatalogQuerySchema)
+export class ImportCatalogQuery {
+  catalogId?: string;
+  format?: CatalogFormat;
+  skipInvalid?: boolean;
+  dryRun?: boolean;
+}
+
+/** Query of `GET /admin/catalog/export`. */
+@JoiSchema(exportCatalogQuerySchema)
+export class ExportCatalogQuery {
+  catalogId?: string;
+  format?: CatalogFormat;
+}
+
+/** Body of `POST /admin/catalog/rollback`. */
+@JoiSchema(rollbackCatalogSchema)
+export class RollbackCatalogBody {
+  catalogId?: string;
+  version?: number;
+}
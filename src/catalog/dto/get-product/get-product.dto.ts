@@ -0,0 +1,15 @@
+import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+import { currencyCode } from '../../../currencies/dto/convert-currency/convert-currency.dto';
+
+export const getProductSchema = Joi.object({
+  currency: currencyCode()
+    .description('ISO 4217 code to return the price in')
+    .example('EUR'),
+});
+
+/** Query of `GET /products/:id`. */
+@JoiSchema(getProductSchema)
+export class GetProductQuery {
+  currency?: string;
+}
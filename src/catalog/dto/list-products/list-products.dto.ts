@@ -0,0 +1,57 @@
+import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+import { CatalogQuery } from '../../interfaces/catalog-product.interface';
+import { currencyCode } from '../../../currencies/dto/convert-currency/convert-currency.dto';
+
+export const listProductsSchema = Joi.object({
+  productType: Joi.string()
+    .description('Exact product type, case-insensitive')
+    .example('Clothing'),
+  minPrice: Joi.number().min(0).description('Minimum price'),
+  maxPrice: Joi.number().min(0).description('Maximum price'),
+  discount: Joi.boolean().description(
+    'Only discounted (true) or full price (false) products',
+  ),
+  variant: Joi.string()
+    .description('Variant value, optionally scoped to a group')
+    .example('Color:Brown'),
+  sort: Joi.string()
+    .valid('createDate', 'price', 'displayTitle')
+    .default('createDate')
+    .description('Sort field'),
+  order: Joi.string()
+    .valid('asc', 'desc')
+    .default('desc')
+    .description('Sort order'),
+  page: Joi.number()
+    .integer()
+    .min(1)
+    .default(1)
+    .description('1-based page number'),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(20)
+    .description('Page size'),
+  currency: currencyCode()
+    .description(
+      'ISO 4217 code to return the prices in; price filters stay in the catalog currency',
+    )
+    .example('EUR'),
+});
+
+/** Query of `GET /products`. */
+@JoiSchema(listProductsSchema)
+export class ListProductsQuery implements CatalogQuery {
+  productType?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  discount?: boolean;
+  variant?: string;
+  sort?: 'createDate' | 'price' | 'displayTitle';
+  order?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+  currency?: string;
+}
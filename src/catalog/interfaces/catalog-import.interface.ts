@@ -0,0 +1,41 @@
+import { ErrorDetail } from '../../common/errors/app.exception';
+
+export type CatalogFormat = 'csv' | 'jsonl';
+
+/** Raw row of a catalog file, before validation. */
+export interface CatalogRow {
+  /** 1-based row number: the CSV header is row 1, JSON Lines rows are lines. */
+  row: number;
+  values?: Record<string, string>;
+  /** Why the line could not be read, e.g. invalid JSON. */
+  error?: string;
+}
+
+export interface CatalogRowError {
+  row: number;
+  /** ID of the product, when the row has a URL. */
+  productId?: string;
+  errors: ErrorDetail[];
+}
+
+export interface CatalogVersion {
+  /** Increases with every load, import and hot reload of the catalog. */
+  version: number;
+  /** File the catalog was read from, or `upload:<file name>`. */
+  source: string;
+  loadedAt: string;
+  productCount: number;
+  active: boolean;
+}
+
+export interface CatalogImportReport {
+  catalogId: string;
+  format: CatalogFormat;
+  rows: number;
+  imported: number;
+  /** Invalid rows, skipped when `skipInvalid` is set. */
+  errors: CatalogRowError[];
+  dryRun: boolean;
+  /** The new live version; absent for dry runs. */
+  version?: CatalogVersion;
+}
@@ -0,0 +1,65 @@
+export interface ProductPrice {
+  /** Lowest price; the only price for products without a range. */
+  amount: number;
+  /** Highest price when the catalog lists a range such as "13.0 - 15.0 USD". */
+  maxAmount?: number;
+  /** ISO-4217 code, e.g. "USD". */
+  currency: string;
+}
+
+export interface VariantGroup {
+  /** Option name, e.g. "Color" or "Size". */
+  name: string;
+  values: string[];
+}
+
+/** One purchasable combination of variant values (a Shopify variant). */
+export interface ProductSku {
+  /** Shopify variant ID. */
+  id: string;
+  /** Value of each variant group, e.g. `{ Color: 'Black', Size: 'M' }`. */
+  options: Record<string, string>;
+  price: ProductPrice;
+  /** Price before the sale, when the SKU is discounted. */
+  compareAtPrice?: number;
+  available: boolean;
+  /** Image of this SKU; the product image otherwise. */
+  imageUrl?: string;
+  sku?: string;
+}
+
+export interface CatalogProduct {
+  /** Shopify handle taken from the product URL. */
+  id: string;
+  displayTitle: string;
+  embeddingText: string;
+  url: string;
+  imageUrl: string;
+  productType: string;
+  discount: boolean;
+  price: ProductPrice;
+  variants: VariantGroup[];
+  createDate: string;
+  /** Price, stock and image of each variant combination; Shopify catalogs only. */
+  skus?: ProductSku[];
+}
+
+export interface CatalogQuery {
+  productType?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  discount?: boolean;
+  /** Matches any variant value; `Name:value` restricts it to one group. */
+  variant?: string;
+  sort?: 'createDate' | 'price' | 'displayTitle';
+  order?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+export interface CatalogPage {
+  items: CatalogProduct[];
+  total: number;
+  page: number;
+  limit: number;
+}
@@ -0,0 +1,72 @@
+/**
+ * Product of Shopify's storefront `/products.json` or of the Admin REST API
+ * (`/admin/api/<version>/products.json`). Both share most fields; the
+ * comments note where they differ.
+ */
+export interface ShopifyProduct {
+  id: number;
+  title: string;
+  handle: string;
+  body_html?: string | null;
+  vendor?: string;
+  product_type?: string;
+  created_at?: string;
+  published_at?: string | null;
+  /** Admin API only: `active`, `draft` or `archived`. */
+  status?: string;
+  /** An array in `products.json`, a comma-separated string in the Admin API. */
+  tags?: string[] | string;
+  options?: ShopifyOption[];
+  variants?: ShopifyVariant[];
+  images?: ShopifyImage[];
+  /** Admin API only: the featured image. */
+  image?: ShopifyImage | null;
+}
+
+export interface ShopifyOption {
+  name: string;
+  position?: number;
+  values?: string[];
+}
+
+export interface ShopifyVariant {
+  id: number;
+  title?: string;
+  /** Decimal string, e.g. "17.00". */
+  price: string;
+  compare_at_price?: string | null;
+  sku?: string | null;
+  option1?: string | null;
+  option2?: string | null;
+  option3?: string | null;
+  /** `products.json` only. */
+  available?: boolean;
+  /** `products.json` only. */
+  featured_image?: ShopifyImage | null;
+  /** Admin API only. */
+  image_id?: number | null;
+  /** Admin API only. */
+  inventory_quantity?: number;
+  /** Admin API only: `deny` or `continue` (sell when out of stock). */
+  inventory_policy?: string;
+  /** Admin API only: `null` when Shopify does not track the stock. */
+  inventory_management?: string | null;
+}
+
+export interface ShopifyImage {
+  id?: number;
+  src: string;
+  variant_ids?: number[];
+}
+
+export interface ShopifySyncReport {
+  catalogId: string;
+  /** Endpoint the products were read from. */
+  source: string;
+  /** Products returned by Shopify. */
+  fetched: number;
+  imported: number;
+  /** Products that were left out, e.g. drafts or products without a price. */
+  skipped: { handle?: string; reason: string }[];
+  version: number;
+}
@@ -0,0 +1,97 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  UpstreamAuthException,
+  UpstreamUnavailableException,
+} from '../../common/errors/app.exception';
+import { FetchHttpClient } from '../../http/clients/fetch-http.client';
+import { ShopifyCatalogProvider } from './shopify-catalog.provider';
+
+const product = (id: number) => ({
+  id,
+  title: `Product ${id}`,
+  handle: `product-${id}`,
+  variants: [{ id: id * 10, price: '1.00' }],
+});
+
+describe('ShopifyCatalogProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: IncomingMessage[];
+  let respond: (url: URL) => { status: number; body: unknown };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req);
+      const { status, body } = respond(new URL(req.url, 'http://localhost'));
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const provider = (api: 'storefront' | 'admin', accessToken?: string) =>
+    new ShopifyCatalogProvider(new FetchHttpClient(), {
+      baseUrl: `${baseUrl}/`,
+      api,
+      accessToken,
+      apiVersion: '2024-01',
+      pageSize: 2,
+    });
+
+  it('pages through the storefront products.json', async () => {
+    respond = (url) => {
+      const page = Number(url.searchParams.get('page'));
+      const ids = [[1, 2], [3, 4], [5]][page - 1] ?? [];
+      return { status: 200, body: { products: ids.map(product) } };
+    };
+
+    const products = await provider('storefront').fetchProducts();
+
+    expect(products.map(({ id }) => id)).toEqual([1, 2, 3, 4, 5]);
+    expect(requests.map(({ url }) => url)).toEqual([
+      '/products.json?limit=2&page=1',
+      '/products.json?limit=2&page=2',
+      '/products.json?limit=2&page=3',
+    ]);
+  });
+
+  it('pages through the Admin API by ID with the access token', async () => {
+    respond = (url) => {
+      const sinceId = Number(url.searchParams.get('since_id') ?? 0);
+      const ids = [1, 2, 3, 4].filter((id) => id > sinceId).slice(0, 2);
+      return { status: 200, body: { products: ids.map(product) } };
+    };
+
+    const products = await provider('admin', 'shpat_test').fetchProducts();
+
+    expect(products.map(({ id }) => id)).toEqual([1, 2, 3, 4]);
+    expect(requests.map(({ url }) => url)).toEqual([
+      '/admin/api/2024-01/products.json?limit=2&status=active',
+      '/admin/api/2024-01/products.json?limit=2&status=active&since_id=2',
+      '/admin/api/2024-01/products.json?limit=2&status=active&since_id=4',
+    ]);
+    expect(requests[0].headers['x-shopify-access-token']).toBe('shpat_test');
+  });
+
+  it('reports rejected tokens and unexpected answers', async () => {
+    respond = () => ({ status: 401, body: { errors: 'Invalid API key' } });
+    await expect(provider('admin', 'bad').fetchProducts()).rejects.toThrow(
+      UpstreamAuthException,
+    );
+
+    respond = () => ({ status: 200, body: { errors: 'Not Found' } });
+    await expect(provider('storefront').fetchProducts()).rejects.toThrow(
+      new UpstreamUnavailableException('Shopify', 'expected a products array'),
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  UpstreamAuthException,
+  UpstreamUnavailableException,
+} from '../../common/errors/app.exception';
+import { HttpClient } from '../../http/http-client';
+import { ShopifyProduct } from '../interfaces/shopify.interface';
+import { readShopifyProducts } from '../utils/shopify-product';
+
+/** Stops runaway pagination, e.g. against a server that ignores `page`. */
+const MAX_PAGES = 200;
+
+export interface ShopifyCatalogOptions {
+  /** Store or mock server, e.g. https://wizybot-demo-store.myshopify.com. */
+  baseUrl: string;
+  /** `storefront` reads the public `/products.json`; `admin` needs `accessToken`. */
+  api: 'storefront' | 'admin';
+  accessToken?: string;
+  /** Admin API version, e.g. "2024-01". */
+  apiVersion: string;
+  /** Products per request; Shopify allows up to 250. */
+  pageSize: number;
+}
+
+/**
+ * Reads every product of a Shopify store, page by page: `page=N` on the
+ * storefront `products.json`, `since_id` on the Admin API.
+ */
+export class ShopifyCatalogProvider {
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly options: ShopifyCatalogOptions,
+  ) {}
+
+  /** Products endpoint, without the paging parameters. */
+  get endpoint(): string {
+    const baseUrl = this.options.baseUrl.replace(/\/+$/, '');
+    return this.options.api === 'admin'
+      ? `${baseUrl}/admin/api/${this.options.apiVersion}/products.json`
+      : `${baseUrl}/products.json`;
+  }
+
+  /**
+   * @throws {UpstreamAuthException} If Shopify rejects the access token.
+   * @throws {UpstreamUnavailableException} If Shopify fails or answers with something else than products.
+   */
+  async fetchProducts(): Promise<ShopifyProduct[]> {
+    const products: ShopifyProduct[] = [];
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const batch = await this.fetchPage(
+        page,
+        products[products.length - 1]?.id,
+      );
+      products.push(...batch);
+      if (batch.length < this.options.pageSize) return products;
+    }
+    throw new UpstreamUnavailableException(
+      'Shopify',
+      `more than ${MAX_PAGES} pages of products`,
+    );
+  }
+
+  private async fetchPage(
+    page: number,
+    lastId?: number,
+  ): Promise<ShopifyProduct[]> {
+    const { api, accessToken, pageSize } = this.options;
+    const query =
+      api === 'admin'
+        ? `limit=${pageSize}&status=active${lastId ? `&since_id=${lastId}` : ''}`
+        : `limit=${pageSize}&page=${page}`;
+    const response = await this.httpClient.request({
+      dependency: 'shopify',
+      url: `${this.endpoint}?${query}`,
+      headers:
+        api === 'admin' && accessToken
+          ? { 'X-Shopify-Access-Token': accessToken }
+          : undefined,
+    });
+    if (response.status === 401 || response.status === 403) {
+      throw new UpstreamAuthException('Shopify');
+    }
+    if (!response.ok) {
+      throw new UpstreamUnavailableException(
+        'Shopify',
+        `answered with status ${response.status}`,
+      );
+    }
+    try {
+      return readShopifyProducts(response.body);
+    } catch (error) {
+      throw new UpstreamUnavailableException('Shopify', error.message);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  UpstreamUnavailableException,
+  ValidationException,
+} from '../common/errors/app.exception';
+import { CatalogIngestionService } from './catalog-ingestion.service';
+import { ShopifyCatalogProvider } from './providers/shopify-catalog.provider';
+import { ShopifySyncService } from './shopify-sync.service';
+
+const { products } = JSON.parse(
+  readFileSync(
+    join(__dirname, '..', '..', 'test', 'fixtures', 'shopify', 'products.json'),
+    'utf8',
+  ),
+);
+
+describe('ShopifySyncService', () => {
+  let service: ShopifySyncService;
+  const config: Record<string, string> = {};
+  const provider = {
+    endpoint: 'http://127.0.0.1:4000/products.json',
+    fetchProducts: jest.fn(),
+  };
+  const ingestionService = { publish: jest.fn() };
+
+  beforeEach(async () => {
+    Object.assign(config, {
+      SHOPIFY_BASE_URL: 'http://127.0.0.1:4000',
+      SHOPIFY_STORE_URL: 'https://wizybot-demo-store.myshopify.com',
+      SHOPIFY_CURRENCY: 'EUR',
+      SHOPIFY_CATALOG_ID: 'shopify',
+    });
+    provider.fetchProducts.mockReset().mockResolvedValue(products);
+    ingestionService.publish.mockReset().mockResolvedValue({ version: 3 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShopifySyncService,
+        { provide: ConfigService, useValue: { get: (key) => config[key] } },
+        { provide: ShopifyCatalogProvider, useValue: provider },
+        { provide: CatalogIngestionService, useValue: ingestionService },
+      ],
+    }).compile();
+
+    service = module.get<ShopifySyncService>(ShopifySyncService);
+  });
+
+  it('publishes the products that could be converted', async () => {
+    await expect(service.sync()).resolves.toEqual({
+      catalogId: 'shopify',
+      source: 'http://127.0.0.1:4000/products.json',
+      fetched: 3,
+      imported: 2,
+      skipped: [
+        { handle: 'gift-card', reason: 'no variant with a valid price' },
+      ],
+      version: 3,
+    });
+
+    const [catalogId, published, source] =
+      ingestionService.publish.mock.calls[0];
+    expect(catalogId).toBe('shopify');
+    expect(source).toBe('shopify:http://127.0.0.1:4000/products.json');
+    expect(published.map(({ id }) => id)).toEqual([
+      'womens-ruffle-tiered-dress',
+      'canvas-tote-bag',
+    ]);
+    expect(published[0]).toMatchObject({
+      url: 'https://wizybot-demo-store.myshopify.com/products/womens-ruffle-tiered-dress',
+      price: { currency: 'EUR' },
+    });
+  });
+
+  it('shares a running sync', async () => {
+    const [first, second] = await Promise.all([service.sync(), service.sync()]);
+
+    expect(first).toBe(second);
+    expect(provider.fetchProducts).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the live catalog when the store fails or has no usable products', async () => {
+    provider.fetchProducts.mockRejectedValueOnce(new TypeError('fetch failed'));
+    await expect(service.sync()).rejects.toThrow(UpstreamUnavailableException);
+
+    provider.fetchProducts.mockResolvedValueOnce([products[2]]);
+    await expect(service.sync()).rejects.toThrow(
+      'none of its 1 products could be imported',
+    );
+    expect(ingestionService.publish).not.toHaveBeenCalled();
+  });
+
+  it('needs a store to sync', () => {
+    delete config.SHOPIFY_BASE_URL;
+
+    expect(() => service.sync()).toThrow(ValidationException);
+    service.onApplicationBootstrap();
+    expect(provider.fetchProducts).not.toHaveBeenCalled();
+  });
+
+  it('syncs at startup and on schedule', async () => {
+    jest.useFakeTimers();
+    try {
+      config.SHOPIFY_SYNC_INTERVAL_MINUTES = '5';
+      service.onApplicationBootstrap();
+      await jest.advanceTimersByTimeAsync(5 * 60000);
+
+      expect(provider.fetchProducts).toHaveBeenCalledTimes(2);
+      service.onModuleDestroy();
+      await jest.advanceTimersByTimeAsync(5 * 60000);
+      expect(provider.fetchProducts).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AppException,
+  UpstreamUnavailableException,
+  ValidationException,
+} from '../common/errors/app.exception';
+import { CatalogIngestionService } from './catalog-ingestion.service';
+import { DEFAULT_CATALOG } from './catalog.service';
+import { CatalogProduct } from './interfaces/catalog-product.interface';
+import {
+  ShopifyProduct,
+  ShopifySyncReport,
+} from './interfaces/shopify.interface';
+import { ShopifyCatalogProvider } from './providers/shopify-catalog.provider';
+import { parseShopifyProduct } from './utils/shopify-product';
+
+const DEFAULT_SYNC_INTERVAL_MINUTES = 60;
+
+/**
+ * Keeps a catalog in sync with a Shopify store (`SHOPIFY_BASE_URL`): once at
+ * startup, then every `SHOPIFY_SYNC_INTERVAL_MINUTES`, and on demand. Each
+ * sync replaces the whole catalog like an import; products that cannot be
+ * converted are skipped, and a failed sync keeps the live catalog.
+ */
+@Injectable()
+export class ShopifySyncService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(ShopifySyncService.name);
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<ShopifySyncReport>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly provider: ShopifyCatalogProvider,
+    private readonly ingestionService: CatalogIngestionService,
+  ) {}
+
+  get enabled(): boolean {
+    return Boolean(this.configService.get('SHOPIFY_BASE_URL'));
+  }
+
+  /** Starts the schedule; the first sync runs in the background. */
+  onApplicationBootstrap() {
+    if (!this.enabled) return;
+    void this.syncQuietly();
+
+    const minutes = Number(
+      this.configService.get('SHOPIFY_SYNC_INTERVAL_MINUTES') ??
+        DEFAULT_SYNC_INTERVAL_MINUTES,
+    );
+    if (minutes > 0) {
+      this.timer = setInterval(() => void this.syncQuietly(), minutes * 60000);
+      this.timer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Reads every product of the store and makes them the live catalog. Calls
+   * made while a sync is running share its result.
+   *
+   * @throws {ValidationException} If `SHOPIFY_BASE_URL` is not set.
+   * @throws {UpstreamAuthException} If Shopify rejects the access token.
+   * @throws {UpstreamUnavailableException} If Shopify fails, or none of its products can be imported.
+   */
+  sync(): Promise<ShopifySyncReport> {
+    if (!this.enabled) {
+      throw new ValidationException(
+        'Set SHOPIFY_BASE_URL to sync a Shopify store',
+      );
+    }
+    this.running ??= this.run().finally(() => (this.running = undefined));
+    return this.running;
+  }
+
+  private async run(): Promise<ShopifySyncReport> {
+    const catalogId =
+      this.configService.get('SHOPIFY_CATALOG_ID') || DEFAULT_CATALOG;
+    const options = {
+      storeUrl:
+        this.configService.get('SHOPIFY_STORE_URL') ||
+        this.configService.get('SHOPIFY_BASE_URL'),
+      currency: this.configService.get('SHOPIFY_CURRENCY') || 'USD',
+    };
+
+    let fetched: ShopifyProduct[];
+    try {
+      fetched = await this.provider.fetchProducts();
+    } catch (error) {
+      if (error instanceof AppException) throw error;
+      throw new UpstreamUnavailableException('Shopify', error.message, {
+        cause: error,
+      });
+    }
+
+    const products: CatalogProduct[] = [];
+    const skipped: ShopifySyncReport['skipped'] = [];
+    const ids = new Set<string>();
+    for (const product of fetched) {
+      try {
+        const parsed = parseShopifyProduct(product, options);
+        if (ids.has(parsed.id)) throw new Error('duplicate handle');
+        ids.add(parsed.id);
+        products.push(parsed);
+      } catch (error) {
+        skipped.push({ handle: product?.handle, reason: error.message });
+      }
+    }
+    if (skipped.length) {
+      this.logger.warn(
+        `Skipped ${skipped.length} Shopify products: ${skipped
+          .map(({ handle, reason }) => `${handle ?? '?'} (${reason})`)
+          .join(', ')}`,
+      );
+    }
+    if (!products.length) {
+      throw new UpstreamUnavailableException(
+        'Shopify',
+        `none of its ${fetched.length} products could be imported`,
+      );
+    }
+
+    const version = await this.ingestionService.publish(
+      catalogId,
+      products,
+      `shopify:${this.provider.endpoint}`,
+    );
+    return {
+      catalogId,
+      source: this.provider.endpoint,
+      fetched: fetched.length,
+      imported: products.length,
+      skipped,
+      version: version.version,
+    };
+  }
+
+  /** Scheduled syncs only log failures; the live catalog stays as it is. */
+  private async syncQuietly() {
+    try {
+      await this.sync();
+    } catch (error) {
+      this.logger.warn(`Shopify sync failed: ${error.message}`);
+    }
+  }
+}
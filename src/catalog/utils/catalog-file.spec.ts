@@ -0,0 +1,118 @@
+import {
+  catalogFormatOf,
+  readCatalogRows,
+  serializeCatalog,
+  validateCatalogRows,
+} from './catalog-file';
+
+const HEADER =
+  'displayTitle,embeddingText,url,imageUrl,productType,discount,price,variants,createDate';
+const TEAPOT =
+  '"Cast Iron Teapot","Teapot, cast iron",https://shop.example.com/products/teapot,,Home,0,"45.0 EUR","Color (Black, Red), ","2024-05-02 10:00:00.000000"';
+
+describe('catalog-file', () => {
+  it('detects the format from the extension', () => {
+    expect(catalogFormatOf('products.JSONL')).toBe('jsonl');
+    expect(catalogFormatOf('products.ndjson')).toBe('jsonl');
+    expect(catalogFormatOf('products.csv')).toBe('csv');
+  });
+
+  it('reports every problem of each invalid row', async () => {
+    const rows = await readCatalogRows(
+      [
+        HEADER,
+        TEAPOT,
+        '"",,not-a-url,,Home,maybe,"cheap",,',
+        TEAPOT,
+        '"Sencha",,https://shop.example.com/products/sencha,,Food,1,"9.5 EUR",,yesterday',
+      ].join('\n'),
+      'csv',
+    );
+
+    const { products, errors } = validateCatalogRows(rows);
+
+    expect(products.map((product) => product.id)).toEqual(['teapot']);
+    expect(errors).toEqual([
+      {
+        row: 3,
+        productId: 'not-a-url',
+        errors: [
+          {
+            path: 'displayTitle',
+            message: '"displayTitle" is not allowed to be empty',
+          },
+          expect.objectContaining({ path: 'url' }),
+          expect.objectContaining({ path: 'discount' }),
+          {
+            path: 'price',
+            message:
+              '"price" must be an amount or a range and an ISO 4217 code, e.g. "17.0 USD" or "13.0 - 15.0 USD"',
+          },
+        ],
+      },
+      {
+        row: 4,
+        productId: 'teapot',
+        errors: [
+          {
+            path: 'url',
+            message: 'duplicate product ID teapot, first seen on row 2',
+          },
+        ],
+      },
+      {
+        row: 5,
+        productId: 'sencha',
+        errors: [expect.objectContaining({ path: 'createDate' })],
+      },
+    ]);
+  });
+
+  it('reads JSON Lines in the CSV columns or the product shape', async () => {
+    const rows = await readCatalogRows(
+      [
+        JSON.stringify({
+          displayTitle: 'Teapot',
+          url: 'https://shop.example.com/products/teapot',
+          price: { amount: 45, currency: 'EUR' },
+          variants: [{ name: 'Color', values: ['Black'] }],
+          discount: true,
+        }),
+        '',
+        '{"displayTitle": ',
+        '["not", "an", "object"]',
+      ].join('\n'),
+      'jsonl',
+    );
+
+    const { products, errors } = validateCatalogRows(rows);
+
+    expect(products).toEqual([
+      expect.objectContaining({
+        id: 'teapot',
+        discount: true,
+        price: { amount: 45, currency: 'EUR' },
+        variants: [{ name: 'Color', values: ['Black'] }],
+      }),
+    ]);
+    expect(errors.map(({ row }) => row)).toEqual([3, 4]);
+    expect(errors[0].errors[0].message).toMatch(/^invalid JSON/);
+  });
+
+  it.each(['csv', 'jsonl'] as const)(
+    'reads back what it writes as %s',
+    async (format) => {
+      const { products } = validateCatalogRows(
+        await readCatalogRows([HEADER, TEAPOT].join('\n'), 'csv'),
+      );
+
+      const written = serializeCatalog(products, format);
+      const reread = validateCatalogRows(
+        await readCatalogRows(written, format),
+      );
+
+      expect(reread.errors).toEqual([]);
+      expect(reread.products).toEqual(products);
+    },
+  );
+});
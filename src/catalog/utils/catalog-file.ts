@@ -0,0 +1,187 @@
+import * as csv from 'csv-parser';
+import { extname } from 'path';
+import { Readable } from 'stream';
+import { catalogRowSchema } from '../catalog.schema';
+import {
+  CatalogFormat,
+  CatalogRow,
+  CatalogRowError,
+} from '../interfaces/catalog-import.interface';
+import { CatalogProduct } from '../interfaces/catalog-product.interface';
+import {
+  formatPrice,
+  parseProductRow,
+  productIdFromUrl,
+} from './parse-product';
+
+/** Columns of the catalog CSV, in file order. */
+export const CATALOG_COLUMNS = [
+  'displayTitle',
+  'embeddingText',
+  'url',
+  'imageUrl',
+  'productType',
+  'discount',
+  'price',
+  'variants',
+  'createDate',
+] as const;
+
+/** `jsonl` for `.jsonl` and `.ndjson` files, `csv` otherwise. */
+export function catalogFormatOf(fileName: string): CatalogFormat {
+  return ['.jsonl', '.ndjson'].includes(extname(fileName).toLowerCase())
+    ? 'jsonl'
+    : 'csv';
+}
+
+/**
+ * Splits a catalog file into rows. JSON Lines records may use the CSV
+ * columns or the product shape of `GET /products` (`price` and `variants`
+ * as objects, `discount` as a boolean), so exports can be imported again.
+ */
+export async function readCatalogRows(
+  content: Buffer | string,
+  format: CatalogFormat,
+): Promise<CatalogRow[]> {
+  if (format === 'jsonl') {
+    return content
+      .toString()
+      .split(/\r?\n/)
+      .map((text, index) => ({ text, row: index + 1 }))
+      .filter(({ text }) => text.trim())
+      .map(({ text, row }) => {
+        try {
+          return { row, values: recordToRow(JSON.parse(text)) };
+        } catch (error) {
+          return { row, error: `invalid JSON: ${error.message}` };
+        }
+      });
+  }
+
+  const rows: CatalogRow[] = [];
+  return new Promise((resolve, reject) => {
+    Readable.from([content])
+      .pipe(csv())
+      .on('data', (values) => rows.push({ row: rows.length + 2, values }))
+      .on('end', () => resolve(rows))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Checks every row against `catalogRowSchema` and parses the valid ones.
+ * A product ID (the URL handle) may only appear once; later rows with the
+ * same ID are invalid.
+ */
+export function validateCatalogRows(rows: CatalogRow[]): {
+  products: CatalogProduct[];
+  errors: CatalogRowError[];
+} {
+  const products: CatalogProduct[] = [];
+  const errors: CatalogRowError[] = [];
+  const firstRows = new Map<string, number>();
+
+  for (const { row, values, error } of rows) {
+    if (error) {
+      errors.push({ row, errors: [{ message: error }] });
+      continue;
+    }
+    const productId =
+      typeof values.url === 'string' && values.url
+        ? productIdFromUrl(values.url)
+        : undefined;
+    const result = catalogRowSchema.validate(values, { abortEarly: false });
+    if (result.error) {
+      errors.push({
+        row,
+        productId,
+        errors: result.error.details.map((detail) => ({
+          path: detail.path.join('.'),
+          message: detail.message,
+        })),
+      });
+      continue;
+    }
+    if (firstRows.has(productId)) {
+      errors.push({
+        row,
+        productId,
+        errors: [
+          {
+            path: 'url',
+            message: `duplicate product ID ${productId}, first seen on row ${firstRows.get(productId)}`,
+          },
+        ],
+      });
+      continue;
+    }
+    firstRows.set(productId, row);
+    products.push(parseProductRow(result.value));
+  }
+  return { products, errors };
+}
+
+/** Writes products in the format `readCatalogRows` reads. */
+export function serializeCatalog(
+  products: CatalogProduct[],
+  format: CatalogFormat,
+): string {
+  if (format === 'jsonl') {
+    return products.map((product) => `${JSON.stringify(product)}\n`).join('');
+  }
+  const lines = products.map((product) => {
+    const row = productToRow(product);
+    return CATALOG_COLUMNS.map((column) => csvField(row[column])).join(',');
+  });
+  return [CATALOG_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+function productToRow(product: CatalogProduct): Record<string, string> {
+  return {
+    displayTitle: product.displayTitle,
+    embeddingText: product.embeddingText,
+    url: product.url,
+    imageUrl: product.imageUrl ?? '',
+    productType: product.productType,
+    discount: product.discount ? '1' : '0',
+    price: formatPrice(product.price),
+    variants: product.variants
+      .map((group) => `${group.name} (${group.values.join(', ')})`)
+      .join(', '),
+    createDate: product.createDate ?? '',
+  };
+}
+
+/** Normalises a JSON Lines record to the string columns of the CSV. */
+function recordToRow(record: unknown): Record<string, string> {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    throw new Error('expected an object');
+  }
+  const { price, variants, discount, ...rest } = record as Record<string, any>;
+  const row: Record<string, any> = { ...rest };
+  if (price !== undefined) {
+    row.price =
+      price && typeof price === 'object' && 'amount' in price
+        ? formatPrice(price)
+        : price;
+  }
+  if (variants !== undefined) {
+    row.variants = Array.isArray(variants)
+      ? variants
+          .map(
+            (group) =>
+              `${group?.name} (${[].concat(group?.values ?? []).join(', ')})`,
+          )
+          .join(', ')
+      : variants;
+  }
+  if (discount !== undefined) {
+    row.discount =
+      typeof discount === 'boolean' ? (discount ? '1' : '0') : discount;
+  }
+  return row;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
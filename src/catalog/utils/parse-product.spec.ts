@@ -0,0 +1,46 @@
+import {
+  formatPrice,
+  parsePrice,
+  parseProductRow,
+  parseVariants,
+  productIdFromUrl,
+} from './parse-product';
+
+describe('parse-product', () => {
+  it('parses single prices and ranges', () => {
+    expect(parsePrice('17.0 USD')).toEqual({ amount: 17, currency: 'USD' });
+    expect(parsePrice('13.0 - 15.0 USD')).toEqual({
+      amount: 13,
+      maxAmount: 15,
+      currency: 'USD',
+    });
+    expect(parsePrice('Pink')).toBeNull();
+  });
+
+  it('parses variant groups', () => {
+    expect(parseVariants('Color (Emerald, Rose), Size (6, 7), ')).toEqual([
+      { name: 'Color', values: ['Emerald', 'Rose'] },
+      { name: 'Size', values: ['6', '7'] },
+    ]);
+    expect(parseVariants('')).toEqual([]);
+  });
+
+  it('derives the ID from the product URL', () => {
+    expect(
+      productIdFromUrl('https://store.myshopify.com/products/water-shoes?v=1'),
+    ).toBe('water-shoes');
+  });
+
+  it('formats prices', () => {
+    expect(formatPrice({ amount: 13, maxAmount: 15, currency: 'USD' })).toBe(
+      '13.00 - 15.00 USD',
+    );
+    expect(formatPrice({ amount: 2543, currency: 'JPY' })).toBe('2543 JPY');
+  });
+
+  it('rejects rows without a valid price', () => {
+    expect(() =>
+      parseProductRow({ displayTitle: 'Hat', url: 'x/hat', price: 'free' }),
+    ).toThrow('invalid price "free"');
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  CatalogProduct,
+  ProductPrice,
+  VariantGroup,
+} from '../interfaces/catalog-product.interface';
+import { currencyDecimals } from '../../currencies/data/iso-4217';
+
+/** Prices such as "17.0 USD" or "13.0 - 15.0 USD". */
+export const PRICE_PATTERN =
+  /^\s*(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s+([A-Z]{3})\s*$/;
+const VARIANT_GROUP_PATTERN = /([^,()]+?)\s*\(([^)]*)\)/g;
+
+/**
+ * Parses catalog prices such as "17.0 USD" or "13.0 - 15.0 USD".
+ *
+ * @returns The price, or `null` when the text is not a valid price.
+ */
+export function parsePrice(text: string): ProductPrice | null {
+  const match = PRICE_PATTERN.exec(text ?? '');
+  if (!match) return null;
+
+  const price: ProductPrice = { amount: Number(match[1]), currency: match[3] };
+  if (match[2] !== undefined) price.maxAmount = Number(match[2]);
+  return price;
+}
+
+/**
+ * Parses variant strings such as "Color (Emerald, Rose), Size (6, 7), ".
+ */
+export function parseVariants(text: string): VariantGroup[] {
+  const groups: VariantGroup[] = [];
+  for (const match of (text ?? '').matchAll(VARIANT_GROUP_PATTERN)) {
+    const values = match[2]
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+    groups.push({ name: match[1].trim(), values });
+  }
+  return groups;
+}
+
+/**
+ * Uses the last path segment of the product URL (the Shopify handle) as ID.
+ */
+export function productIdFromUrl(url: string): string {
+  const path = (url ?? '').split(/[?#]/)[0].replace(/\/+$/, '');
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Formats a price for prompts and logs, e.g. "13.00 - 15.00 USD", with the
+ * decimals of its currency.
+ */
+export function formatPrice(price: ProductPrice): string {
+  const decimals = currencyDecimals(price.currency);
+  const amount =
+    price.maxAmount !== undefined && price.maxAmount !== price.amount
+      ? `${price.amount.toFixed(decimals)} - ${price.maxAmount.toFixed(decimals)}`
+      : price.amount.toFixed(decimals);
+  return `${amount} ${price.currency}`;
+}
+
+/**
+ * Converts a raw CSV row into a typed product.
+ *
+ * @throws {Error} If the row has no title or URL, or its price cannot be parsed.
+ */
+export function parseProductRow(row: Record<string, string>): CatalogProduct {
+  if (!row.displayTitle || !row.url) {
+    throw new Error('missing displayTitle or url');
+  }
+  const price = parsePrice(row.price);
+  if (!price) {
+    throw new Error(`invalid price "${row.price}"`);
+  }
+
+  return {
+    id: productIdFromUrl(row.url),
+    displayTitle: row.displayTitle.trim(),
+    embeddingText: row.embeddingText ?? '',
+    url: row.url,
+    imageUrl: row.imageUrl,
+    productType: (row.productType ?? '').trim(),
+    discount: row.discount === '1' || row.discount?.toLowerCase() === 'true',
+    price,
+    variants: parseVariants(row.variants),
+    createDate: row.createDate,
+  };
+}
@@ -0,0 +1,116 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseShopifyProduct, readShopifyProducts } from './shopify-product';
+
+const FIXTURES_DIR = join(
+  __dirname,
+  '..',
+  '..',
+  '..',
+  'test',
+  'fixtures',
+  'shopify',
+);
+const fixture = (name: string) =>
+  readShopifyProducts(
+    JSON.parse(readFileSync(join(FIXTURES_DIR, name), 'utf8')),
+  );
+const OPTIONS = {
+  storeUrl: 'https://wizybot-demo-store.myshopify.com/',
+  currency: 'USD',
+};
+
+describe('shopify-product', () => {
+  it('converts products.json products with their SKUs', () => {
+    const [dress, tote, giftCard] = fixture('products.json');
+
+    expect(parseShopifyProduct(dress, OPTIONS)).toEqual({
+      id: 'womens-ruffle-tiered-dress',
+      displayTitle: "Women's Ruffle Tiered Dress",
+      embeddingText:
+        "Women's Ruffle Tiered Dress Luv Betsey Clothing dress summer Color (Black, Pink), Size (S, M) Tiered chiffon dress with ruffle sleeves. In Sale/Discount",
+      url: 'https://wizybot-demo-store.myshopify.com/products/womens-ruffle-tiered-dress',
+      imageUrl:
+        'https://cdn.shopify.com/s/files/1/0779/8125/3922/files/dress.png',
+      productType: 'Clothing',
+      discount: true,
+      price: { amount: 17, maxAmount: 19.5, currency: 'USD' },
+      variants: [
+        { name: 'Color', values: ['Black', 'Pink'] },
+        { name: 'Size', values: ['S', 'M'] },
+      ],
+      createDate: '2024-04-30T12:18:54-04:00',
+      skus: [
+        {
+          id: '45012345678001',
+          options: { Color: 'Black', Size: 'S' },
+          price: { amount: 17, currency: 'USD' },
+          compareAtPrice: 24,
+          available: true,
+          imageUrl:
+            'https://cdn.shopify.com/s/files/1/0779/8125/3922/files/dress-black.png',
+          sku: 'LB-RTD-BLK-S',
+        },
+        expect.objectContaining({ id: '45012345678002', available: false }),
+        {
+          id: '45012345678003',
+          options: { Color: 'Pink', Size: 'M' },
+          price: { amount: 19.5, currency: 'USD' },
+          available: true,
+          sku: 'LB-RTD-PNK-M',
+        },
+      ],
+    });
+    expect(parseShopifyProduct(tote, OPTIONS)).toMatchObject({
+      imageUrl: '',
+      variants: [],
+      price: { amount: 12, currency: 'USD' },
+      skus: [{ options: {}, available: true }],
+    });
+    expect(() => parseShopifyProduct(giftCard, OPTIONS)).toThrow(
+      'no variant with a valid price',
+    );
+  });
+
+  it('converts Admin API products', () => {
+    const [boots, draft] = fixture('admin-products.json');
+
+    expect(parseShopifyProduct(boots, OPTIONS)).toMatchObject({
+      id: 'time-and-tru-womens-tall-slouch-boots',
+      embeddingText: expect.stringContaining(
+        'boots fall Color (Emerald, Brown), Size (7, 8) Faux suede boots & a comfortable heel.',
+      ),
+      imageUrl:
+        'https://cdn.shopify.com/s/files/1/0779/8125/3922/files/boots.png',
+      discount: true,
+      price: { amount: 24.99, maxAmount: 29.99, currency: 'USD' },
+      skus: [
+        {
+          options: { Color: 'Emerald', Size: '7' },
+          available: true,
+          imageUrl:
+            'https://cdn.shopify.com/s/files/1/0779/8125/3922/files/boots-emerald.png',
+        },
+        {
+          options: { Color: 'Brown', Size: '8' },
+          compareAtPrice: 29.99,
+          available: false,
+        },
+      ],
+    });
+    expect(() => parseShopifyProduct(draft, OPTIONS)).toThrow(
+      'status is draft',
+    );
+  });
+
+  it('reads the response shapes of both APIs', () => {
+    const product = { id: 1, title: 'Tote', handle: 'tote' };
+
+    expect(readShopifyProducts({ products: [product] })).toEqual([product]);
+    expect(readShopifyProducts({ product })).toEqual([product]);
+    expect(readShopifyProducts([product])).toEqual([product]);
+    expect(() => readShopifyProducts({ errors: 'Not Found' })).toThrow(
+      'expected a products array',
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  CatalogProduct,
+  ProductSku,
+  VariantGroup,
+} from '../interfaces/catalog-product.interface';
+import {
+  ShopifyProduct,
+  ShopifyVariant,
+} from '../interfaces/shopify.interface';
+
+/** Longest part of the description added to `embeddingText`. */
+const MAX_DESCRIPTION_LENGTH = 500;
+
+export interface ShopifyProductOptions {
+  /** Product pages are linked under this URL, e.g. https://shop.myshopify.com. */
+  storeUrl: string;
+  /** Shopify feeds carry amounts without a currency. */
+  currency: string;
+}
+
+/**
+ * The products of a Shopify response: `{ products: [...] }` (both APIs),
+ * `{ product: {...} }` or a bare array.
+ *
+ * @throws {Error} If the body has none of these shapes.
+ */
+export function readShopifyProducts(body: unknown): ShopifyProduct[] {
+  if (Array.isArray(body)) return body;
+  const record = body as { products?: unknown; product?: unknown };
+  if (Array.isArray(record?.products)) return record.products;
+  if (record?.product && typeof record.product === 'object') {
+    return [record.product as ShopifyProduct];
+  }
+  throw new Error('expected a products array');
+}
+
+/**
+ * Converts a storefront `products.json` or Admin API product into a catalog
+ * product. Every variant becomes a SKU with its own price, stock and image;
+ * the product price is the range of the SKU prices. The placeholder
+ * "Title: Default Title" option of products without variants is dropped.
+ *
+ * @throws {Error} If the product has no handle or title, is not active, or has no variant with a valid price.
+ */
+export function parseShopifyProduct(
+  product: ShopifyProduct,
+  { storeUrl, currency }: ShopifyProductOptions,
+): CatalogProduct {
+  if (!product?.handle || !product.title) {
+    throw new Error('missing handle or title');
+  }
+  if (product.status && product.status !== 'active') {
+    throw new Error(`status is ${product.status}`);
+  }
+
+  const images = product.images ?? [];
+  const imageUrl = product.image?.src ?? images[0]?.src ?? '';
+  const options = [...(product.options ?? [])]
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+    .map((option, index) => ({ ...option, index }))
+    .filter((option) => !isPlaceholderOption(option.name, option.values));
+
+  const skus: ProductSku[] = [];
+  for (const variant of product.variants ?? []) {
+    const amount = Number(variant.price);
+    if (variant.price === '' || !Number.isFinite(amount) || amount < 0) {
+      continue;
+    }
+    const sku: ProductSku = {
+      id: String(variant.id),
+      options: {},
+      price: { amount, currency },
+      available: isAvailable(variant),
+    };
+    for (const option of options) {
+      const value = variant[`option${option.index + 1}`];
+      if (value) sku.options[option.name] = value;
+    }
+    const compareAtPrice = Number(variant.compare_at_price);
+    if (compareAtPrice > amount) sku.compareAtPrice = compareAtPrice;
+    const skuImage =
+      variant.featured_image?.src ??
+      images.find(
+        (image) =>
+          (variant.image_id && image.id === variant.image_id) ||
+          image.variant_ids?.includes(variant.id),
+      )?.src;
+    if (skuImage) sku.imageUrl = skuImage;
+    if (variant.sku) sku.sku = variant.sku;
+    skus.push(sku);
+  }
+  if (!skus.length) throw new Error('no variant with a valid price');
+
+  const variants: VariantGroup[] = options
+    .map((option) => {
+      const used = new Set(skus.map((sku) => sku.options[option.name]));
+      used.delete(undefined);
+      const listed = (option.values ?? []).filter((value) => used.has(value));
+      return {
+        name: option.name,
+        values: [...listed, ...[...used].filter((v) => !listed.includes(v))],
+      };
+    })
+    .filter((group) => group.values.length);
+
+  const amounts = skus.map((sku) => sku.price.amount);
+  const price: CatalogProduct['price'] = {
+    amount: Math.min(...amounts),
+    currency,
+  };
+  const maxAmount = Math.max(...amounts);
+  if (maxAmount !== price.amount) price.maxAmount = maxAmount;
+  const discount = skus.some((sku) => sku.compareAtPrice !== undefined);
+
+  return {
+    id: product.handle,
+    displayTitle: product.title.trim(),
+    embeddingText: [
+      product.title.trim(),
+      product.vendor,
+      product.product_type,
+      tagsOf(product).join(' '),
+      variants
+        .map((group) => `${group.name} (${group.values.join(', ')})`)
+        .join(', '),
+      plainText(product.body_html).slice(0, MAX_DESCRIPTION_LENGTH),
+      discount ? 'In Sale/Discount' : '',
+    ]
+      .filter(Boolean)
+      .join(' '),
+    url: `${storeUrl.replace(/\/+$/, '')}/products/${product.handle}`,
+    imageUrl,
+    productType: (product.product_type ?? '').trim(),
+    discount,
+    price,
+    variants,
+    createDate: product.created_at ?? product.published_at ?? '',
+    skus,
+  };
+}
+
+function isPlaceholderOption(name: string, values: string[] = []): boolean {
+  return name === 'Title' && values.every((value) => value === 'Default Title');
+}
+
+/**
+ * `products.json` says so directly; the Admin API has the stock instead,
+ * which only matters when Shopify tracks it and overselling is denied.
+ */
+function isAvailable(variant: ShopifyVariant): boolean {
+  if (variant.available !== undefined) return variant.available;
+  if (!variant.inventory_management) return true;
+  return (
+    variant.inventory_policy === 'continue' ||
+    (variant.inventory_quantity ?? 0) > 0
+  );
+}
+
+function tagsOf(product: ShopifyProduct): string[] {
+  const tags = Array.isArray(product.tags)
+    ? product.tags
+    : (product.tags ?? '').split(',');
+  return tags.map((tag) => tag.trim()).filter(Boolean);
+}
+
+function plainText(html: string | null | undefined): string {
+  return (html ?? '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
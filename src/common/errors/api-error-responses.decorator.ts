@@ -0,0 +1,44 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiResponse } from '@nestjs/swagger';
+import { ERROR_STATUS, ErrorCode } from './error-code';
+import { ErrorResponse } from './error-response';
+
+const DESCRIPTIONS: Record<ErrorCode, string> = {
+  [ErrorCode.VALIDATION_ERROR]: 'Invalid request',
+  [ErrorCode.NOT_FOUND]: 'Resource not found',
+  [ErrorCode.UNAUTHORIZED]: 'Missing or invalid credentials',
+  [ErrorCode.FORBIDDEN]: 'Not allowed',
+  [ErrorCode.RATE_LIMITED]: 'Too many requests',
+  [ErrorCode.CONTENT_POLICY]: 'Blocked by the content policy',
+  [ErrorCode.GUARDRAIL_BLOCKED]: 'Blocked by a guardrail check',
+  [ErrorCode.TOOL_FAILED]: 'A tool failed',
+  [ErrorCode.UPSTREAM_AUTH]:
+    'An upstream service rejected the configured credentials',
+  [ErrorCode.UPSTREAM_UNAVAILABLE]: 'An upstream service is unavailable',
+  [ErrorCode.UPSTREAM_TIMEOUT]: 'An upstream service timed out',
+  [ErrorCode.INTERNAL_ERROR]: 'Unexpected error',
+};
+
+/**
+ * Documents the error responses of an endpoint. Codes sharing a status are
+ * listed together, e.g. `UPSTREAM_AUTH` and `TOOL_FAILED` under 502.
+ */
+export function ApiErrorResponses(...codes: ErrorCode[]) {
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of new Set([...codes, ErrorCode.INTERNAL_ERROR])) {
+    const status = ERROR_STATUS[code];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+
+  return applyDecorators(
+    ...[...byStatus].map(([status, statusCodes]) =>
+      ApiResponse({
+        status,
+        type: ErrorResponse,
+        description: statusCodes
+          .map((code) => `\`${code}\`: ${DESCRIPTIONS[code]}`)
+          .join('; '),
+      }),
+    ),
+  );
+}
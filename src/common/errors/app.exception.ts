@@ -0,0 +1,154 @@
+import { HttpException } from '@nestjs/common';
+import { ValidationError } from 'joi';
+import { ERROR_STATUS, ErrorCode } from './error-code';
+
+/** Field-level validation problem, e.g. `{ path: 'prompt', message: '…' }`. */
+export interface ErrorDetail {
+  path?: string;
+  message: string;
+}
+
+/**
+ * Base class of the error catalogue. The global filter turns it into an
+ * `ErrorResponse` with the status of its `code`.
+ */
+export class AppException extends HttpException {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: ErrorDetail[],
+    options?: { cause?: unknown },
+  ) {
+    super(message, ERROR_STATUS[code], options);
+  }
+}
+
+/** Invalid body, query or tool arguments (400). */
+export class ValidationException extends AppException {
+  constructor(message: string, details?: ErrorDetail[]) {
+    super(ErrorCode.VALIDATION_ERROR, message, details);
+  }
+
+  /** One detail per failed Joi rule, e.g. `{ path: 'prompt', message: … }`. */
+  static fromJoi(error: ValidationError, prefix = 'Validation error') {
+    return new ValidationException(
+      `${prefix}: ${error.message}`,
+      error.details.map((detail) => ({
+        path: detail.path.join('.'),
+        message: detail.message,
+      })),
+    );
+  }
+}
+
+/** The caller sent no credentials, or unknown ones (401). */
+export class AuthenticationException extends AppException {
+  constructor(message = 'Missing or invalid credentials') {
+    super(ErrorCode.UNAUTHORIZED, message);
+  }
+}
+
+/** The caller is known but may not use this endpoint (403). */
+export class AccessDeniedException extends AppException {
+  constructor(message = 'Not allowed') {
+    super(ErrorCode.FORBIDDEN, message);
+  }
+}
+
+/** The caller exceeded a rate limit or quota; sent with `Retry-After` (429). */
+export class RateLimitException extends AppException {
+  constructor(
+    message: string,
+    readonly retryAfterMs: number,
+  ) {
+    super(ErrorCode.RATE_LIMITED, message);
+  }
+}
+
+/** The model provider refused the prompt or the answer (422). */
+export class ContentPolicyException extends AppException {
+  constructor(message = 'The request was blocked by the content policy') {
+    super(ErrorCode.CONTENT_POLICY, message);
+  }
+}
+
+/** A guardrail check refused the prompt or the answer (422). */
+export class GuardrailException extends AppException {
+  constructor(
+    readonly check: string,
+    stage: 'input' | 'output',
+    reason: string,
+  ) {
+    const path = stage === 'input' ? 'prompt' : 'response';
+    super(
+      ErrorCode.GUARDRAIL_BLOCKED,
+      `The ${path} was blocked by the ${check} guardrail`,
+      [{ path, message: reason }],
+    );
+  }
+}
+
+/** A tool could not produce a result; reported to the model as an error (502). */
+export class ToolFailureException extends AppException {
+  constructor(
+    readonly tool: string,
+    message: string,
+    options?: { cause?: unknown },
+  ) {
+    super(
+      ErrorCode.TOOL_FAILED,
+      `${tool} failed: ${message}`,
+      undefined,
+      options,
+    );
+  }
+}
+
+/** An upstream service rejected our credentials (502, not the caller's fault). */
+export class UpstreamAuthException extends AppException {
+  constructor(service: string, options?: { cause?: unknown }) {
+    super(
+      ErrorCode.UPSTREAM_AUTH,
+      `${service} rejected the configured credentials`,
+      undefined,
+      options,
+    );
+  }
+}
+
+/** An upstream service failed or is unreachable (503). */
+export class UpstreamUnavailableException extends AppException {
+  constructor(service: string, reason: string, options?: { cause?: unknown }) {
+    super(
+      ErrorCode.UPSTREAM_UNAVAILABLE,
+      `${service} is unavailable: ${reason}`,
+      undefined,
+      options,
+    );
+  }
+}
+
+/** The circuit breaker of an upstream service is open; the call was not attempted (503). */
+export class CircuitOpenException extends UpstreamUnavailableException {
+  constructor(
+    service: string,
+    readonly retryAfterMs: number,
+  ) {
+    super(
+      service,
+      `temporarily disabled after repeated failures, retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+    );
+  }
+}
+
+/** An upstream service did not answer in time (504). */
+export class UpstreamTimeoutException extends AppException {
+  constructor(service: string, options?: { cause?: unknown }) {
+    super(
+      ErrorCode.UPSTREAM_TIMEOUT,
+      `${service} did not respond in time`,
+      undefined,
+      options,
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { HttpStatus } from '@nestjs/common';
+
+/**
+ * Stable error codes sent in the `code` field of every error response.
+ * Clients should branch on these, never on `message`.
+ */
+export enum ErrorCode {
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  NOT_FOUND = 'NOT_FOUND',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN',
+  RATE_LIMITED = 'RATE_LIMITED',
+  CONTENT_POLICY = 'CONTENT_POLICY',
+  GUARDRAIL_BLOCKED = 'GUARDRAIL_BLOCKED',
+  TOOL_FAILED = 'TOOL_FAILED',
+  UPSTREAM_AUTH = 'UPSTREAM_AUTH',
+  UPSTREAM_UNAVAILABLE = 'UPSTREAM_UNAVAILABLE',
+  UPSTREAM_TIMEOUT = 'UPSTREAM_TIMEOUT',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
+/** HTTP status of each code. */
+export const ERROR_STATUS: Record<ErrorCode, HttpStatus> = {
+  [ErrorCode.VALIDATION_ERROR]: HttpStatus.BAD_REQUEST,
+  [ErrorCode.NOT_FOUND]: HttpStatus.NOT_FOUND,
+  [ErrorCode.UNAUTHORIZED]: HttpStatus.UNAUTHORIZED,
+  [ErrorCode.FORBIDDEN]: HttpStatus.FORBIDDEN,
+  [ErrorCode.RATE_LIMITED]: HttpStatus.TOO_MANY_REQUESTS,
+  [ErrorCode.CONTENT_POLICY]: HttpStatus.UNPROCESSABLE_ENTITY,
+  [ErrorCode.GUARDRAIL_BLOCKED]: HttpStatus.UNPROCESSABLE_ENTITY,
+  [ErrorCode.TOOL_FAILED]: HttpStatus.BAD_GATEWAY,
+  [ErrorCode.UPSTREAM_AUTH]: HttpStatus.BAD_GATEWAY,
+  [ErrorCode.UPSTREAM_UNAVAILABLE]: HttpStatus.SERVICE_UNAVAILABLE,
+  [ErrorCode.UPSTREAM_TIMEOUT]: HttpStatus.GATEWAY_TIMEOUT,
+  [ErrorCode.INTERNAL_ERROR]: HttpStatus.INTERNAL_SERVER_ERROR,
+};
+
+/** Code of Nest's built-in exceptions (`NotFoundException`…), by status. */
+export function errorCodeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case HttpStatus.BAD_REQUEST:
+    case HttpStatus.UNPROCESSABLE_ENTITY:
+      return ErrorCode.VALIDATION_ERROR;
+    case HttpStatus.NOT_FOUND:
+      return ErrorCode.NOT_FOUND;
+    case HttpStatus.UNAUTHORIZED:
+      return ErrorCode.UNAUTHORIZED;
+    case HttpStatus.FORBIDDEN:
+      return ErrorCode.FORBIDDEN;
+    case HttpStatus.TOO_MANY_REQUESTS:
+      return ErrorCode.RATE_LIMITED;
+    case HttpStatus.BAD_GATEWAY:
+    case HttpStatus.SERVICE_UNAVAILABLE:
+      return ErrorCode.UPSTREAM_UNAVAILABLE;
+    case HttpStatus.GATEWAY_TIMEOUT:
+      return ErrorCode.UPSTREAM_TIMEOUT;
+    default:
+      return status < 500
+        ? ErrorCode.VALIDATION_ERROR
+        : ErrorCode.INTERNAL_ERROR;
+  }
+}
@@ -0,0 +1,73 @@
+import { HttpException } from '@nestjs/common';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AppException, ErrorDetail } from './app.exception';
+import { ERROR_STATUS, ErrorCode, errorCodeForStatus } from './error-code';
+
+class ErrorDetailDto implements ErrorDetail {
+  @ApiPropertyOptional({ example: 'prompt' })
+  path?: string;
+
+  @ApiProperty({
+    example: '"prompt" length must be at least 10 characters long',
+  })
+  message: string;
+}
+
+/** Body of every error response. */
+export class ErrorResponse {
+  @ApiProperty({ example: 400 })
+  statusCode: number;
+
+  @ApiProperty({ enum: ErrorCode, example: ErrorCode.VALIDATION_ERROR })
+  code: ErrorCode;
+
+  @ApiProperty({ example: 'Validation error' })
+  message: string;
+
+  @ApiPropertyOptional({ type: [ErrorDetailDto] })
+  details?: ErrorDetail[];
+
+  @ApiProperty({
+    description:
+      'Also sent in the `x-correlation-id` header; quote it when reporting a problem',
+    example: '6f1c2f8e-1c1a-4c55-9d51-0f0b4f3c2a10',
+  })
+  correlationId: string;
+
+  @ApiProperty({ example: '2024-10-18T12:00:00.000Z' })
+  timestamp: string;
+
+  @ApiProperty({ example: '/ai/prompt' })
+  path: string;
+}
+
+/** Status, code and message of any thrown value. */
+export function describeError(
+  error: unknown,
+): Pick<ErrorResponse, 'statusCode' | 'code' | 'message' | 'details'> {
+  if (error instanceof AppException) {
+    return {
+      statusCode: error.getStatus(),
+      code: error.code,
+      message: error.message,
+      ...(error.details ? { details: error.details } : {}),
+    };
+  }
+  if (error instanceof HttpException) {
+    const response = error.getResponse();
+    const message =
+      typeof response === 'object' && 'message' in response
+        ? [].concat(response.message).join(', ')
+        : error.message;
+    return {
+      statusCode: error.getStatus(),
+      code: errorCodeForStatus(error.getStatus()),
+      message,
+    };
+  }
+  return {
+    statusCode: ERROR_STATUS[ErrorCode.INTERNAL_ERROR],
+    code: ErrorCode.INTERNAL_ERROR,
+    message: 'Internal server error',
+  };
+}
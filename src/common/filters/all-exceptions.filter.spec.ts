@@ -0,0 +1,111 @@
+import { ArgumentsHost, NotFoundException } from '@nestjs/common';
+import {
+  RateLimitException,
+  ToolFailureException,
+  ValidationException,
+} from '../errors/app.exception';
+import { AllExceptionsFilter } from './all-exceptions.filter';
+
+describe('AllExceptionsFilter', () => {
+  const filter = new AllExceptionsFilter();
+  let res: {
+    headersSent: boolean;
+    status: jest.Mock;
+    json: jest.Mock;
+    end: jest.Mock;
+    setHeader: jest.Mock;
+  };
+
+  const host = () =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          method: 'POST',
+          originalUrl: '/ai/prompt',
+          correlationId: 'req-1',
+        }),
+        getResponse: () => res,
+      }),
+    }) as unknown as ArgumentsHost;
+
+  beforeEach(() => {
+    res = {
+      headersSent: false,
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+      end: jest.fn(),
+      setHeader: jest.fn(),
+    };
+  });
+
+  it('sends catalogue errors with their code, details and correlation ID', () => {
+    filter.catch(
+      new ValidationException('Validation error', [
+        { path: 'prompt', message: '"prompt" is required' },
+      ]),
+      host(),
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      statusCode: 400,
+      code: 'VALIDATION_ERROR',
+      message: 'Validation error',
+      details: [{ path: 'prompt', message: '"prompt" is required' }],
+      correlationId: 'req-1',
+      timestamp: expect.any(String),
+      path: '/ai/prompt',
+    });
+  });
+
+  it('tells rate-limited callers when to retry', () => {
+    filter.catch(new RateLimitException('Too many requests', 1500), host());
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.setHeader).toHaveBeenCalledWith('Retry-After', 2);
+  });
+
+  it('maps Nest exceptions by status', () => {
+    filter.catch(new NotFoundException('Conversation x not found'), host());
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'NOT_FOUND',
+        message: 'Conversation x not found',
+      }),
+    );
+  });
+
+  it('maps tool failures to 502', () => {
+    filter.catch(new ToolFailureException('getWeather', 'down'), host());
+
+    expect(res.status).toHaveBeenCalledWith(502);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'TOOL_FAILED' }),
+    );
+  });
+
+  it('hides the message of unexpected errors', () => {
+    jest.spyOn(filter['logger'], 'error').mockImplementation(() => undefined);
+
+    filter.catch(new TypeError('x is undefined'), host());
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+      }),
+    );
+  });
+
+  it('only closes responses that already started streaming', () => {
+    res.headersSent = true;
+
+    filter.catch(new ValidationException('late'), host());
+
+    expect(res.end).toHaveBeenCalled();
+    expect(res.json).not.toHaveBeenCalled();
+  });
+});
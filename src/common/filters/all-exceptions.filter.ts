@@ -0,0 +1,54 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { describeError, ErrorResponse } from '../errors/error-response';
+
+/**
+ * Turns every exception into an `ErrorResponse` with a stable `code` and the
+ * request's correlation ID. Unexpected errors are logged with their stack and
+ * answered with a generic 500, so internals never leak to clients. Errors
+ * with a `retryAfterMs` also get a `Retry-After` header.
+ */
+@Catch()
+export class AllExceptionsFilter implements ExceptionFilter {
+  private readonly logger = new Logger(AllExceptionsFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const context = host.switchToHttp();
+    const req = context.getRequest<Request>();
+    const res = context.getResponse<Response>();
+    const error = describeError(exception);
+    const correlationId = req.correlationId ?? 'unknown';
+
+    if (error.statusCode >= HttpStatus.INTERNAL_SERVER_ERROR) {
+      this.logger.error(
+        `[${correlationId}] ${req.method} ${req.originalUrl}: ${exception instanceof Error ? exception.message : exception}`,
+        exception instanceof Error ? exception.stack : undefined,
+      );
+    }
+    // Streaming endpoints report failures in the stream itself
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    // Rate limits and open circuit breakers say when to try again
+    const retryAfterMs = (exception as { retryAfterMs?: number })?.retryAfterMs;
+    if (retryAfterMs > 0) {
+      res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+    }
+
+    const body: ErrorResponse = {
+      ...error,
+      correlationId,
+      timestamp: new Date().toISOString(),
+      path: req.originalUrl,
+    };
+    res.status(error.statusCode).json(body);
+  }
+}
@@ -0,0 +1,49 @@
+import { ExecutionContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AccessDeniedException,
+  AuthenticationException,
+} from '../errors/app.exception';
+import { AdminGuard } from './admin.guard';
+
+describe('AdminGuard', () => {
+  const contextOf = (key?: string) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          header: (name: string) => (name === 'x-admin-key' ? key : undefined),
+        }),
+      }),
+    }) as ExecutionContext;
+
+  const guard = new AdminGuard(
+    new ConfigService({ ADMIN_API_KEY: 'admin-secret' }),
+  );
+
+  it('lets the admin key through', () => {
+    expect(guard.canActivate(contextOf('admin-secret'))).toBe(true);
+  });
+
+  it('rejects missing and wrong keys', () => {
+    expect(() => guard.canActivate(contextOf())).toThrow(
+      AuthenticationException,
+    );
+    expect(() => guard.canActivate(contextOf('admin-secreT'))).toThrow(
+      AuthenticationException,
+    );
+  });
+
+  it('rejects keys of the same length with multi-byte characters', () => {
+    expect(() => guard.canActivate(contextOf('admin-secré'))).toThrow(
+      AuthenticationException,
+    );
+  });
+
+  it('disables the admin endpoints without ADMIN_API_KEY', () => {
+    const disabled = new AdminGuard(new ConfigService({}));
+
+    expect(() => disabled.canActivate(contextOf('admin-secret'))).toThrow(
+      AccessDeniedException,
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import {
+  AccessDeniedException,
+  AuthenticationException,
+} from '../errors/app.exception';
+
+export const ADMIN_KEY_HEADER = 'x-admin-key';
+
+/**
+ * Protects the `/admin` endpoints with the `ADMIN_API_KEY` secret, sent in
+ * the `x-admin-key` header. Without `ADMIN_API_KEY` they are disabled.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.configService.get<string>('ADMIN_API_KEY');
+    if (!expected) {
+      throw new AccessDeniedException(
+        'Admin endpoints are disabled; set ADMIN_API_KEY to enable them',
+      );
+    }
+
+    const sent = context
+      .switchToHttp()
+      .getRequest<Request>()
+      .header(ADMIN_KEY_HEADER);
+    // Digests have a fixed length, whatever the characters of the keys
+    if (!sent || !timingSafeEqual(digest(sent), digest(expected))) {
+      throw new AuthenticationException(
+        `Missing or invalid ${ADMIN_KEY_HEADER}`,
+      );
+    }
+    return true;
+  }
+}
+
+function digest(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
@@ -0,0 +1,52 @@
+import { JsonLogger } from './json-logger';
+import { requestContext } from './request-context';
+
+describe('JsonLogger', () => {
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  const lines = (spy: jest.SpyInstance) =>
+    spy.mock.calls.map(([line]) => JSON.parse(line));
+
+  beforeEach(() => {
+    stdout = jest.spyOn(process.stdout, 'write').mockReturnValue(true);
+    stderr = jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes one JSON line with the fields of the current request', () => {
+    const logger = new JsonLogger();
+
+    requestContext.run({ correlationId: 'req-1', method: 'GET' }, () =>
+      logger.log('Hello', 'Test'),
+    );
+
+    expect(lines(stdout)).toEqual([
+      {
+        time: expect.any(String),
+        level: 'log',
+        context: 'Test',
+        message: 'Hello',
+        correlationId: 'req-1',
+        method: 'GET',
+      },
+    ]);
+  });
+
+  it('writes errors and their stack to stderr', () => {
+    const logger = new JsonLogger();
+
+    logger.error('Failed', 'Error: boom\n    at x', 'Test');
+
+    expect(lines(stderr)).toEqual([
+      expect.objectContaining({ level: 'error', message: 'Failed' }),
+      expect.objectContaining({
+        level: 'error',
+        stack: 'Error: boom\n    at x',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { ConsoleLogger, LogLevel } from '@nestjs/common';
+import { requestContext } from './request-context';
+
+/**
+ * Writes one JSON object per line (`LOG_FORMAT=json`) for log collectors:
+ * `{ time, level, context, message, correlationId, method, path… }`. The
+ * fields of the current `RequestContext` are added to every line, so all
+ * logs of a request can be found by its correlation ID.
+ */
+export class JsonLogger extends ConsoleLogger {
+  protected printMessages(
+    messages: unknown[],
+    context = '',
+    logLevel: LogLevel = 'log',
+    writeStreamType: 'stdout' | 'stderr' = 'stdout',
+  ) {
+    for (const message of messages) {
+      this.write(writeStreamType, {
+        level: logLevel,
+        context: context || undefined,
+        message,
+      });
+    }
+  }
+
+  protected printStackTrace(stack: string) {
+    if (stack) this.write('stderr', { level: 'error', stack });
+  }
+
+  private write(stream: 'stdout' | 'stderr', entry: Record<string, unknown>) {
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      ...entry,
+      ...requestContext.getStore(),
+    });
+    process[stream].write(`${line}\n`);
+  }
+}
@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/** Data of the request being handled, added to every JSON log line. */
+export interface RequestContext {
+  correlationId: string;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  durationMs?: number;
+  clientId?: string;
+  /** `x-client-id` the caller sent, if valid. */
+  clientLabel?: string;
+  tenantId?: string;
+}
+
+/**
+ * Follows a request through every `await`, so code far from the controller
+ * (loggers, transcripts) knows which request it runs for. Entered by
+ * `CorrelationIdMiddleware`.
+ */
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/** Correlation ID of the current request, if any. */
+export function currentCorrelationId(): string | undefined {
+  return requestContext.getStore()?.correlationId;
+}
@@ -0,0 +1,43 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { requestContext } from '../logging/request-context';
+
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+/** Accepted caller-supplied IDs: 1-128 safe characters. */
+const VALID_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives every request a correlation ID: the caller's `x-correlation-id` (or
+ * `x-request-id`) when it is safe to echo, a new UUID otherwise. The ID is
+ * stored on `req.correlationId`, sent back in the response header, and
+ * available to the rest of the request through `requestContext`.
+ */
+@Injectable()
+export class CorrelationIdMiddleware implements NestMiddleware {
+  use(req: Request, res: Response, next: NextFunction) {
+    const incoming =
+      req.header(CORRELATION_ID_HEADER) ?? req.header('x-request-id');
+    const correlationId =
+      incoming && VALID_ID.test(incoming) ? incoming : randomUUID();
+
+    req.correlationId = correlationId;
+    res.setHeader(CORRELATION_ID_HEADER, correlationId);
+    requestContext.run(
+      // Without the query, which may hold a prompt (`GET …/prompt/stream`)
+      {
+        correlationId,
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+      },
+      next,
+    );
+  }
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    correlationId?: string;
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable, Logger, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { requestContext } from '../logging/request-context';
+import { redactPii } from '../../guardrails/utils/redact-pii';
+
+/**
+ * Logs one line per finished request: method, URL, status and duration,
+ * plus the client and tenant once the guards have identified them. Runs
+ * after `CorrelationIdMiddleware`, so the line carries the correlation ID.
+ * Personal data in the query string (prompts of `GET …/prompt/stream`) is
+ * masked.
+ */
+@Injectable()
+export class RequestLoggingMiddleware implements NestMiddleware {
+  private readonly logger = new Logger('HTTP');
+
+  use(req: Request, res: Response, next: NextFunction) {
+    const startedAt = Date.now();
+    const context = requestContext.getStore();
+
+    res.on('finish', () => {
+      const durationMs = Date.now() - startedAt;
+      const message = `${req.method} ${loggableUrl(req.originalUrl)} ${res.statusCode} ${durationMs}ms`;
+      requestContext.run(
+        {
+          ...context,
+          correlationId: req.correlationId,
+          statusCode: res.statusCode,
+          durationMs,
+          clientId: req.usageContext?.clientId,
+          clientLabel: req.usageContext?.label,
+          tenantId: req.tenant?.id,
+        },
+        () =>
+          res.statusCode >= 500
+            ? this.logger.error(message)
+            : this.logger.log(message),
+      );
+    });
+    next();
+  }
+}
+
+function loggableUrl(url: string): string {
+  let decoded = url;
+  try {
+    decoded = decodeURIComponent(url);
+  } catch {
+    // Malformed escapes: mask what can be read as is
+  }
+  return redactPii(decoded).text;
+}
@@ -0,0 +1,6 @@
+export interface SseEvent {
+  /** Value of the `event:` field. */
+  event: string;
+  /** Serialised to JSON in the `data:` field. */
+  data: unknown;
+}
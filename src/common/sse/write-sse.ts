@@ -0,0 +1,32 @@
+import { Response } from 'express';
+import { SseEvent } from './sse.interface';
+
+/**
+ * Streams events to the client as Server-Sent Events and ends the response
+ * once the iterable is exhausted. If the client disconnects the iterable is
+ * closed early, so generators can clean up in `finally` blocks.
+ *
+ * @param res - Express response, used through `@Res()`.
+ * @param events - Events to send, in order.
+ */
+export async function writeSse(
+  res: Response,
+  events: AsyncIterable<SseEvent>,
+): Promise<void> {
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  for await (const { event, data } of events) {
+    if (closed) break;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+  res.end();
+}
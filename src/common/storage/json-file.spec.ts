@@ -0,0 +1,48 @@
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonFile } from './json-file';
+
+describe('JsonFile', () => {
+  let dir: string;
+  let file: JsonFile<Record<string, number>>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'json-file-'));
+    file = new JsonFile(join(dir, 'nested', 'data.json'), () => ({}));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads a missing file as empty', async () => {
+    await expect(file.read()).resolves.toEqual({});
+  });
+
+  it('keeps every one of concurrent updates', async () => {
+    await Promise.all(
+      ['a', 'b', 'c'].map((key) =>
+        file.update((data) => {
+          data[key] = (data[key] ?? 0) + 1;
+        }),
+      ),
+    );
+
+    await expect(file.read()).resolves.toEqual({ a: 1, b: 1, c: 1 });
+    expect(existsSync(`${file.filePath}.tmp`)).toBe(false);
+  });
+
+  it('goes on with the next update after a failed one', async () => {
+    const failed = file.update(() => {
+      throw new Error('boom');
+    });
+    const next = file.update((data) => {
+      data.a = 1;
+    });
+
+    await expect(failed).rejects.toThrow('boom');
+    await next;
+    await expect(file.read()).resolves.toEqual({ a: 1 });
+  });
+});
@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * A JSON document kept in one file, for the `file` stores. Updates run one
+ * at a time, so concurrent requests never drop each other's changes, and go
+ * through a temporary file and a rename, so a crash never leaves a
+ * half-written file behind.
+ */
+export class JsonFile<T> {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param empty - The contents of a file that does not exist yet.
+   */
+  constructor(
+    readonly filePath: string,
+    private readonly empty: () => T,
+  ) {}
+
+  /** The contents once the pending updates are written. */
+  async read(): Promise<T> {
+    await this.writeQueue;
+    return this.load();
+  }
+
+  /**
+   * Reads the file, lets `mutate` change the contents in place and writes
+   * them back.
+   */
+  update(mutate: (data: T) => void): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const data = await this.load();
+      mutate(data);
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(data, null, 2));
+      await fs.rename(tmpPath, this.filePath);
+    });
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return this.empty();
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Runs tasks one at a time per key, so two read-modify-write cycles of the
+ * same record never interleave, while tasks of different keys run side by
+ * side. A failed task does not stop the next one.
+ */
+export class KeyedQueue {
+  /** Last pending task of each key. */
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  /** Runs `task` once the earlier tasks of `key` are done. */
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) ?? Promise.resolve();
+    const next = previous.then(task);
+    const settled = next.catch(() => undefined);
+    this.queues.set(key, settled);
+    settled.then(() => {
+      // Idle keys take no memory
+      if (this.queues.get(key) === settled) this.queues.delete(key);
+    });
+    return next;
+  }
+}
@@ -0,0 +1,45 @@
+import { Type } from '@nestjs/common';
+import { DECORATORS } from '@nestjs/swagger/dist/constants';
+import { GetPrompt } from '../../ai/dto/get-prompt/get-prompt.dto';
+import { GetProductsPrompt } from '../../products/dto/get-products-prompt/get-products-prompt.dto';
+import { getJoiSchema } from './joi-schema.decorator';
+
+const apiProperty = (type: Type, key: string) =>
+  Reflect.getMetadata(DECORATORS.API_MODEL_PROPERTIES, type.prototype, key);
+
+describe('JoiSchema', () => {
+  it('documents the Joi rules as Swagger properties', () => {
+    expect(apiProperty(GetPrompt, 'prompt')).toMatchObject({
+      type: 'string',
+      minLength: 10,
+      maxLength: 512,
+      required: true,
+    });
+    expect(apiProperty(GetPrompt, 'conversationId')).toMatchObject({
+      type: 'string',
+      format: 'uuid',
+      required: false,
+    });
+  });
+
+  it('keeps the schema of each class in a hierarchy', () => {
+    const schema = getJoiSchema(GetProductsPrompt);
+
+    expect(schema).not.toBe(getJoiSchema(GetPrompt));
+    expect(
+      schema.validate({ prompt: 'Warm boots please', currency: 'eur' }).value,
+    ).toEqual({ prompt: 'Warm boots please', currency: 'EUR' });
+    expect(apiProperty(GetProductsPrompt, 'currency')).toMatchObject({
+      type: 'string',
+      example: 'EUR',
+    });
+    expect(apiProperty(GetProductsPrompt, 'prompt').example).toBe(
+      'I am looking for a warm jacket',
+    );
+  });
+
+  it('returns nothing for undecorated types', () => {
+    expect(getJoiSchema(String)).toBeUndefined();
+    expect(getJoiSchema(undefined)).toBeUndefined();
+  });
+});
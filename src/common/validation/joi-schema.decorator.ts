@@ -0,0 +1,50 @@
+import { Type } from '@nestjs/common';
+import { ApiProperty, ApiPropertyOptions } from '@nestjs/swagger';
+import * as Joi from 'joi';
+import { joiToJsonSchema } from './joi-to-json-schema';
+
+export const JOI_SCHEMA_METADATA = 'validation:joi-schema';
+
+/**
+ * Makes a Joi object schema the single source of truth of a DTO class: the
+ * `JoiValidationPipe` validates `@Body()` and `@Query()` parameters of that
+ * type with it, `@AiTool` accepts the class as its argument schema, and every
+ * key is documented as an `@ApiProperty` (limits, formats, enums, examples).
+ */
+export function JoiSchema(schema: Joi.ObjectSchema): ClassDecorator {
+  return (target) => {
+    Reflect.defineMetadata(JOI_SCHEMA_METADATA, schema, target);
+
+    const { properties = {}, required = [] } = joiToJsonSchema(schema);
+    for (const [key, property] of Object.entries(properties)) {
+      ApiProperty({
+        ...property,
+        required: required.includes(key),
+      } as ApiPropertyOptions)(target.prototype, key);
+    }
+  };
+}
+
+/** The schema attached with `@JoiSchema`, if any. */
+export function getJoiSchema(type: unknown): Joi.ObjectSchema | undefined {
+  if (typeof type !== 'function') return undefined;
+  return Reflect.getMetadata(JOI_SCHEMA_METADATA, type);
+}
+
+/**
+ * Accepts either a Joi object schema or a class decorated with `@JoiSchema`.
+ *
+ * @throws {Error} If the class has no schema attached.
+ */
+export function resolveJoiSchema(
+  schema: Joi.ObjectSchema | Type<unknown>,
+): Joi.ObjectSchema {
+  if (Joi.isSchema(schema)) return schema as Joi.ObjectSchema;
+  const resolved = getJoiSchema(schema);
+  if (!resolved) {
+    throw new Error(
+      `${(schema as Type).name} is not decorated with @JoiSchema`,
+    );
+  }
+  return resolved;
+}
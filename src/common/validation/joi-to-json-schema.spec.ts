@@ -0,0 +1,28 @@
+import * as Joi from 'joi';
+import { joiToJsonSchema } from './joi-to-json-schema';
+
+describe('joiToJsonSchema', () => {
+  it('maps presence, limits, enums and formats', () => {
+    const schema = Joi.object({
+      prompt: Joi.string().min(10).max(512).required(),
+      unit: Joi.string().valid('metric', 'imperial').default('metric'),
+      conversationId: Joi.string().uuid(),
+      tags: Joi.array().items(Joi.string()).max(3),
+    });
+
+    expect(joiToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', minLength: 10, maxLength: 512 },
+        unit: {
+          type: 'string',
+          enum: ['metric', 'imperial'],
+          default: 'metric',
+        },
+        conversationId: { type: 'string', format: 'uuid' },
+        tags: { type: 'array', maxItems: 3, items: { type: 'string' } },
+      },
+      required: ['prompt'],
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import * as Joi from 'joi';
+
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  example?: unknown;
+}
+
+/** Entry of `Joi.Description.rules`, e.g. `{ name: 'max', args: { limit: 10 } }`. */
+interface JoiRule {
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+const STRING_FORMATS: Record<string, string> = {
+  guid: 'uuid',
+  email: 'email',
+  uri: 'uri',
+  isoDate: 'date-time',
+};
+
+/**
+ * Converts a Joi schema into the JSON Schema subset understood by OpenAI tool
+ * definitions and Swagger. Only the rules used in this project are mapped
+ * (presence, length and range limits, `valid()` values, descriptions,
+ * defaults, examples and a few string formats); anything else is ignored.
+ */
+export function joiToJsonSchema(schema: Joi.Schema): JsonSchema {
+  return fromDescription(schema.describe());
+}
+
+function fromDescription(description: Joi.Description): JsonSchema {
+  const flags = (description.flags ?? {}) as Record<string, any>;
+  const json: JsonSchema = {};
+
+  if (description.type !== 'any') {
+    json.type = description.type === 'date' ? 'string' : description.type;
+  }
+  if (flags.description) json.description = flags.description;
+  if (flags.default !== undefined && typeof flags.default !== 'function') {
+    json.default = flags.default;
+  }
+  if (flags.only && description.allow?.length) {
+    json.enum = description.allow.filter((value) => value !== null);
+  }
+  if (description.examples?.length) json.example = description.examples[0];
+
+  for (const rule of (description.rules ?? []) as JoiRule[]) {
+    applyRule(json, description.type, rule.name, rule.args ?? {});
+  }
+
+  if (description.type === 'object') {
+    json.properties = {};
+    const required: string[] = [];
+    for (const [key, child] of Object.entries<Joi.Description>(
+      description.keys ?? {},
+    )) {
+      json.properties[key] = fromDescription(child);
+      if ((child.flags as Record<string, any>)?.presence === 'required') {
+        required.push(key);
+      }
+    }
+    if (required.length) json.required = required;
+  }
+  if (description.type === 'array' && description.items?.length) {
+    json.items = fromDescription(description.items[0]);
+  }
+  return json;
+}
+
+function applyRule(
+  json: JsonSchema,
+  type: string,
+  name: string,
+  args: Record<string, any>,
+) {
+  switch (name) {
+    case 'min':
+    case 'max': {
+      const bound = name === 'min' ? 'min' : 'max';
+      if (type === 'string') json[`${bound}Length`] = args.limit;
+      else if (type === 'array') json[`${bound}Items`] = args.limit;
+      else if (type === 'number') {
+        json[bound === 'min' ? 'minimum' : 'maximum'] = args.limit;
+      }
+      break;
+    }
+    case 'length':
+      if (type === 'string') {
+        json.minLength = json.maxLength = args.limit;
+      } else if (type === 'array') {
+        json.minItems = json.maxItems = args.limit;
+      }
+      break;
+    case 'integer':
+      json.type = 'integer';
+      break;
+    case 'pattern':
+      json.pattern = String(args.regex).replace(/^\/|\/[a-z]*$/g, '');
+      break;
+    default:
+      if (STRING_FORMATS[name]) json.format = STRING_FORMATS[name];
+  }
+}
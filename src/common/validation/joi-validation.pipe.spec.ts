@@ -0,0 +1,62 @@
+import { ArgumentMetadata } from '@nestjs/common';
+import { ValidationException } from '../errors/app.exception';
+import { JoiValidationPipe } from './joi-validation.pipe';
+import { GetPrompt } from '../../ai/dto/get-prompt/get-prompt.dto';
+import { ConvertCurrencyQuery } from '../../currencies/dto/convert-currency/convert-currency.dto';
+import { ListCurrenciesQuery } from '../../currencies/dto/list-currencies/list-currencies.dto';
+
+describe('JoiValidationPipe', () => {
+  const pipe = new JoiValidationPipe();
+  const query = (metatype: ArgumentMetadata['metatype']): ArgumentMetadata => ({
+    type: 'query',
+    metatype,
+  });
+
+  it('returns the converted value of a DTO argument', () => {
+    expect(
+      pipe.transform(
+        { amount: '25', from: 'usd', to: 'EUR' },
+        query(ConvertCurrencyQuery),
+      ),
+    ).toEqual({ amount: 25, from: 'USD', to: 'EUR' });
+  });
+
+  it('applies defaults to missing queries', () => {
+    expect(pipe.transform(undefined, query(ListCurrenciesQuery))).toEqual({
+      base: 'USD',
+    });
+  });
+
+  it('reports every failed rule', () => {
+    let error: ValidationException;
+    try {
+      pipe.transform(
+        { prompt: 'short', locale: 'not a locale' },
+        { type: 'body', metatype: GetPrompt },
+      );
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ValidationException);
+    expect(error.details).toEqual([
+      {
+        path: 'prompt',
+        message: '"prompt" length must be at least 10 characters long',
+      },
+      {
+        path: 'locale',
+        message: '"locale" must be a BCP 47 language tag, e.g. "es" or "pt-BR"',
+      },
+    ]);
+  });
+
+  it('leaves arguments without a Joi schema untouched', () => {
+    const value = { anything: true };
+
+    expect(pipe.transform(value, query(Object))).toBe(value);
+    expect(pipe.transform('42', { type: 'param', metatype: String })).toBe(
+      '42',
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import { ArgumentMetadata, Injectable, PipeTransform } from '@nestjs/common';
+import { ValidationException } from '../errors/app.exception';
+import { getJoiSchema } from './joi-schema.decorator';
+
+/**
+ * Global pipe that validates `@Body()`, `@Query()` and `@Param()` arguments
+ * whose type is a `@JoiSchema` DTO. The handler receives the converted value
+ * (defaults applied, numbers parsed, currency codes upper-cased); other
+ * arguments pass through untouched.
+ */
+@Injectable()
+export class JoiValidationPipe implements PipeTransform {
+  transform(value: unknown, metadata: ArgumentMetadata) {
+    const schema = getJoiSchema(metadata.metatype);
+    if (!schema || metadata.type === 'custom') return value;
+
+    const { error, value: validated } = schema.validate(value ?? {}, {
+      abortEarly: false,
+    });
+    if (error) {
+      throw ValidationException.fromJoi(error);
+    }
+    return validated;
+  }
+}
@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConversationsController } from './conversations.controller';
+import { ConversationsService } from './conversations.service';
+import { TenantsService } from '../tenants/tenants.service';
+
+describe('ConversationsController', () => {
+  let controller: ConversationsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ConversationsController],
+      providers: [
+        { provide: ConversationsService, useValue: {} },
+        { provide: TenantsService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<ConversationsController>(ConversationsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,45 @@
+import { Controller, Delete, Get, HttpCode, Param } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ApiErrorResponses } from '../common/errors/api-error-responses.decorator';
+import { ErrorCode } from '../common/errors/error-code';
+import {
+  Authenticated,
+  CurrentTenant,
+} from '../tenants/decorators/authenticated.decorator';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
+import { ConversationsService } from './conversations.service';
+
+@ApiTags('Conversations')
+@Authenticated() // Each tenant only sees its own conversations
+@Controller('conversations')
+export class ConversationsController {
+  constructor(private readonly conversationsService: ConversationsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the stored conversations of the tenant' })
+  @ApiResponse({
+    status: 200,
+    description: 'Conversation summaries, newest first',
+  })
+  @ApiErrorResponses(ErrorCode.UNAUTHORIZED)
+  list(@CurrentTenant() tenant: Tenant) {
+    return this.conversationsService.list(tenant);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a conversation with its full history' })
+  @ApiResponse({ status: 200, description: 'The conversation' })
+  @ApiErrorResponses(ErrorCode.UNAUTHORIZED, ErrorCode.NOT_FOUND)
+  get(@Param('id') id: string, @CurrentTenant() tenant: Tenant) {
+    return this.conversationsService.get(id, tenant);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete a conversation' })
+  @ApiResponse({ status: 204, description: 'Conversation deleted' })
+  @ApiErrorResponses(ErrorCode.UNAUTHORIZED, ErrorCode.NOT_FOUND)
+  async delete(@Param('id') id: string, @CurrentTenant() tenant: Tenant) {
+    await this.conversationsService.delete(id, tenant);
+  }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { TenantsModule } from '../tenants/tenants.module';
+import { ConversationsController } from './conversations.controller';
+import { ConversationsService } from './conversations.service';
+import { ConversationStore } from './stores/conversation.store';
+import { FileConversationStore } from './stores/file-conversation.store';
+import { InMemoryConversationStore } from './stores/in-memory-conversation.store';
+
+@Module({
+  imports: [TenantsModule],
+  controllers: [ConversationsController],
+  providers: [
+    ConversationsService,
+    {
+      // CONVERSATION_STORE=file keeps history on disk, anything else stays in memory
+      provide: ConversationStore,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get('CONVERSATION_STORE') === 'file'
+          ? new FileConversationStore(
+              configService.get('CONVERSATION_STORE_PATH') ??
+                join(process.cwd(), 'data', 'conversations.json'),
+            )
+          : new InMemoryConversationStore(),
+    },
+  ],
+  exports: [ConversationsService],
+})
+export class ConversationsModule {}
@@ -0,0 +1,135 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConversationsService } from './conversations.service';
+import { ConversationStore } from './stores/conversation.store';
+import { InMemoryConversationStore } from './stores/in-memory-conversation.store';
+import { DEFAULT_TENANT } from '../tenants/tenants.service';
+
+describe('ConversationsService', () => {
+  let service: ConversationsService;
+  const config = { CONVERSATION_TOKEN_BUDGET: 50 };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConversationsService,
+        { provide: ConversationStore, useClass: InMemoryConversationStore },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ConversationsService>(ConversationsService);
+  });
+
+  it('starts a new conversation when no ID is given', async () => {
+    const conversation = await service.resolve();
+    expect(conversation.id).toBeDefined();
+    expect(conversation.messages).toEqual([]);
+  });
+
+  it('throws when continuing an unknown conversation', async () => {
+    await expect(
+      service.resolve('0f8fad5b-d9cb-469f-a165-70867728950e'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('replays recorded turns as chat history', async () => {
+    const conversation = await service.resolve();
+    await service.recordTurn(conversation, 'show me boots', 'Here are boots');
+
+    const stored = await service.resolve(conversation.id);
+    expect(service.toChatHistory(stored)).toEqual([
+      { role: 'user', content: 'show me boots' },
+      { role: 'assistant', content: 'Here are boots' },
+    ]);
+  });
+
+  it('keeps every turn of concurrent prompts to the same conversation', async () => {
+    const started = await service.resolve();
+    await service.recordTurn(started, 'hello', 'hi');
+    const [first, second] = await Promise.all([
+      service.resolve(started.id),
+      service.resolve(started.id),
+    ]);
+
+    await Promise.all([
+      service.recordTurn(first, 'show me boots', 'Here are boots'),
+      service.recordTurn(second, 'and hats?', 'Here are hats'),
+    ]);
+
+    const stored = await service.get(started.id);
+    expect(stored.messages.map((message) => message.content)).toEqual([
+      'hello',
+      'hi',
+      'show me boots',
+      'Here are boots',
+      'and hats?',
+      'Here are hats',
+    ]);
+  });
+
+  it('folds old turns into a summary once the token budget is exceeded', async () => {
+    const conversation = await service.resolve();
+    for (let turn = 0; turn < 4; turn++) {
+      await service.recordTurn(
+        conversation,
+        `question number ${turn} about some product`,
+        `answer number ${turn} with a few more words`,
+      );
+    }
+
+    const stored = await service.get(conversation.id);
+    expect(stored.messages).toHaveLength(2);
+    expect(stored.messages[0].content).toContain('question number 3');
+    expect(stored.summary).toContain('question number 0');
+    expect(service.toChatHistory(stored)[0].role).toBe('system');
+  });
+
+  it('lists and deletes conversations', async () => {
+    const conversation = await service.resolve();
+    await service.recordTurn(conversation, 'hello there bot', 'hi');
+
+    expect(await service.list()).toEqual([
+      expect.objectContaining({ id: conversation.id, messageCount: 2 }),
+    ]);
+    await service.delete(conversation.id);
+    await expect(service.get(conversation.id)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  describe('with several tenants', () => {
+    const teaShop = { ...DEFAULT_TENANT, id: 'tea-shop' };
+
+    it('hides conversations from other tenants', async () => {
+      const conversation = await service.resolve(undefined, teaShop);
+      await service.recordTurn(conversation, 'hello there bot', 'hi');
+
+      expect(conversation.tenantId).toBe('tea-shop');
+      expect(await service.list()).toEqual([]);
+      expect(await service.list(teaShop)).toHaveLength(1);
+      await expect(service.resolve(conversation.id)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      await expect(service.delete(conversation.id)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(await service.get(conversation.id, teaShop)).toEqual(conversation);
+    });
+
+    it('gives conversations stored without a tenant to the default one', async () => {
+      const conversation = await service.resolve();
+      delete conversation.tenantId;
+      await service.recordTurn(conversation, 'hello there bot', 'hi');
+
+      expect(await service.get(conversation.id)).toBeDefined();
+      await expect(
+        service.get(conversation.id, teaShop),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+});
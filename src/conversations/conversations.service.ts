@@ -0,0 +1,185 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationSummary,
+} from './interfaces/conversation.interface';
+import { ConversationStore } from './stores/conversation.store';
+import { KeyedQueue } from '../common/utils/keyed-queue';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
+import { DEFAULT_TENANT } from '../tenants/tenants.service';
+
+const DEFAULT_TOKEN_BUDGET = 2000;
+const MAX_SUMMARY_LENGTH = 1200;
+
+@Injectable()
+export class ConversationsService {
+  /** Turns of one conversation are recorded one at a time. */
+  private readonly turns = new KeyedQueue();
+
+  constructor(
+    private readonly store: ConversationStore,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Returns the conversation to continue, or a fresh one when no ID is given.
+   *
+   * @param conversationId - Optional ID sent by the client.
+   * @param tenant - Tenant of the request; a new conversation belongs to it.
+   * @throws {NotFoundException} If the ID does not match a stored conversation of the tenant.
+   */
+  async resolve(
+    conversationId?: string,
+    tenant: Tenant = DEFAULT_TENANT,
+  ): Promise<Conversation> {
+    if (!conversationId) {
+      const now = new Date().toISOString();
+      return {
+        id: randomUUID(),
+        tenantId: tenant.id,
+        createdAt: now,
+        updatedAt: now,
+        messages: [],
+      };
+    }
+    return this.get(conversationId, tenant);
+  }
+
+  /**
+   * Converts the stored turns into chat messages that can be placed between
+   * the system prompt and the new user prompt.
+   */
+  toChatHistory(conversation: Conversation): ChatCompletionMessageParam[] {
+    const history: ChatCompletionMessageParam[] = [];
+    if (conversation.summary) {
+      history.push({
+        role: 'system',
+        content: `Summary of the earlier conversation: ${conversation.summary}`,
+      });
+    }
+    for (const message of conversation.messages) {
+      history.push({ role: message.role, content: message.content });
+    }
+    return history;
+  }
+
+  /**
+   * Appends a completed user/assistant exchange, compacts the history if it
+   * exceeds the token budget and persists the conversation. The exchange is
+   * appended to the stored conversation, which may have gained turns since
+   * `conversation` was resolved, e.g. from a concurrent prompt.
+   */
+  recordTurn(
+    conversation: Conversation,
+    prompt: string,
+    response: string,
+  ): Promise<Conversation> {
+    return this.turns.run(conversation.id, async () => {
+      const current = (await this.store.get(conversation.id)) ?? conversation;
+      const now = new Date().toISOString();
+      current.messages.push(
+        { role: 'user', content: prompt, createdAt: now },
+        { role: 'assistant', content: response ?? '', createdAt: now },
+      );
+      current.updatedAt = now;
+      this.compact(current);
+      await this.store.save(current);
+      return current;
+    });
+  }
+
+  /** Conversations of the tenant, most recently updated first. */
+  async list(tenant: Tenant = DEFAULT_TENANT): Promise<ConversationSummary[]> {
+    const conversations = await this.store.list();
+    return conversations
+      .filter((conversation) => belongsTo(conversation, tenant))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map((conversation) => ({
+        id: conversation.id,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+        messageCount: conversation.messages.length,
+        lastMessage: conversation.messages.at(-1)?.content,
+      }));
+  }
+
+  /**
+   * @throws {NotFoundException} If the conversation does not exist, or belongs to another tenant.
+   */
+  async get(
+    id: string,
+    tenant: Tenant = DEFAULT_TENANT,
+  ): Promise<Conversation> {
+    const conversation = await this.store.get(id);
+    // Other tenants' conversations are reported as missing, not forbidden
+    if (!conversation || !belongsTo(conversation, tenant)) {
+      throw new NotFoundException(`Conversation ${id} not found`);
+    }
+    return conversation;
+  }
+
+  /**
+   * @throws {NotFoundException} If the conversation does not exist, or belongs to another tenant.
+   */
+  async delete(id: string, tenant: Tenant = DEFAULT_TENANT): Promise<void> {
+    await this.get(id, tenant);
+    const deleted = await this.store.delete(id);
+    if (!deleted) {
+      throw new NotFoundException(`Conversation ${id} not found`);
+    }
+  }
+
+  /**
+   * Rough token estimate (about four characters per token for English text).
+   * Good enough to keep the history under budget without a tokenizer.
+   */
+  estimateTokens(text: string): number {
+    return Math.ceil((text ?? '').length / 4);
+  }
+
+  /**
+   * Folds the oldest turns into `conversation.summary` until the history fits
+   * in `CONVERSATION_TOKEN_BUDGET`. The latest exchange is always kept verbatim
+   * and the summary itself is truncated from the front so it stays bounded.
+   */
+  private compact(conversation: Conversation) {
+    const budget = Number(
+      this.configService.get('CONVERSATION_TOKEN_BUDGET') ??
+        DEFAULT_TOKEN_BUDGET,
+    );
+    const folded: ConversationMessage[] = [];
+    while (
+      conversation.messages.length > 2 &&
+      this.historyTokens(conversation) > budget
+    ) {
+      folded.push(...conversation.messages.splice(0, 2));
+    }
+    if (!folded.length) return;
+
+    const lines = folded.map(
+      (message) => `${message.role}: ${message.content}`,
+    );
+    const summary = [conversation.summary, ...lines]
+      .filter(Boolean)
+      .join(' | ');
+    conversation.summary =
+      summary.length > MAX_SUMMARY_LENGTH
+        ? `…${summary.slice(-MAX_SUMMARY_LENGTH)}`
+        : summary;
+  }
+
+  private historyTokens(conversation: Conversation): number {
+    return conversation.messages.reduce(
+      (total, message) => total + this.estimateTokens(message.content),
+      this.estimateTokens(conversation.summary),
+    );
+  }
+}
+
+function belongsTo(conversation: Conversation, tenant: Tenant): boolean {
+  return (conversation.tenantId ?? DEFAULT_TENANT.id) === tenant.id;
+}
@@ -0,0 +1,29 @@
+export type ConversationRole = 'user' | 'assistant';
+
+export interface ConversationMessage {
+  role: ConversationRole;
+  content: string;
+  createdAt: string;
+}
+
+export interface Conversation {
+  id: string;
+  /**
+   * Tenant that started the conversation; only it can read or continue it.
+   * Conversations stored without one belong to the default tenant.
+   */
+  tenantId?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Condensed version of the turns that no longer fit in the token budget. */
+  summary?: string;
+  messages: ConversationMessage[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  lastMessage?: string;
+}
@@ -0,0 +1,13 @@
+import { Conversation } from '../interfaces/conversation.interface';
+
+/**
+ * Persistence contract for conversations. Implementations only need to
+ * store and return whole conversations; history handling lives in
+ * `ConversationsService`.
+ */
+export abstract class ConversationStore {
+  abstract get(id: string): Promise<Conversation | undefined>;
+  abstract save(conversation: Conversation): Promise<void>;
+  abstract list(): Promise<Conversation[]>;
+  abstract delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,33 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileConversationStore } from './file-conversation.store';
+
+describe('FileConversationStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'conversations-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists conversations across store instances', async () => {
+    const filePath = join(dir, 'conversations.json');
+    const conversation = {
+      id: 'abc',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      messages: [],
+    };
+
+    await new FileConversationStore(filePath).save(conversation);
+    const reopened = new FileConversationStore(filePath);
+
+    expect(await reopened.get('abc')).toEqual(conversation);
+    expect(await reopened.delete('abc')).toBe(true);
+    expect(await reopened.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import { JsonFile } from '../../common/storage/json-file';
+import { Conversation } from '../interfaces/conversation.interface';
+import { ConversationStore } from './conversation.store';
+
+/**
+ * Keeps every conversation in a single JSON file so history survives restarts.
+ */
+export class FileConversationStore extends ConversationStore {
+  private readonly file: JsonFile<Record<string, Conversation>>;
+
+  constructor(filePath: string) {
+    super();
+    this.file = new JsonFile(filePath, () => ({}));
+  }
+
+  async get(id: string) {
+    const conversations = await this.file.read();
+    return conversations[id];
+  }
+
+  async save(conversation: Conversation) {
+    await this.file.update((conversations) => {
+      conversations[conversation.id] = conversation;
+    });
+  }
+
+  async list() {
+    return Object.values(await this.file.read());
+  }
+
+  async delete(id: string) {
+    let deleted = false;
+    await this.file.update((conversations) => {
+      deleted = id in conversations;
+      delete conversations[id];
+    });
+    return deleted;
+  }
+}
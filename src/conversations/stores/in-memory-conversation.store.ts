@@ -0,0 +1,28 @@
+import { Conversation } from '../interfaces/conversation.interface';
+import { ConversationStore } from './conversation.store';
+
+/**
+ * Default store. Conversations live in the process and are lost on restart.
+ */
+export class InMemoryConversationStore extends ConversationStore {
+  private readonly conversations = new Map<string, Conversation>();
+
+  async get(id: string) {
+    const conversation = this.conversations.get(id);
+    return conversation ? structuredClone(conversation) : undefined;
+  }
+
+  async save(conversation: Conversation) {
+    this.conversations.set(conversation.id, structuredClone(conversation));
+  }
+
+  async list() {
+    return [...this.conversations.values()].map((conversation) =>
+      structuredClone(conversation),
+    );
+  }
+
+  async delete(id: string) {
+    return this.conversations.delete(id);
+  }
+}
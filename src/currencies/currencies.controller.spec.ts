@@ -0,0 +1,29 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CurrenciesController } from './currencies.controller';
+import { CurrenciesService } from './currencies.service';
+
+describe('CurrenciesController', () => {
+  let controller: CurrenciesController;
+  const currenciesService = { list: jest.fn(), convert: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CurrenciesController],
+      providers: [{ provide: CurrenciesService, useValue: currenciesService }],
+    }).compile();
+
+    controller = module.get<CurrenciesController>(CurrenciesController);
+  });
+
+  it('converts with the validated query', () => {
+    controller.convert({ amount: 25, from: 'USD', to: 'EUR' });
+
+    expect(currenciesService.convert).toHaveBeenCalledWith(25, 'USD', 'EUR');
+  });
+
+  it('lists rates against the requested base', () => {
+    controller.listCurrencies({ base: 'EUR' });
+
+    expect(currenciesService.list).toHaveBeenCalledWith('EUR');
+  });
+});
@@ -0,0 +1,47 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ApiErrorResponses } from '../common/errors/api-error-responses.decorator';
+import { ErrorCode } from '../common/errors/error-code';
+import { CurrenciesService } from './currencies.service';
+import { ConvertCurrencyQuery } from './dto/convert-currency/convert-currency.dto';
+import { ListCurrenciesQuery } from './dto/list-currencies/list-currencies.dto';
+
+@ApiTags('Currencies') // Grouping under "Currencies" for Swagger
+@Controller('currencies')
+export class CurrenciesController {
+  constructor(private readonly currenciesService: CurrenciesService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List supported currencies with their exchange rate',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      '`{ base, date, provider, currencies: [{ code, name, decimals, rate }] }`',
+  })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UPSTREAM_AUTH,
+    ErrorCode.UPSTREAM_UNAVAILABLE,
+  )
+  listCurrencies(@Query() query: ListCurrenciesQuery) {
+    return this.currenciesService.list(query.base);
+  }
+
+  @Get('convert')
+  @ApiOperation({ summary: 'Convert an amount between currencies' })
+  @ApiResponse({
+    status: 200,
+    description:
+      '`{ from, to, amount, rate, converted, date, provider }`, `converted` rounded to the minor unit of `to`',
+  })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UPSTREAM_AUTH,
+    ErrorCode.UPSTREAM_UNAVAILABLE,
+  )
+  convert(@Query() query: ConvertCurrencyQuery) {
+    return this.currenciesService.convert(query.amount, query.from, query.to);
+  }
+}
@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { HttpClientModule } from '../http/http-client.module';
+import { HttpClient } from '../http/http-client';
+import { CacheModule } from '../cache/cache.module';
+import { CurrenciesController } from './currencies.controller';
+import { CurrenciesService } from './currencies.service';
+import { FreeCurrencyApiRatesProvider } from './providers/free-currency-api-rates.provider';
+import { RatesProvider } from './providers/rates.provider';
+import { StaticRatesProvider } from './providers/static-rates.provider';
+
+@Module({
+  imports: [HttpClientModule, CacheModule],
+  controllers: [CurrenciesController],
+  providers: [
+    CurrenciesService,
+    {
+      // CURRENCY_RATES_PROVIDER=freecurrencyapi|static; defaults to the offline table when no API key is set
+      provide: RatesProvider,
+      inject: [ConfigService, HttpClient],
+      useFactory: (configService: ConfigService, httpClient: HttpClient) => {
+        const apiKey = configService.get('FREE_CURRENCY_API_KEY');
+        const provider =
+          configService.get('CURRENCY_RATES_PROVIDER') ||
+          (apiKey ? 'freecurrencyapi' : 'static');
+        return provider === 'freecurrencyapi'
+          ? new FreeCurrencyApiRatesProvider(httpClient, apiKey)
+          : new StaticRatesProvider(
+              configService.get('CURRENCY_RATES_FILE') ||
+                join(__dirname, '..', '..', 'data', 'exchange-rates.json'),
+            );
+      },
+    },
+  ],
+  exports: [CurrenciesService],
+})
+export class CurrenciesModule {}
@@ -0,0 +1,107 @@
+import {
+  UpstreamUnavailableException,
+  ValidationException,
+} from '../common/errors/app.exception';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { join } from 'path';
+import { CurrenciesService } from './currencies.service';
+import { RatesProvider } from './providers/rates.provider';
+import { StaticRatesProvider } from './providers/static-rates.provider';
+import { CacheService } from '../cache/cache.service';
+import { CacheStore } from '../cache/cache.store';
+import { MemoryCacheStore } from '../cache/stores/memory-cache.store';
+
+const RATES_FILE = join(__dirname, '..', '..', 'data', 'exchange-rates.json');
+
+describe('CurrenciesService', () => {
+  let service: CurrenciesService;
+  let provider: StaticRatesProvider;
+  let config: Record<string, string>;
+
+  beforeEach(async () => {
+    provider = new StaticRatesProvider(RATES_FILE);
+    config = {};
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CurrenciesService,
+        { provide: ConfigService, useValue: { get: (key) => config[key] } },
+        { provide: RatesProvider, useValue: provider },
+        CacheService,
+        { provide: CacheStore, useValue: new MemoryCacheStore() },
+      ],
+    }).compile();
+
+    service = module.get<CurrenciesService>(CurrenciesService);
+  });
+
+  it('converts and rounds to the minor unit of the target currency', async () => {
+    await expect(service.convert(17, 'USD', 'EUR')).resolves.toMatchObject({
+      from: 'USD',
+      to: 'EUR',
+      rate: 0.9225,
+      converted: 15.68,
+      provider: 'static',
+    });
+    expect((await service.convert(17, 'USD', 'JPY')).converted).toBe(2542);
+    expect((await service.convert(17, 'USD', 'KWD')).converted).toBe(5.209);
+  });
+
+  it('converts between two non-base currencies', async () => {
+    const { rate, converted } = await service.convert(100, 'eur', 'gbp');
+
+    expect(rate).toBeCloseTo(0.7666 / 0.9225);
+    expect(converted).toBe(83.1);
+  });
+
+  it('rejects codes that are not ISO 4217 or have no rate', async () => {
+    await expect(service.convert(1, 'USD', 'XYZ')).rejects.toBeInstanceOf(
+      ValidationException,
+    );
+    await expect(service.convert(1, 'USD', 'VND')).rejects.toThrow(
+      'No exchange rate from USD to VND',
+    );
+  });
+
+  it('converts price ranges', async () => {
+    await expect(
+      service.convertPrice(
+        { amount: 13, maxAmount: 15, currency: 'USD' },
+        'EUR',
+      ),
+    ).resolves.toEqual({ amount: 11.99, maxAmount: 13.84, currency: 'EUR' });
+  });
+
+  it('lists the currencies that have a rate', async () => {
+    const { base, currencies } = await service.list('EUR');
+
+    expect(base).toBe('EUR');
+    expect(currencies.find((currency) => currency.code === 'EUR')).toEqual({
+      code: 'EUR',
+      name: 'Euro',
+      decimals: 2,
+      rate: 1,
+    });
+    expect(currencies.map((currency) => currency.code)).toContain('USD');
+  });
+
+  it('caches rates and shares concurrent lookups', async () => {
+    const getRates = jest.spyOn(provider, 'getRates');
+
+    await Promise.all([service.getRates('USD'), service.getRates('USD')]);
+    await service.getRates('USD');
+
+    expect(getRates).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to expired rates when the provider fails', async () => {
+    config.CURRENCY_RATES_TTL_SECONDS = '0';
+    const rates = await service.getRates('USD');
+    jest.spyOn(provider, 'getRates').mockRejectedValue(new Error('offline'));
+
+    await expect(service.getRates('USD')).resolves.toBe(rates);
+    await expect(service.getRates('EUR')).rejects.toBeInstanceOf(
+      UpstreamUnavailableException,
+    );
+  });
+});
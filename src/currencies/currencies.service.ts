@@ -0,0 +1,161 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from '../cache/cache.service';
+import { ProductPrice } from '../catalog/interfaces/catalog-product.interface';
+import {
+  AppException,
+  UpstreamUnavailableException,
+  ValidationException,
+} from '../common/errors/app.exception';
+import { CURRENCIES, isCurrencyCode, roundAmount } from './data/iso-4217';
+import {
+  CurrencyConversion,
+  ExchangeRates,
+} from './interfaces/currency.interface';
+import { RatesProvider } from './providers/rates.provider';
+
+const DEFAULT_TTL_SECONDS = 3600;
+
+@Injectable()
+export class CurrenciesService {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly ratesProvider: RatesProvider,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * Currencies that have a rate against `base`, with that rate.
+   *
+   * @throws {ValidationException} If `base` is not an ISO 4217 code.
+   * @throws {UpstreamUnavailableException} If no rates can be loaded.
+   */
+  async list(base: string) {
+    const rates = await this.getRates(this.assertCurrency(base));
+    const currencies = Object.entries(rates.rates)
+      .filter(([code]) => CURRENCIES.has(code))
+      .map(([code, rate]) => ({ ...CURRENCIES.get(code), rate }))
+      .sort((a, b) => a.code.localeCompare(b.code));
+    return {
+      base: rates.base,
+      date: rates.date,
+      provider: rates.provider,
+      currencies,
+    };
+  }
+
+  /**
+   * Converts an amount and rounds it to the minor unit of the target
+   * currency (e.g. 2 decimals for EUR, 0 for JPY, 3 for KWD).
+   *
+   * @throws {ValidationException} If a code is not ISO 4217 or has no rate.
+   * @throws {UpstreamUnavailableException} If no rates can be loaded.
+   */
+  async convert(
+    amount: number,
+    from: string,
+    to: string,
+  ): Promise<CurrencyConversion> {
+    from = this.assertCurrency(from);
+    to = this.assertCurrency(to);
+    const rates = await this.getRates(from);
+    const rate = from === to ? 1 : rates.rates[to];
+    if (rate === undefined) {
+      throw new ValidationException(`No exchange rate from ${from} to ${to}`);
+    }
+
+    return {
+      from,
+      to,
+      amount,
+      rate,
+      converted: roundAmount(amount * rate, to),
+      date: rates.date,
+      provider: rates.provider,
+    };
+  }
+
+  /** Converts both ends of a price range. */
+  async convertPrice(price: ProductPrice, to: string): Promise<ProductPrice> {
+    if (price.currency === to) {
+      return price;
+    }
+    const { converted: amount } = await this.convert(
+      price.amount,
+      price.currency,
+      to,
+    );
+    const converted: ProductPrice = { amount, currency: to };
+    if (price.maxAmount !== undefined) {
+      converted.maxAmount = (
+        await this.convert(price.maxAmount, price.currency, to)
+      ).converted;
+    }
+    return converted;
+  }
+
+  /**
+   * Returns copies of the items with their `price` in `currency`. Without a
+   * currency the items are returned untouched.
+   */
+  async convertItems<T extends { price: ProductPrice }>(
+    items: T[],
+    currency?: string,
+  ): Promise<T[]> {
+    if (!currency) {
+      return items;
+    }
+    return Promise.all(
+      items.map(async (item) => ({
+        ...item,
+        price: await this.convertPrice(item.price, currency),
+      })),
+    );
+  }
+
+  /**
+   * Rates for a base currency, cached for `CURRENCY_RATES_TTL_SECONDS` in
+   * the `currency-rates` namespace of the `CacheService`. Concurrent lookups
+   * share one provider call. When the provider fails the last known rates
+   * are used, even if expired.
+   */
+  getRates(base: string): Promise<ExchangeRates> {
+    return this.cacheService.wrap(
+      'currency-rates',
+      base,
+      () => this.fetchRates(base),
+      { ttlMs: this.ttlMs(), staleIfError: true },
+    );
+  }
+
+  /** @returns The upper-cased code. */
+  assertCurrency(code: string): string {
+    const upper = code?.toUpperCase();
+    if (!isCurrencyCode(upper)) {
+      throw new ValidationException(
+        `Unknown currency code "${code}", expected an ISO 4217 code such as USD`,
+      );
+    }
+    return upper;
+  }
+
+  private async fetchRates(base: string): Promise<ExchangeRates> {
+    try {
+      return await this.ratesProvider.getRates(base);
+    } catch (error) {
+      throw error instanceof AppException
+        ? error
+        : new UpstreamUnavailableException('Exchange rates', error.message, {
+            cause: error,
+          });
+    }
+  }
+
+  private ttlMs(): number {
+    const seconds = Number(
+      this.configService.get('CURRENCY_RATES_TTL_SECONDS') ??
+        DEFAULT_TTL_SECONDS,
+    );
+    return (Number.isFinite(seconds) ? seconds : DEFAULT_TTL_SECONDS) * 1000;
+  }
+}
@@ -0,0 +1,34 @@
+import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+import { CURRENCY_CODES } from '../../data/iso-4217';
+
+/** ISO 4217 code, upper-cased before validation. */
+export const currencyCode = () =>
+  Joi.string()
+    .uppercase()
+    .valid(...CURRENCY_CODES)
+    .messages({ 'any.only': '{{#label}} must be an ISO 4217 currency code' });
+
+export const convertCurrencySchema = Joi.object({
+  amount: Joi.number()
+    .min(0)
+    .required()
+    .description('Amount to convert')
+    .example(25),
+  from: currencyCode()
+    .required()
+    .description('ISO 4217 code to convert from')
+    .example('USD'),
+  to: currencyCode()
+    .required()
+    .description('ISO 4217 code to convert to')
+    .example('EUR'),
+});
+
+/** Query of `GET /currencies/convert`. */
+@JoiSchema(convertCurrencySchema)
+export class ConvertCurrencyQuery {
+  amount: number;
+  from: string;
+  to: string;
+}
@@ -0,0 +1,16 @@
+import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+import { currencyCode } from '../convert-currency/convert-currency.dto';
+
+export const listCurrenciesSchema = Joi.object({
+  base: currencyCode()
+    .default('USD')
+    .description('ISO 4217 code the rates are relative to')
+    .example('EUR'),
+});
+
+/** Query of `GET /currencies`. */
+@JoiSchema(listCurrenciesSchema)
+export class ListCurrenciesQuery {
+  base?: string;
+}
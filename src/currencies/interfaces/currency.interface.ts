@@ -0,0 +1,28 @@
+export interface CurrencyInfo {
+  /** ISO 4217 code, e.g. "EUR". */
+  code: string;
+  name: string;
+  /** Minor units, e.g. 2 for EUR and 0 for JPY. */
+  decimals: number;
+}
+
+/** Exchange rates of one base currency, `1 base = rates[code] code`. */
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+  /** ISO date the rates were published or fetched. */
+  date: string;
+  /** ID of the provider that supplied them. */
+  provider: string;
+}
+
+export interface CurrencyConversion {
+  from: string;
+  to: string;
+  amount: number;
+  rate: number;
+  /** Rounded to the minor unit of `to`. */
+  converted: number;
+  date: string;
+  provider: string;
+}
@@ -0,0 +1,45 @@
+import { join } from 'path';
+import { FetchHttpClient } from '../../http/clients/fetch-http.client';
+import { RecordReplayHttpClient } from '../../http/clients/record-replay-http.client';
+import { HttpClient } from '../../http/http-client';
+import { FreeCurrencyApiRatesProvider } from './free-currency-api-rates.provider';
+
+const FIXTURES_DIR = join(
+  __dirname,
+  '..',
+  '..',
+  '..',
+  'test',
+  'fixtures',
+  'http',
+);
+
+describe('FreeCurrencyApiRatesProvider', () => {
+  it('reads the latest rates for a base currency', async () => {
+    const provider = new FreeCurrencyApiRatesProvider(
+      new RecordReplayHttpClient(new FetchHttpClient(), FIXTURES_DIR, 'replay'),
+      'test-key',
+    );
+
+    const rates = await provider.getRates('USD');
+
+    expect(rates).toMatchObject({ base: 'USD', provider: 'freecurrencyapi' });
+    expect(rates.rates.EUR).toBe(0.9225);
+    expect(rates.rates.USD).toBe(1);
+  });
+
+  it('reports a rejected API key', async () => {
+    const httpClient: HttpClient = {
+      request: jest.fn().mockResolvedValue({
+        status: 401,
+        ok: false,
+        body: { message: 'Invalid authentication credentials' },
+      }),
+    };
+    const provider = new FreeCurrencyApiRatesProvider(httpClient, 'bad-key');
+
+    await expect(provider.getRates('USD')).rejects.toThrow(
+      'freecurrencyapi rejected the configured credentials',
+    );
+  });
+});
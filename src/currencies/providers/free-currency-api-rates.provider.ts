@@ -0,0 +1,42 @@
+import { UpstreamAuthException } from '../../common/errors/app.exception';
+import { HttpClient } from '../../http/http-client';
+import { ExchangeRates } from '../interfaces/currency.interface';
+import { RatesProvider } from './rates.provider';
+
+/**
+ * Latest rates from freecurrencyapi.com.
+ */
+export class FreeCurrencyApiRatesProvider extends RatesProvider {
+  readonly id = 'freecurrencyapi';
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly apiKey: string,
+  ) {
+    super();
+  }
+
+  async getRates(base: string): Promise<ExchangeRates> {
+    const response = await this.httpClient.request<{
+      data?: Record<string, number>;
+    }>({
+      dependency: 'currency-rates',
+      url: `https://api.freecurrencyapi.com/v1/latest?apikey=${encodeURIComponent(this.apiKey)}&base_currency=${base}`,
+    });
+    if (response.status === 401 || response.status === 403) {
+      throw new UpstreamAuthException('freecurrencyapi');
+    }
+    if (!response.ok || !response.body?.data) {
+      throw new Error(
+        `freecurrencyapi answered with status ${response.status}`,
+      );
+    }
+
+    return {
+      base,
+      rates: { ...response.body.data, [base]: 1 },
+      date: new Date().toISOString(),
+      provider: this.id,
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { ExchangeRates } from '../interfaces/currency.interface';
+
+/**
+ * Source of exchange rates. Pick the implementation with
+ * `CURRENCY_RATES_PROVIDER`; see `CurrenciesModule`.
+ */
+export abstract class RatesProvider {
+  /** Reported with every conversion, e.g. "freecurrencyapi". */
+  abstract readonly id: string;
+
+  /**
+   * @param base - ISO 4217 code the rates are relative to.
+   * @throws {Error} If the rates cannot be loaded; catalogue errors such as
+   * `UpstreamAuthException` are passed on to the caller unchanged.
+   */
+  abstract getRates(base: string): Promise<ExchangeRates>;
+}
@@ -0,0 +1,51 @@
+import { promises as fs } from 'fs';
+import { ExchangeRates } from '../interfaces/currency.interface';
+import { RatesProvider } from './rates.provider';
+
+interface RateTable {
+  base: string;
+  date: string;
+  rates: Record<string, number>;
+}
+
+/**
+ * Offline rates from a JSON table (`data/exchange-rates.json` by default),
+ * shaped as `{ base, date, rates }`. Any currency of the table can be used as
+ * base; the rates are derived through the table's own base.
+ */
+export class StaticRatesProvider extends RatesProvider {
+  readonly id = 'static';
+  private table?: Promise<RateTable>;
+
+  constructor(private readonly file: string) {
+    super();
+  }
+
+  async getRates(base: string): Promise<ExchangeRates> {
+    const table = await this.load();
+    const baseRate = base === table.base ? 1 : table.rates[base];
+    if (!baseRate) {
+      throw new Error(`No static rate for ${base}`);
+    }
+
+    const rates = Object.fromEntries(
+      Object.entries({ ...table.rates, [table.base]: 1 }).map(
+        ([code, rate]) => [code, rate / baseRate],
+      ),
+    );
+    return { base, rates, date: table.date, provider: this.id };
+  }
+
+  private load(): Promise<RateTable> {
+    this.table ??= fs
+      .readFile(this.file, 'utf8')
+      .then((raw) => JSON.parse(raw) as RateTable)
+      .catch((error) => {
+        this.table = undefined;
+        throw new Error(
+          `Cannot read rate table ${this.file}: ${error.message}`,
+        );
+      });
+    return this.table;
+  }
+}
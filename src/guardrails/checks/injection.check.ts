@@ -0,0 +1,66 @@
+import { GuardrailCheck } from '../guardrail.check';
+import {
+  GuardrailContext,
+  GuardrailVerdict,
+} from '../interfaces/guardrail.interface';
+
+/** Phrasings of attempts to override the system prompt, with their label. */
+const INJECTION_PATTERNS: { label: string; pattern: RegExp }[] = [
+  {
+    label: 'instruction override',
+    pattern:
+      /\b(ignore|disregard|forget|override|bypass)\b[^.\n]{0,30}\b(previous|prior|above|earlier|preceding|system|your|all)\b[^.\n]{0,20}\b(instructions?|prompts?|rules|guidelines|directions)\b/gi,
+  },
+  {
+    label: 'role change',
+    pattern:
+      /\b(you are now|from now on,? you|pretend (to be|you are)|act as (an? )?(unrestricted|unfiltered|different|new)|roleplay as)\b/gi,
+  },
+  {
+    label: 'prompt extraction',
+    pattern:
+      /\b(reveal|show|print|repeat|output|tell me)\b[^.\n]{0,20}\b(system prompt|hidden (prompt|instructions)|initial instructions|your (instructions|prompt))\b/gi,
+  },
+  {
+    label: 'jailbreak',
+    pattern: /\b(jailbreak|developer mode|DAN mode|do anything now)\b/gi,
+  },
+  {
+    label: 'role marker',
+    pattern:
+      /(<\|im_(start|end)\|>|<\/?(system|assistant)>|^\s*(#{2,}\s*)?(system|assistant)\s*:|\[\/?(INST|SYSTEM)\])/gim,
+  },
+  {
+    label: 'new instructions',
+    pattern: /\bnew (system )?instructions\s*:/gi,
+  },
+];
+
+/**
+ * Heuristics against prompt injection. Prompts that try to override the
+ * system prompt are blocked; the same phrasings in tool results (product
+ * descriptions imported from a CSV or a store) are cut out so the rest of
+ * the result still reaches the model.
+ */
+export class InjectionCheck extends GuardrailCheck {
+  readonly name = 'injection';
+  readonly stages = ['input' as const, 'tool' as const];
+
+  async check(
+    text: string,
+    { stage }: GuardrailContext,
+  ): Promise<GuardrailVerdict> {
+    const labels = INJECTION_PATTERNS.filter(({ pattern }) =>
+      new RegExp(pattern).test(text),
+    ).map(({ label }) => label);
+    if (!labels.length) return { action: 'allow' };
+
+    const reason = `Looks like a prompt injection (${labels.join(', ')})`;
+    if (stage === 'input') return { action: 'block', reason };
+    let cleaned = text;
+    for (const { pattern } of INJECTION_PATTERNS) {
+      cleaned = cleaned.replace(pattern, '[removed]');
+    }
+    return { action: 'redact', text: cleaned, reason };
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  UpstreamAuthException,
+  UpstreamUnavailableException,
+} from '../../common/errors/app.exception';
+import { HttpClient } from '../../http/http-client';
+import { MODERATION_DEPENDENCY, ModerationCheck } from './moderation.check';
+
+describe('ModerationCheck', () => {
+  const httpClient = { request: jest.fn() };
+  const check = new ModerationCheck(httpClient as unknown as HttpClient, {
+    apiKey: 'test-key',
+  });
+
+  beforeEach(() => httpClient.request.mockReset());
+
+  it('blocks texts the moderation model flags', async () => {
+    httpClient.request.mockResolvedValue({
+      status: 200,
+      ok: true,
+      body: {
+        results: [
+          {
+            flagged: true,
+            categories: { harassment: true, violence: false, hate: true },
+          },
+        ],
+      },
+    });
+
+    expect(await check.check('something hateful')).toEqual({
+      action: 'block',
+      reason: 'Flagged by the moderation model (harassment, hate)',
+    });
+    expect(httpClient.request).toHaveBeenCalledWith({
+      method: 'POST',
+      url: 'https://api.openai.com/v1/moderations',
+      headers: { Authorization: 'Bearer test-key' },
+      body: { model: 'omni-moderation-latest', input: 'something hateful' },
+      dependency: MODERATION_DEPENDENCY,
+    });
+  });
+
+  it('allows texts that are not flagged', async () => {
+    httpClient.request.mockResolvedValue({
+      status: 200,
+      ok: true,
+      body: { results: [{ flagged: false, categories: {} }] },
+    });
+
+    expect(await check.check('red boots')).toEqual({ action: 'allow' });
+  });
+
+  it('fails when the API rejects the key or fails', async () => {
+    httpClient.request.mockResolvedValueOnce({ status: 401, ok: false });
+    await expect(check.check('red boots')).rejects.toThrow(
+      UpstreamAuthException,
+    );
+
+    httpClient.request.mockResolvedValueOnce({ status: 500, ok: false });
+    await expect(check.check('red boots')).rejects.toThrow(
+      UpstreamUnavailableException,
+    );
+  });
+});
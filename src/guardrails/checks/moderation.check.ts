@@ -0,0 +1,75 @@
+import {
+  UpstreamAuthException,
+  UpstreamUnavailableException,
+} from '../../common/errors/app.exception';
+import { HttpClient } from '../../http/http-client';
+import { GuardrailCheck } from '../guardrail.check';
+import { GuardrailVerdict } from '../interfaces/guardrail.interface';
+
+/** Resilience policy and breaker of the moderation API. */
+export const MODERATION_DEPENDENCY = 'moderation';
+
+export interface ModerationOptions {
+  apiKey: string;
+  /** Defaults to the OpenAI API; any server with a compatible `/moderations` works. */
+  baseUrl?: string;
+  model?: string;
+}
+
+interface ModerationResponse {
+  results: { flagged: boolean; categories: Record<string, boolean> }[];
+}
+
+/**
+ * Asks a moderation model (OpenAI's `/moderations` by default) whether the
+ * prompt or the answer is harmful, and blocks flagged texts. When the API
+ * fails the request fails too: an unmoderated answer is never sent.
+ */
+export class ModerationCheck extends GuardrailCheck {
+  readonly name = 'moderation';
+  readonly stages = ['input' as const, 'output' as const];
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly options: ModerationOptions,
+  ) {
+    super();
+  }
+
+  /**
+   * @throws {UpstreamAuthException} If the API rejects the key.
+   * @throws {UpstreamUnavailableException} If the API fails.
+   */
+  async check(text: string): Promise<GuardrailVerdict> {
+    if (!text.trim()) return { action: 'allow' };
+    const response = await this.httpClient.request<ModerationResponse>({
+      method: 'POST',
+      url: `${this.options.baseUrl ?? 'https://api.openai.com/v1'}/moderations`,
+      headers: { Authorization: `Bearer ${this.options.apiKey}` },
+      body: {
+        model: this.options.model ?? 'omni-moderation-latest',
+        input: text,
+      },
+      dependency: MODERATION_DEPENDENCY,
+    });
+    if (response.status === 401) {
+      throw new UpstreamAuthException('Moderation API');
+    }
+    const result = response.ok ? response.body?.results?.[0] : undefined;
+    if (!result) {
+      throw new UpstreamUnavailableException(
+        'Moderation API',
+        `status ${response.status}`,
+      );
+    }
+    if (!result.flagged) return { action: 'allow' };
+
+    const categories = Object.keys(result.categories ?? {}).filter(
+      (category) => result.categories[category],
+    );
+    return {
+      action: 'block',
+      reason: `Flagged by the moderation model (${categories.join(', ') || 'unspecified'})`,
+    };
+  }
+}
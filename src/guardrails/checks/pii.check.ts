@@ -0,0 +1,22 @@
+import { GuardrailCheck } from '../guardrail.check';
+import { GuardrailVerdict } from '../interfaces/guardrail.interface';
+import { redactPii } from '../utils/redact-pii';
+
+/**
+ * Masks personal data in prompts, before the model, the conversation store
+ * and the transcripts see it, and in answers, before the client does.
+ */
+export class PiiCheck extends GuardrailCheck {
+  readonly name = 'pii';
+  readonly stages = ['input' as const, 'output' as const];
+
+  async check(text: string): Promise<GuardrailVerdict> {
+    const { text: redacted, found } = redactPii(text);
+    if (!found.length) return { action: 'allow' };
+    return {
+      action: 'redact',
+      text: redacted,
+      reason: `Redacted ${found.join(', ')}`,
+    };
+  }
+}
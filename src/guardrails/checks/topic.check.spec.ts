@@ -0,0 +1,25 @@
+import { TopicCheck } from './topic.check';
+
+describe('TopicCheck', () => {
+  const check = new TopicCheck();
+
+  it.each([
+    ['Write a Python script that scrapes a website', 'programming'],
+    ['Compose an essay about the French revolution', 'writing'],
+    ['Solve this equation for x: 3x + 2 = 11', 'homework'],
+    ['Can you diagnose my rash?', 'professional advice'],
+  ])('blocks "%s"', async (prompt, label) => {
+    expect(await check.check(prompt)).toEqual({
+      action: 'block',
+      reason: expect.stringContaining(`(${label})`),
+    });
+  });
+
+  it.each([
+    'Find me a waterproof jacket for hiking',
+    'What time is it in Tokyo and what is the air quality?',
+    'Convert 20 USD to EUR',
+  ])('allows "%s"', async (prompt) => {
+    expect(await check.check(prompt)).toEqual({ action: 'allow' });
+  });
+});
@@ -0,0 +1,45 @@
+import { GuardrailCheck } from '../guardrail.check';
+import { GuardrailVerdict } from '../interfaces/guardrail.interface';
+
+/** Requests the assistants are not meant for, with their label. */
+const OFF_TOPIC_PATTERNS: { label: string; pattern: RegExp }[] = [
+  {
+    label: 'programming',
+    pattern:
+      /(```|\b(write|debug|fix|generate|refactor)\b[^.\n]{0,40}\b(code|script|function|program|sql|regex|python|javascript|typescript|java)\b)/i,
+  },
+  {
+    label: 'writing',
+    pattern:
+      /\b(write|compose|draft)\b[^.\n]{0,30}\b(essay|poem|song|story|novel|cover letter|resume|homework|thesis|article|speech)\b/i,
+  },
+  {
+    label: 'homework',
+    pattern:
+      /\b(solve|prove|integrate|differentiate)\b[^.\n]{0,30}\b(equation|integral|derivative|theorem|problem|exercise)\b/i,
+  },
+  {
+    label: 'professional advice',
+    pattern:
+      /\b(diagnose|prescribe|dosage|legal advice|sue|lawsuit|tax return|stock tips|which stocks?|invest(ment)? advice)\b/i,
+  },
+];
+
+/**
+ * Keeps the paid endpoints to what the assistants are for, shopping and city
+ * information, by blocking prompts that ask for code, essays, homework or
+ * medical, legal and financial advice.
+ */
+export class TopicCheck extends GuardrailCheck {
+  readonly name = 'topic';
+  readonly stages = ['input' as const];
+
+  async check(text: string): Promise<GuardrailVerdict> {
+    const match = OFF_TOPIC_PATTERNS.find(({ pattern }) => pattern.test(text));
+    if (!match) return { action: 'allow' };
+    return {
+      action: 'block',
+      reason: `Off-topic request (${match.label}); this assistant only helps with shopping and city information`,
+    };
+  }
+}
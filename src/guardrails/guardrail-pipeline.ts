@@ -0,0 +1,37 @@
+import { GuardrailCheck } from './guardrail.check';
+import {
+  GuardrailContext,
+  GuardrailFinding,
+  GuardrailResult,
+} from './interfaces/guardrail.interface';
+
+/**
+ * Runs the configured checks in order. Each check sees the text as redacted
+ * by the previous ones; the first block stops the chain.
+ */
+export class GuardrailPipeline {
+  constructor(readonly checks: GuardrailCheck[]) {}
+
+  async run(text: string, context: GuardrailContext): Promise<GuardrailResult> {
+    const findings: GuardrailFinding[] = [];
+    let current = text;
+    for (const check of this.checks) {
+      if (!check.stages.includes(context.stage)) continue;
+      const verdict = await check.check(current, context);
+      if (verdict.action === 'allow') continue;
+
+      const finding: GuardrailFinding = {
+        check: check.name,
+        stage: context.stage,
+        action: verdict.action,
+        reason: verdict.reason,
+      };
+      findings.push(finding);
+      if (verdict.action === 'block') {
+        return { text: current, findings, blocked: finding };
+      }
+      current = verdict.text;
+    }
+    return { text: current, findings };
+  }
+}
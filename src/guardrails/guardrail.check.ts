@@ -0,0 +1,22 @@
+import {
+  GuardrailContext,
+  GuardrailStage,
+  GuardrailVerdict,
+} from './interfaces/guardrail.interface';
+
+/**
+ * One link of the guardrail chain. Implementations look at a text and allow,
+ * redact or block it; `GUARDRAIL_CHECKS` picks and orders them, see
+ * `GuardrailsModule`.
+ */
+export abstract class GuardrailCheck {
+  /** e.g. "injection"; reported in errors and transcripts. */
+  abstract readonly name: string;
+  /** Stages the check runs at; it is skipped at the others. */
+  abstract readonly stages: GuardrailStage[];
+
+  abstract check(
+    text: string,
+    context: GuardrailContext,
+  ): Promise<GuardrailVerdict>;
+}
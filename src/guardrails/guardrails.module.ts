@@ -0,0 +1,60 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpClientModule } from '../http/http-client.module';
+import { HttpClient } from '../http/http-client';
+import { TranscriptsModule } from '../transcripts/transcripts.module';
+import { InjectionCheck } from './checks/injection.check';
+import { ModerationCheck } from './checks/moderation.check';
+import { PiiCheck } from './checks/pii.check';
+import { TopicCheck } from './checks/topic.check';
+import { GuardrailCheck } from './guardrail.check';
+import { GuardrailPipeline } from './guardrail-pipeline';
+import { GuardrailsService } from './guardrails.service';
+
+/** Checks run when `GUARDRAIL_CHECKS` is not set. */
+export const DEFAULT_GUARDRAIL_CHECKS = 'injection,topic,pii';
+
+@Module({
+  imports: [HttpClientModule, TranscriptsModule],
+  providers: [
+    GuardrailsService,
+    {
+      // GUARDRAIL_CHECKS lists the checks in the order they run (injection,topic,pii by default; "none" disables them); moderation also needs an API key
+      provide: GuardrailPipeline,
+      inject: [ConfigService, HttpClient],
+      useFactory: (configService: ConfigService, httpClient: HttpClient) => {
+        const names = (
+          configService.get('GUARDRAIL_CHECKS') || DEFAULT_GUARDRAIL_CHECKS
+        )
+          .split(',')
+          .map((name: string) => name.trim())
+          .filter((name: string) => name && name !== 'none');
+        return new GuardrailPipeline(
+          names.map((name: string): GuardrailCheck => {
+            switch (name) {
+              case 'injection':
+                return new InjectionCheck();
+              case 'topic':
+                return new TopicCheck();
+              case 'pii':
+                return new PiiCheck();
+              case 'moderation':
+                return new ModerationCheck(httpClient, {
+                  apiKey:
+                    configService.get('MODERATION_API_KEY') ||
+                    configService.get('OPEN_AI_API_KEY'),
+                  baseUrl:
+                    configService.get('MODERATION_BASE_URL') || undefined,
+                  model: configService.get('MODERATION_MODEL') || undefined,
+                });
+              default:
+                throw new Error(`Unknown guardrail check "${name}"`);
+            }
+          }),
+        );
+      },
+    },
+  ],
+  exports: [GuardrailsService],
+})
+export class GuardrailsModule {}
@@ -0,0 +1,153 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GuardrailException } from '../common/errors/app.exception';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
+import { ToolHandler } from '../tools/interfaces/tool-loop.interface';
+import { ToolOutput } from '../tools/utils/tool-output';
+import { Assistant } from '../transcripts/interfaces/transcript.interface';
+import { TranscriptsService } from '../transcripts/transcripts.service';
+import {
+  RequestUsage,
+  UsageContext,
+} from '../usage/interfaces/usage.interface';
+import { GuardrailPipeline } from './guardrail-pipeline';
+import { OutputStreamGuard } from './output-stream-guard';
+import {
+  GuardrailResult,
+  GuardrailStage,
+} from './interfaces/guardrail.interface';
+import { redactPii } from './utils/redact-pii';
+
+/** The prompt being answered, as the assistants know it. */
+export interface GuardedRequest {
+  assistant: Assistant;
+  tenant: Tenant;
+  conversationId: string;
+  /** Client and endpoint, from `@MeteredClient()`. */
+  context?: UsageContext;
+  /** `Date.now()` when the prompt arrived. */
+  startedAt: number;
+}
+
+/**
+ * Runs the guardrail chain around the assistants: on the prompt before the
+ * model sees it, on tool results before they are sent to the model, and on
+ * the answer (or each sentence of a streamed one) before the client gets it. Blocked requests are recorded as
+ * transcripts and fail with `GUARDRAIL_BLOCKED`.
+ */
+@Injectable()
+export class GuardrailsService {
+  private readonly logger = new Logger(GuardrailsService.name);
+
+  constructor(
+    private readonly pipeline: GuardrailPipeline,
+    private readonly transcriptsService: TranscriptsService,
+  ) {}
+
+  /**
+   * @returns The prompt to send to the model, with personal data masked, and the findings of the checks.
+   * @throws {GuardrailException} If a check blocked the prompt.
+   */
+  async checkInput(
+    prompt: string,
+    request: GuardedRequest,
+  ): Promise<GuardrailResult> {
+    const result = await this.run('input', prompt, request);
+    if (result.blocked) {
+      await this.reject(result, { ...request, prompt });
+    }
+    return result;
+  }
+
+  /**
+   * @param request - With the prompt as the model saw it and the usage the answer cost.
+   * @returns The answer to send to the client and the findings of the checks.
+   * @throws {GuardrailException} If a check blocked the answer.
+   */
+  async checkOutput(
+    answer: string,
+    request: GuardedRequest & { prompt: string; usage?: RequestUsage },
+  ): Promise<GuardrailResult> {
+    const result = await this.run('output', answer ?? '', request);
+    if (result.blocked) {
+      await this.reject(result, request);
+    }
+    return result;
+  }
+
+  /**
+   * The `output` checks of a streamed answer, run on each sentence before it
+   * is sent. Unlike `checkOutput()`, a block is not recorded here: the stream
+   * ends early and its interruption is recorded with the guard's findings.
+   */
+  guardStream(request: GuardedRequest): OutputStreamGuard {
+    return new OutputStreamGuard((text) => this.run('output', text, request));
+  }
+
+  /**
+   * Wraps tool handlers so their text results go through the `tool` checks,
+   * e.g. instructions hidden in product descriptions are cut out.
+   */
+  guardHandlers(
+    handlers: Record<string, ToolHandler>,
+    request: GuardedRequest,
+  ): Record<string, ToolHandler> {
+    const guarded: Record<string, ToolHandler> = {};
+    for (const [name, handler] of Object.entries(handlers)) {
+      guarded[name] = async (args, context) => {
+        const output = await handler(args, context);
+        const content = output instanceof ToolOutput ? output.content : output;
+        if (typeof content !== 'string') return output;
+
+        const { text, findings, blocked } = await this.run(
+          'tool',
+          content,
+          request,
+        );
+        if (blocked) {
+          // Reported to the model as a failed tool call
+          throw new Error(`The ${name} result was withheld: ${blocked.reason}`);
+        }
+        if (!findings.length) return output;
+        this.logger.warn(
+          `Cleaned the ${name} result of conversation ${request.conversationId}: ${findings.map((finding) => finding.reason).join('; ')}`,
+        );
+        return output instanceof ToolOutput
+          ? new ToolOutput(text, output.metadata)
+          : text;
+      };
+    }
+    return guarded;
+  }
+
+  private run(
+    stage: GuardrailStage,
+    text: string,
+    { assistant, tenant }: GuardedRequest,
+  ): Promise<GuardrailResult> {
+    return this.pipeline.run(text, { stage, assistant, tenant });
+  }
+
+  /** Records the blocked request, then fails it. */
+  private async reject(
+    result: GuardrailResult,
+    request: GuardedRequest & { prompt: string; usage?: RequestUsage },
+  ): Promise<never> {
+    await this.transcriptsService.record({
+      assistant: request.assistant,
+      tenant: request.tenant,
+      conversationId: request.conversationId,
+      // The prompt may have been blocked before the PII check masked it
+      prompt: redactPii(request.prompt).text,
+      usage: request.usage,
+      context: request.context,
+      startedAt: request.startedAt,
+      guardrails: result.findings,
+      blocked: result.blocked,
+    });
+    throw new GuardrailException(
+      result.blocked.check,
+      result.blocked.stage === 'input' ? 'input' : 'output',
+      result.blocked.reason,
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { Tenant } from '../../tenants/interfaces/tenant.interface';
+import { Assistant } from '../../transcripts/interfaces/transcript.interface';
+
+/**
+ * Where a text is checked: the user's prompt (`input`), the model's answer
+ * (`output`) or a tool result on its way to the model (`tool`).
+ */
+export type GuardrailStage = 'input' | 'output' | 'tool';
+
+export interface GuardrailContext {
+  stage: GuardrailStage;
+  assistant: Assistant;
+  tenant: Tenant;
+}
+
+/** What a check decided about a text. */
+export type GuardrailVerdict =
+  | { action: 'allow' }
+  | { action: 'block'; reason: string }
+  /** The text may go on once `text` replaced it, e.g. with PII masked. */
+  | { action: 'redact'; text: string; reason: string };
+
+/** A check that did not simply allow a text, as recorded in transcripts. */
+export interface GuardrailFinding {
+  check: string;
+  stage: GuardrailStage;
+  action: 'block' | 'redact';
+  reason: string;
+}
+
+export interface GuardrailResult {
+  /** The text after every redaction. */
+  text: string;
+  findings: GuardrailFinding[];
+  /** The finding that stopped the chain, if a check blocked the text. */
+  blocked?: GuardrailFinding;
+}
@@ -0,0 +1,75 @@
+import { GuardrailException } from '../common/errors/app.exception';
+import { DeltaFilter } from '../tools/utils/prompt-stream';
+import {
+  GuardrailFinding,
+  GuardrailResult,
+} from './interfaces/guardrail.interface';
+
+/** End of a sentence or line; personal data never spans one. */
+const BOUNDARY = /[.!?;:]['")\]]*\s+|\n+/g;
+
+/** Longest text held back without a boundary; it is then cut at a space. */
+const MAX_HELD = 500;
+
+/**
+ * Runs the output checks on a streamed answer one sentence at a time, so
+ * each delta is sent as soon as its sentence is complete and checked. A
+ * block stops the stream with a `GuardrailException`; recording it is up to
+ * whoever handles the interrupted stream.
+ */
+export class OutputStreamGuard implements DeltaFilter {
+  readonly findings: GuardrailFinding[] = [];
+  /** The finding that stopped the stream, if a check blocked a sentence. */
+  blocked?: GuardrailFinding;
+  private held = '';
+  private sent = '';
+
+  constructor(
+    private readonly check: (text: string) => Promise<GuardrailResult>,
+  ) {}
+
+  /** The answer as sent so far, with every redaction. */
+  get text(): string {
+    return this.sent;
+  }
+
+  push(content: string): Promise<string> {
+    this.held += content;
+    const end = releasable(this.held);
+    if (!end) return Promise.resolve('');
+    const text = this.held.slice(0, end);
+    this.held = this.held.slice(end);
+    return this.release(text);
+  }
+
+  flush(): Promise<string> {
+    const text = this.held;
+    this.held = '';
+    return text ? this.release(text) : Promise.resolve('');
+  }
+
+  private async release(text: string): Promise<string> {
+    const result = await this.check(text);
+    this.findings.push(...result.findings);
+    if (result.blocked) {
+      this.blocked = result.blocked;
+      throw new GuardrailException(
+        result.blocked.check,
+        'output',
+        result.blocked.reason,
+      );
+    }
+    this.sent += result.text;
+    return result.text;
+  }
+}
+
+/** @returns How much of `text` is complete enough to check, 0 if nothing. */
+function releasable(text: string): number {
+  let end = 0;
+  for (const match of text.matchAll(BOUNDARY)) {
+    end = match.index + match[0].length;
+  }
+  if (end || text.length <= MAX_HELD) return end;
+  return text.lastIndexOf(' ') + 1;
+}
@@ -0,0 +1,21 @@
+import { redactPii } from './redact-pii';
+
+describe('redactPii', () => {
+  it('masks e-mails, phones, cards, IBANs and social security numbers', () => {
+    expect(
+      redactPii(
+        'Mail jane.doe@example.com or call +1 (555) 123-4567. Card 4111 1111 1111 1111, IBAN DE89 3704 0044 0532 0130 00, SSN 123-45-6789.',
+      ),
+    ).toEqual({
+      text: 'Mail [email] or call [phone]. Card [card], IBAN [iban], SSN [ssn].',
+      found: ['iban', 'card', 'ssn', 'email', 'phone'],
+    });
+  });
+
+  it('keeps prices, dates, sizes and numbers that fail the card checksum', () => {
+    const text =
+      'Boots for 39.99 USD on 2024-10-01, sizes 6 to 10, order 4111 1111 1111 1112';
+
+    expect(redactPii(text)).toEqual({ text, found: [] });
+  });
+});
@@ -0,0 +1,62 @@
+interface PiiPattern {
+  label: string;
+  pattern: RegExp;
+  /** Extra test of a match, e.g. the Luhn checksum of card numbers. */
+  accept?: (match: string) => boolean;
+}
+
+/** Checked in this order, so IBAN and card digits are not mistaken for phones. */
+const PII_PATTERNS: PiiPattern[] = [
+  {
+    label: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+  },
+  {
+    label: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: (match) => luhn(match.replace(/\D/g, '')),
+  },
+  { label: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { label: 'email', pattern: /\b[\w.%+-]+@[A-Za-z\d.-]+\.[A-Za-z]{2,}\b/g },
+  {
+    label: 'phone',
+    pattern: /(?<![\w.])\+?\d[\d ().-]{7,}\d(?!\w|\.\d)/g,
+    accept: (match) => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 9 && digits <= 15;
+    },
+  },
+];
+
+/**
+ * Masks e-mail addresses, phone, card and social security numbers and IBANs
+ * as `[email]`, `[phone]`… so they never reach the model, the logs or the
+ * stored conversations.
+ *
+ * @returns The masked text and the labels of what was found, e.g. `['email']`.
+ */
+export function redactPii(text: string): { text: string; found: string[] } {
+  const found = new Set<string>();
+  let redacted = text;
+  for (const { label, pattern, accept } of PII_PATTERNS) {
+    redacted = redacted.replace(pattern, (match) => {
+      if (accept && !accept(match)) return match;
+      found.add(label);
+      return `[${label}]`;
+    });
+  }
+  return { text: redacted, found: [...found] };
+}
+
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
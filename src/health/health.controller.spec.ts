@@ -0,0 +1,39 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Response } from 'express';
+import { ResilienceService } from '../resilience/resilience.service';
+import { HealthController } from './health.controller';
+
+describe('HealthController', () => {
+  let controller: HealthController;
+  const resilienceService = { health: jest.fn() };
+  const res = { status: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [HealthController],
+      providers: [{ provide: ResilienceService, useValue: resilienceService }],
+    }).compile();
+
+    controller = module.get<HealthController>(HealthController);
+  });
+
+  it('answers 200 while degraded', () => {
+    const report = { status: 'degraded', dependencies: [] };
+    resilienceService.health.mockReturnValue(report);
+
+    expect(controller.health(res as unknown as Response)).toBe(report);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('answers 503 when a critical dependency is open', () => {
+    resilienceService.health.mockReturnValue({
+      status: 'unavailable',
+      dependencies: [],
+    });
+
+    controller.health(res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(503);
+  });
+});
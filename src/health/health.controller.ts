@@ -0,0 +1,32 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { ResilienceService } from '../resilience/resilience.service';
+
+@ApiTags('Health') // Grouping under "Health" for Swagger
+@Controller('health')
+export class HealthController {
+  constructor(private readonly resilienceService: ResilienceService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Readiness, with the circuit breaker state of each dependency',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      '`{ status: "ok" | "degraded", dependencies: [{ name, state, critical, failures, lastError?, openedAt?, retryAt? }] }`',
+  })
+  @ApiResponse({
+    status: 503,
+    description:
+      'Same body with `status: "unavailable"`: the breaker of a critical dependency (the language model) is open',
+  })
+  health(@Res({ passthrough: true }) res: Response) {
+    const report = this.resilienceService.health();
+    if (report.status === 'unavailable') {
+      res.status(HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    return report;
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { ResilienceModule } from '../resilience/resilience.module';
+import { HealthController } from './health.controller';
+
+@Module({
+  imports: [ResilienceModule],
+  controllers: [HealthController],
+})
+export class HealthModule {}
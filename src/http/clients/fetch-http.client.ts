@@ -0,0 +1,30 @@
+import { HttpRequest, HttpResponse } from '../interfaces/http.interface';
+import { HttpClient } from '../http-client';
+
+/**
+ * Live client on top of the global `fetch`.
+ */
+export class FetchHttpClient extends HttpClient {
+  async request<T = any>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const hasBody = request.body !== undefined;
+    const response = await fetch(request.url, {
+      method: request.method ?? 'GET',
+      headers: {
+        ...(hasBody ? { 'content-type': 'application/json' } : {}),
+        ...request.headers,
+      },
+      body: hasBody ? JSON.stringify(request.body) : undefined,
+      signal: request.signal,
+    });
+
+    const text = await response.text();
+    const isJson = response.headers
+      .get('content-type')
+      ?.includes('application/json');
+    let body: unknown = text;
+    if (isJson && text) {
+      body = JSON.parse(text);
+    }
+    return { status: response.status, ok: response.ok, body: body as T };
+  }
+}
@@ -0,0 +1,67 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HttpClient } from '../http-client';
+import { RecordReplayHttpClient } from './record-replay-http.client';
+
+const URL_WITH_KEY =
+  'https://api.example.com/v1/latest?apikey=secret-key&currencies=EUR';
+
+describe('RecordReplayHttpClient', () => {
+  let dir: string;
+  let inner: HttpClient;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'http-fixtures-'));
+    inner = {
+      request: jest
+        .fn()
+        .mockResolvedValue({ status: 200, ok: true, body: { rate: 0.9 } }),
+    };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records responses without credentials and replays them offline', async () => {
+    const recorder = new RecordReplayHttpClient(inner, dir, 'record');
+    await recorder.request({
+      url: URL_WITH_KEY,
+      headers: { 'x-api-key': 'secret-header' },
+    });
+
+    const [file] = readdirSync(dir);
+    const stored = readFileSync(join(dir, file), 'utf8');
+    expect(file).toBe(
+      'get-api.example.com-v1-latest-apikey-redacted-currencies-eur.json',
+    );
+    expect(stored).not.toContain('secret');
+
+    const player = new RecordReplayHttpClient(inner, dir, 'replay');
+    const replayed = await player.request({
+      url: URL_WITH_KEY.replace('secret-key', 'other-key'),
+    });
+    expect(replayed).toEqual({ status: 200, ok: true, body: { rate: 0.9 } });
+    expect(inner.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails on a missing fixture in replay mode', async () => {
+    const player = new RecordReplayHttpClient(inner, dir, 'replay');
+
+    await expect(player.request({ url: URL_WITH_KEY })).rejects.toThrow(
+      'No HTTP fixture for GET https://api.example.com/v1/latest?apikey=REDACTED&currencies=EUR',
+    );
+    expect(inner.request).not.toHaveBeenCalled();
+  });
+
+  it('hashes long URLs into bounded file names', () => {
+    const name = RecordReplayHttpClient.fixtureName(
+      'GET',
+      `https://api.example.com/${'a'.repeat(300)}`,
+    );
+
+    expect(name).toMatch(/^get-api\.example\.com-a+-[0-9a-f]{12}\.json$/);
+    expect(name.length).toBeLessThan(150);
+  });
+});
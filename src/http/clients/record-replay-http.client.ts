@@ -0,0 +1,104 @@
+import { Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import {
+  HttpFixture,
+  HttpRequest,
+  HttpResponse,
+} from '../interfaces/http.interface';
+import { HttpClient } from '../http-client';
+
+export type HttpFixtureMode = 'record' | 'replay';
+
+/** Query parameters that carry credentials; never written to fixtures. */
+const SECRET_PARAMS = ['apikey', 'api_key', 'appid', 'key', 'token'];
+const MAX_NAME_LENGTH = 120;
+
+/**
+ * Stores HTTP exchanges as JSON fixtures and plays them back.
+ *
+ * - `record` sends every request through the inner client and saves the
+ *   response, overwriting an existing fixture.
+ * - `replay` answers from the fixtures only and fails on a missing one, so
+ *   tests never reach the network.
+ *
+ * Fixtures are keyed by method and URL. Credentials in the query string are
+ * replaced with `REDACTED` and headers are not stored, so fixtures recorded
+ * with real keys replay under any key.
+ */
+export class RecordReplayHttpClient extends HttpClient {
+  private readonly logger = new Logger(RecordReplayHttpClient.name);
+
+  constructor(
+    private readonly inner: HttpClient,
+    private readonly fixturesDir: string,
+    private readonly mode: HttpFixtureMode,
+  ) {
+    super();
+  }
+
+  async request<T = any>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const method = (request.method ?? 'GET').toUpperCase();
+    const url = RecordReplayHttpClient.redact(request.url);
+    const file = join(
+      this.fixturesDir,
+      RecordReplayHttpClient.fixtureName(method, url),
+    );
+
+    if (this.mode === 'replay') {
+      let fixture: HttpFixture;
+      try {
+        fixture = JSON.parse(await fs.readFile(file, 'utf8'));
+      } catch (error) {
+        if (error.code === 'ENOENT') {
+          throw new Error(`No HTTP fixture for ${method} ${url}`);
+        }
+        throw error;
+      }
+      const { status, body } = fixture.response;
+      return { status, ok: status >= 200 && status < 300, body: body as T };
+    }
+
+    const response = await this.inner.request<T>(request);
+    const fixture: HttpFixture = {
+      request: { method, url },
+      response: { status: response.status, body: response.body },
+    };
+    await fs.mkdir(this.fixturesDir, { recursive: true });
+    await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+    this.logger.log(`Recorded ${method} ${url}`);
+    return response;
+  }
+
+  /** Replaces credential query parameters with `REDACTED`. */
+  static redact(url: string): string {
+    const parsed = new URL(url);
+    for (const name of [...parsed.searchParams.keys()]) {
+      if (SECRET_PARAMS.includes(name.toLowerCase())) {
+        parsed.searchParams.set(name, 'REDACTED');
+      }
+    }
+    return parsed.toString();
+  }
+
+  /**
+   * Readable file name for a request, e.g.
+   * `get-api.openweathermap.org-data-2.5-weather-q-madrid-appid-redacted-units-metric.json`.
+   * Long names are truncated and suffixed with a hash of the full URL.
+   */
+  static fixtureName(method: string, url: string): string {
+    const slug = `${method}-${url.replace(/^https?:\/\//, '')}`
+      .toLowerCase()
+      .replace(/[^a-z0-9.]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    if (slug.length <= MAX_NAME_LENGTH) {
+      return `${slug}.json`;
+    }
+    const hash = createHash('sha256')
+      .update(`${method} ${url}`)
+      .digest('hex')
+      .slice(0, 12);
+    return `${slug.slice(0, MAX_NAME_LENGTH)}-${hash}.json`;
+  }
+}
@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import { CircuitOpenException } from '../../common/errors/app.exception';
+import { ResilienceService } from '../../resilience/resilience.service';
+import { HttpClient } from '../http-client';
+import { ResilientHttpClient } from './resilient-http.client';
+
+describe('ResilientHttpClient', () => {
+  let inner: { request: jest.Mock };
+  let client: ResilientHttpClient;
+  let resilience: ResilienceService;
+
+  beforeEach(() => {
+    inner = { request: jest.fn() };
+    resilience = new ResilienceService(
+      new ConfigService({
+        RESILIENCE_POLICIES: {
+          weather: {
+            retries: 1,
+            baseDelayMs: 1,
+            maxDelayMs: 1,
+            failureThreshold: 1,
+          },
+        },
+      }),
+    );
+    client = new ResilientHttpClient(inner as HttpClient, resilience);
+  });
+
+  it('retries retryable statuses and passes an abort signal', async () => {
+    inner.request
+      .mockResolvedValueOnce({ status: 503, ok: false, body: '' })
+      .mockResolvedValueOnce({ status: 200, ok: true, body: { temp: 21 } });
+
+    const response = await client.request({
+      dependency: 'weather',
+      url: 'https://api.example.com/weather?q=Madrid',
+    });
+
+    expect(response).toEqual({ status: 200, ok: true, body: { temp: 21 } });
+    expect(inner.request).toHaveBeenCalledTimes(2);
+    expect(inner.request.mock.calls[0][0].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('returns client errors as they are, without retrying', async () => {
+    inner.request.mockResolvedValue({ status: 404, ok: false, body: '' });
+
+    const response = await client.request({
+      dependency: 'weather',
+      url: 'https://api.example.com/weather?q=Atlantis',
+    });
+
+    expect(response.status).toBe(404);
+    expect(inner.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails fast once the dependency breaker is open', async () => {
+    inner.request.mockResolvedValue({ status: 500, ok: false, body: '' });
+    const request = {
+      dependency: 'weather',
+      url: 'https://api.example.com/weather?q=Madrid',
+    };
+    await client.request(request);
+
+    await expect(client.request(request)).rejects.toBeInstanceOf(
+      CircuitOpenException,
+    );
+    expect(inner.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses the URL host when no dependency is named', async () => {
+    inner.request.mockResolvedValue({ status: 200, ok: true, body: {} });
+
+    await client.request({ url: 'https://api.example.com/ping' });
+
+    expect(resilience.health().dependencies).toContainEqual(
+      expect.objectContaining({ name: 'api.example.com', state: 'closed' }),
+    );
+  });
+});
@@ -0,0 +1,30 @@
+import { HttpRequest, HttpResponse } from '../interfaces/http.interface';
+import { HttpClient } from '../http-client';
+import { ResilienceService } from '../../resilience/resilience.service';
+import { isRetryableStatus } from '../../resilience/utils/retry';
+
+/**
+ * Runs every request of the inner client through the `ResilienceService`
+ * policy of its `dependency`: per-attempt timeout, retries with backoff on
+ * network errors and retryable statuses (429, 5xx…), and a circuit breaker.
+ *
+ * Once retries are exhausted a retryable response is still returned, so
+ * callers keep handling non-OK responses as before; errors and open breakers
+ * are thrown as `UpstreamTimeoutException` and `CircuitOpenException`.
+ */
+export class ResilientHttpClient extends HttpClient {
+  constructor(
+    private readonly inner: HttpClient,
+    private readonly resilience: ResilienceService,
+  ) {
+    super();
+  }
+
+  request<T = any>(request: HttpRequest): Promise<HttpResponse<T>> {
+    return this.resilience.execute(
+      request.dependency ?? new URL(request.url).host,
+      (signal) => this.inner.request<T>({ ...request, signal }),
+      { isFailure: (response) => isRetryableStatus(response.status) },
+    );
+  }
+}
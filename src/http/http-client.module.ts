@@ -0,0 +1,44 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { FetchHttpClient } from './clients/fetch-http.client';
+import { RecordReplayHttpClient } from './clients/record-replay-http.client';
+import { ResilientHttpClient } from './clients/resilient-http.client';
+import { HttpClient } from './http-client';
+import { ResilienceModule } from '../resilience/resilience.module';
+import { ResilienceService } from '../resilience/resilience.service';
+
+@Module({
+  imports: [ResilienceModule],
+  providers: [
+    {
+      // Live requests get timeouts, retries and circuit breakers; HTTP_FIXTURES_MODE=record|replay wraps them, unset goes straight to the network
+      provide: HttpClient,
+      inject: [ConfigService, ResilienceService],
+      useFactory: (
+        configService: ConfigService,
+        resilienceService: ResilienceService,
+      ): HttpClient => {
+        const mode = configService.get('HTTP_FIXTURES_MODE');
+        const live = new ResilientHttpClient(
+          new FetchHttpClient(),
+          resilienceService,
+        );
+        if (!mode || mode === 'off') {
+          return live;
+        }
+        if (mode !== 'record' && mode !== 'replay') {
+          throw new Error(`Unknown HTTP_FIXTURES_MODE "${mode}"`);
+        }
+        return new RecordReplayHttpClient(
+          live,
+          configService.get('HTTP_FIXTURES_DIR') ||
+            join(process.cwd(), 'test', 'fixtures', 'http'),
+          mode,
+        );
+      },
+    },
+  ],
+  exports: [HttpClient],
+})
+export class HttpClientModule {}
@@ -0,0 +1,10 @@
+import { HttpRequest, HttpResponse } from './interfaces/http.interface';
+
+/**
+ * Injectable HTTP client for external APIs. Services use it instead of the
+ * global `fetch`, so tests can replay recorded responses; see
+ * `HttpClientModule`.
+ */
+export abstract class HttpClient {
+  abstract request<T = any>(request: HttpRequest): Promise<HttpResponse<T>>;
+}
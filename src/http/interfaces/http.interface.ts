@@ -0,0 +1,28 @@
+export interface HttpRequest {
+  /** Defaults to GET. */
+  method?: string;
+  url: string;
+  headers?: Record<string, string>;
+  /** JSON request body. */
+  body?: unknown;
+  /**
+   * Resilience policy and circuit breaker to use, e.g. "weather"; defaults to
+   * the URL host. See `ResilientHttpClient`.
+   */
+  dependency?: string;
+  /** Aborts the request; set by `ResilientHttpClient` for its timeouts. */
+  signal?: AbortSignal;
+}
+
+export interface HttpResponse<T = unknown> {
+  status: number;
+  ok: boolean;
+  /** Parsed JSON when the server sends JSON, the raw text otherwise. */
+  body: T;
+}
+
+/** Stored request/response pair, see `RecordReplayHttpClient`. */
+export interface HttpFixture {
+  request: { method: string; url: string };
+  response: { status: number; body: unknown };
+}
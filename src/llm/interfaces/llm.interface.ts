@@ -0,0 +1,40 @@
+import {
+  ChatCompletionChunk,
+  ChatCompletionCreateParams,
+  ChatCompletionMessage,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+  ChatCompletionToolChoiceOption,
+} from 'openai/resources/chat/completions';
+import { CompletionUsage } from 'openai/resources/completions';
+
+/**
+ * Provider-neutral chat request. Messages and tools use the OpenAI chat
+ * format, which OpenAI-compatible servers (Ollama, llama.cpp, vLLM…) share.
+ */
+export interface LlmChatRequest {
+  /** Falls back to the provider's default model. */
+  model?: string;
+  messages: ChatCompletionMessageParam[];
+  tools?: ChatCompletionTool[];
+  toolChoice?: ChatCompletionToolChoiceOption;
+  responseFormat?: ChatCompletionCreateParams['response_format'];
+  /** Aborts the request; set by `ResilientLlmProvider` for its timeouts. */
+  signal?: AbortSignal;
+}
+
+export interface LlmChatResponse {
+  model: string;
+  message: ChatCompletionMessage;
+  usage?: CompletionUsage;
+}
+
+/** Streamed chunks follow the OpenAI chunk format; the last one may only carry `usage`. */
+export type LlmStreamChunk = ChatCompletionChunk;
+
+export interface LlmEmbeddingRequest {
+  /** Falls back to the provider's default embedding model. */
+  model?: string;
+  input: string[];
+  signal?: AbortSignal;
+}
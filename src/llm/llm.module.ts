@@ -0,0 +1,69 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { LlmProvider } from './llm.provider';
+import { MockLlmProvider } from './providers/mock-llm.provider';
+import { OpenAiCompatibleLlmProvider } from './providers/openai-compatible-llm.provider';
+import { OpenAiLlmProvider } from './providers/openai-llm.provider';
+import { ResilientLlmProvider } from './providers/resilient-llm.provider';
+import { ResilienceModule } from '../resilience/resilience.module';
+import { ResilienceService } from '../resilience/resilience.service';
+
+@Module({
+  imports: [ResilienceModule],
+  providers: [
+    {
+      // LLM_PROVIDER=openai|openai-compatible|mock; one client shared by every request, behind the `llm` resilience policy
+      provide: LlmProvider,
+      inject: [ConfigService, ResilienceService],
+      useFactory: (
+        configService: ConfigService,
+        resilienceService: ResilienceService,
+      ): LlmProvider =>
+        new ResilientLlmProvider(
+          createProvider(configService),
+          resilienceService,
+        ),
+    },
+  ],
+  exports: [LlmProvider],
+})
+export class LlmModule {}
+
+function createProvider(configService: ConfigService): LlmProvider {
+  const options = {
+    apiKey:
+      configService.get('LLM_API_KEY') || configService.get('OPEN_AI_API_KEY'),
+    model: configService.get('LLM_MODEL') || undefined,
+    embeddingModel: configService.get('EMBEDDING_MODEL') || undefined,
+  };
+
+  switch (configService.get('LLM_PROVIDER') || 'openai') {
+    case 'openai':
+      return new OpenAiLlmProvider(options);
+    case 'openai-compatible': {
+      const baseURL = configService.get('LLM_BASE_URL');
+      if (!baseURL) {
+        throw new Error(
+          'LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible',
+        );
+      }
+      return new OpenAiCompatibleLlmProvider({
+        ...options,
+        baseURL,
+        structuredOutputs:
+          configService.get('LLM_STRUCTURED_OUTPUTS') === 'true',
+      });
+    }
+    case 'mock': {
+      const scriptFile = configService.get('LLM_MOCK_SCRIPT');
+      return new MockLlmProvider(
+        scriptFile ? JSON.parse(readFileSync(scriptFile, 'utf8')) : [],
+      );
+    }
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${configService.get('LLM_PROVIDER')}"`,
+      );
+  }
+}
@@ -0,0 +1,26 @@
+import {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmEmbeddingRequest,
+  LlmStreamChunk,
+} from './interfaces/llm.interface';
+
+/**
+ * Injectable language model client. Pick the implementation with
+ * `LLM_PROVIDER`; see `LlmModule`.
+ */
+export abstract class LlmProvider {
+  /** Provider name, e.g. "openai" or "mock". */
+  abstract readonly name: string;
+  abstract readonly defaultModel: string;
+  abstract readonly defaultEmbeddingModel: string;
+
+  /** One chat completion, optionally with tools. */
+  abstract chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+
+  /** Streams one chat completion, chunk by chunk. */
+  abstract stream(request: LlmChatRequest): AsyncIterable<LlmStreamChunk>;
+
+  /** @returns One vector per input, in the same order. */
+  abstract embed(request: LlmEmbeddingRequest): Promise<number[][]>;
+}
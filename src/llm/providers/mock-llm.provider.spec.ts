@@ -0,0 +1,80 @@
+import { MockLlmProvider } from './mock-llm.provider';
+
+describe('MockLlmProvider', () => {
+  let llm: MockLlmProvider;
+
+  beforeEach(() => {
+    llm = new MockLlmProvider();
+  });
+
+  it('replies with scripted turns in order, then echoes', async () => {
+    llm.enqueue(
+      { toolCalls: [{ name: 'searchProduct', arguments: { search: 'hat' } }] },
+      { content: 'A hat' },
+    );
+    const request = { messages: [{ role: 'user' as const, content: 'hat?' }] };
+
+    const first = await llm.chat(request);
+    const second = await llm.chat(request);
+    const third = await llm.chat(request);
+
+    expect(first.message.tool_calls).toEqual([
+      {
+        id: 'call_mock_1',
+        type: 'function',
+        function: { name: 'searchProduct', arguments: '{"search":"hat"}' },
+      },
+    ]);
+    expect(second.message.content).toBe('A hat');
+    expect(third.message.content).toBe('Echo: hat?');
+    expect(llm.requests).toHaveLength(3);
+    expect(first.usage.total_tokens).toBeGreaterThan(0);
+  });
+
+  it('drops tool calls when the request forbids them', async () => {
+    llm.enqueue({
+      content: 'Done',
+      toolCalls: [{ name: 'loop', arguments: {} }],
+    });
+
+    const response = await llm.chat({ messages: [], toolChoice: 'none' });
+
+    expect(response.message.tool_calls).toBeUndefined();
+    expect(response.message.content).toBe('Done');
+  });
+
+  it('streams content and tool calls as chunks with a final usage chunk', async () => {
+    llm.enqueue({
+      content: 'Two words',
+      toolCalls: [{ name: 'viewCart', arguments: {} }],
+    });
+
+    const chunks = [];
+    for await (const chunk of llm.stream({ messages: [] })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((chunk) => chunk.choices[0]?.delta)).toEqual([
+      { content: 'Two ' },
+      { content: 'words' },
+      {
+        tool_calls: [
+          expect.objectContaining({
+            index: 0,
+            function: { name: 'viewCart', arguments: '{}' },
+          }),
+        ],
+      },
+      undefined,
+    ]);
+    expect(chunks.at(-1).usage).toBeDefined();
+  });
+
+  it('returns deterministic unit embeddings', async () => {
+    const [a, b, c] = await llm.embed({ input: ['hat', 'hat', 'boots'] });
+
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+    expect(Math.hypot(...a)).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import {
+  ChatCompletionMessage,
+  ChatCompletionMessageParam,
+} from 'openai/resources/chat/completions';
+import { CompletionUsage } from 'openai/resources/completions';
+import {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmEmbeddingRequest,
+  LlmStreamChunk,
+} from '../interfaces/llm.interface';
+import { LlmProvider } from '../llm.provider';
+
+/** One scripted model reply. */
+export interface MockLlmTurn {
+  content?: string;
+  toolCalls?: { name: string; arguments: Record<string, any> }[];
+  usage?: CompletionUsage;
+}
+
+const EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * Deterministic provider for unit and e2e tests; it never calls the network.
+ *
+ * Replies come from a queue of scripted turns (`enqueue()` or the
+ * `LLM_MOCK_SCRIPT` file). When the queue is empty it echoes the last user
+ * message. Every request is kept in `requests` so tests can assert on what
+ * the model was sent.
+ */
+export class MockLlmProvider extends LlmProvider {
+  readonly name = 'mock';
+  readonly defaultModel = 'mock-model';
+  readonly defaultEmbeddingModel = 'mock-embedding';
+  readonly requests: LlmChatRequest[] = [];
+  private readonly turns: MockLlmTurn[] = [];
+  private toolCallCount = 0;
+
+  constructor(script: MockLlmTurn[] = []) {
+    super();
+    this.enqueue(...script);
+  }
+
+  /** Appends replies to the script, consumed in order. */
+  enqueue(...turns: MockLlmTurn[]): this {
+    this.turns.push(...turns);
+    return this;
+  }
+
+  /** Clears the script and the recorded requests. */
+  reset(): void {
+    this.turns.length = 0;
+    this.requests.length = 0;
+    this.toolCallCount = 0;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const turn = this.next(request);
+    return {
+      model: request.model || this.defaultModel,
+      message: this.toMessage(turn),
+      usage: turn.usage ?? this.usageFor(request, turn),
+    };
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<LlmStreamChunk> {
+    const turn = this.next(request);
+    const message = this.toMessage(turn);
+    const model = request.model || this.defaultModel;
+    const chunk = (
+      delta: LlmStreamChunk['choices'][number]['delta'],
+    ): LlmStreamChunk => ({
+      id: 'mock',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model,
+      choices: [{ index: 0, delta, finish_reason: null }],
+    });
+
+    for (const word of (message.content ?? '').match(/\S+\s*/g) ?? []) {
+      yield chunk({ content: word });
+    }
+    for (const [index, toolCall] of (message.tool_calls ?? []).entries()) {
+      yield chunk({ tool_calls: [{ index, ...toolCall }] });
+    }
+    yield {
+      id: 'mock',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model,
+      choices: [],
+      usage: turn.usage ?? this.usageFor(request, turn),
+    };
+  }
+
+  /** Hashes every text into a stable unit vector. */
+  async embed(request: LlmEmbeddingRequest): Promise<number[][]> {
+    return request.input.map((text) => {
+      const digest = createHash('sha256').update(text).digest();
+      const vector = Array.from(
+        { length: EMBEDDING_DIMENSIONS },
+        (_, index) => digest[index % digest.length] / 255 - 0.5,
+      );
+      const norm = Math.hypot(...vector) || 1;
+      return vector.map((value) => value / norm);
+    });
+  }
+
+  private next(request: LlmChatRequest): MockLlmTurn {
+    // Callers keep appending to the same array, so record a copy
+    this.requests.push({ ...request, messages: [...request.messages] });
+    const turn = this.turns.shift();
+    if (turn) {
+      // A forced final answer never carries tool calls.
+      return request.toolChoice === 'none'
+        ? { ...turn, toolCalls: undefined }
+        : turn;
+    }
+    return { content: `Echo: ${this.lastUserMessage(request.messages)}` };
+  }
+
+  private toMessage(turn: MockLlmTurn): ChatCompletionMessage {
+    const toolCalls = (turn.toolCalls ?? []).map((call) => ({
+      id: `call_mock_${++this.toolCallCount}`,
+      type: 'function' as const,
+      function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+    }));
+    return {
+      role: 'assistant',
+      content: turn.content ?? null,
+      refusal: null,
+      ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+    };
+  }
+
+  private lastUserMessage(messages: ChatCompletionMessageParam[]): string {
+    const message = [...messages]
+      .reverse()
+      .find((item) => item.role === 'user');
+    return typeof message?.content === 'string' ? message.content : '';
+  }
+
+  /** Rough token counts (4 characters per token) so usage is never empty. */
+  private usageFor(
+    request: LlmChatRequest,
+    turn: MockLlmTurn,
+  ): CompletionUsage {
+    const prompt_tokens = Math.ceil(
+      JSON.stringify(request.messages).length / 4,
+    );
+    const completion_tokens = Math.ceil(
+      ((turn.content ?? '').length +
+        JSON.stringify(turn.toolCalls ?? []).length) /
+        4,
+    );
+    return {
+      prompt_tokens,
+      completion_tokens,
+      total_tokens: prompt_tokens + completion_tokens,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { OpenAiCompatibleLlmProvider } from './openai-compatible-llm.provider';
+
+const completion = {
+  model: 'llama3.1',
+  choices: [{ message: { role: 'assistant', content: '{}' } }],
+  usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+};
+
+const responseFormat = {
+  type: 'json_schema' as const,
+  json_schema: { name: 'answer', schema: { type: 'object' } },
+};
+
+/** Answers every request with `completion` instead of calling the server. */
+class StubbedProvider extends OpenAiCompatibleLlmProvider {
+  readonly create = jest.fn().mockResolvedValue(completion);
+
+  constructor(structuredOutputs?: boolean) {
+    super({
+      baseURL: 'http://localhost:11434/v1',
+      model: 'llama3.1',
+      structuredOutputs,
+    });
+    this.client.chat.completions.create = this.create;
+  }
+}
+
+describe('OpenAiCompatibleLlmProvider', () => {
+  const createProvider = (structuredOutputs?: boolean) => {
+    const provider = new StubbedProvider(structuredOutputs);
+    return { provider, create: provider.create };
+  };
+
+  it('sends JSON schemas as JSON mode with the schema in a system message', async () => {
+    const { provider, create } = createProvider();
+
+    const response = await provider.chat({
+      messages: [{ role: 'user', content: 'hi' }],
+      responseFormat,
+    });
+
+    const params = create.mock.calls[0][0];
+    expect(params.model).toBe('llama3.1');
+    expect(params.response_format).toEqual({ type: 'json_object' });
+    expect(params.messages[0]).toEqual({
+      role: 'system',
+      content: 'Reply only with JSON matching this schema: {"type":"object"}',
+    });
+    expect(response.message.content).toBe('{}');
+  });
+
+  it('keeps JSON schemas when the server enforces them', async () => {
+    const { provider, create } = createProvider(true);
+
+    await provider.chat({ messages: [], responseFormat });
+
+    expect(create.mock.calls[0][0].response_format).toBe(responseFormat);
+  });
+});
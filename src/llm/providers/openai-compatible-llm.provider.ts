@@ -0,0 +1,50 @@
+import { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import { LlmChatRequest } from '../interfaces/llm.interface';
+import { OpenAiLlmOptions, OpenAiLlmProvider } from './openai-llm.provider';
+
+export interface OpenAiCompatibleLlmOptions extends OpenAiLlmOptions {
+  baseURL: string;
+  /** Whether the server enforces `json_schema` response formats. */
+  structuredOutputs?: boolean;
+}
+
+/**
+ * Local or self-hosted servers that expose the OpenAI chat API, such as
+ * Ollama (`http://localhost:11434/v1`) or the llama.cpp server.
+ *
+ * Many of them do not enforce JSON schemas, so unless `structuredOutputs` is
+ * set a `json_schema` response format is sent as plain JSON mode, with the
+ * schema added to the system instructions.
+ */
+export class OpenAiCompatibleLlmProvider extends OpenAiLlmProvider {
+  readonly name = 'openai-compatible';
+  private readonly structuredOutputs: boolean;
+
+  constructor(options: OpenAiCompatibleLlmOptions) {
+    // Local servers usually ignore the key, but the client requires one.
+    super({ ...options, apiKey: options.apiKey || 'not-needed' });
+    this.structuredOutputs = options.structuredOutputs ?? false;
+  }
+
+  protected toParams(
+    request: LlmChatRequest,
+  ): ChatCompletionCreateParamsNonStreaming {
+    const params = super.toParams(request);
+    const format = request.responseFormat;
+    if (this.structuredOutputs || format?.type !== 'json_schema') {
+      return params;
+    }
+
+    return {
+      ...params,
+      response_format: { type: 'json_object' },
+      messages: [
+        {
+          role: 'system',
+          content: `Reply only with JSON matching this schema: ${JSON.stringify(format.json_schema.schema)}`,
+        },
+        ...params.messages,
+      ],
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import OpenAI from 'openai';
+import { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmEmbeddingRequest,
+  LlmStreamChunk,
+} from '../interfaces/llm.interface';
+import { LlmProvider } from '../llm.provider';
+import { toLlmException } from '../utils/to-llm-exception';
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+export interface OpenAiLlmOptions {
+  apiKey?: string;
+  /** Custom endpoint for OpenAI-compatible servers. */
+  baseURL?: string;
+  model?: string;
+  embeddingModel?: string;
+  /** SDK-level retries; 0 by default because `ResilientLlmProvider` retries. */
+  maxRetries?: number;
+}
+
+/**
+ * OpenAI API provider. One client is created and reused for every request.
+ * SDK errors are rethrown as catalogue errors (`UpstreamTimeoutException`…).
+ */
+export class OpenAiLlmProvider extends LlmProvider {
+  readonly name: string = 'openai';
+  readonly defaultModel: string;
+  readonly defaultEmbeddingModel: string;
+  protected readonly client: OpenAI;
+
+  constructor(options: OpenAiLlmOptions) {
+    super();
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      maxRetries: options.maxRetries ?? 0,
+    });
+    this.defaultModel = options.model ?? 'gpt-4o-mini';
+    this.defaultEmbeddingModel =
+      options.embeddingModel ?? 'text-embedding-3-small';
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const completion = await this.client.chat.completions
+      .create(this.toParams(request), { signal: request.signal })
+      .catch((error) => {
+        throw toLlmException(error, this.name);
+      });
+    return {
+      model: completion.model,
+      message: completion.choices[0].message,
+      usage: completion.usage,
+    };
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<LlmStreamChunk> {
+    try {
+      const stream = await this.client.chat.completions.create(
+        {
+          ...this.toParams(request),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: request.signal },
+      );
+      yield* stream;
+    } catch (error) {
+      throw toLlmException(error, this.name);
+    }
+  }
+
+  async embed(request: LlmEmbeddingRequest): Promise<number[][]> {
+    const vectors: number[][] = [];
+    const { input } = request;
+    for (let start = 0; start < input.length; start += EMBEDDING_BATCH_SIZE) {
+      const response = await this.client.embeddings
+        .create(
+          {
+            model: request.model || this.defaultEmbeddingModel,
+            input: input.slice(start, start + EMBEDDING_BATCH_SIZE),
+          },
+          { signal: request.signal },
+        )
+        .catch((error) => {
+          throw toLlmException(error, this.name);
+        });
+      response.data
+        .sort((a, b) => a.index - b.index)
+        .forEach((item) => vectors.push(item.embedding));
+    }
+    return vectors;
+  }
+
+  protected toParams(
+    request: LlmChatRequest,
+  ): ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: request.model || this.defaultModel,
+      messages: request.messages,
+      ...(request.tools?.length ? { tools: request.tools } : {}),
+      ...(request.toolChoice ? { tool_choice: request.toolChoice } : {}),
+      ...(request.responseFormat
+        ? { response_format: request.responseFormat }
+        : {}),
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  ContentPolicyException,
+  UpstreamTimeoutException,
+} from '../../common/errors/app.exception';
+import { ResilienceService } from '../../resilience/resilience.service';
+import { LlmStreamChunk } from '../interfaces/llm.interface';
+import { MockLlmProvider } from './mock-llm.provider';
+import { ResilientLlmProvider } from './resilient-llm.provider';
+
+/** A stream that fails before its first chunk. */
+const failingStream = (error: Error): AsyncIterable<LlmStreamChunk> => ({
+  [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(error) }),
+});
+
+describe('ResilientLlmProvider', () => {
+  let mock: MockLlmProvider;
+  let provider: ResilientLlmProvider;
+
+  beforeEach(() => {
+    mock = new MockLlmProvider();
+    provider = new ResilientLlmProvider(
+      mock,
+      new ResilienceService(
+        new ConfigService({
+          RESILIENCE_POLICIES: {
+            llm: {
+              retries: 1,
+              baseDelayMs: 1,
+              maxDelayMs: 1,
+              idleTimeoutMs: 20,
+            },
+          },
+        }),
+      ),
+    );
+  });
+
+  const messages = [{ role: 'user' as const, content: 'Hello there' }];
+
+  it('exposes the inner provider', () => {
+    expect(provider.name).toBe('mock');
+    expect(provider.defaultModel).toBe('mock-model');
+  });
+
+  it('retries a timed out chat once', async () => {
+    const chat = jest
+      .spyOn(mock, 'chat')
+      .mockRejectedValueOnce(new UpstreamTimeoutException('mock'));
+    mock.enqueue({ content: 'Second try' });
+
+    const response = await provider.chat({ messages });
+
+    expect(response.message.content).toBe('Second try');
+    expect(chat).toHaveBeenCalledTimes(2);
+    expect(chat.mock.calls[0][0].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('does not retry content policy errors', async () => {
+    const chat = jest
+      .spyOn(mock, 'chat')
+      .mockRejectedValue(new ContentPolicyException());
+
+    await expect(provider.chat({ messages })).rejects.toBeInstanceOf(
+      ContentPolicyException,
+    );
+    expect(chat).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a stream that fails before its first chunk', async () => {
+    const stream = mock.stream.bind(mock);
+    jest
+      .spyOn(mock, 'stream')
+      .mockImplementationOnce(() =>
+        failingStream(new UpstreamTimeoutException('mock')),
+      )
+      .mockImplementation(stream);
+    mock.enqueue({ content: 'Streamed answer' });
+
+    let text = '';
+    for await (const chunk of provider.stream({ messages })) {
+      text += chunk.choices[0]?.delta.content ?? '';
+    }
+
+    expect(text).toBe('Streamed answer');
+  });
+
+  it('aborts a stream that stalls between chunks', async () => {
+    let upstream: AbortSignal;
+    const stream = mock.stream.bind(mock);
+    jest
+      .spyOn(mock, 'stream')
+      .mockImplementationOnce(async function* (request) {
+        upstream = request.signal;
+        yield* stream(request);
+        await new Promise((resolve) =>
+          request.signal.addEventListener('abort', resolve),
+        );
+      });
+    mock.enqueue({ content: 'First words' });
+
+    const chunks = [];
+    const consume = async () => {
+      for await (const chunk of provider.stream({ messages })) {
+        chunks.push(chunk);
+      }
+    };
+
+    await expect(consume()).rejects.toBeInstanceOf(UpstreamTimeoutException);
+    expect(chunks.length).toBeGreaterThan(0);
+    expect(upstream.aborted).toBe(true);
+  });
+
+  it('aborts the request when the consumer stops early', async () => {
+    let upstream: AbortSignal;
+    const stream = mock.stream.bind(mock);
+    jest.spyOn(mock, 'stream').mockImplementationOnce((request) => {
+      upstream = request.signal;
+      return stream(request);
+    });
+    mock.enqueue({ content: 'A long streamed answer' });
+
+    for await (const chunk of provider.stream({ messages })) {
+      expect(chunk).toBeDefined();
+      break;
+    }
+
+    expect(upstream.aborted).toBe(true);
+  });
+});
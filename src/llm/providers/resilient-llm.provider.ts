@@ -0,0 +1,108 @@
+import {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmEmbeddingRequest,
+  LlmStreamChunk,
+} from '../interfaces/llm.interface';
+import { LlmProvider } from '../llm.provider';
+import { ResilienceService } from '../../resilience/resilience.service';
+import { UpstreamTimeoutException } from '../../common/errors/app.exception';
+
+/** Dependency name of the model provider in `ResilienceService`. */
+export const LLM_DEPENDENCY = 'llm';
+
+/**
+ * Runs the calls of the inner provider through the `llm` resilience policy:
+ * per-attempt timeout, retries with backoff on timeouts, connection errors
+ * and retryable statuses, and a circuit breaker.
+ *
+ * Streams are only retried until the first chunk arrives; after that a
+ * retry would repeat text the client has already received. Later chunks
+ * must each arrive within the `idleTimeoutMs` of the policy, or the request
+ * is aborted.
+ */
+export class ResilientLlmProvider extends LlmProvider {
+  constructor(
+    private readonly inner: LlmProvider,
+    private readonly resilience: ResilienceService,
+  ) {
+    super();
+  }
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get defaultModel() {
+    return this.inner.defaultModel;
+  }
+
+  get defaultEmbeddingModel() {
+    return this.inner.defaultEmbeddingModel;
+  }
+
+  chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    return this.resilience.execute(LLM_DEPENDENCY, (signal) =>
+      this.inner.chat({ ...request, signal }),
+    );
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<LlmStreamChunk> {
+    const { idleTimeoutMs } = this.resilience.policy(LLM_DEPENDENCY);
+    let iterator: AsyncIterator<LlmStreamChunk>;
+    let upstream: AbortController;
+    const first = await this.resilience.execute(LLM_DEPENDENCY, (signal) => {
+      // Outlives the attempt, so a stall after the first chunk can abort it
+      upstream = new AbortController();
+      signal.addEventListener('abort', () => upstream.abort(), { once: true });
+      iterator = this.inner
+        .stream({ ...request, signal: upstream.signal })
+        [Symbol.asyncIterator]();
+      return iterator.next();
+    });
+    if (first.done) return;
+
+    let finished = false;
+    try {
+      yield first.value;
+      for (;;) {
+        const next = await this.nextChunk(iterator, upstream, idleTimeoutMs);
+        if (next.done) {
+          finished = true;
+          return;
+        }
+        yield next.value;
+      }
+    } finally {
+      // Stalled, failed or closed early by the consumer
+      if (!finished) {
+        upstream.abort();
+        iterator.return?.().catch(() => undefined);
+      }
+    }
+  }
+
+  /** Waits for the next chunk, aborting the request if none comes in time. */
+  private nextChunk(
+    iterator: AsyncIterator<LlmStreamChunk>,
+    upstream: AbortController,
+    idleTimeoutMs: number,
+  ): Promise<IteratorResult<LlmStreamChunk>> {
+    let timer: NodeJS.Timeout;
+    const idle = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        upstream.abort();
+        reject(new UpstreamTimeoutException(LLM_DEPENDENCY));
+      }, idleTimeoutMs);
+    });
+    return Promise.race([iterator.next(), idle]).finally(() =>
+      clearTimeout(timer),
+    );
+  }
+
+  embed(request: LlmEmbeddingRequest): Promise<number[][]> {
+    return this.resilience.execute(LLM_DEPENDENCY, (signal) =>
+      this.inner.embed({ ...request, signal }),
+    );
+  }
+}
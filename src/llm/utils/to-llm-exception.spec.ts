@@ -0,0 +1,46 @@
+import {
+  APIConnectionTimeoutError,
+  AuthenticationError,
+  BadRequestError,
+  InternalServerError,
+} from 'openai';
+import { AppException } from '../../common/errors/app.exception';
+import { ErrorCode } from '../../common/errors/error-code';
+import { describeError } from '../../common/errors/error-response';
+import { toLlmException } from './to-llm-exception';
+
+const apiError = <T>(
+  ErrorClass: new (...args: any[]) => T,
+  status: number,
+  code?: string,
+) =>
+  new ErrorClass(
+    status,
+    { message: 'upstream message', code },
+    'upstream message',
+    {},
+  );
+
+describe('toLlmException', () => {
+  it.each([
+    [new APIConnectionTimeoutError(), ErrorCode.UPSTREAM_TIMEOUT, 504],
+    [apiError(AuthenticationError, 401), ErrorCode.UPSTREAM_AUTH, 502],
+    [
+      apiError(BadRequestError, 400, 'content_policy_violation'),
+      ErrorCode.CONTENT_POLICY,
+      422,
+    ],
+    [apiError(InternalServerError, 500), ErrorCode.UPSTREAM_UNAVAILABLE, 503],
+  ])('maps %p', (error, code, status) => {
+    const mapped = toLlmException(error, 'openai');
+
+    expect(mapped).toBeInstanceOf(AppException);
+    expect(describeError(mapped)).toMatchObject({ statusCode: status, code });
+  });
+
+  it('leaves other errors unchanged', () => {
+    const error = new TypeError('bug');
+
+    expect(toLlmException(error, 'openai')).toBe(error);
+  });
+});
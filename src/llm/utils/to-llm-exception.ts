@@ -0,0 +1,45 @@
+import {
+  APIConnectionTimeoutError,
+  APIError,
+  AuthenticationError,
+  PermissionDeniedError,
+} from 'openai';
+import {
+  AppException,
+  ContentPolicyException,
+  UpstreamAuthException,
+  UpstreamTimeoutException,
+  UpstreamUnavailableException,
+} from '../../common/errors/app.exception';
+
+const CONTENT_POLICY_CODES = ['content_policy_violation', 'content_filter'];
+
+/**
+ * Maps OpenAI SDK errors (also raised by OpenAI-compatible servers) to the
+ * error catalogue. Anything unrecognised is returned unchanged.
+ *
+ * @param service - Name used in messages, e.g. "openai".
+ */
+export function toLlmException(error: unknown, service: string): unknown {
+  if (error instanceof AppException) {
+    return error;
+  }
+  if (error instanceof APIConnectionTimeoutError) {
+    return new UpstreamTimeoutException(service, { cause: error });
+  }
+  if (
+    error instanceof AuthenticationError ||
+    error instanceof PermissionDeniedError
+  ) {
+    return new UpstreamAuthException(service, { cause: error });
+  }
+  if (error instanceof APIError) {
+    if (CONTENT_POLICY_CODES.includes(error.code ?? '')) {
+      return new ContentPolicyException();
+    }
+    return new UpstreamUnavailableException(service, error.message, {
+      cause: error,
+    });
+  }
+  return error;
+}
@@ -1,16 +1,33 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { JsonLogger } from './common/logging/json-logger';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    // LOG_FORMAT=json writes one JSON object per line, with the correlation ID of the request
+    logger: process.env.LOG_FORMAT === 'json' ? new JsonLogger() : undefined,
+  });
+  // Quotas key anonymous callers on req.ip, which is the proxy's unless it is trusted
+  if (process.env.TRUST_PROXY) app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
   const config = new DocumentBuilder()
   .setTitle('wizybot-api')
   .setDescription('API for wizybot technical test')
   .setVersion('1.0')
+  .addApiKey({ type: 'apiKey', in: 'header', name: 'x-api-key' }, 'api-key')  // Tenant keys of TENANTS_FILE
+  .addApiKey({ type: 'apiKey', in: 'header', name: 'x-admin-key' }, 'admin-key')  // ADMIN_API_KEY, for the /admin endpoints
   .build();
 const documentFactory = () => SwaggerModule.createDocument(app, config);
 SwaggerModule.setup('api', app, documentFactory);
   await app.listen(process.env.PORT ?? 3000);
 }
+
+/** `TRUST_PROXY` as Express takes it: a boolean, a hop count, or addresses and subnets. */
+function parseTrustProxy(value: string): boolean | number | string {
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^\d+$/.test(value)) return Number(value);
+  return value;
+}
+
 bootstrap();
@@ -0,0 +1,23 @@
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+import {
+  GetPrompt,
+  getPromptSchema,
+} from '../../../ai/dto/get-prompt/get-prompt.dto';
+import { currencyCode } from '../../../currencies/dto/convert-currency/convert-currency.dto';
+
+export const getProductsPromptSchema = getPromptSchema.keys({
+  prompt: getPromptSchema
+    .extract('prompt')
+    .example('I am looking for a warm jacket', { override: true }),
+  currency: currencyCode()
+    .description(
+      'ISO 4217 code the shopper wants prices in; the catalog currency when omitted',
+    )
+    .example('EUR'),
+});
+
+/** Body (or query) of the product prompt endpoints. */
+@JoiSchema(getProductsPromptSchema)
+export class GetProductsPrompt extends GetPrompt {
+  currency?: string;
+}
@@ -0,0 +1,74 @@
+import { ResponseFormatJSONSchema } from 'openai/resources/shared';
+import {
+  ProductPrice,
+  VariantGroup,
+} from '../../../catalog/interfaces/catalog-product.interface';
+
+/** Final answer of the products assistant, as produced by the model. */
+export type productAnswer = {
+  answer: string;
+  recommendations: {
+    productId: string;
+    reason: string;
+  }[];
+};
+
+/** Recommended product as returned to the client, with catalog data. */
+export type productRecommendation = {
+  id: string;
+  displayTitle: string;
+  url: string;
+  imageUrl: string;
+  price: ProductPrice;
+  discount: boolean;
+  variants: VariantGroup[];
+  reason: string;
+};
+
+/**
+ * Structured output format of the products assistant. `productId` is a plain
+ * string: listing every catalog ID would outgrow the schema limits of the
+ * provider, and `ProductsService.parseAnswer` drops IDs the catalog does not
+ * have.
+ */
+export function productAnswerFormat(): ResponseFormatJSONSchema {
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: 'product_answer',
+      strict: true,
+      schema: {
+        type: 'object',
+        properties: {
+          answer: {
+            type: 'string',
+            description: 'Reply shown to the shopper, in markdown',
+          },
+          recommendations: {
+            type: 'array',
+            description:
+              'Products recommended in the answer, using the IDs returned by searchProduct. Empty when no product is recommended.',
+            items: {
+              type: 'object',
+              properties: {
+                productId: {
+                  type: 'string',
+                  description:
+                    'ID of the product, as returned by searchProduct',
+                },
+                reason: {
+                  type: 'string',
+                  description: 'Why the product fits the request',
+                },
+              },
+              required: ['productId', 'reason'],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ['answer', 'recommendations'],
+        additionalProperties: false,
+      },
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+import { currencyCode } from '../../../currencies/dto/convert-currency/convert-currency.dto';
+
+/** Tool set exposed by `POST /products/prompt`. */
+export const PRODUCTS_TOOLSET = 'products';
+
+export const convertCurrenciesToolSchema = Joi.object({
+  currency: currencyCode()
+    .required()
+    .description('The ISO 4217 code of the currency to convert to'),
+  value: Joi.number().required().description('The value to convert'),
+  baseCurrency: currencyCode()
+    .required()
+    .description('The ISO 4217 code of the currency to convert from'),
+});
+
+export const searchProductToolSchema = Joi.object({
+  search: Joi.string()
+    .required()
+    .description(
+      'What the user is looking for, e.g. a product name or a description like "something warm for winter"',
+    ),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(20)
+    .description('Maximum number of products to return'),
+  currency: currencyCode().description(
+    'ISO 4217 code to show the prices in, when the user asks for a currency other than the catalog one',
+  ),
+});
+
+/** Arguments of the `convertCurrencies` tool. */
+@JoiSchema(convertCurrenciesToolSchema)
+export class ConvertCurrenciesToolArgs {
+  currency: string;
+  value: number;
+  baseCurrency: string;
+}
+
+/** Arguments of the `searchProduct` tool. */
+@JoiSchema(searchProductToolSchema)
+export class SearchProductToolArgs {
+  search: string;
+  limit?: number;
+  currency?: string;
+}
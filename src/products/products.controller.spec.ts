@@ -1,5 +1,10 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ProductsController } from './products.controller';
+import { ProductsService } from './products.service';
+import { CatalogService } from '../catalog/catalog.service';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { UsageService } from '../usage/usage.service';
+import { TenantsService } from '../tenants/tenants.service';
 
 describe('ProductsController', () => {
   let controller: ProductsController;
@@ -7,6 +12,13 @@ describe('ProductsController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [ProductsController],
+      providers: [
+        { provide: ProductsService, useValue: {} },
+        { provide: CatalogService, useValue: {} },
+        { provide: CurrenciesService, useValue: {} },
+        { provide: UsageService, useValue: {} },
+        { provide: TenantsService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<ProductsController>(ProductsController);
@@ -1,31 +1,82 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import { Controller, Post, Body, Get, Query, Res, Param } from '@nestjs/common';
+import { Response } from 'express';
 import { ProductsService } from './products.service';
-import { ApiTags, ApiOperation, ApiBody, ApiResponse } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiBody, ApiResponse, ApiProduces, ApiParam } from '@nestjs/swagger';
+import { writeSse } from '../common/sse/write-sse';
+import { ApiErrorResponses } from '../common/errors/api-error-responses.decorator';
+import { ErrorCode } from '../common/errors/error-code';
+import { CatalogService } from '../catalog/catalog.service';
+import { ListProductsQuery } from '../catalog/dto/list-products/list-products.dto';
+import { GetProductQuery } from '../catalog/dto/get-product/get-product.dto';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { GetProductsPrompt } from './dto/get-products-prompt/get-products-prompt.dto';
+import { Metered, MeteredClient } from '../usage/decorators/metered.decorator';
+import { UsageContext } from '../usage/interfaces/usage.interface';
+import { Authenticated, CurrentTenant } from '../tenants/decorators/authenticated.decorator';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
 
 @ApiTags('Products')  // Grouping under "Products" for Swagger
+@Authenticated()  // Tenant API key (`x-api-key`) once TENANTS_FILE is set; each tenant sees its own catalog
 @Controller('products')
 export class ProductsController {
-  constructor(public readonly aiProductsService: ProductsService) {}
+  constructor(
+    public readonly aiProductsService: ProductsService,
+    private readonly catalogService: CatalogService,
+    private readonly currenciesService: CurrenciesService,
+  ) {}
 
   @Post('prompt')
+  @Metered()  // Quotas and token accounting of the caller
   @ApiOperation({ summary: 'Send a prompt to the AI and get a response' })  // Description of the endpoint
-  @ApiBody({  // Documenting the request body
-    description: 'Send a prompt string to the AI',
-    schema: {
-      type: 'object',
-      properties: {
-        prompt: {
-          type: 'string',
-          description: 'The prompt you want to send to the AI',
-          example: 'Describe the best features of a product',
-        },
-      },
-    },
-  })
-  @ApiResponse({ status: 201, description: 'AI response for the given prompt' })  // Successful response documentation
-  @ApiResponse({ status: 500, description: 'Validation error' })  // Error response documentation
-  async getPromptSchema(@Body() body: { prompt: string }): Promise<any> {
-    const response = await this.aiProductsService.aiPrompt(body.prompt);
+  @ApiBody({ type: GetProductsPrompt, description: 'Send a prompt string to the AI' })  // Documented from the Joi schema of the DTO
+  @ApiResponse({ status: 201, description: 'AI response for the given prompt, with the recommended products (`recommendations`) taken from the catalog' })  // Successful response documentation
+  @ApiErrorResponses(ErrorCode.VALIDATION_ERROR, ErrorCode.UNAUTHORIZED, ErrorCode.NOT_FOUND, ErrorCode.RATE_LIMITED, ErrorCode.CONTENT_POLICY, ErrorCode.GUARDRAIL_BLOCKED, ErrorCode.UPSTREAM_AUTH, ErrorCode.UPSTREAM_UNAVAILABLE, ErrorCode.UPSTREAM_TIMEOUT)  // Error responses, see ErrorResponse
+  async getPromptSchema(@Body() body: GetProductsPrompt, @MeteredClient() usage: UsageContext, @CurrentTenant() tenant: Tenant): Promise<any> {  // Validated by the global JoiValidationPipe
+    const response = await this.aiProductsService.aiPrompt(body, usage, tenant);
     return response;
   }
+
+  @Post('prompt/stream')
+  @Metered()
+  @ApiOperation({ summary: 'Send a prompt to the AI and stream the response over Server-Sent Events' })
+  @ApiBody({ type: GetProductsPrompt, description: 'Send a prompt string to the AI' })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: 'Stream of `delta`, `tool_start`, `tool_end` and `done` (or `error`) events' })
+  @ApiErrorResponses(ErrorCode.VALIDATION_ERROR, ErrorCode.UNAUTHORIZED, ErrorCode.NOT_FOUND, ErrorCode.RATE_LIMITED, ErrorCode.CONTENT_POLICY, ErrorCode.GUARDRAIL_BLOCKED, ErrorCode.UPSTREAM_AUTH, ErrorCode.UPSTREAM_UNAVAILABLE, ErrorCode.UPSTREAM_TIMEOUT)
+  async streamPrompt(@Body() body: GetProductsPrompt, @MeteredClient() usage: UsageContext, @CurrentTenant() tenant: Tenant, @Res() res: Response) {
+    const events = await this.aiProductsService.streamPrompt(body, usage, tenant);
+    await writeSse(res, events);
+  }
+
+  @Get('prompt/stream')
+  @Metered()
+  @ApiOperation({ summary: 'Send a prompt to the AI and stream the response over Server-Sent Events (EventSource friendly)' })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: 'Stream of `delta`, `tool_start`, `tool_end` and `done` (or `error`) events' })
+  @ApiErrorResponses(ErrorCode.VALIDATION_ERROR, ErrorCode.UNAUTHORIZED, ErrorCode.NOT_FOUND, ErrorCode.RATE_LIMITED, ErrorCode.CONTENT_POLICY, ErrorCode.GUARDRAIL_BLOCKED, ErrorCode.UPSTREAM_AUTH, ErrorCode.UPSTREAM_UNAVAILABLE, ErrorCode.UPSTREAM_TIMEOUT)
+  async streamPromptQuery(@Query() query: GetProductsPrompt, @MeteredClient() usage: UsageContext, @CurrentTenant() tenant: Tenant, @Res() res: Response) {
+    const events = await this.aiProductsService.streamPrompt(query, usage, tenant);
+    await writeSse(res, events);
+  }
+
+  // Declared after the `prompt/*` routes so `:id` does not shadow them
+  @Get()
+  @ApiOperation({ summary: 'List catalog products with filters, sorting and pagination' })
+  @ApiResponse({ status: 200, description: 'A page of products: `{ items, total, page, limit }`' })
+  @ApiErrorResponses(ErrorCode.VALIDATION_ERROR, ErrorCode.UNAUTHORIZED, ErrorCode.UPSTREAM_AUTH, ErrorCode.UPSTREAM_UNAVAILABLE)
+  async listProducts(@Query() query: ListProductsQuery, @CurrentTenant() tenant: Tenant) {
+    const { currency = tenant.currency, ...catalogQuery } = query;
+    const page = this.catalogService.query(catalogQuery, tenant.catalogId);
+    return { ...page, items: await this.currenciesService.convertItems(page.items, currency) };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a catalog product' })
+  @ApiParam({ name: 'id', description: 'Product handle, the last segment of the product URL', example: 'time-and-tru-womens-tall-slouch-boots' })
+  @ApiResponse({ status: 200, description: 'The product' })
+  @ApiErrorResponses(ErrorCode.VALIDATION_ERROR, ErrorCode.UNAUTHORIZED, ErrorCode.NOT_FOUND, ErrorCode.UPSTREAM_AUTH, ErrorCode.UPSTREAM_UNAVAILABLE)
+  async getProduct(@Param('id') id: string, @Query() query: GetProductQuery, @CurrentTenant() tenant: Tenant) {
+    const [product] = await this.currenciesService.convertItems([this.catalogService.findById(id, tenant.catalogId)], query.currency ?? tenant.currency);
+    return product;
+  }
 }
@@ -1,8 +1,20 @@
 import { Module } from '@nestjs/common';
 import { ProductsController } from './products.controller';
 import { ProductsService } from './products.service';
+import { ConversationsModule } from '../conversations/conversations.module';
+import { ToolsModule } from '../tools/tools.module';
+import { CatalogModule } from '../catalog/catalog.module';
+import { SearchModule } from '../search/search.module';
+import { CurrenciesModule } from '../currencies/currencies.module';
+import { CacheModule } from '../cache/cache.module';
+import { UsageModule } from '../usage/usage.module';
+import { TenantsModule } from '../tenants/tenants.module';
+import { PromptsModule } from '../prompts/prompts.module';
+import { TranscriptsModule } from '../transcripts/transcripts.module';
+import { GuardrailsModule } from '../guardrails/guardrails.module';
 
 @Module({
+  imports: [ConversationsModule, ToolsModule, CatalogModule, SearchModule, CurrenciesModule, CacheModule, UsageModule, TenantsModule, PromptsModule, TranscriptsModule, GuardrailsModule],
   controllers: [ProductsController],
   providers: [ProductsService]
 })
@@ -1,314 +1,363 @@
-import { Injectable, InternalServerErrorException } from '@nestjs/common';
-import * as fs from 'fs';
-import * as csv from 'csv-parser';
-import { join } from 'path';
-import OpenAI from 'openai';
+import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { getPromptSchema } from 'src/ai/dto/get-prompt/get-prompt.dto';
-import { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources';
-
-interface Product {
-    displayTitle: string;
-    embeddingText: string;
-    url: string;
-    imageUrl: string;
-    productType: string;
-    discount: string;
-    price: string;
-    variants: string;
-    createDate: string;
-}
+import { ChatCompletionMessage, ChatCompletionMessageParam } from 'openai/resources';
+import { ConversationsService } from '../conversations/conversations.service';
+import { ToolLoopService } from '../tools/tool-loop.service';
+import { ToolRegistry } from '../tools/tool-registry.service';
+import { AiTool } from '../tools/decorators/ai-tool.decorator';
+import { toPromptStream } from '../tools/utils/prompt-stream';
+import { JsonFieldFilter } from '../tools/utils/json-field-filter';
+import { ToolOutput } from '../tools/utils/tool-output';
+import { SseEvent } from '../common/sse/sse.interface';
+import { RankingService } from '../search/ranking/ranking.service';
+import { CatalogService } from '../catalog/catalog.service';
+import { productAnswer, productAnswerFormat, productRecommendation } from './dto/product-answer/product-answer.dto';
+import { RankedProductResult } from '../search/interfaces/search-result.interface';
+import { formatPrice } from '../catalog/utils/parse-product';
+import { CurrenciesService } from '../currencies/currencies.service';
+import {
+    PRODUCTS_TOOLSET,
+    ConvertCurrenciesToolArgs,
+    SearchProductToolArgs,
+} from './dto/product-tools/product-tools.dto';
+import { GetProductsPrompt } from './dto/get-products-prompt/get-products-prompt.dto';
+import { CacheService } from '../cache/cache.service';
+import { UsageService } from '../usage/usage.service';
+import { UsageContext } from '../usage/interfaces/usage.interface';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
+import { DEFAULT_TENANT } from '../tenants/tenants.service';
+import { ToolScope } from '../tools/tool-registry.service';
+import { ToolContext } from '../tools/interfaces/tool-loop.interface';
+import { DEFAULT_CATALOG } from '../catalog/catalog.service';
+import { PRODUCT_SEARCH_RESULTS_PROMPT, PRODUCTS_SYSTEM_PROMPT, PromptsService } from '../prompts/prompts.service';
+import { TranscriptsService } from '../transcripts/transcripts.service';
+import { GuardedRequest, GuardrailsService } from '../guardrails/guardrails.service';
 
 @Injectable()
 export class ProductsService {
-    constructor(private configService: ConfigService) { }
+    constructor(
+        private configService: ConfigService,
+        private conversationsService: ConversationsService,
+        private toolLoopService: ToolLoopService,
+        private toolRegistry: ToolRegistry,
+        private rankingService: RankingService,
+        private catalogService: CatalogService,
+        private currenciesService: CurrenciesService,
+        private cacheService: CacheService,
+        private usageService: UsageService,
+        private promptsService: PromptsService,
+        private transcriptsService: TranscriptsService,
+        private guardrailsService: GuardrailsService,
+    ) { }
 
     /**
-     * Generates a response based on the provided AI prompt using OpenAI's API.
+     * Generates a response based on the provided AI prompt using the configured language model (`LlmProvider`).
      * 
-     * @param prompt - The input prompt string to be processed by the AI.
-     * @returns An object containing the response from the AI or an error message.
+     * @param input - The prompt, validated by the `JoiValidationPipe`, with the optional `conversationId`, `locale` and `currency`.
+     * @param usage - Client and endpoint the token usage is counted under, from `@MeteredClient()`.
+     * @param tenant - Tenant of the request, from `@CurrentTenant()`: catalog, default currency, system prompt, model and enabled tools.
+     * @returns An object containing the conversation ID, the response from the AI, the recommendations, the tool steps and the tokens and cost of the request.
      * 
-     * @throws Will throw an error if the prompt validation fails.
+     * @throws {NotFoundException} If `conversationId` does not match a stored conversation of the tenant.
+     * @throws {GuardrailException} If a guardrail check blocked the prompt or the answer (`GUARDRAIL_BLOCKED`).
+     * @throws {AppException} If the model provider fails (`UPSTREAM_TIMEOUT`, `UPSTREAM_AUTH`, `CONTENT_POLICY`…).
      * 
      * The function performs the following steps:
-     * 1. Validates the input prompt using a predefined schema.
-     * 2. Initializes the OpenAI client with the API key from the configuration service.
-     * 3. Creates the initial message array based on the input prompt.
-     * 4. Sends the initial prompt to the OpenAI API and processes the response.
-     * 5. If the response includes tool calls, it handles specific functions like `searchProduct` and `convertCurrencies`.
-     * 6. For `searchProduct`, it searches for products and generates a summary, then sends a follow-up prompt to the AI.
-     * 7. For `convertCurrencies`, it converts the specified currency and sends a follow-up prompt to the AI.
-     * 8. Returns the final response from the AI or an error message if any step fails.
+     * 1. Runs the input guardrails on the prompt (injection attempts and off-topic requests are blocked, personal data is masked),
+     *    then creates the initial message array based on the conversation history, the locale and currency preferences (the tenant's
+     *    currency when the request has none) and the prompt.
+     * 2. Runs the tool loop with the tenant's model (`LLM_MODEL_PRODUCTS`, or the provider default): every enabled `searchProduct` and `convertCurrencies` call the model requests is executed and
+     *    answered, until the model replies without tool calls or the iteration cap is reached.
+     *    The final answer is a structured output (`productAnswerFormat`) that cites the product IDs returned by `searchProduct`.
+     * 3. Checks the cited IDs against the tenant's catalog and attaches the catalog data of each recommended product,
+     *    and runs the output guardrails on the answer text.
+     * 4. Stores the exchange in the conversation and its transcript, and returns the final response from the AI, the recommendations
+     *    and the tool steps that ran. Failed tools are reported to the model and listed in the steps.
      */
-    async aiPrompt(prompt: string) {
-        const { error } = getPromptSchema.validate({ prompt });
-        if (error) {
-            throw new Error(`Validation error: ${error.message}`);
-        }
+    async aiPrompt({ prompt: rawPrompt, conversationId, locale, currency }: GetProductsPrompt, usage?: UsageContext, tenant: Tenant = DEFAULT_TENANT) {
+        const conversation = await this.conversationsService.resolve(conversationId, tenant);
+        const guarded: GuardedRequest = { assistant: 'products', tenant, conversationId: conversation.id, context: usage, startedAt: Date.now() };
+        const input = await this.guardrailsService.checkInput(rawPrompt, guarded);
+        const prompt = input.text;
+        const messages = this.createMessage(prompt, this.conversationsService.toChatHistory(conversation), { locale, currency: currency ?? tenant.currency, tenant });
+        const scope = this.toolScope(tenant, conversation.id);
 
-        const openai = new OpenAI({ apiKey: this.configService.get('OPEN_AI_API_KEY') });
+        const result = await this.toolLoopService.run({
+            model: tenant.models.products ?? this.configService.get('LLM_MODEL_PRODUCTS'),
+            messages,
+            tools: this.toolRegistry.getTools(PRODUCTS_TOOLSET, scope),
+            handlers: this.guardrailsService.guardHandlers(this.toolRegistry.getHandlers(PRODUCTS_TOOLSET, scope), guarded),
+            responseFormat: productAnswerFormat(),
+        });
+        const requestUsage = await this.usageService.record(usage, result);
+        const answer = this.parseAnswer(result.message, tenant.catalogId);
+        const output = await this.guardrailsService.checkOutput(answer.response, { ...guarded, prompt, usage: requestUsage });
+        const response = output.text;
+        const { recommendations } = answer;
+        await this.conversationsService.recordTurn(conversation, prompt, response);
+        await this.transcriptsService.record({
+            ...guarded,
+            prompt,
+            result,
+            answer: response,
+            recommendations: recommendations.map(recommendation => recommendation.id),
+            usage: requestUsage,
+            guardrails: [...input.findings, ...output.findings],
+        });
+        return {
+            ok: true,
+            conversationId: conversation.id,
+            response,
+            recommendations,
+            steps: result.steps,
+            usage: requestUsage,
+        };
+    }
 
-        const messages = this.createMessage(prompt);
+    /**
+     * Reads the structured answer of the model and resolves its recommendations against the catalog.
+     * 
+     * @param message - Final assistant message of the tool loop.
+     * @param catalogId - Catalog the recommended IDs must come from.
+     * @returns The answer text and the recommended products. IDs that are not in the catalog are dropped;
+     *          if the content is missing, not valid JSON or not an answer object it is returned as the answer
+     *          without recommendations.
+     */
+    parseAnswer(message: ChatCompletionMessage, catalogId = DEFAULT_CATALOG): { response: string, recommendations: productRecommendation[] } {
+        if (message.refusal) {
+            return { response: message.refusal, recommendations: [] };
+        }
 
+        const raw = { response: message.content ?? '', recommendations: [] };
+        let answer: productAnswer;
         try {
-            const firstResponse = await openai.chat.completions.create({
-                model: 'gpt-4o-mini',
-                messages: messages,
-                tools: this.tools(),
-
-            });
-            const message = firstResponse.choices[0].message;
-            if (message.tool_calls) {
-                const functionName = message.tool_calls[0].function.name;
-                const functionArgs = JSON.parse(message.tool_calls[0].function.arguments);
-
-                if (functionName === 'searchProduct') {
-                    const search = functionArgs.search;
-                    const products = await this.searchProduct(search);
-
-                    const productSummaries = products.map(product => `
-                        Product: ${product.displayTitle}
-                        Price: ${product.price}
-                        Discount: ${product.discount}
-                        Type: ${product.productType}
-                        URL: ${product.url}
-                    `).join('\n\n');
-
-                    const secondResponse = await openai.chat.completions.create({
-                        model: 'gpt-4o-mini',
-                        messages: [
-                            ...messages,
-                            {
-                                role: 'function',
-                                name: 'searchProduct',
-                                content: `${productSummaries} check the list of products and recommend one to the user`,
-                            },
-                        ],
-                    });
-
-                    return {
-                        ok: true,
-                        response: secondResponse.choices[0].message.content,
-                    };
-                }
+            answer = JSON.parse(message.content ?? '');
+        } catch {
+            return raw;
+        }
+        // Valid JSON that is not the answer object (`null`, `42`, `"text"`, `{}`…)
+        if (!answer || typeof answer !== 'object' || typeof answer.answer !== 'string') {
+            return raw;
+        }
 
+        const recommendations: productRecommendation[] = [];
+        const seen = new Set<string>();
+        for (const { productId, reason } of Array.isArray(answer.recommendations) ? answer.recommendations : []) {
+            if (seen.has(productId)) continue;
+            seen.add(productId);
+            try {
+                const product = this.catalogService.findById(productId, catalogId);
+                recommendations.push({
+                    id: product.id,
+                    displayTitle: product.displayTitle,
+                    url: product.url,
+                    imageUrl: product.imageUrl,
+                    price: product.price,
+                    discount: product.discount,
+                    variants: product.variants,
+                    reason,
+                });
+            } catch {
+                // Made-up or stale product ID: drop it
+            }
+        }
+        return { response: answer.answer, recommendations };
+    }
 
-                if (functionName === 'convertCurrencies') {
-                    const currency = functionArgs.currency;
-                    const value = functionArgs.value;
-                    const baseCurrency = functionArgs.baseCurrency;
-                    const converted = await this.convertCurrencies(baseCurrency, currency, value);
-                    const conversionMessage = `
-                        Convert ${value} ${baseCurrency} to ${currency}: ${converted.convertedValue} ${currency}
-                    `;
+    /**
+     * Streaming variant of `aiPrompt`, used by the `prompt/stream` endpoints.
+     *
+     * The conversation lookup and the input guardrails run before anything is streamed, so an unknown
+     * `conversationId` or a blocked prompt still surfaces as a regular HTTP error. The answer is streamed
+     * sentence by sentence, each sentence once the output guardrails have checked and masked it; a blocked
+     * sentence ends the stream with an `error` event instead.
+     * A stream that fails or loses its client before `done` still records the tokens used so far, with an interrupted transcript.
+     *
+     * @param input - The prompt, validated by the `JoiValidationPipe`, with the optional `conversationId`, `locale` and `currency`.
+     * @param usage - Client and endpoint the token usage is counted under, from `@MeteredClient()`.
+     * @param tenant - Tenant of the request, from `@CurrentTenant()`.
+     * @returns Tool progress events (e.g. "Searching products…"), the checked answer and a final `done` event with the
+     *          recommendations, the usage and the cost. The model answers with the same structured output as in
+     *          `aiPrompt`; only its `answer` text is streamed, the recommendations come with `done`.
+     *
+     * @throws {NotFoundException} If `conversationId` does not match a stored conversation of the tenant.
+     * @throws {GuardrailException} If a guardrail check blocked the prompt.
+     */
+    async streamPrompt({ prompt: rawPrompt, conversationId, locale, currency }: GetProductsPrompt, usage?: UsageContext, tenant: Tenant = DEFAULT_TENANT): Promise<AsyncGenerator<SseEvent>> {
+        const conversation = await this.conversationsService.resolve(conversationId, tenant);
+        const guarded: GuardedRequest = { assistant: 'products', tenant, conversationId: conversation.id, context: usage, startedAt: Date.now() };
+        const input = await this.guardrailsService.checkInput(rawPrompt, guarded);
+        const prompt = input.text;
+        const messages = this.createMessage(prompt, this.conversationsService.toChatHistory(conversation), { locale, currency: currency ?? tenant.currency, tenant });
+        const scope = this.toolScope(tenant, conversation.id);
 
+        const events = this.toolLoopService.stream({
+            model: tenant.models.products ?? this.configService.get('LLM_MODEL_PRODUCTS'),
+            messages,
+            tools: this.toolRegistry.getTools(PRODUCTS_TOOLSET, scope),
+            handlers: this.guardrailsService.guardHandlers(this.toolRegistry.getHandlers(PRODUCTS_TOOLSET, scope), guarded),
+            labels: this.toolRegistry.getLabels(PRODUCTS_TOOLSET, scope),
+            responseFormat: productAnswerFormat(),
+        });
+        const streamed = this.guardrailsService.guardStream(guarded);
+        return toPromptStream(events, async (result) => {
+            const requestUsage = await this.usageService.record(usage, result);
+            const answer = this.parseAnswer(result.message, tenant.catalogId);
+            // Nothing streamed when the model did not answer with the JSON object: check its raw answer at once
+            const output = streamed.text
+                ? { text: streamed.text, findings: streamed.findings }
+                : await this.guardrailsService.checkOutput(answer.response, { ...guarded, prompt, usage: requestUsage });
+            const { recommendations } = answer;
+            await this.conversationsService.recordTurn(conversation, prompt, output.text);
+            await this.transcriptsService.record({
+                ...guarded,
+                prompt,
+                result,
+                answer: output.text,
+                recommendations: recommendations.map(recommendation => recommendation.id),
+                usage: requestUsage,
+                guardrails: [...input.findings, ...output.findings],
+            });
+            return { conversationId: conversation.id, response: output.text, recommendations, usage: requestUsage };
+        }, async (progress, reason) => {
+            const requestUsage = await this.usageService.record(usage, progress);
+            await this.transcriptsService.record({
+                ...guarded,
+                prompt,
+                result: progress,
+                answer: streamed.text,
+                usage: requestUsage,
+                guardrails: [...input.findings, ...streamed.findings],
+                blocked: streamed.blocked,
+                interrupted: reason,
+            });
+        }, [new JsonFieldFilter('answer'), streamed]);
+    }
 
+    /**
+     * `searchProduct` tool: searches the catalog and lists the top matches for the model.
+     *
+     * @param args - Validated tool arguments.
+     * @param context - Searches the catalog of `context.tenant`.
+     * @returns Every matching product followed by the recommendation instruction, rendered from the `product-search-results`
+     *          prompt template, with the number and IDs of the matches for the transcripts.
+     */
+    @AiTool({
+        name: 'searchProduct',
+        description: 'Search for a product',
+        schema: SearchProductToolArgs,
+        toolsets: [PRODUCTS_TOOLSET],
+        label: 'Searching products…',
+    })
+    async searchProductTool({ search, limit, currency }: SearchProductToolArgs, context?: ToolContext) {
+        const results = await this.searchProduct(search, limit, currency, context?.tenant?.catalogId);
 
-                    const secondResponse = await openai.chat.completions.create({
-                        model: 'gpt-4o-mini',
-                        messages: [
-                            ...messages,
-                            {
-                                role: 'function',
-                                name: 'convertCurrencies',
-                                content: conversionMessage,
-                            },
-                        ],
-                    });
+        const products = results.map(({ product, score, explanation }) => ({
+            id: product.id,
+            title: product.displayTitle,
+            price: formatPrice(product.price),
+            discount: product.discount ? 'yes' : 'no',
+            type: product.productType,
+            url: product.url,
+            relevance: score.toFixed(2),
+            matches: explanation.matches.map(match => `"${match.term}" in ${match.field}`).join(', '),
+        }));
+        const text = this.promptsService.render(PRODUCT_SEARCH_RESULTS_PROMPT, { products }, { tenant: context?.tenant }).text;
+        return new ToolOutput(text, { resultCount: products.length, productIds: products.map(product => product.id) });
+    }
 
-                    return {
-                        ok: true,
-                        response: secondResponse.choices[0].message.content,
-                    };
-                }
-            } else {
-                return {
-                    ok: true,
-                    response: firstResponse.choices[0].message.content,
-                };
-            }
-        } catch (error) {
-            return {
-                ok: false,
-                error: `Error in OpenAI API: ${error.message}`,
-            };
-        }
+    /**
+     * `convertCurrencies` tool: converts a value between currencies.
+     *
+     * @param args - Validated tool arguments.
+     * @returns A sentence with the converted value.
+     */
+    @AiTool({
+        name: 'convertCurrencies',
+        description: 'Convert a value from one currency to another',
+        schema: ConvertCurrenciesToolArgs,
+        toolsets: [PRODUCTS_TOOLSET],
+        label: 'Converting currencies…',
+    })
+    async convertCurrenciesTool({ baseCurrency, currency, value }: ConvertCurrenciesToolArgs) {
+        const converted = await this.convertCurrencies(baseCurrency, currency, value);
+        return `Convert ${value} ${baseCurrency} to ${converted.currency}: ${converted.convertedValue} ${converted.currency}`;
     }
 
     /**
-     * Searches for products in a CSV file that match the given search string.
+     * Searches the catalog with the hybrid ranking: field-weighted lexical matching on title, type and variants
+     * (tolerating typos), semantic similarity on `embeddingText`, and boosts for discounted and recent products.
      * 
-     * @param _search - The search string to match against the product's display title.
-     * @returns A promise that resolves to an array of products that match the search criteria.
+     * @param _search - Free text describing what the user is looking for, e.g. "something warm for winter".
+     * @param limit - Maximum number of products to return (defaults to `SEARCH_TOP_K`).
+     * @param currency - ISO 4217 code to convert the prices to; prices stay in the catalog currency when omitted.
+     * @param catalogId - Catalog to search (the tenant's), `DEFAULT_CATALOG` by default.
+     * @returns A promise that resolves to the most relevant products, best match first, each with its score and explanation.
      * 
-     * The products are read from a CSV file located at `data/products_list.csv`.
-     * Each product is represented by an object containing the following properties:
-     * - `displayTitle`: The title of the product.
-     * - `embeddingText`: The embedding text of the product.
-     * - `url`: The URL of the product.
-     * - `imageUrl`: The image URL of the product.
-     * - `productType`: The type of the product.
-     * - `discount`: The discount on the product.
-     * - `price`: The price of the product.
-     * - `variants`: The variants of the product.
-     * - `createDate`: The creation date of the product.
-     * 
-     * The resulting array of products is sorted by the creation date in descending order.
-     * 
-     * @throws {InternalServerErrorException} If there is an error processing the CSV file.
+     * Rankings are cached in the `product-search` namespace of the `CacheService` by catalog, normalized query and limit;
+     * prices are converted after the lookup, so every currency shares the same entry.
      */
-    async searchProduct(_search: string): Promise<Product[]> {
-        const products: Product[] = [];
-        return new Promise((resolve, reject) => {
-            const filePath = join(__dirname, '..', '..', 'data', 'products_list.csv');
-
-            fs.createReadStream(filePath)
-                .pipe(csv())
-                .on('data', (row) => {
-                    if (row.displayTitle && row.displayTitle.toLowerCase().includes(_search.toLowerCase())) {
-                        products.push({
-                            displayTitle: row.displayTitle,
-                            embeddingText: row.embeddingText,
-                            url: row.url,
-                            imageUrl: row.imageUrl,
-                            productType: row.productType,
-                            discount: row.discount,
-                            price: row.price,
-                            variants: row.variants,
-                            createDate: row.createDate,
-                        });
-                    }
-                })
-                .on('end', () => {
-                    products.sort((a, b) => new Date(b.createDate).getTime() - new Date(a.createDate).getTime());
-                    resolve(products);
-                })
-                .on('error', (error) => {
-                    console.error('Error reading CSV file:', error);
-                    reject(new InternalServerErrorException('Error processing CSV file'));
-                });
-        });
+    async searchProduct(_search: string, limit?: number, currency?: string, catalogId = DEFAULT_CATALOG): Promise<RankedProductResult[]> {
+        const results = await this.cacheService.wrap(
+            'product-search',
+            `${catalogId}|${_search.trim().toLowerCase()}|${limit ?? ''}`,
+            () => this.rankingService.search(_search, limit, catalogId),
+        );
+        if (!currency) {
+            return results;
+        }
+        const products = await this.currenciesService.convertItems(results.map((result) => result.product), currency);
+        return results.map((result, index) => ({ ...result, product: products[index] }));
     }
 
     /**
-     * Converts a value from one currency to another using the Free Currency API.
+     * Converts a value from one currency to another with the cached exchange rates of `CurrenciesService`.
      *
-     * @param baseCurrency - The currency code of the base currency (e.g., 'USD').
-     * @param currency - The currency code to which the value should be converted (e.g., 'EUR').
+     * @param baseCurrency - The ISO 4217 code of the base currency (e.g., 'USD').
+     * @param currency - The ISO 4217 code to which the value should be converted (e.g., 'EUR').
      * @param value - The amount of money to be converted.
-     * @returns An object containing the target currency, the original value, and the converted value.
-     * @throws {InternalServerErrorException} If there is an error fetching or processing the currency data.
+     * @returns An object containing the target currency, the original value, the converted value (rounded to the
+     *          minor unit of the target currency) and the rate used.
+     * @throws {ValidationException} If a currency code is not ISO 4217 or has no exchange rate.
+     * @throws {UpstreamUnavailableException} If the exchange rates cannot be loaded.
      */
     async convertCurrencies(baseCurrency: string, currency: string, value: number) {
-        try {
-            const response = await fetch(`https://api.freecurrencyapi.com/v1/latest?apikey=${process.env.FREE_CURRENCY_API_KEY}&currencies=${currency}&base_currency=${baseCurrency}`);
-
-            if (!response.ok) {
-                throw new Error('Error fetching currency data');
-            }
-
-            const data = await response.json();
-
-            if (!data.data[currency]) {
-                throw new Error(`Currency ${currency} not found in the response`);
-            }
-
-            const exchangeRate = data.data[currency];
-            const convertedValue = value * exchangeRate;
+        const conversion = await this.currenciesService.convert(value, baseCurrency, currency);
+        return {
+            currency: conversion.to,
+            value,
+            convertedValue: conversion.converted,
+            rate: conversion.rate,
+        };
+    }
 
-            return {
-                currency,
-                value,
-                convertedValue,
-            };
-        } catch (error) {
-            throw new InternalServerErrorException('Error converting currencies');
-        }
+    /** Tools the tenant enabled, with the tenant and the conversation (the cart session) passed on to their handlers. */
+    private toolScope(tenant: Tenant, conversationId: string): ToolScope {
+        return { enabled: tenant.tools, context: { tenant, conversationId } };
     }
 
     /**
      * Creates a message array for chat completion.
      * 
      * @param prompt - The user input to be included in the message.
-     * @returns An array of chat completion message parameters.
+     * @param history - Earlier turns of the conversation, placed before the user input.
+     * @param options - `locale`: BCP 47 tag the answer must be written in; `currency`: ISO 4217 code the shopper wants prices in;
+     *                  `tenant`: whose instructions, prompt variables and prompt version apply.
+     * @returns An array of chat completion message parameters, starting with the system message rendered from the
+     *          `products-system` prompt template.
      */
-    createMessage(prompt: string): ChatCompletionMessageParam[] {
+    createMessage(prompt: string, history: ChatCompletionMessageParam[] = [], { locale, currency, tenant = DEFAULT_TENANT }: Pick<GetProductsPrompt, 'locale' | 'currency'> & { tenant?: Tenant } = {}): ChatCompletionMessageParam[] {
+        const system = this.promptsService.render(PRODUCTS_SYSTEM_PROMPT, { instructions: tenant.systemPrompts.products, language: locale, currency }, { tenant });
         return [
             {
                 role: 'system',
-                content: 'You are a helpful assistant.',
+                content: system.text,
             },
+            ...history,
             {
                 role: 'user',
                 content: prompt
             }
         ];
     }
-
-
-    /**
-     * Provides a set of tools for various functionalities.
-     * 
-     * @returns {ChatCompletionTool[]} An array of tools with their respective functions and parameters.
-     * 
-     * The available tools are:
-     * 
-     * - `convertCurrencies`: Converts a value from one currency to another.
-     *   - Parameters:
-     *     - `baseCurrency` (string): The currency to convert from.
-     *     - `currency` (string): The currency to convert to.
-     *     - `value` (number): The value to convert.
-     * 
-     * - `searchProduct`: Searches for a product by name.
-     *   - Parameters:
-     *     - `search` (string): The name of the product to search for.
-     */
-    tools() {
-        const tools: ChatCompletionTool[] = [
-            {
-                type: "function",
-                function: {
-                    name: "convertCurrencies",
-                    description: "Convert a value from one currency to another",
-                    parameters: {
-                        type: "object",
-                        properties: {
-                            currency: {
-                                type: "string",
-                                description: "The currency to convert to"
-                            },
-                            value: {
-                                type: "number",
-                                description: "The value to convert"
-                            },
-                            baseCurrency: {
-                                type: "string",
-                                description: "The currency to convert from"
-                            }
-                        },
-                        required: ["baseCurrency", "currency", "value"],
-                    },
-                }
-            },
-            {
-                type: "function",
-                function: {
-                    name: "searchProduct",
-                    description: "Search for a product",
-                    parameters: {
-                        type: "object",
-                        properties: {
-                            search: {
-                                type: "string",
-                                description: "Search for products by name"
-                            }
-                        },
-                        required: ["search"],
-                    },
-                }
-            }
-        ];
-        return tools;
-    }
 }
@@ -0,0 +1,31 @@
+import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+
+export const previewPromptSchema = Joi.object({
+  version: Joi.number()
+    .integer()
+    .min(1)
+    .description('Version to render; the active one when omitted')
+    .example(2),
+  tenantId: Joi.string()
+    .max(64)
+    .description('Tenant whose variables and versions apply; none when omitted')
+    .example('tea-shop'),
+  variables: Joi.object()
+    .pattern(
+      Joi.string(),
+      Joi.alternatives(Joi.string(), Joi.number(), Joi.boolean()),
+    )
+    .description(
+      'Values of the request, e.g. `language`, `currency` or `instructions`; they override every other source',
+    )
+    .example({ language: 'es', currency: 'EUR', tone: 'playful' }),
+});
+
+/** Body of `POST /admin/prompts/:name/preview`. */
+@JoiSchema(previewPromptSchema)
+export class PreviewPromptBody {
+  version?: number;
+  tenantId?: string;
+  variables?: Record<string, string | number | boolean>;
+}
@@ -0,0 +1,33 @@
+import { TemplateNode, TemplateVariables } from '../utils/template';
+
+/** One version of a template, read from `<PROMPTS_DIR>/<name>/v<version>.md`. */
+export interface PromptTemplate {
+  name: string;
+  version: number;
+  description?: string;
+  /** Values of the front matter, used when no other value is given. */
+  defaults: Record<string, string>;
+  source: string;
+  nodes: TemplateNode[];
+  variables: string[];
+}
+
+export interface PromptTemplateSummary {
+  name: string;
+  description?: string;
+  versions: number[];
+  /** Version used when none is requested: `PROMPT_VERSIONS`, or the latest. */
+  activeVersion: number;
+  /** Variables and sections of the active version. */
+  variables: string[];
+}
+
+export interface RenderedPrompt {
+  name: string;
+  version: number;
+  text: string;
+  /** `{{name}}` variables that had no value and rendered as nothing. */
+  missing: string[];
+  /** Values the template was rendered with, after merging every source. */
+  variables: TemplateVariables;
+}
@@ -0,0 +1,44 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TenantsService } from '../tenants/tenants.service';
+import { PromptsController } from './prompts.controller';
+import { PromptsService } from './prompts.service';
+
+describe('PromptsController', () => {
+  let controller: PromptsController;
+  const promptsService = { render: jest.fn() };
+  const tenantsService = { findById: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PromptsController],
+      providers: [
+        ConfigService,
+        { provide: PromptsService, useValue: promptsService },
+        { provide: TenantsService, useValue: tenantsService },
+      ],
+    }).compile();
+
+    controller = module.get<PromptsController>(PromptsController);
+  });
+
+  it('previews a template for the requested tenant and version', () => {
+    const tenant = { id: 'tea-shop' };
+    tenantsService.findById.mockReturnValue(tenant);
+    promptsService.render.mockReturnValue({ text: 'Hi' });
+
+    expect(
+      controller.preview('products-system', {
+        tenantId: 'tea-shop',
+        version: 1,
+        variables: { language: 'es' },
+      }),
+    ).toEqual({ text: 'Hi' });
+    expect(tenantsService.findById).toHaveBeenCalledWith('tea-shop');
+    expect(promptsService.render).toHaveBeenCalledWith(
+      'products-system',
+      { language: 'es' },
+      { tenant, version: 1 },
+    );
+  });
+});
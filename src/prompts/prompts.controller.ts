@@ -0,0 +1,82 @@
+import { Body, Controller, Get, Param, Post, UseGuards } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiErrorResponses } from '../common/errors/api-error-responses.decorator';
+import { ErrorCode } from '../common/errors/error-code';
+import { AdminGuard } from '../common/guards/admin.guard';
+import { TenantsService } from '../tenants/tenants.service';
+import { PreviewPromptBody } from './dto/preview-prompt/preview-prompt.dto';
+import { PromptsService } from './prompts.service';
+
+@ApiTags('Admin') // Grouping under "Admin" for Swagger
+@ApiSecurity('admin-key')
+@UseGuards(AdminGuard)
+@Controller('admin/prompts')
+export class PromptsController {
+  constructor(
+    private readonly promptsService: PromptsService,
+    private readonly tenantsService: TenantsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the prompt templates and their versions' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Every template with its `versions`, `activeVersion` and the `variables` of the active version',
+  })
+  @ApiErrorResponses(ErrorCode.UNAUTHORIZED, ErrorCode.FORBIDDEN)
+  list() {
+    return this.promptsService.list();
+  }
+
+  @Post('reload')
+  @ApiOperation({ summary: 'Read the prompt templates again from PROMPTS_DIR' })
+  @ApiResponse({
+    status: 201,
+    description: '`{ versions }`, the number of template versions loaded',
+  })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.FORBIDDEN,
+  )
+  async reload() {
+    return { versions: await this.promptsService.reload() };
+  }
+
+  @Post(':name/preview')
+  @ApiOperation({
+    summary: 'Render a prompt template without calling the model',
+  })
+  @ApiParam({
+    name: 'name',
+    description: 'Template name',
+    example: 'products-system',
+  })
+  @ApiResponse({
+    status: 201,
+    description:
+      '`{ name, version, text, missing, variables }`; `missing` lists the variables that rendered as nothing',
+  })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.FORBIDDEN,
+    ErrorCode.NOT_FOUND,
+  )
+  preview(@Param('name') name: string, @Body() body: PreviewPromptBody) {
+    const tenant = body.tenantId
+      ? this.tenantsService.findById(body.tenantId)
+      : undefined;
+    return this.promptsService.render(name, body.variables, {
+      tenant,
+      version: body.version,
+    });
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TenantsModule } from '../tenants/tenants.module';
+import { PromptsController } from './prompts.controller';
+import { PromptsService } from './prompts.service';
+
+@Module({
+  imports: [TenantsModule],
+  controllers: [PromptsController],
+  providers: [PromptsService],
+  exports: [PromptsService],
+})
+export class PromptsModule {}
@@ -0,0 +1,153 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { cpSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ValidationException } from '../common/errors/app.exception';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
+import { DEFAULT_TENANT } from '../tenants/tenants.service';
+import {
+  PRODUCT_SEARCH_RESULTS_PROMPT,
+  PRODUCTS_SYSTEM_PROMPT,
+  PromptsService,
+} from './prompts.service';
+
+describe('PromptsService', () => {
+  let dir: string;
+  const teaShop: Tenant = {
+    ...DEFAULT_TENANT,
+    id: 'tea-shop',
+    name: 'Tea Shop',
+    promptVariables: { tone: 'calm' },
+  };
+
+  const create = async (env: Record<string, string> = {}) => {
+    const service = new PromptsService(
+      new ConfigService({ PROMPTS_DIR: dir, ...env }),
+    );
+    await service.onModuleInit();
+    return service;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'prompts-'));
+    cpSync(join(__dirname, '..', '..', 'data', 'prompts'), dir, {
+      recursive: true,
+    });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('renders the latest version with the defaults of its front matter', async () => {
+    const service = await create();
+
+    const prompt = service.render(PRODUCTS_SYSTEM_PROMPT, {
+      language: 'es',
+      currency: undefined,
+    });
+
+    expect(prompt.version).toBe(2);
+    expect(prompt.text).toMatch(
+      /^You are the shopping assistant of our store\. Use a friendly and concise tone\./,
+    );
+    expect(prompt.text).toContain('"es" locale');
+    expect(prompt.text).not.toContain('currency');
+    expect(prompt.missing).toEqual([]);
+  });
+
+  it('lets tenants and requests override the variables', async () => {
+    const service = await create({
+      PROMPT_VARIABLES: JSON.stringify({ tone: 'formal' }),
+    });
+
+    expect(service.render(PRODUCTS_SYSTEM_PROMPT).text).toContain(
+      'Use a formal tone.',
+    );
+    expect(
+      service.render(PRODUCTS_SYSTEM_PROMPT, {}, { tenant: teaShop }).text,
+    ).toMatch(
+      /^You are the shopping assistant of Tea Shop\. Use a calm tone\./,
+    );
+    expect(
+      service.render(
+        PRODUCTS_SYSTEM_PROMPT,
+        { tone: 'warm' },
+        { tenant: teaShop },
+      ).text,
+    ).toContain('Use a warm tone.');
+  });
+
+  it('picks the version of the request, the tenant or PROMPT_VERSIONS', async () => {
+    const service = await create({
+      PROMPT_VERSIONS: JSON.stringify({ [PRODUCTS_SYSTEM_PROMPT]: 1 }),
+    });
+    const pinned = {
+      ...teaShop,
+      promptVersions: { [PRODUCTS_SYSTEM_PROMPT]: 2 },
+    };
+
+    expect(service.render(PRODUCTS_SYSTEM_PROMPT).version).toBe(1);
+    expect(
+      service.render(PRODUCTS_SYSTEM_PROMPT, {}, { tenant: pinned }).version,
+    ).toBe(2);
+    expect(
+      service.render(PRODUCTS_SYSTEM_PROMPT, {}, { tenant: pinned, version: 1 })
+        .version,
+    ).toBe(1);
+    expect(() =>
+      service.render(PRODUCTS_SYSTEM_PROMPT, {}, { version: 9 }),
+    ).toThrow(NotFoundException);
+    expect(() => service.render('unknown')).toThrow(NotFoundException);
+  });
+
+  it('lists every template with its versions and variables', async () => {
+    const service = await create();
+
+    expect(service.list()).toContainEqual({
+      name: PRODUCTS_SYSTEM_PROMPT,
+      description: 'Store assistant persona with catalog guardrails',
+      versions: [1, 2],
+      activeVersion: 2,
+      variables: ['instructions', 'storeName', 'tone', 'language', 'currency'],
+    });
+  });
+
+  it('renders the product list of the search results', async () => {
+    const service = await create();
+
+    const { text } = service.render(PRODUCT_SEARCH_RESULTS_PROMPT, {
+      products: [
+        { id: 'teapot', title: 'Teapot', relevance: '0.90', matches: '' },
+      ],
+    });
+
+    expect(text).toMatch(/^ID: teapot\nProduct: Teapot\n/);
+    expect(text).toContain('Relevance: 0.90\n');
+    expect(text).toMatch(/Only recommend products from this list\.$/);
+    expect(
+      service.render(PRODUCT_SEARCH_RESULTS_PROMPT, { products: [] }).text,
+    ).toMatch(/^No products match this search\./);
+  });
+
+  it('keeps the current templates when a reload finds an invalid one', async () => {
+    const service = await create();
+    writeFileSync(join(dir, PRODUCTS_SYSTEM_PROMPT, 'v3.md'), '{{#open}}');
+
+    await expect(service.reload()).rejects.toThrow(ValidationException);
+    expect(service.render(PRODUCTS_SYSTEM_PROMPT).version).toBe(2);
+
+    writeFileSync(join(dir, PRODUCTS_SYSTEM_PROMPT, 'v3.md'), 'Short.');
+    await expect(service.reload()).resolves.toBe(5);
+    expect(service.render(PRODUCTS_SYSTEM_PROMPT).text).toBe('Short.');
+  });
+
+  it('refuses to start without the required templates', async () => {
+    rmSync(join(dir, PRODUCT_SEARCH_RESULTS_PROMPT), { recursive: true });
+
+    await expect(create()).rejects.toThrow(
+      `Missing prompt templates in ${dir}: ${PRODUCT_SEARCH_RESULTS_PROMPT}`,
+    );
+  });
+});
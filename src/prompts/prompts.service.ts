@@ -0,0 +1,239 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ValidationException } from '../common/errors/app.exception';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
+import { DEFAULT_TENANT } from '../tenants/tenants.service';
+import {
+  PromptTemplate,
+  PromptTemplateSummary,
+  RenderedPrompt,
+} from './interfaces/prompt-template.interface';
+import {
+  parseTemplate,
+  renderTemplate,
+  templateVariables,
+  TemplateVariables,
+} from './utils/template';
+
+/** System prompt of the `/ai` endpoints. */
+export const AI_SYSTEM_PROMPT = 'ai-system';
+/** System prompt of the `/products` endpoints. */
+export const PRODUCTS_SYSTEM_PROMPT = 'products-system';
+/** Tool result of `searchProduct`. */
+export const PRODUCT_SEARCH_RESULTS_PROMPT = 'product-search-results';
+
+const REQUIRED_TEMPLATES = [
+  AI_SYSTEM_PROMPT,
+  PRODUCTS_SYSTEM_PROMPT,
+  PRODUCT_SEARCH_RESULTS_PROMPT,
+];
+
+const VERSION_FILE = /^v(\d+)\.md$/;
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+/**
+ * Named, versioned prompt templates, read from `PROMPTS_DIR`
+ * (`data/prompts` by default) so prompts can be tuned without code changes.
+ *
+ * Variables are merged, later sources winning: the front matter of the
+ * template, `PROMPT_VARIABLES`, the tenant's `promptVariables` (with
+ * `storeName` defaulting to the tenant name), then the values of the request
+ * such as `language` and `currency`.
+ */
+@Injectable()
+export class PromptsService implements OnModuleInit {
+  private readonly logger = new Logger(PromptsService.name);
+  /** Versions of each template, oldest first. */
+  private templates = new Map<string, PromptTemplate[]>();
+  private readonly versions: Record<string, number>;
+  private readonly variables: Record<string, string>;
+
+  constructor(private readonly configService: ConfigService) {
+    this.versions = this.loadJson('PROMPT_VERSIONS');
+    this.variables = this.loadJson('PROMPT_VARIABLES');
+  }
+
+  /**
+   * @throws {Error} If a template is invalid or a required one is missing;
+   * the assistants cannot answer without them.
+   */
+  async onModuleInit() {
+    this.templates = await this.readTemplates();
+  }
+
+  /**
+   * Reads the templates again, e.g. after they were edited. The current ones
+   * are kept if the new ones are invalid.
+   *
+   * @returns The number of template versions loaded.
+   * @throws {ValidationException} If a template is invalid or a required one is missing.
+   */
+  async reload(): Promise<number> {
+    try {
+      this.templates = await this.readTemplates();
+    } catch (error) {
+      throw new ValidationException(`Templates not reloaded: ${error.message}`);
+    }
+    return [...this.templates.values()].flat().length;
+  }
+
+  list(tenant: Tenant = DEFAULT_TENANT): PromptTemplateSummary[] {
+    return [...this.templates.keys()].sort().map((name) => {
+      const active = this.template(name, undefined, tenant);
+      return {
+        name,
+        description: active.description,
+        versions: this.templates.get(name).map((template) => template.version),
+        activeVersion: active.version,
+        variables: active.variables,
+      };
+    });
+  }
+
+  /**
+   * Renders a template for a tenant.
+   *
+   * @param variables - Values of the request; `undefined` values are ignored.
+   * @param options - `version` overrides the active version, e.g. to preview a draft.
+   * @throws {NotFoundException} If the template or the version does not exist.
+   */
+  render(
+    name: string,
+    variables: TemplateVariables = {},
+    {
+      tenant = DEFAULT_TENANT,
+      version,
+    }: { tenant?: Tenant; version?: number } = {},
+  ): RenderedPrompt {
+    const template = this.template(name, version, tenant);
+    const merged: TemplateVariables = {
+      ...template.defaults,
+      ...this.variables,
+      ...(tenant.id !== DEFAULT_TENANT.id && { storeName: tenant.name }),
+      ...tenant.promptVariables,
+    };
+    for (const [key, value] of Object.entries(variables)) {
+      if (value !== undefined) merged[key] = value;
+    }
+
+    const { text, missing } = renderTemplate(template.nodes, merged);
+    return {
+      name,
+      version: template.version,
+      text,
+      missing,
+      variables: merged,
+    };
+  }
+
+  private template(
+    name: string,
+    version: number | undefined,
+    tenant: Tenant,
+  ): PromptTemplate {
+    const versions = this.templates.get(name);
+    if (!versions) {
+      throw new NotFoundException(`Prompt template ${name} not found`);
+    }
+    const wanted =
+      version ?? tenant.promptVersions?.[name] ?? this.versions[name];
+    if (wanted === undefined) return versions[versions.length - 1];
+
+    const template = versions.find((candidate) => candidate.version === wanted);
+    if (!template) {
+      throw new NotFoundException(
+        `Prompt template ${name} has no version ${wanted}`,
+      );
+    }
+    return template;
+  }
+
+  private async readTemplates(): Promise<Map<string, PromptTemplate[]>> {
+    const dir =
+      this.configService.get('PROMPTS_DIR') ||
+      join(__dirname, '..', '..', 'data', 'prompts');
+    const templates = new Map<string, PromptTemplate[]>();
+
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      const versions: PromptTemplate[] = [];
+      for (const file of await fs.readdir(join(dir, entry.name))) {
+        const match = VERSION_FILE.exec(file);
+        if (!match) continue;
+        const content = await fs.readFile(join(dir, entry.name, file), 'utf8');
+        try {
+          versions.push(this.parse(entry.name, Number(match[1]), content));
+        } catch (error) {
+          throw new Error(`${entry.name}/${file}: ${error.message}`);
+        }
+      }
+      if (versions.length) {
+        templates.set(
+          entry.name,
+          versions.sort((a, b) => a.version - b.version),
+        );
+      }
+    }
+
+    const missing = REQUIRED_TEMPLATES.filter((name) => !templates.has(name));
+    if (missing.length) {
+      throw new Error(
+        `Missing prompt templates in ${dir}: ${missing.join(', ')}`,
+      );
+    }
+    this.logger.log(`Loaded ${templates.size} prompt templates from ${dir}`);
+    return templates;
+  }
+
+  /**
+   * Splits the optional front matter (`key: value` lines between `---`
+   * lines) from the template text.
+   */
+  private parse(
+    name: string,
+    version: number,
+    content: string,
+  ): PromptTemplate {
+    const frontMatter = FRONT_MATTER.exec(content);
+    const defaults: Record<string, string> = {};
+    for (const line of frontMatter?.[1].split(/\r?\n/) ?? []) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        defaults[line.slice(0, separator).trim()] = line
+          .slice(separator + 1)
+          .trim();
+      }
+    }
+    const { description, ...variables } = defaults;
+
+    const source = frontMatter ? content.slice(frontMatter[0].length) : content;
+    const nodes = parseTemplate(source);
+    return {
+      name,
+      version,
+      description,
+      defaults: variables,
+      source,
+      nodes,
+      variables: templateVariables(nodes),
+    };
+  }
+
+  private loadJson<T>(name: string): T | Record<string, never> {
+    const raw = this.configService.get(name);
+    if (!raw) return {};
+    try {
+      return typeof raw === 'string' ? JSON.parse(raw) : raw;
+    } catch (error) {
+      this.logger.warn(`Ignoring invalid ${name}: ${error.message}`);
+      return {};
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { parseTemplate, renderTemplate, templateVariables } from './template';
+
+describe('template', () => {
+  const render = (source: string, variables = {}) =>
+    renderTemplate(parseTemplate(source), variables);
+
+  it('substitutes variables and reports the missing ones', () => {
+    expect(render('Hi {{ name }}, from {{store}}.', { name: 'Ana' })).toEqual({
+      text: 'Hi Ana, from .',
+      missing: ['store'],
+    });
+  });
+
+  it('renders sections only when their value is set, and inverted ones otherwise', () => {
+    const source =
+      '{{#tone}}Use a {{tone}} tone.{{/tone}}{{^tone}}Be neutral.{{/tone}}';
+
+    expect(render(source, { tone: 'playful' }).text).toBe(
+      'Use a playful tone.',
+    );
+    expect(render(source, { tone: '' }).text).toBe('Be neutral.');
+    expect(render(source).missing).toEqual([]);
+  });
+
+  it('repeats list sections with each item in scope', () => {
+    const source =
+      '{{#items}}- {{id}} ({{currency}})\n{{/items}}{{^items}}None{{/items}}';
+
+    expect(
+      render(source, { items: [{ id: 'a' }, { id: 'b' }], currency: 'EUR' })
+        .text,
+    ).toBe('- a (EUR)\n- b (EUR)');
+    expect(render(source, { items: [] }).text).toBe('None');
+  });
+
+  it('collapses the blank lines left by empty sections', () => {
+    expect(render('First\n\n{{#a}}A{{/a}}\n\n\nLast  ').text).toBe(
+      'First\n\nLast',
+    );
+  });
+
+  it('lists the variables of a template', () => {
+    expect(
+      templateVariables(parseTemplate('{{#a}}{{b}}{{/a}}{{c}}{{b}}')),
+    ).toEqual(['a', 'b', 'c']);
+  });
+
+  it('rejects unbalanced sections', () => {
+    expect(() => parseTemplate('{{#a}}text')).toThrow('Unclosed {{#a}}');
+    expect(() => parseTemplate('text{{/a}}')).toThrow();
+  });
+});
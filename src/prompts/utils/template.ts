@@ -0,0 +1,151 @@
+/**
+ * Minimal Mustache-style templates for prompts:
+ *
+ * - `{{name}}` inserts a variable; missing variables insert nothing.
+ * - `{{#name}}…{{/name}}` renders its content when `name` is set (not empty,
+ *   `false` or an empty list). For a list, it renders once per item, with
+ *   the item's fields as variables.
+ * - `{{^name}}…{{/name}}` renders its content when `name` is not set.
+ *
+ * There is no escaping: prompts are plain text.
+ */
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateVariables[];
+
+export interface TemplateVariables {
+  [name: string]: TemplateValue;
+}
+
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string }
+  | {
+      type: 'section';
+      name: string;
+      inverted: boolean;
+      children: TemplateNode[];
+    };
+
+const TAG = /\{\{\s*([#^/]?)\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * @throws {Error} If a section is not closed, or closed out of order.
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { name: string; children: TemplateNode[] }[] = [
+    { name: '', children: root },
+  ];
+  let last = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const [tag, kind, name] = match;
+    const { children } = stack[stack.length - 1];
+    if (match.index > last) {
+      children.push({ type: 'text', text: source.slice(last, match.index) });
+    }
+    last = match.index + tag.length;
+
+    if (kind === '/') {
+      if (stack.length === 1 || stack[stack.length - 1].name !== name) {
+        throw new Error(`Unexpected {{/${name}}}`);
+      }
+      stack.pop();
+    } else if (kind) {
+      const section: TemplateNode = {
+        type: 'section',
+        name,
+        inverted: kind === '^',
+        children: [],
+      };
+      children.push(section);
+      stack.push({ name, children: section.children });
+    } else {
+      children.push({ type: 'variable', name });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed {{#${stack[stack.length - 1].name}}}`);
+  }
+  if (last < source.length) {
+    root.push({ type: 'text', text: source.slice(last) });
+  }
+  return root;
+}
+
+/** Names of every variable and section of a template, in order. */
+export function templateVariables(nodes: TemplateNode[]): string[] {
+  const names = new Set<string>();
+  const visit = (list: TemplateNode[]) => {
+    for (const node of list) {
+      if (node.type === 'text') continue;
+      names.add(node.name);
+      if (node.type === 'section') visit(node.children);
+    }
+  };
+  visit(nodes);
+  return [...names];
+}
+
+/**
+ * Renders a parsed template. Blank lines left by empty sections are
+ * collapsed, and the result is trimmed.
+ *
+ * @returns The text and the `{{name}}` variables that had no value.
+ */
+export function renderTemplate(
+  nodes: TemplateNode[],
+  variables: TemplateVariables,
+): { text: string; missing: string[] } {
+  const missing = new Set<string>();
+  const render = (list: TemplateNode[], scopes: TemplateVariables[]): string =>
+    list
+      .map((node) => {
+        if (node.type === 'text') return node.text;
+        const value = lookup(scopes, node.name);
+        if (node.type === 'variable') {
+          if (value === undefined || value === null) {
+            missing.add(node.name);
+            return '';
+          }
+          return Array.isArray(value) ? '' : String(value);
+        }
+        if (node.inverted) {
+          return isSet(value) ? '' : render(node.children, scopes);
+        }
+        if (!isSet(value)) return '';
+        return Array.isArray(value)
+          ? value
+              .map((item) => render(node.children, [item, ...scopes]))
+              .join('')
+          : render(node.children, scopes);
+      })
+      .join('');
+
+  const text = render(nodes, [variables])
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return { text, missing: [...missing] };
+}
+
+function lookup(scopes: TemplateVariables[], name: string): TemplateValue {
+  for (const scope of scopes) {
+    if (scope[name] !== undefined) return scope[name];
+  }
+  return undefined;
+}
+
+function isSet(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return (
+    value !== undefined && value !== null && value !== '' && value !== false
+  );
+}
@@ -0,0 +1,73 @@
+import { CircuitOpenException } from '../common/errors/app.exception';
+import { CircuitBreaker } from './circuit-breaker';
+import { DEFAULT_POLICY } from './resilience-policies';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker(
+      'weather',
+      { ...DEFAULT_POLICY, failureThreshold: 2, resetTimeoutMs: 1000 },
+      () => now,
+    );
+  });
+
+  const trip = () => {
+    breaker.onFailure('down');
+    breaker.onFailure('down');
+  };
+
+  it('opens after consecutive failures', () => {
+    breaker.onFailure('down');
+    breaker.onSuccess();
+    breaker.onFailure('down');
+    expect(breaker.snapshot().state).toBe('closed');
+
+    breaker.onFailure('down');
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'open',
+      failures: 2,
+      openedAt: '1970-01-01T00:00:00.000Z',
+      retryAt: '1970-01-01T00:00:01.000Z',
+    });
+    expect(() => breaker.acquire()).toThrow(CircuitOpenException);
+  });
+
+  it('lets one trial call through after the reset timeout', () => {
+    trip();
+    now = 1000;
+
+    breaker.acquire();
+    expect(breaker.snapshot().state).toBe('half_open');
+    expect(() => breaker.acquire()).toThrow(CircuitOpenException);
+
+    breaker.onSuccess();
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', failures: 0 });
+  });
+
+  it('opens again when the trial call fails', () => {
+    trip();
+    now = 1500;
+    breaker.acquire();
+
+    breaker.onFailure('still down');
+
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'open',
+      lastError: 'still down',
+      openedAt: '1970-01-01T00:00:01.500Z',
+    });
+  });
+
+  it('tells callers when to retry', () => {
+    trip();
+    now = 400;
+
+    expect(() => breaker.acquire()).toThrow(
+      'weather is unavailable: temporarily disabled after repeated failures, retry in 1s',
+    );
+  });
+});
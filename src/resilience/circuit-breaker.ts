@@ -0,0 +1,86 @@
+import { CircuitOpenException } from '../common/errors/app.exception';
+import {
+  BreakerState,
+  DependencyHealth,
+} from './interfaces/resilience.interface';
+import { ResiliencePolicy } from './resilience-policies';
+
+/**
+ * Consecutive-failure circuit breaker of one dependency.
+ *
+ * After `failureThreshold` failed calls in a row it opens and rejects calls
+ * for `resetTimeoutMs`. Then it lets a single trial call through
+ * (`half_open`): success closes it, failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: BreakerState = 'closed';
+  private failures = 0;
+  private openedAt?: number;
+  private lastError?: string;
+  private trialInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private readonly policy: ResiliencePolicy,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Call before each call to the dependency.
+   *
+   * @throws {CircuitOpenException} If the breaker is open, or a trial call is already running.
+   */
+  acquire() {
+    if (this.state === 'open') {
+      const retryAfterMs =
+        this.openedAt + this.policy.resetTimeoutMs - this.now();
+      if (retryAfterMs > 0) {
+        throw new CircuitOpenException(this.name, retryAfterMs);
+      }
+      this.state = 'half_open';
+    }
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenException(this.name, this.policy.resetTimeoutMs);
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  onSuccess() {
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  onFailure(message: string) {
+    this.failures++;
+    this.lastError = message;
+    this.trialInFlight = false;
+    if (
+      this.state === 'half_open' ||
+      this.failures >= this.policy.failureThreshold
+    ) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  snapshot(): DependencyHealth {
+    const health: DependencyHealth = {
+      name: this.name,
+      state: this.state,
+      critical: this.policy.critical,
+      failures: this.failures,
+    };
+    if (this.lastError) health.lastError = this.lastError;
+    if (this.openedAt !== undefined) {
+      health.openedAt = new Date(this.openedAt).toISOString();
+      health.retryAt = new Date(
+        this.openedAt + this.policy.resetTimeoutMs,
+      ).toISOString();
+    }
+    return health;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * - `closed`: calls go through.
+ * - `open`: calls fail fast with `CircuitOpenException`.
+ * - `half_open`: the reset timeout elapsed; one trial call decides.
+ */
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface DependencyHealth {
+  name: string;
+  state: BreakerState;
+  critical: boolean;
+  /** Consecutive failed calls. */
+  failures: number;
+  /** Message of the last failure, if any. */
+  lastError?: string;
+  /** When the breaker opened (ISO 8601). */
+  openedAt?: string;
+  /** When an open breaker lets the next trial call through (ISO 8601). */
+  retryAt?: string;
+}
+
+export interface HealthReport {
+  /** `unavailable` when a critical dependency is open, `degraded` when any other is not closed. */
+  status: 'ok' | 'degraded' | 'unavailable';
+  dependencies: DependencyHealth[];
+}
+
+export interface ExecuteOptions<T> {
+  /**
+   * Marks a resolved result as a transient failure, e.g. an HTTP 503. It is
+   * retried like an error; the last one is returned to the caller and
+   * counted by the breaker.
+   */
+  isFailure?: (result: T) => boolean;
+}
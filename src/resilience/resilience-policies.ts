@@ -0,0 +1,67 @@
+export interface ResiliencePolicy {
+  /** Per-attempt time limit; the attempt is aborted once it elapses. */
+  timeoutMs: number;
+  /** Longest wait between two chunks of a stream once the first one arrived. */
+  idleTimeoutMs: number;
+  /** Extra attempts after a retryable failure (0 disables retries). */
+  retries: number;
+  /** First backoff step; each retry doubles it, with full jitter. */
+  baseDelayMs: number;
+  /** Upper bound of a single backoff delay. */
+  maxDelayMs: number;
+  /** Consecutive failed calls that open the circuit breaker. */
+  failureThreshold: number;
+  /** How long an open breaker fails fast before letting a trial call through. */
+  resetTimeoutMs: number;
+  /** Readiness fails while the breaker of a critical dependency is open. */
+  critical: boolean;
+}
+
+/** Used for dependencies without a policy of their own. */
+export const DEFAULT_POLICY: ResiliencePolicy = {
+  timeoutMs: 5000,
+  idleTimeoutMs: 5000,
+  retries: 2,
+  baseDelayMs: 200,
+  maxDelayMs: 2000,
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+  critical: false,
+};
+
+/** Known dependencies, reported by `/health` even before their first call. */
+export const DEFAULT_RESILIENCE_POLICIES: Record<string, ResiliencePolicy> = {
+  llm: {
+    ...DEFAULT_POLICY,
+    timeoutMs: 60000,
+    idleTimeoutMs: 30000,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    critical: true,
+  },
+  weather: { ...DEFAULT_POLICY },
+  population: { ...DEFAULT_POLICY },
+  'currency-rates': { ...DEFAULT_POLICY, timeoutMs: 3000 },
+};
+
+/**
+ * Merges per-dependency overrides (e.g. parsed from `RESILIENCE_POLICIES`)
+ * over the defaults. New dependency names start from `DEFAULT_POLICY`;
+ * unknown keys and non-numeric limits are ignored.
+ */
+export function mergeResiliencePolicies(
+  override: Record<string, Partial<ResiliencePolicy>> = {},
+): Record<string, ResiliencePolicy> {
+  const policies: Record<string, ResiliencePolicy> = {
+    ...DEFAULT_RESILIENCE_POLICIES,
+  };
+  for (const [name, partial] of Object.entries(override)) {
+    const policy = { ...(policies[name] ?? DEFAULT_POLICY) };
+    for (const key of Object.keys(DEFAULT_POLICY)) {
+      const value = partial?.[key];
+      if (typeof value === typeof DEFAULT_POLICY[key]) policy[key] = value;
+    }
+    policies[name] = policy;
+  }
+  return policies;
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ResilienceService } from './resilience.service';
+
+@Module({
+  providers: [ResilienceService], // One breaker per dependency, shared by every module that imports this one
+  exports: [ResilienceService],
+})
+export class ResilienceModule {}
@@ -0,0 +1,159 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  CircuitOpenException,
+  UpstreamAuthException,
+  UpstreamTimeoutException,
+  UpstreamUnavailableException,
+} from '../common/errors/app.exception';
+import { ResilienceService } from './resilience.service';
+import { backoffDelay } from './utils/retry';
+
+describe('ResilienceService', () => {
+  let service: ResilienceService;
+
+  beforeEach(() => {
+    service = new ResilienceService(
+      new ConfigService({
+        RESILIENCE_POLICIES: {
+          test: {
+            timeoutMs: 50,
+            retries: 2,
+            baseDelayMs: 1,
+            maxDelayMs: 2,
+            failureThreshold: 2,
+            resetTimeoutMs: 60000,
+          },
+        },
+      }),
+    );
+  });
+
+  it('retries transient failures with backoff', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockRejectedValueOnce(
+        new UpstreamUnavailableException('test', 'Bad gateway', {
+          cause: { status: 502 },
+        }),
+      )
+      .mockResolvedValueOnce('ok');
+
+    await expect(service.execute('test', operation)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that cannot be fixed by retrying', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValue(new UpstreamAuthException('test'));
+
+    await expect(service.execute('test', operation)).rejects.toBeInstanceOf(
+      UpstreamAuthException,
+    );
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(service.health().dependencies).toContainEqual(
+      expect.objectContaining({ name: 'test', state: 'closed', failures: 0 }),
+    );
+  });
+
+  it('aborts attempts that exceed the timeout', async () => {
+    const signals: AbortSignal[] = [];
+    const operation = (signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<never>(() => undefined);
+    };
+
+    await expect(service.execute('test', operation)).rejects.toBeInstanceOf(
+      UpstreamTimeoutException,
+    );
+    expect(signals).toHaveLength(3);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it('returns the last retryable result once retries are exhausted', async () => {
+    const operation = jest
+      .fn<Promise<{ status: number }>, [AbortSignal]>()
+      .mockResolvedValue({ status: 503 });
+
+    await expect(
+      service.execute('test', operation, {
+        isFailure: (response: { status: number }) => response.status === 503,
+      }),
+    ).resolves.toEqual({ status: 503 });
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('opens the breaker after repeated failures and fails fast', async () => {
+    const operation = jest.fn().mockRejectedValue(new TypeError('down'));
+    for (let call = 0; call < 2; call++) {
+      await expect(service.execute('test', operation)).rejects.toThrow('down');
+    }
+    operation.mockClear();
+
+    await expect(service.execute('test', operation)).rejects.toBeInstanceOf(
+      CircuitOpenException,
+    );
+    expect(operation).not.toHaveBeenCalled();
+    expect(service.health()).toMatchObject({
+      status: 'degraded',
+      dependencies: expect.arrayContaining([
+        expect.objectContaining({
+          name: 'test',
+          state: 'open',
+          failures: 2,
+          lastError: 'down',
+        }),
+      ]),
+    });
+  });
+
+  it('reports unavailable while a critical breaker is open', async () => {
+    const critical = new ResilienceService(
+      new ConfigService({
+        RESILIENCE_POLICIES: JSON.stringify({
+          llm: { retries: 0, failureThreshold: 1 },
+        }),
+      }),
+    );
+
+    await expect(
+      critical.execute('llm', () => Promise.reject(new TypeError('down'))),
+    ).rejects.toThrow('down');
+
+    expect(critical.health().status).toBe('unavailable');
+  });
+
+  it('lists the known dependencies before their first call', () => {
+    expect(service.health()).toEqual({
+      status: 'ok',
+      dependencies: expect.arrayContaining(
+        ['llm', 'weather', 'population', 'currency-rates', 'test'].map((name) =>
+          expect.objectContaining({ name, state: 'closed' }),
+        ),
+      ),
+    });
+  });
+
+  it('ignores invalid policies', () => {
+    const fallback = new ResilienceService(
+      new ConfigService({ RESILIENCE_POLICIES: '{not json' }),
+    );
+
+    expect(fallback.policy('llm').critical).toBe(true);
+  });
+});
+
+describe('backoffDelay', () => {
+  const policy = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+  it('doubles the ceiling on every retry, up to the maximum', () => {
+    expect(backoffDelay(0, policy, () => 1)).toBe(100);
+    expect(backoffDelay(2, policy, () => 1)).toBe(400);
+    expect(backoffDelay(5, policy, () => 1)).toBe(1000);
+  });
+
+  it('picks a random delay below the ceiling', () => {
+    expect(backoffDelay(2, policy, () => 0.25)).toBe(100);
+  });
+});
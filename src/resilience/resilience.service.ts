@@ -0,0 +1,158 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UpstreamTimeoutException } from '../common/errors/app.exception';
+import { CircuitBreaker } from './circuit-breaker';
+import {
+  ExecuteOptions,
+  HealthReport,
+} from './interfaces/resilience.interface';
+import {
+  DEFAULT_POLICY,
+  mergeResiliencePolicies,
+  ResiliencePolicy,
+} from './resilience-policies';
+import { backoffDelay, isTransientError } from './utils/retry';
+
+/**
+ * Shared timeouts, retries and circuit breakers for upstream calls. Each
+ * dependency ("llm", "weather", "currency-rates"…) has its own policy, from
+ * `RESILIENCE_POLICIES` merged over `DEFAULT_RESILIENCE_POLICIES`, and its
+ * own breaker.
+ */
+@Injectable()
+export class ResilienceService {
+  private readonly logger = new Logger(ResilienceService.name);
+  private readonly policies: Record<string, ResiliencePolicy>;
+  private readonly breakers = new Map<string, CircuitBreaker>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.policies = this.loadPolicies();
+    for (const name of Object.keys(this.policies)) this.breaker(name);
+  }
+
+  /**
+   * Runs `operation` under the policy of `dependency`: every attempt gets an
+   * abort signal and a time limit, transient failures are retried with
+   * backoff, and the outcome feeds the breaker.
+   *
+   * @param operation - Should pass `signal` on to the underlying request.
+   * @throws {CircuitOpenException} If the breaker is open; `operation` is not called.
+   * @throws {UpstreamTimeoutException} If the last attempt timed out.
+   */
+  async execute<T>(
+    dependency: string,
+    operation: (signal: AbortSignal) => Promise<T>,
+    options: ExecuteOptions<T> = {},
+  ): Promise<T> {
+    const policy = this.policy(dependency);
+    const breaker = this.breaker(dependency);
+    breaker.acquire();
+
+    for (let attempt = 0; ; attempt++) {
+      const last = attempt >= policy.retries;
+      try {
+        const result = await this.attempt(dependency, policy, operation);
+        if (!options.isFailure?.(result)) {
+          breaker.onSuccess();
+          return result;
+        }
+        if (last) {
+          breaker.onFailure('Upstream answered with a retryable failure');
+          return result;
+        }
+      } catch (error) {
+        if (!isTransientError(error)) {
+          // The dependency answered; the request itself was refused
+          breaker.onSuccess();
+          throw error;
+        }
+        if (last) {
+          breaker.onFailure(error.message);
+          throw error;
+        }
+      }
+      const delay = backoffDelay(attempt, policy);
+      this.logger.warn(
+        `${dependency} attempt ${attempt + 1} failed, retrying in ${delay}ms`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /** Breaker state of every known dependency, for `/health`. */
+  health(): HealthReport {
+    const dependencies = [...this.breakers.values()].map((breaker) =>
+      breaker.snapshot(),
+    );
+    let status: HealthReport['status'] = 'ok';
+    if (dependencies.some((dependency) => dependency.state !== 'closed')) {
+      status = 'degraded';
+    }
+    if (
+      dependencies.some(
+        (dependency) => dependency.critical && dependency.state === 'open',
+      )
+    ) {
+      status = 'unavailable';
+    }
+    return { status, dependencies };
+  }
+
+  policy(dependency: string): ResiliencePolicy {
+    return this.policies[dependency] ?? DEFAULT_POLICY;
+  }
+
+  private async attempt<T>(
+    dependency: string,
+    policy: ResiliencePolicy,
+    operation: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new UpstreamTimeoutException(dependency));
+      }, policy.timeoutMs);
+    });
+
+    try {
+      // The race also bounds operations that ignore the signal
+      return await Promise.race([operation(controller.signal), timeout]);
+    } catch (error) {
+      if (
+        controller.signal.aborted &&
+        !(error instanceof UpstreamTimeoutException)
+      ) {
+        throw new UpstreamTimeoutException(dependency, { cause: error });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private breaker(dependency: string): CircuitBreaker {
+    let breaker = this.breakers.get(dependency);
+    if (!breaker) {
+      breaker = new CircuitBreaker(dependency, this.policy(dependency));
+      this.breakers.set(dependency, breaker);
+    }
+    return breaker;
+  }
+
+  private loadPolicies(): Record<string, ResiliencePolicy> {
+    const raw = this.configService.get('RESILIENCE_POLICIES');
+    if (!raw) return mergeResiliencePolicies();
+    try {
+      return mergeResiliencePolicies(
+        typeof raw === 'string' ? JSON.parse(raw) : raw,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Ignoring invalid RESILIENCE_POLICIES: ${error.message}`,
+      );
+      return mergeResiliencePolicies();
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { AppException } from '../../common/errors/app.exception';
+import { ErrorCode } from '../../common/errors/error-code';
+import { ResiliencePolicy } from '../resilience-policies';
+
+/** Statuses worth retrying: timeouts, rate limits and server errors. */
+export const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.includes(status);
+}
+
+/**
+ * Whether an error is a transient upstream failure: a timeout, a network
+ * error or a retryable status. Credential, validation and content policy
+ * errors are not; retrying them cannot help.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof AppException) {
+    if (error.code === ErrorCode.UPSTREAM_TIMEOUT) return true;
+    if (error.code !== ErrorCode.UPSTREAM_UNAVAILABLE) return false;
+    // Mapped SDK errors keep the upstream status in `cause`; none means a connection error
+    const status = (error.cause as { status?: unknown })?.status;
+    return typeof status !== 'number' || isRetryableStatus(status);
+  }
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return isRetryableStatus(status);
+  // `fetch` rejects with a TypeError on DNS, connection and TLS failures
+  return error instanceof TypeError;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * `baseDelayMs * 2^attempt`, capped at `maxDelayMs`.
+ *
+ * @param attempt - 0 for the first retry.
+ */
+export function backoffDelay(
+  attempt: number,
+  policy: Pick<ResiliencePolicy, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(2, attempt),
+  );
+  return Math.round(random() * ceiling);
+}
@@ -0,0 +1,21 @@
+/**
+ * Turns texts into vectors for semantic search.
+ */
+export abstract class EmbeddingProvider {
+  /**
+   * Identifies the provider and model. Cached vectors from a different
+   * provider are discarded.
+   */
+  abstract readonly id: string;
+
+  /**
+   * Called with every document before they are embedded, for providers that
+   * need corpus statistics (e.g. TF-IDF). Optional.
+   */
+  fit?(documents: string[]): void;
+
+  /**
+   * @returns One vector per text, in the same order.
+   */
+  abstract embed(texts: string[]): Promise<number[][]>;
+}
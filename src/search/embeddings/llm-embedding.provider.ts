@@ -0,0 +1,22 @@
+import { LlmProvider } from '../../llm/llm.provider';
+import { EmbeddingProvider } from './embedding.provider';
+
+/**
+ * Embeddings from the configured `LlmProvider` (`text-embedding-3-small` by
+ * default on OpenAI).
+ */
+export class LlmEmbeddingProvider extends EmbeddingProvider {
+  readonly id: string;
+
+  constructor(
+    private readonly llmProvider: LlmProvider,
+    private readonly model = llmProvider.defaultEmbeddingModel,
+  ) {
+    super();
+    this.id = `${llmProvider.name}:${model}`;
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    return this.llmProvider.embed({ model: this.model, input: texts });
+  }
+}
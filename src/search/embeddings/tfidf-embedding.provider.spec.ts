@@ -0,0 +1,22 @@
+import { cosineSimilarity } from '../utils/vector-math';
+import { TfIdfEmbeddingProvider } from './tfidf-embedding.provider';
+
+describe('TfIdfEmbeddingProvider', () => {
+  it('is deterministic and weights rare words higher', async () => {
+    const provider = new TfIdfEmbeddingProvider();
+    provider.fit(['red dress', 'red shoes', 'red hat', 'blue dress']);
+
+    const [query, dress, shoes] = await provider.embed([
+      'red dress',
+      'blue dress',
+      'red shoes',
+    ]);
+    const [again] = await provider.embed(['red dress']);
+
+    expect(again).toEqual(query);
+    // "dress" is rarer than "red", so sharing it counts for more
+    expect(cosineSimilarity(query, dress)).toBeGreaterThan(
+      cosineSimilarity(query, shoes),
+    );
+  });
+});
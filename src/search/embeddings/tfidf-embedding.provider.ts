@@ -0,0 +1,66 @@
+import { tokenize } from '../utils/tokenize';
+import { EmbeddingProvider } from './embedding.provider';
+
+const DIMENSIONS = 1024;
+
+/**
+ * Deterministic, offline embeddings: TF-IDF weights hashed into a fixed number
+ * of dimensions. It only matches shared words, but needs no network, which
+ * makes it the fallback when no OpenAI key is configured and the provider used
+ * by tests.
+ */
+export class TfIdfEmbeddingProvider extends EmbeddingProvider {
+  readonly id = `tfidf:${DIMENSIONS}`;
+  private idf = new Map<string, number>();
+  private documentCount = 0;
+
+  fit(documents: string[]) {
+    const documentFrequency = new Map<string, number>();
+    for (const document of documents) {
+      for (const token of new Set(tokenize(document))) {
+        documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+      }
+    }
+    this.documentCount = documents.length;
+    this.idf = new Map(
+      [...documentFrequency].map(([token, frequency]) => [
+        token,
+        Math.log((1 + documents.length) / (1 + frequency)) + 1,
+      ]),
+    );
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.vectorize(text));
+  }
+
+  private vectorize(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+
+    // Unknown words get the IDF of a term seen in no document.
+    const unseenIdf = Math.log(1 + this.documentCount) + 1;
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+    for (const [token, count] of counts) {
+      const weight = (1 + Math.log(count)) * (this.idf.get(token) ?? unseenIdf);
+      vector[hash(token) % DIMENSIONS] += weight;
+    }
+
+    const norm = Math.sqrt(
+      vector.reduce((sum, value) => sum + value * value, 0),
+    );
+    return norm ? vector.map((value) => value / norm) : vector;
+  }
+}
+
+/** 32-bit FNV-1a hash. */
+function hash(token: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    value ^= token.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
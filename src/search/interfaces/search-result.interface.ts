@@ -0,0 +1,32 @@
+import { CatalogProduct } from '../../catalog/interfaces/catalog-product.interface';
+
+export interface ProductSearchResult {
+  product: CatalogProduct;
+  /** Relevance of the product for the query; higher is better. */
+  score: number;
+}
+
+export interface TermMatch {
+  field: 'displayTitle' | 'productType' | 'variants';
+  /** Query term. */
+  term: string;
+  /** Product word it matched. */
+  matched: string;
+  kind: 'exact' | 'prefix' | 'fuzzy';
+}
+
+export interface ScoreExplanation {
+  /** Field-weighted lexical score, from 0 to 1. */
+  lexical: number;
+  /** Cosine similarity from the semantic search. */
+  semantic: number;
+  discountBoost: number;
+  recencyBoost: number;
+  matches: TermMatch[];
+}
+
+export interface RankedProductResult extends ProductSearchResult {
+  /** Hybrid score: weighted lexical and semantic scores plus boosts. */
+  score: number;
+  explanation: ScoreExplanation;
+}
@@ -0,0 +1,40 @@
+import { CatalogProduct } from '../../catalog/interfaces/catalog-product.interface';
+import { lexicalScore } from './lexical-scorer';
+import { DEFAULT_RANKING_WEIGHTS } from './ranking-weights';
+
+const product = {
+  displayTitle: 'Ruffle Tiered Dress',
+  productType: 'Clothing',
+  variants: [{ name: 'Color', values: ['Emerald', 'Rose'] }],
+} as CatalogProduct;
+
+describe('lexicalScore', () => {
+  it('gives exact title matches the highest credit', () => {
+    const exact = lexicalScore(['dress'], product, DEFAULT_RANKING_WEIGHTS);
+    const variant = lexicalScore(['rose'], product, DEFAULT_RANKING_WEIGHTS);
+
+    expect(exact.matches).toEqual([
+      { field: 'displayTitle', term: 'dress', matched: 'dress', kind: 'exact' },
+    ]);
+    expect(exact.score).toBeGreaterThan(variant.score);
+  });
+
+  it('tolerates typos and prefixes', () => {
+    const { matches } = lexicalScore(
+      ['dres', 'emerld'],
+      product,
+      DEFAULT_RANKING_WEIGHTS,
+    );
+
+    expect(matches).toEqual([
+      { field: 'displayTitle', term: 'dres', matched: 'dress', kind: 'prefix' },
+      { field: 'variants', term: 'emerld', matched: 'emerald', kind: 'fuzzy' },
+    ]);
+  });
+
+  it('scores zero when nothing matches', () => {
+    expect(
+      lexicalScore(['laptop'], product, DEFAULT_RANKING_WEIGHTS).score,
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+import { CatalogProduct } from '../../catalog/interfaces/catalog-product.interface';
+import { TermMatch } from '../interfaces/search-result.interface';
+import { levenshtein } from '../utils/levenshtein';
+import { tokenize } from '../utils/tokenize';
+import { RankingWeights } from './ranking-weights';
+
+type Field = TermMatch['field'];
+
+const FIELDS: Field[] = ['displayTitle', 'productType', 'variants'];
+
+/**
+ * Typos tolerated for a term: none for short words, one edit from four
+ * characters and two from eight.
+ */
+function allowedEdits(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+function fieldTokens(product: CatalogProduct, field: Field): string[] {
+  if (field === 'variants') {
+    return tokenize(
+      product.variants
+        .map((group) => `${group.name} ${group.values.join(' ')}`)
+        .join(' '),
+    );
+  }
+  return tokenize(product[field]);
+}
+
+/**
+ * Scores how well the query terms match the product's title, type and
+ * variants. Each term earns its best credit per field (exact, prefix or
+ * fuzzy match); field scores are averaged over the terms and combined with
+ * the field weights.
+ *
+ * @returns A score from 0 to 1 and the matches that produced it.
+ */
+export function lexicalScore(
+  terms: string[],
+  product: CatalogProduct,
+  weights: RankingWeights,
+): { score: number; matches: TermMatch[] } {
+  const matches: TermMatch[] = [];
+  if (!terms.length) return { score: 0, matches };
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const field of FIELDS) {
+    const weight = weights.fields[field] ?? 0;
+    totalWeight += weight;
+    if (!weight) continue;
+
+    const tokens = fieldTokens(product, field);
+    let credit = 0;
+    for (const term of terms) {
+      const match = bestMatch(term, tokens, weights);
+      if (match) {
+        credit += match.credit;
+        matches.push({ field, term, matched: match.token, kind: match.kind });
+      }
+    }
+    weighted += weight * (credit / terms.length);
+  }
+
+  return { score: totalWeight ? weighted / totalWeight : 0, matches };
+}
+
+function bestMatch(
+  term: string,
+  tokens: string[],
+  weights: RankingWeights,
+): { token: string; kind: TermMatch['kind']; credit: number } | undefined {
+  let best: { token: string; kind: TermMatch['kind']; credit: number };
+  const edits = allowedEdits(term);
+  for (const token of tokens) {
+    if (token === term) return { token, kind: 'exact', credit: 1 };
+    if (
+      term.length >= 3 &&
+      token.startsWith(term) &&
+      (!best || best.credit < weights.prefixMatch)
+    ) {
+      best = { token, kind: 'prefix', credit: weights.prefixMatch };
+    } else if (
+      edits &&
+      (!best || best.credit < weights.fuzzyMatch) &&
+      levenshtein(term, token, edits) <= edits
+    ) {
+      best = { token, kind: 'fuzzy', credit: weights.fuzzyMatch };
+    }
+  }
+  return best;
+}
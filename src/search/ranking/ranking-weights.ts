@@ -0,0 +1,55 @@
+export interface RankingWeights {
+  /** Relative weight of each product field in the lexical score. */
+  fields: {
+    displayTitle: number;
+    productType: number;
+    variants: number;
+  };
+  /** Share of the lexical score in the hybrid score. */
+  lexical: number;
+  /** Share of the semantic (embedding) score in the hybrid score. */
+  semantic: number;
+  /** Credit for a term that is a prefix of a product word (exact match = 1). */
+  prefixMatch: number;
+  /** Credit for a term within the typo tolerance of a product word. */
+  fuzzyMatch: number;
+  /** Added to the score of discounted products. */
+  discountBoost: number;
+  /** Maximum boost for the newest products; decays with age. */
+  recencyBoost: number;
+  /** Age, relative to the newest product, at which the recency boost halves. */
+  recencyHalfLifeDays: number;
+  /** Results scoring below this are dropped. */
+  minScore: number;
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  fields: { displayTitle: 3, productType: 1, variants: 1.5 },
+  lexical: 0.6,
+  semantic: 0.4,
+  prefixMatch: 0.8,
+  fuzzyMatch: 0.6,
+  discountBoost: 0.05,
+  recencyBoost: 0.05,
+  recencyHalfLifeDays: 30,
+  minScore: 0.1,
+};
+
+/**
+ * Merges a partial override (e.g. parsed from `RANKING_WEIGHTS`) over the
+ * defaults. Unknown keys are ignored.
+ */
+export function mergeRankingWeights(
+  override: Partial<RankingWeights> = {},
+): RankingWeights {
+  const weights: RankingWeights = {
+    ...DEFAULT_RANKING_WEIGHTS,
+    fields: { ...DEFAULT_RANKING_WEIGHTS.fields, ...(override.fields ?? {}) },
+  };
+  for (const key of Object.keys(DEFAULT_RANKING_WEIGHTS)) {
+    if (key !== 'fields' && typeof override[key] === 'number') {
+      weights[key] = override[key];
+    }
+  }
+  return weights;
+}
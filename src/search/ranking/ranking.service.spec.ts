@@ -0,0 +1,95 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CatalogProduct } from '../../catalog/interfaces/catalog-product.interface';
+import { SemanticSearchService } from '../semantic-search.service';
+import { RankingService } from './ranking.service';
+
+const product = (overrides: Partial<CatalogProduct>) =>
+  ({
+    productType: 'Clothing',
+    variants: [],
+    discount: false,
+    createDate: '2024-04-30 10:00:00',
+    ...overrides,
+  }) as CatalogProduct;
+
+const products = [
+  product({
+    id: 'old-dress',
+    displayTitle: 'Summer Dress',
+    createDate: '2023-01-01 10:00:00',
+  }),
+  product({ id: 'new-dress', displayTitle: 'Evening Dress' }),
+  product({ id: 'boots', displayTitle: 'Slouch Boots' }),
+];
+
+describe('RankingService', () => {
+  let service: RankingService;
+  let config: Record<string, unknown>;
+
+  async function createService() {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RankingService,
+        {
+          provide: SemanticSearchService,
+          useValue: {
+            similarities: async () =>
+              products.map((item) => ({ product: item, score: 0 })),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+    return module.get<RankingService>(RankingService);
+  }
+
+  beforeEach(async () => {
+    config = {};
+    service = await createService();
+  });
+
+  it('ranks matches with a score and explanation, newer first on ties', async () => {
+    const results = await service.search('dress');
+
+    expect(results.map((result) => result.product.id)).toEqual([
+      'new-dress',
+      'old-dress',
+    ]);
+    expect(results[0].explanation).toMatchObject({
+      semantic: 0,
+      discountBoost: 0,
+      matches: [{ field: 'displayTitle', term: 'dress', kind: 'exact' }],
+    });
+    expect(results[0].explanation.recencyBoost).toBeGreaterThan(
+      results[1].explanation.recencyBoost,
+    );
+  });
+
+  it('finds products despite typos', async () => {
+    const [result] = await service.search('slouch bots');
+
+    expect(result.product.id).toBe('boots');
+    expect(result.explanation.matches.map((match) => match.kind)).toEqual([
+      'exact',
+      'fuzzy',
+    ]);
+  });
+
+  it('reads weights from RANKING_WEIGHTS', async () => {
+    config.RANKING_WEIGHTS = '{"recencyBoost":0,"fields":{"variants":0}}';
+    service = await createService();
+
+    expect(service.weights.recencyBoost).toBe(0);
+    expect(service.weights.fields).toEqual({
+      displayTitle: 3,
+      productType: 1,
+      variants: 0,
+    });
+    const results = await service.search('dress');
+    expect(results[0].score).toBe(results[1].score);
+  });
+});
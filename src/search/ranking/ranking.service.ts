@@ -0,0 +1,106 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CatalogProduct } from '../../catalog/interfaces/catalog-product.interface';
+import { RankedProductResult } from '../interfaces/search-result.interface';
+import { SemanticSearchService } from '../semantic-search.service';
+import { tokenize } from '../utils/tokenize';
+import { lexicalScore } from './lexical-scorer';
+import { mergeRankingWeights, RankingWeights } from './ranking-weights';
+
+const DEFAULT_TOP_K = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class RankingService {
+  private readonly logger = new Logger(RankingService.name);
+  readonly weights: RankingWeights;
+
+  constructor(
+    private readonly semanticSearchService: SemanticSearchService,
+    private readonly configService: ConfigService,
+  ) {
+    this.weights = this.loadWeights();
+  }
+
+  /**
+   * Hybrid product search: combines the field-weighted lexical score (with
+   * typo tolerance) and the semantic similarity, then adds the discount and
+   * recency boosts.
+   *
+   * @param query - Free text from the user or the model.
+   * @param topK - Maximum number of results (`SEARCH_TOP_K`, 5 by default).
+   * @param catalogId - Catalog to search, see `CatalogService`.
+   * @returns The best results above `minScore`, each with its score breakdown.
+   */
+  async search(
+    query: string,
+    topK?: number,
+    catalogId?: string,
+  ): Promise<RankedProductResult[]> {
+    const limit =
+      topK ?? Number(this.configService.get('SEARCH_TOP_K') ?? DEFAULT_TOP_K);
+    const terms = [...new Set(tokenize(query))];
+    const similarities = await this.semanticSearchService.similarities(
+      query,
+      catalogId,
+    );
+    const newest = Math.max(
+      ...similarities.map(({ product }) => this.timestamp(product)),
+    );
+
+    return similarities
+      .map(({ product, score: semantic }) => {
+        const lexical = lexicalScore(terms, product, this.weights);
+        const relevance =
+          this.weights.lexical * lexical.score +
+          this.weights.semantic * Math.max(semantic, 0);
+        // Boosts only reorder relevant results; they never make a product match.
+        const discountBoost =
+          relevance && product.discount ? this.weights.discountBoost : 0;
+        const recencyBoost = relevance ? this.recencyBoost(product, newest) : 0;
+
+        return {
+          product,
+          score: relevance + discountBoost + recencyBoost,
+          explanation: {
+            lexical: lexical.score,
+            semantic,
+            discountBoost,
+            recencyBoost,
+            matches: lexical.matches,
+          },
+        };
+      })
+      .filter((result) => result.score >= this.weights.minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Exponential decay by age relative to the newest product in the catalog.
+   */
+  private recencyBoost(product: CatalogProduct, newest: number): number {
+    const ageDays = Math.max(newest - this.timestamp(product), 0) / DAY_MS;
+    return (
+      this.weights.recencyBoost *
+      Math.pow(0.5, ageDays / this.weights.recencyHalfLifeDays)
+    );
+  }
+
+  private timestamp(product: CatalogProduct): number {
+    return new Date(product.createDate).getTime() || 0;
+  }
+
+  private loadWeights(): RankingWeights {
+    const raw = this.configService.get('RANKING_WEIGHTS');
+    if (!raw) return mergeRankingWeights();
+    try {
+      return mergeRankingWeights(
+        typeof raw === 'string' ? JSON.parse(raw) : raw,
+      );
+    } catch (error) {
+      this.logger.warn(`Ignoring invalid RANKING_WEIGHTS: ${error.message}`);
+      return mergeRankingWeights();
+    }
+  }
+}
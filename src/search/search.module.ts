@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CatalogModule } from '../catalog/catalog.module';
+import { LlmModule } from '../llm/llm.module';
+import { LlmProvider } from '../llm/llm.provider';
+import { EmbeddingProvider } from './embeddings/embedding.provider';
+import { LlmEmbeddingProvider } from './embeddings/llm-embedding.provider';
+import { TfIdfEmbeddingProvider } from './embeddings/tfidf-embedding.provider';
+import { RankingService } from './ranking/ranking.service';
+import { SemanticSearchService } from './semantic-search.service';
+
+@Module({
+  imports: [CatalogModule, LlmModule],
+  providers: [
+    SemanticSearchService,
+    RankingService,
+    {
+      // EMBEDDING_PROVIDER=llm|local; defaults to local for the mock provider and for OpenAI without a key
+      provide: EmbeddingProvider,
+      inject: [ConfigService, LlmProvider],
+      useFactory: (configService: ConfigService, llmProvider: LlmProvider) => {
+        const hasKey = Boolean(
+          configService.get('LLM_API_KEY') ||
+            configService.get('OPEN_AI_API_KEY'),
+        );
+        const offline =
+          llmProvider.name === 'mock' ||
+          (llmProvider.name === 'openai' && !hasKey);
+        const provider =
+          configService.get('EMBEDDING_PROVIDER') ??
+          (offline ? 'local' : 'llm');
+        // "openai" is kept as an alias of "llm" for existing configurations
+        return provider === 'llm' || provider === 'openai'
+          ? new LlmEmbeddingProvider(llmProvider)
+          : new TfIdfEmbeddingProvider();
+      },
+    },
+  ],
+  exports: [SemanticSearchService, RankingService],
+})
+export class SearchModule {}
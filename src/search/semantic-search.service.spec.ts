@@ -0,0 +1,158 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CatalogService, DEFAULT_CATALOG } from '../catalog/catalog.service';
+import { EmbeddingProvider } from './embeddings/embedding.provider';
+import { TfIdfEmbeddingProvider } from './embeddings/tfidf-embedding.provider';
+import { SemanticSearchService } from './semantic-search.service';
+
+const catalogs: Record<string, object[]> = {};
+const products = [
+  {
+    id: 'boots',
+    displayTitle: 'Boots',
+    embeddingText: 'leather winter boots warm',
+  },
+  { id: 'dress', displayTitle: 'Dress', embeddingText: 'summer floral dress' },
+  { id: 'mug', displayTitle: 'Mug', embeddingText: 'ceramic coffee mug' },
+];
+const teaShop = [
+  { id: 'teapot', displayTitle: 'Teapot', embeddingText: 'ceramic teapot' },
+];
+
+/** Provider without corpus statistics, so its vectors get cached. */
+class CountingEmbeddingProvider extends EmbeddingProvider {
+  readonly id = 'counting';
+  calls = 0;
+  private readonly inner = new TfIdfEmbeddingProvider();
+
+  async embed(texts: string[]) {
+    this.calls++;
+    return this.inner.embed(texts);
+  }
+}
+
+/** Corpus-fitted provider whose first product embedding fails. */
+class FailingOnceEmbeddingProvider extends EmbeddingProvider {
+  readonly id = 'failing-once';
+  fits = 0;
+  private failed = false;
+  private readonly inner = new TfIdfEmbeddingProvider();
+
+  fit(documents: string[]) {
+    this.fits++;
+    this.inner.fit(documents);
+  }
+
+  async embed(texts: string[]) {
+    if (texts.length > 1 && !this.failed) {
+      this.failed = true;
+      throw new Error('embeddings unavailable');
+    }
+    return this.inner.embed(texts);
+  }
+}
+
+async function createService(
+  embeddingProvider: EmbeddingProvider,
+  config: Record<string, string>,
+) {
+  const module: TestingModule = await Test.createTestingModule({
+    providers: [
+      SemanticSearchService,
+      {
+        provide: CatalogService,
+        useValue: {
+          catalogIds: () => Object.keys(catalogs),
+          all: (id: string) => catalogs[id],
+        },
+      },
+      { provide: EmbeddingProvider, useValue: embeddingProvider },
+      {
+        provide: ConfigService,
+        useValue: { get: (key: string) => config[key] },
+      },
+    ],
+  }).compile();
+  return module.get<SemanticSearchService>(SemanticSearchService);
+}
+
+describe('SemanticSearchService', () => {
+  let dir: string;
+  let config: Record<string, string>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'embeddings-'));
+    config = { EMBEDDINGS_CACHE_FILE: join(dir, 'cache.json') };
+    for (const id of Object.keys(catalogs)) delete catalogs[id];
+    catalogs[DEFAULT_CATALOG] = products;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ranks products by similarity and applies top-k', async () => {
+    const service = await createService(new TfIdfEmbeddingProvider(), config);
+
+    const results = await service.search('warm boots for winter', 1);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].product.id).toBe('boots');
+    expect(results[0].score).toBeGreaterThan(0.1);
+  });
+
+  it('drops products below the minimum score', async () => {
+    const service = await createService(new TfIdfEmbeddingProvider(), config);
+
+    expect(await service.search('television')).toEqual([]);
+  });
+
+  it('searches one catalog at a time', async () => {
+    catalogs['tea-shop'] = teaShop;
+    const service = await createService(new TfIdfEmbeddingProvider(), config);
+
+    const shop = await service.search('ceramic', 5, 'tea-shop');
+    const main = await service.search('ceramic');
+
+    expect(shop.map((result) => result.product.id)).toEqual(['teapot']);
+    expect(main.map((result) => result.product.id)).toEqual(['mug']);
+  });
+
+  it('persists vectors and reuses them on the next start', async () => {
+    const first = new CountingEmbeddingProvider();
+    await (await createService(first, config)).search('mug');
+    const cache = JSON.parse(
+      readFileSync(config.EMBEDDINGS_CACHE_FILE, 'utf8'),
+    );
+
+    const second = new CountingEmbeddingProvider();
+    const results = await (
+      await createService(second, config)
+    ).search('coffee mug');
+
+    expect(cache.provider).toBe('counting');
+    expect(Object.keys(cache.vectors)).toHaveLength(3);
+    // only the query is embedded, the products come from the cache
+    expect(second.calls).toBe(1);
+    expect(results[0].product.id).toBe('mug');
+  });
+
+  it('keeps the newer index when an older build fails', async () => {
+    const provider = new FailingOnceEmbeddingProvider();
+    const service = await createService(provider, config);
+
+    const first = service.search('mug');
+    catalogs['tea-shop'] = teaShop;
+    const second = service.search('teapot', 5, 'tea-shop');
+
+    await expect(first).rejects.toThrow('embeddings unavailable');
+    await expect(second).resolves.toEqual([
+      expect.objectContaining({ product: teaShop[0] }),
+    ]);
+    await service.search('mug');
+    expect(provider.fits).toBe(2);
+  });
+});
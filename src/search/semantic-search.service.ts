@@ -0,0 +1,187 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { CatalogService, DEFAULT_CATALOG } from '../catalog/catalog.service';
+import { CatalogProduct } from '../catalog/interfaces/catalog-product.interface';
+import { EmbeddingProvider } from './embeddings/embedding.provider';
+import { ProductSearchResult } from './interfaces/search-result.interface';
+import { cosineSimilarity } from './utils/vector-math';
+
+const DEFAULT_TOP_K = 5;
+const DEFAULT_MIN_SCORE = 0.1;
+
+interface EmbeddingCache {
+  provider: string;
+  /** Vectors keyed by the SHA-256 of the embedded text. */
+  vectors: Record<string, number[]>;
+}
+
+interface IndexedProduct {
+  catalogId: string;
+  product: CatalogProduct;
+  vector: number[];
+}
+
+@Injectable()
+export class SemanticSearchService {
+  private readonly logger = new Logger(SemanticSearchService.name);
+  private index?: Promise<IndexedProduct[]>;
+  private indexedCatalogs?: CatalogProduct[][];
+
+  constructor(
+    private readonly catalogService: CatalogService,
+    private readonly embeddingProvider: EmbeddingProvider,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Ranks catalog products by cosine similarity between the query and each
+   * product's `embeddingText`.
+   *
+   * @param query - Free text, e.g. "something warm for winter".
+   * @param topK - Maximum number of results (`SEARCH_TOP_K`, 5 by default).
+   * @param catalogId - Catalog to search, see `CatalogService`.
+   * @returns The best matches above `SEARCH_MIN_SCORE`, highest score first.
+   */
+  async search(
+    query: string,
+    topK?: number,
+    catalogId = DEFAULT_CATALOG,
+  ): Promise<ProductSearchResult[]> {
+    const limit =
+      topK ?? Number(this.configService.get('SEARCH_TOP_K') ?? DEFAULT_TOP_K);
+    const minScore = Number(
+      this.configService.get('SEARCH_MIN_SCORE') ?? DEFAULT_MIN_SCORE,
+    );
+    const similarities = await this.similarities(query, catalogId);
+
+    return similarities
+      .filter((result) => result.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Cosine similarity between the query and every catalog product, in
+   * catalog order and without any cut-off. Used by the hybrid ranking.
+   */
+  async similarities(
+    query: string,
+    catalogId = DEFAULT_CATALOG,
+  ): Promise<ProductSearchResult[]> {
+    const index = await this.getIndex();
+    const [queryVector] = await this.embeddingProvider.embed([query]);
+
+    return index
+      .filter((entry) => entry.catalogId === catalogId)
+      .map(({ product, vector }) => ({
+        product,
+        score: cosineSimilarity(queryVector, vector),
+      }));
+  }
+
+  /**
+   * Embeds every product once and reuses the vectors until a catalog changes.
+   * All catalogs share one index, so corpus-dependent providers are fitted on
+   * every catalog and the vector cache keeps the vectors of all of them.
+   */
+  private getIndex(): Promise<IndexedProduct[]> {
+    const catalogIds = this.catalogService.catalogIds();
+    const catalogs = catalogIds.map((id) => this.catalogService.all(id));
+    const changed =
+      !this.indexedCatalogs ||
+      this.indexedCatalogs.length !== catalogs.length ||
+      catalogs.some((catalog, i) => catalog !== this.indexedCatalogs[i]);
+    if (!this.index || changed) {
+      this.indexedCatalogs = catalogs;
+      const entries = catalogIds.flatMap((catalogId, i) =>
+        catalogs[i].map((product) => ({ catalogId, product })),
+      );
+      const index = this.buildIndex(entries).catch((error) => {
+        // Keep a newer build that replaced this one meanwhile
+        if (this.index === index) this.index = undefined;
+        throw error;
+      });
+      this.index = index;
+    }
+    return this.index;
+  }
+
+  private async buildIndex(
+    entries: Omit<IndexedProduct, 'vector'>[],
+  ): Promise<IndexedProduct[]> {
+    const texts = entries.map(({ product }) => this.documentText(product));
+    this.embeddingProvider.fit?.(texts);
+
+    const cache = await this.readCache();
+    const keys = texts.map((text) => this.cacheKey(text));
+    const missing = [...new Set(keys.filter((key) => !cache.vectors[key]))];
+    if (missing.length) {
+      const missingTexts = missing.map((key) => texts[keys.indexOf(key)]);
+      const vectors = await this.embeddingProvider.embed(missingTexts);
+      missing.forEach((key, i) => (cache.vectors[key] = vectors[i]));
+      await this.writeCache(cache, new Set(keys));
+      this.logger.log(
+        `Embedded ${missing.length} products with ${this.embeddingProvider.id}`,
+      );
+    }
+
+    return entries.map((entry, i) => ({
+      ...entry,
+      vector: cache.vectors[keys[i]],
+    }));
+  }
+
+  private documentText(product: CatalogProduct): string {
+    return product.embeddingText || product.displayTitle;
+  }
+
+  private cacheKey(text: string): string {
+    return createHash('sha256').update(text).digest('hex');
+  }
+
+  private cachePath(): string {
+    return (
+      this.configService.get('EMBEDDINGS_CACHE_FILE') ??
+      join(process.cwd(), 'data', 'embeddings-cache.json')
+    );
+  }
+
+  /**
+   * Corpus-dependent providers (those with `fit`) are cheap to recompute, and
+   * their vectors change with the corpus, so they are never cached.
+   */
+  private async readCache(): Promise<EmbeddingCache> {
+    const empty = { provider: this.embeddingProvider.id, vectors: {} };
+    if (this.embeddingProvider.fit) return empty;
+    try {
+      const cache: EmbeddingCache = JSON.parse(
+        await fs.readFile(this.cachePath(), 'utf8'),
+      );
+      return cache.provider === this.embeddingProvider.id ? cache : empty;
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn(`Ignoring embeddings cache: ${error.message}`);
+      }
+      return empty;
+    }
+  }
+
+  /**
+   * Persists the vectors still used by the catalog.
+   */
+  private async writeCache(cache: EmbeddingCache, used: Set<string>) {
+    if (this.embeddingProvider.fit) return;
+    const vectors = Object.fromEntries(
+      Object.entries(cache.vectors).filter(([key]) => used.has(key)),
+    );
+    const filePath = this.cachePath();
+    await fs.mkdir(dirname(filePath), { recursive: true });
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ provider: cache.provider, vectors }),
+    );
+  }
+}
@@ -0,0 +1,43 @@
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'i',
+  'in',
+  'is',
+  'it',
+  'me',
+  'my',
+  'of',
+  'on',
+  'or',
+  'show',
+  'some',
+  'something',
+  'that',
+  'the',
+  'this',
+  'to',
+  'want',
+  'with',
+]);
+
+/**
+ * Lower-cases, strips accents and splits text into alphanumeric tokens,
+ * dropping common English stop words.
+ */
+export function tokenize(text: string): string[] {
+  return (text ?? '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !STOP_WORDS.has(token));
+}
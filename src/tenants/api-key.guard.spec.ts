@@ -0,0 +1,23 @@
+import { ExecutionContext } from '@nestjs/common';
+import { ApiKeyGuard } from './api-key.guard';
+import { DEFAULT_TENANT, TenantsService } from './tenants.service';
+
+describe('ApiKeyGuard', () => {
+  const tenantsService = { authenticate: jest.fn() };
+  const guard = new ApiKeyGuard(tenantsService as unknown as TenantsService);
+
+  it('stores the tenant of the x-api-key header on the request', () => {
+    const req = {
+      header: (name: string) => (name === 'x-api-key' ? 'secret' : undefined),
+    };
+    tenantsService.authenticate.mockReturnValue(DEFAULT_TENANT);
+
+    const allowed = guard.canActivate({
+      switchToHttp: () => ({ getRequest: () => req }),
+    } as ExecutionContext);
+
+    expect(allowed).toBe(true);
+    expect(tenantsService.authenticate).toHaveBeenCalledWith('secret');
+    expect(req).toMatchObject({ tenant: DEFAULT_TENANT });
+  });
+});
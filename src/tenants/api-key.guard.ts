@@ -0,0 +1,27 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { Tenant } from './interfaces/tenant.interface';
+import { TenantsService } from './tenants.service';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Authenticates the `x-api-key` header and stores the caller's tenant on
+ * `req.tenant` for `@CurrentTenant()`. Apply it with `@Authenticated()`.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(private readonly tenantsService: TenantsService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const req = context.switchToHttp().getRequest<Request>();
+    req.tenant = this.tenantsService.authenticate(req.header(API_KEY_HEADER));
+    return true;
+  }
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    tenant?: Tenant;
+  }
+}
@@ -0,0 +1,23 @@
+import {
+  applyDecorators,
+  createParamDecorator,
+  ExecutionContext,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiSecurity } from '@nestjs/swagger';
+import { Request } from 'express';
+import { ApiKeyGuard } from '../api-key.guard';
+
+/**
+ * Requires a tenant API key (`x-api-key`, 401 `UNAUTHORIZED` otherwise) on
+ * every endpoint of the controller, or on one endpoint. Used on a controller,
+ * it runs before the method guards such as `@Metered()`.
+ */
+export const Authenticated = () =>
+  applyDecorators(UseGuards(ApiKeyGuard), ApiSecurity('api-key'));
+
+/** The `Tenant` of an `@Authenticated()` request. */
+export const CurrentTenant = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<Request>().tenant,
+);
@@ -0,0 +1,39 @@
+/** Endpoints a tenant can configure separately: `/ai/*` and `/products/*`. */
+export type TenantSurface = 'ai' | 'products';
+
+/** One entry of `TENANTS_FILE`. */
+export interface TenantConfig {
+  /** Lower-case letters, digits and dashes; shows up in usage reports as `tenant:<id>`. */
+  id: string;
+  name?: string;
+  /** Plain keys, or `sha256:<hex>` digests so the file holds no secrets. */
+  apiKeys: string[];
+  /** Catalog CSV of the storefront; the shared `CATALOG_FILE` when omitted. */
+  catalogFile?: string;
+  /** ISO 4217 code prices are shown in when the request has no `currency`. */
+  currency?: string;
+  /** Replaces the persona of the system prompt templates, per surface. */
+  systemPrompts?: Partial<Record<TenantSurface, string>>;
+  /** Prompt template variables, e.g. `tone`; `storeName` defaults to `name`. */
+  promptVariables?: Record<string, string>;
+  /** Prompt template versions, by template name. */
+  promptVersions?: Record<string, number>;
+  /** Names of the tools the model may call; every tool when omitted. */
+  tools?: string[];
+  /** Replaces `LLM_MODEL_AI` / `LLM_MODEL_PRODUCTS`. */
+  models?: Partial<Record<TenantSurface, string>>;
+}
+
+/** The tenant a request was authenticated as. */
+export interface Tenant {
+  id: string;
+  name: string;
+  /** Catalog of `CatalogService` the tenant searches. */
+  catalogId: string;
+  currency?: string;
+  systemPrompts: Partial<Record<TenantSurface, string>>;
+  promptVariables?: Record<string, string>;
+  promptVersions?: Record<string, number>;
+  tools?: string[];
+  models: Partial<Record<TenantSurface, string>>;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { CatalogModule } from '../catalog/catalog.module';
+import { ApiKeyGuard } from './api-key.guard';
+import { TenantsService } from './tenants.service';
+
+@Module({
+  imports: [CatalogModule],
+  providers: [TenantsService, ApiKeyGuard],
+  exports: [TenantsService, ApiKeyGuard],
+})
+export class TenantsModule {}
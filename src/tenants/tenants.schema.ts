@@ -0,0 +1,31 @@
+import * as Joi from 'joi';
+import { currencyCode } from '../currencies/dto/convert-currency/convert-currency.dto';
+
+const perSurface = (value: Joi.StringSchema) =>
+  Joi.object({ ai: value, products: value });
+
+const tenantSchema = Joi.object({
+  id: Joi.string()
+    .pattern(/^[a-z0-9-]{1,64}$/)
+    // Reserved for `DEFAULT_TENANT` and its catalog
+    .invalid('default')
+    .required(),
+  name: Joi.string().max(128),
+  apiKeys: Joi.array().items(Joi.string().min(16).max(256)).min(1).required(),
+  catalogFile: Joi.string(),
+  currency: currencyCode(),
+  systemPrompts: perSurface(Joi.string().max(4000)),
+  promptVariables: Joi.object().pattern(Joi.string(), Joi.string().max(4000)),
+  promptVersions: Joi.object().pattern(
+    Joi.string(),
+    Joi.number().integer().min(1),
+  ),
+  tools: Joi.array().items(Joi.string()),
+  models: perSurface(Joi.string().max(128)),
+});
+
+/** Contents of `TENANTS_FILE`. */
+export const tenantsFileSchema = Joi.array()
+  .items(tenantSchema)
+  .unique('id')
+  .required();
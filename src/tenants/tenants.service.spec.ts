@@ -0,0 +1,134 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CatalogService } from '../catalog/catalog.service';
+import { AuthenticationException } from '../common/errors/app.exception';
+import { DEFAULT_TENANT, TenantsService } from './tenants.service';
+
+const TENANTS_FILE = join(
+  __dirname,
+  '..',
+  '..',
+  'test',
+  'fixtures',
+  'tenants.json',
+);
+
+describe('TenantsService', () => {
+  let catalogService: CatalogService;
+
+  const create = async (config: Record<string, string>) => {
+    const service = new TenantsService(
+      new ConfigService(config),
+      catalogService,
+    );
+    await service.onModuleInit();
+    return service;
+  };
+
+  beforeEach(() => {
+    catalogService = new CatalogService(new ConfigService());
+  });
+
+  it('serves everyone as the default tenant without TENANTS_FILE', async () => {
+    const service = await create({});
+
+    expect(service.enabled).toBe(false);
+    expect(service.authenticate(undefined)).toBe(DEFAULT_TENANT);
+  });
+
+  it('maps plain and hashed API keys to their tenant', async () => {
+    const service = await create({ TENANTS_FILE });
+
+    expect(service.authenticate('tea-shop-test-key-0001')).toMatchObject({
+      id: 'tea-shop',
+      name: 'Tea Shop',
+      catalogId: 'tea-shop',
+      currency: 'EUR',
+      tools: ['searchProduct'],
+      models: { products: 'gpt-4o' },
+    });
+    expect(service.authenticate('demo-store-test-key-0001')).toMatchObject({
+      id: 'demo-store',
+      name: 'demo-store',
+      catalogId: 'default',
+      promptVariables: { tone: 'playful' },
+    });
+  });
+
+  it('finds tenants by ID', async () => {
+    const service = await create({ TENANTS_FILE });
+
+    expect(service.findById('default')).toBe(DEFAULT_TENANT);
+    expect(service.findById('tea-shop').name).toBe('Tea Shop');
+    expect(() => service.findById('unknown')).toThrow(NotFoundException);
+  });
+
+  it('rejects missing and unknown keys', async () => {
+    const service = await create({ TENANTS_FILE });
+
+    expect(() => service.authenticate(undefined)).toThrow(
+      AuthenticationException,
+    );
+    expect(() => service.authenticate('not-a-tenant-key-0001')).toThrow(
+      'Missing or invalid x-api-key',
+    );
+  });
+
+  it('loads the catalog of each tenant', async () => {
+    await create({ TENANTS_FILE });
+
+    expect(catalogService.all('tea-shop').map((product) => product.id)).toEqual(
+      ['cast-iron-teapot', 'sencha-green-tea'],
+    );
+  });
+
+  describe('invalid files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'tenants-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    const write = (tenants: unknown) => {
+      const filePath = join(dir, 'tenants.json');
+      writeFileSync(filePath, JSON.stringify(tenants));
+      return filePath;
+    };
+
+    it('refuses to start', async () => {
+      await expect(
+        create({ TENANTS_FILE: write([{ id: 'Bad Id', apiKeys: [] }]) }),
+      ).rejects.toThrow(/Invalid TENANTS_FILE/);
+    });
+
+    it('refuses the ID of the default tenant', async () => {
+      await expect(
+        create({
+          TENANTS_FILE: write([
+            { id: 'default', apiKeys: ['default-key-0000000001'] },
+          ]),
+        }),
+      ).rejects.toThrow(/"\[0\]\.id" contains an invalid value/);
+    });
+
+    it('refuses keys shared by two tenants', async () => {
+      const apiKeys = ['shared-key-0000000001'];
+
+      await expect(
+        create({
+          TENANTS_FILE: write([
+            { id: 'a', apiKeys },
+            { id: 'b', apiKeys },
+          ]),
+        }),
+      ).rejects.toThrow('Tenants a and b share an API key');
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { resolve } from 'path';
+import { CatalogService, DEFAULT_CATALOG } from '../catalog/catalog.service';
+import { AuthenticationException } from '../common/errors/app.exception';
+import { Tenant, TenantConfig } from './interfaces/tenant.interface';
+import { tenantsFileSchema } from './tenants.schema';
+
+/** Serves every request while no tenants are configured. */
+export const DEFAULT_TENANT: Tenant = {
+  id: 'default',
+  name: 'Default',
+  catalogId: DEFAULT_CATALOG,
+  systemPrompts: {},
+  models: {},
+};
+
+const HASH_PREFIX = 'sha256:';
+
+/**
+ * Tenants of `TENANTS_FILE` and the API keys that identify them. Each tenant
+ * can bring its own catalog, system prompts, tools, currency and models.
+ *
+ * Without `TENANTS_FILE` the API stays open and every request is served as
+ * `DEFAULT_TENANT` with the global settings.
+ */
+@Injectable()
+export class TenantsService implements OnModuleInit {
+  private readonly logger = new Logger(TenantsService.name);
+  /** SHA-256 of each API key → tenant. */
+  private readonly tenantsByKey = new Map<string, Tenant>();
+  private tenants: Tenant[] = [];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly catalogService: CatalogService,
+  ) {}
+
+  /**
+   * Loads `TENANTS_FILE` and the catalogs of its tenants.
+   *
+   * @throws {Error} If the file cannot be read or is invalid. Starting without
+   * it would leave the API open, so this aborts the startup.
+   */
+  async onModuleInit() {
+    const filePath = this.configService.get('TENANTS_FILE');
+    if (!filePath) {
+      this.logger.warn('TENANTS_FILE is not set: API keys are not required');
+      return;
+    }
+
+    const { error, value } = tenantsFileSchema.validate(
+      JSON.parse(await fs.readFile(filePath, 'utf8')),
+    );
+    if (error) {
+      throw new Error(`Invalid TENANTS_FILE ${filePath}: ${error.message}`);
+    }
+    for (const config of value as TenantConfig[]) {
+      await this.add(config);
+    }
+    this.logger.log(`Loaded ${this.tenants.length} tenants from ${filePath}`);
+  }
+
+  /** False while no tenants are configured, i.e. the API is open. */
+  get enabled(): boolean {
+    return this.tenants.length > 0;
+  }
+
+  list(): Tenant[] {
+    return this.tenants;
+  }
+
+  /**
+   * @throws {NotFoundException} If no tenant has the given ID.
+   */
+  findById(id: string): Tenant {
+    if (id === DEFAULT_TENANT.id) return DEFAULT_TENANT;
+    const tenant = this.tenants.find((candidate) => candidate.id === id);
+    if (!tenant) {
+      throw new NotFoundException(`Tenant ${id} not found`);
+    }
+    return tenant;
+  }
+
+  /**
+   * Tenant of an API key.
+   *
+   * @returns `DEFAULT_TENANT` while no tenants are configured, whatever the key.
+   * @throws {AuthenticationException} If the key is missing or unknown.
+   */
+  authenticate(apiKey: string | undefined): Tenant {
+    if (!this.enabled) return DEFAULT_TENANT;
+    const tenant = apiKey && this.tenantsByKey.get(digest(apiKey));
+    if (!tenant) {
+      throw new AuthenticationException('Missing or invalid x-api-key');
+    }
+    return tenant;
+  }
+
+  private async add(config: TenantConfig) {
+    const tenant: Tenant = {
+      id: config.id,
+      name: config.name ?? config.id,
+      catalogId: config.catalogFile ? config.id : DEFAULT_CATALOG,
+      currency: config.currency,
+      systemPrompts: config.systemPrompts ?? {},
+      promptVariables: config.promptVariables,
+      promptVersions: config.promptVersions,
+      tools: config.tools,
+      models: config.models ?? {},
+    };
+    for (const apiKey of config.apiKeys) {
+      const key = apiKey.startsWith(HASH_PREFIX)
+        ? apiKey.slice(HASH_PREFIX.length).toLowerCase()
+        : digest(apiKey);
+      const owner = this.tenantsByKey.get(key);
+      if (owner) {
+        throw new Error(
+          `Tenants ${owner.id} and ${tenant.id} share an API key`,
+        );
+      }
+      this.tenantsByKey.set(key, tenant);
+    }
+    if (config.catalogFile) {
+      await this.catalogService.load(tenant.id, resolve(config.catalogFile));
+    }
+    this.tenants.push(tenant);
+  }
+}
+
+function digest(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
@@ -0,0 +1,26 @@
+import { SetMetadata, Type } from '@nestjs/common';
+import * as Joi from 'joi';
+
+export const AI_TOOL_METADATA = 'ai:tool';
+
+export interface AiToolOptions {
+  /** Function name the model uses to call the tool. */
+  name: string;
+  description: string;
+  /**
+   * Arguments: a `@JoiSchema` DTO class or a bare Joi object schema. Used to
+   * validate the model's arguments and to build the OpenAI schema.
+   */
+  schema: Type<unknown> | Joi.ObjectSchema;
+  /** Tool sets the tool belongs to. Endpoints expose tools by tool set. */
+  toolsets: string[];
+  /** Progress text streamed while the tool runs, e.g. "Searching products…". */
+  label?: string;
+}
+
+/**
+ * Registers the decorated provider method as a tool in the `ToolRegistry`.
+ * The method receives the validated arguments object.
+ */
+export const AiTool = (options: AiToolOptions) =>
+  SetMetadata(AI_TOOL_METADATA, options);
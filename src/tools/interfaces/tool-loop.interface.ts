@@ -0,0 +1,88 @@
+import {
+  ChatCompletionMessage,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from 'openai/resources/chat/completions';
+import { CompletionUsage } from 'openai/resources/completions';
+import { ErrorCode } from '../../common/errors/error-code';
+import { Tenant } from '../../tenants/interfaces/tenant.interface';
+
+/** Request data tool handlers may need besides their arguments. */
+export interface ToolContext {
+  tenant?: Tenant;
+  /** Conversation of the request; the cart tools keep the cart of this session. */
+  conversationId?: string;
+}
+
+/**
+ * Executes one tool call. Strings are sent to the model as-is, anything else
+ * is serialised to JSON; a `ToolOutput` sends its `content`. Throwing reports
+ * the error to the model instead of failing the request.
+ */
+export type ToolHandler = (
+  args: Record<string, any>,
+  context?: ToolContext,
+) => Promise<unknown>;
+
+export interface ToolLoopOptions {
+  /** Falls back to the provider's default model (`LLM_MODEL`). */
+  model?: string;
+  messages: ChatCompletionMessageParam[];
+  tools: ChatCompletionTool[];
+  handlers: Record<string, ToolHandler>;
+  /** Overrides `TOOL_MAX_ITERATIONS` for this run. */
+  maxIterations?: number;
+  /** Progress text per tool name, sent with streamed `tool_start` events. */
+  labels?: Record<string, string>;
+  /** Format of the final answer, e.g. a JSON schema for structured outputs. */
+  responseFormat?: ChatCompletionCreateParams['response_format'];
+}
+
+export interface ToolStep {
+  /** 1-based index of the model turn that requested the call. */
+  iteration: number;
+  toolCallId: string;
+  name: string;
+  arguments: Record<string, any>;
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+  /** Error catalogue code of a failed call, e.g. `TOOL_FAILED`. */
+  code?: ErrorCode;
+  /** Facts the handler reported with a `ToolOutput`, e.g. `{ resultCount: 0 }`. */
+  metadata?: Record<string, unknown>;
+  durationMs: number;
+}
+
+export interface ToolLoopResult {
+  /** Final assistant message, without tool calls. */
+  message: ChatCompletionMessage;
+  /** Full transcript, including assistant tool calls and tool replies. */
+  messages: ChatCompletionMessageParam[];
+  steps: ToolStep[];
+  /** Token usage summed over every completion of the loop. */
+  usage: CompletionUsage;
+  /** Model that answered, as reported by the provider (e.g. "gpt-4o-mini-2024-07-18"). */
+  model: string;
+  iterations: number;
+  /** True when the iteration cap stopped the loop before the model finished. */
+  truncated: boolean;
+}
+
+/** What a streamed loop has used so far, for loops that never reach `done`. */
+export type ToolLoopProgress = Pick<
+  ToolLoopResult,
+  'steps' | 'usage' | 'model'
+>;
+
+/** Why a stream ended before `done`: the error code, or the client leaving. */
+export type StreamInterruption = ErrorCode | 'CLIENT_CLOSED';
+
+/** Events yielded by `ToolLoopService.stream()`, in the order they happen. */
+export type ToolLoopEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'usage'; usage: CompletionUsage; model: string }
+  | { type: 'tool_start'; toolCallId: string; name: string; label?: string }
+  | { type: 'tool_end'; step: ToolStep }
+  | { type: 'done'; result: ToolLoopResult };
@@ -0,0 +1,312 @@
+import { ConfigService } from '@nestjs/config';
+import { CompletionUsage } from 'openai/resources/completions';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LlmStreamChunk } from '../llm/interfaces/llm.interface';
+import { LlmProvider } from '../llm/llm.provider';
+import { MockLlmProvider } from '../llm/providers/mock-llm.provider';
+import { ToolLoopService } from './tool-loop.service';
+import { ToolOutput } from './utils/tool-output';
+import { UpstreamTimeoutException } from '../common/errors/app.exception';
+
+type Delta = LlmStreamChunk['choices'][number]['delta'];
+
+const chunk = (delta?: Delta, usage?: CompletionUsage): LlmStreamChunk => ({
+  id: 'chunk',
+  object: 'chat.completion.chunk',
+  created: 0,
+  model: 'gpt-4o-mini',
+  choices: delta ? [{ index: 0, delta, finish_reason: null }] : [],
+  ...(usage ? { usage } : {}),
+});
+
+async function* chunks(...deltas: Delta[]): AsyncGenerator<LlmStreamChunk> {
+  for (const delta of deltas) {
+    yield chunk(delta);
+  }
+  yield chunk(undefined, {
+    prompt_tokens: 10,
+    completion_tokens: 5,
+    total_tokens: 15,
+  });
+}
+
+describe('ToolLoopService', () => {
+  let service: ToolLoopService;
+  let llm: MockLlmProvider;
+
+  beforeEach(async () => {
+    llm = new MockLlmProvider();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ToolLoopService,
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        { provide: LlmProvider, useValue: llm },
+      ],
+    }).compile();
+
+    service = module.get<ToolLoopService>(ToolLoopService);
+  });
+
+  it('runs every parallel tool call and answers with tool messages', async () => {
+    llm.enqueue(
+      {
+        toolCalls: [
+          { name: 'searchProduct', arguments: { search: 'dress' } },
+          { name: 'convertCurrencies', arguments: { currency: 'EUR' } },
+        ],
+      },
+      { content: 'Here is your dress' },
+    );
+    const searchProduct = jest.fn().mockResolvedValue('Dress, 17 USD');
+    const convertCurrencies = jest.fn().mockResolvedValue({ value: 15.6 });
+
+    const result = await service.run({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'find a dress in EUR' }],
+      tools: [],
+      handlers: { searchProduct, convertCurrencies },
+    });
+
+    expect(result.message.content).toBe('Here is your dress');
+    expect(result.steps.map((step) => step.name)).toEqual([
+      'searchProduct',
+      'convertCurrencies',
+    ]);
+    const toolMessages = result.messages.filter(
+      (message) => message.role === 'tool',
+    );
+    expect(toolMessages).toEqual([
+      { role: 'tool', tool_call_id: 'call_mock_1', content: 'Dress, 17 USD' },
+      { role: 'tool', tool_call_id: 'call_mock_2', content: '{"value":15.6}' },
+    ]);
+    expect(result.model).toBe('gpt-4o-mini');
+  });
+
+  it('reports unknown tools and handler errors to the model', async () => {
+    llm.enqueue(
+      {
+        toolCalls: [
+          { name: 'doesNotExist', arguments: {} },
+          { name: 'failing', arguments: {} },
+        ],
+      },
+      { content: 'Sorry' },
+    );
+
+    const result = await service.run({
+      model: 'gpt-4o-mini',
+      messages: [],
+      tools: [],
+      handlers: { failing: () => Promise.reject(new Error('boom')) },
+    });
+
+    expect(result.steps).toEqual([
+      expect.objectContaining({
+        ok: false,
+        error: 'Unknown tool "doesNotExist"',
+      }),
+      expect.objectContaining({ ok: false, error: 'boom' }),
+    ]);
+    expect(result.messages[2]).toEqual({
+      role: 'tool',
+      tool_call_id: 'call_mock_2',
+      content: '{"error":"boom","code":"TOOL_FAILED"}',
+    });
+  });
+
+  it('sends the content of a ToolOutput and keeps its metadata in the step', async () => {
+    llm.enqueue(
+      { toolCalls: [{ name: 'searchProduct', arguments: { search: 'cape' } }] },
+      { content: 'Nothing found' },
+    );
+    const searchProduct = jest
+      .fn()
+      .mockResolvedValue(new ToolOutput('No products', { resultCount: 0 }));
+
+    const result = await service.run({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'find a cape' }],
+      tools: [],
+      handlers: { searchProduct },
+    });
+
+    expect(result.steps[0]).toMatchObject({
+      ok: true,
+      result: 'No products',
+      metadata: { resultCount: 0 },
+    });
+    expect(result.messages).toContainEqual({
+      role: 'tool',
+      tool_call_id: 'call_mock_1',
+      content: 'No products',
+    });
+  });
+
+  it('stops at the iteration cap and asks for a final answer', async () => {
+    llm.enqueue(
+      { toolCalls: [{ name: 'loop', arguments: {} }] },
+      { toolCalls: [{ name: 'loop', arguments: {} }] },
+      { content: 'Done' },
+    );
+
+    const result = await service.run({
+      model: 'gpt-4o-mini',
+      messages: [],
+      tools: [],
+      handlers: { loop: async () => 'again' },
+      maxIterations: 2,
+    });
+
+    expect(result.truncated).toBe(true);
+    expect(result.steps).toHaveLength(2);
+    expect(llm.requests).toHaveLength(3);
+    expect(llm.requests[2].toolChoice).toBe('none');
+    expect(result.message.content).toBe('Done');
+  });
+
+  it('streams deltas and tool progress, merging tool call fragments', async () => {
+    jest
+      .spyOn(llm, 'stream')
+      .mockReturnValueOnce(
+        chunks(
+          {
+            tool_calls: [
+              {
+                index: 0,
+                id: 'call_1',
+                function: { name: 'searchProduct', arguments: '{"sea' },
+              },
+            ],
+          },
+          {
+            tool_calls: [
+              { index: 0, function: { arguments: 'rch":"dress"}' } },
+            ],
+          },
+        ),
+      )
+      .mockReturnValueOnce(
+        chunks({ content: 'Try the ' }, { content: 'dress' }),
+      );
+    const searchProduct = jest.fn().mockResolvedValue('Dress');
+
+    const events = [];
+    for await (const event of service.stream({
+      model: 'gpt-4o-mini',
+      messages: [],
+      tools: [],
+      handlers: { searchProduct },
+      labels: { searchProduct: 'Searching products…' },
+    })) {
+      events.push(event);
+    }
+
+    expect(searchProduct).toHaveBeenCalledWith({ search: 'dress' });
+    expect(events.map((event) => event.type)).toEqual([
+      'usage',
+      'usage',
+      'tool_start',
+      'tool_end',
+      'delta',
+      'delta',
+      'usage',
+      'done',
+    ]);
+    expect(events[2]).toEqual({
+      type: 'tool_start',
+      toolCallId: 'call_1',
+      name: 'searchProduct',
+      label: 'Searching products…',
+    });
+    expect(events[6]).toEqual({
+      type: 'usage',
+      usage: { prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 },
+      model: 'gpt-4o-mini',
+    });
+    const { result } = events[7];
+    expect(result.message.content).toBe('Try the dress');
+    expect(result.model).toBe('gpt-4o-mini');
+    expect(result.usage).toEqual({
+      prompt_tokens: 20,
+      completion_tokens: 10,
+      total_tokens: 30,
+    });
+  });
+
+  it('streams scripted mock replies word by word', async () => {
+    llm.enqueue(
+      { toolCalls: [{ name: 'searchProduct', arguments: { search: 'hat' } }] },
+      { content: 'A red hat' },
+    );
+    const searchProduct = jest.fn().mockResolvedValue('Hat');
+
+    const events = [];
+    for await (const event of service.stream({
+      messages: [{ role: 'user', content: 'hat' }],
+      tools: [],
+      handlers: { searchProduct },
+    })) {
+      events.push(event);
+    }
+
+    expect(searchProduct).toHaveBeenCalledWith({ search: 'hat' });
+    expect(
+      events
+        .filter((event) => event.type === 'delta')
+        .map((event) => event.content),
+    ).toEqual(['A ', 'red ', 'hat']);
+    expect(llm.requests[0].model).toBeUndefined();
+  });
+
+  it('estimates the usage of a completion that fails midway', async () => {
+    jest.spyOn(llm, 'stream').mockReturnValueOnce(
+      (async function* (): AsyncGenerator<LlmStreamChunk> {
+        yield chunk({ content: 'Twelve chars' });
+        throw new UpstreamTimeoutException('mock');
+      })(),
+    );
+
+    const events = [];
+    await expect(async () => {
+      for await (const event of service.stream({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'hat' }],
+        tools: [],
+        handlers: {},
+      })) {
+        events.push(event);
+      }
+    }).rejects.toBeInstanceOf(UpstreamTimeoutException);
+
+    expect(events[0]).toEqual({
+      type: 'usage',
+      usage: { prompt_tokens: 9, completion_tokens: 3, total_tokens: 12 },
+      model: 'gpt-4o-mini',
+    });
+  });
+
+  it('estimates the usage of a completion the consumer stops reading', async () => {
+    jest
+      .spyOn(llm, 'stream')
+      .mockReturnValueOnce(
+        chunks({ content: 'Twelve chars' }, { content: ' and more' }),
+      );
+
+    let usage: CompletionUsage;
+    for await (const event of service.stream({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'hat' }],
+      tools: [],
+      handlers: {},
+    })) {
+      if (event.type === 'usage') usage = event.usage;
+      if (event.type === 'delta') break;
+    }
+
+    expect(usage).toEqual({
+      prompt_tokens: 9,
+      completion_tokens: 3,
+      total_tokens: 12,
+    });
+  });
+});
@@ -0,0 +1,331 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ChatCompletionMessage,
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+} from 'openai/resources/chat/completions';
+import { CompletionUsage } from 'openai/resources/completions';
+import {
+  ToolHandler,
+  ToolLoopEvent,
+  ToolLoopOptions,
+  ToolLoopResult,
+  ToolStep,
+} from './interfaces/tool-loop.interface';
+import { LlmProvider } from '../llm/llm.provider';
+import { AppException } from '../common/errors/app.exception';
+import { ErrorCode } from '../common/errors/error-code';
+import { ToolOutput } from './utils/tool-output';
+
+const DEFAULT_MAX_ITERATIONS = 5;
+
+@Injectable()
+export class ToolLoopService {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly llmProvider: LlmProvider,
+  ) {}
+
+  /**
+   * Runs the chat completion / tool execution cycle until the model answers
+   * without requesting tools.
+   *
+   * Every tool call of a turn is executed (in parallel) and answered with a
+   * `role: 'tool'` message carrying its `tool_call_id`. Unknown tools, invalid
+   * JSON arguments and handler errors are reported back to the model as tool
+   * errors (`{ error, code }`, `TOOL_FAILED` unless the handler threw a
+   * catalogue error). When the iteration cap is reached one last completion is requested
+   * with `tool_choice: 'none'` so the user still gets an answer. When
+   * `responseFormat` is set it applies to every completion, so the final
+   * answer follows it.
+   *
+   * @param options - Model, initial messages, tool definitions and handlers.
+   * @returns The final message, the full transcript and every step that ran.
+   */
+  async run(options: ToolLoopOptions): Promise<ToolLoopResult> {
+    const { model, tools, handlers, responseFormat } = options;
+    const maxIterations = this.maxIterations(options.maxIterations);
+    const messages = [...options.messages];
+    const steps: ToolStep[] = [];
+    const usage = this.emptyUsage();
+    let answeredBy = model ?? this.llmProvider.defaultModel;
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      const completion = await this.llmProvider.chat({
+        model,
+        messages,
+        tools,
+        responseFormat,
+      });
+      this.addUsage(usage, completion.usage);
+      answeredBy = completion.model || answeredBy;
+      const message = completion.message;
+      messages.push(message);
+      if (!message.tool_calls?.length) {
+        return {
+          message,
+          messages,
+          steps,
+          usage,
+          model: answeredBy,
+          iterations: iteration,
+          truncated: false,
+        };
+      }
+
+      const turnSteps = await Promise.all(
+        message.tool_calls.map((toolCall) =>
+          this.execute(toolCall, handlers, iteration),
+        ),
+      );
+      steps.push(...turnSteps);
+      messages.push(...turnSteps.map((step) => this.toToolMessage(step)));
+    }
+
+    const completion = await this.llmProvider.chat({
+      model,
+      messages,
+      tools,
+      toolChoice: 'none',
+      responseFormat,
+    });
+    this.addUsage(usage, completion.usage);
+    const message = completion.message;
+    messages.push(message);
+    return {
+      message,
+      messages,
+      steps,
+      usage,
+      model: completion.model || answeredBy,
+      iterations: maxIterations,
+      truncated: true,
+    };
+  }
+
+  /**
+   * Streaming variant of `run()`. Completions are requested with
+   * `stream: true`; text is yielded as `delta` events while it arrives and
+   * every tool call is surrounded by `tool_start` / `tool_end` events. The
+   * last event is always `done`, carrying the same result `run()` returns.
+   * `responseFormat` applies as in `run()`, so deltas of a structured answer
+   * are pieces of its JSON. `usage` events carry the running total: one is
+   * sent first and one after every completion. The total keeps counting after
+   * the event, so a completion cut short, by an error or by the consumer
+   * leaving, is still added to it, with its tokens estimated.
+   *
+   * @param options - Model, initial messages, tool definitions and handlers.
+   */
+  async *stream(options: ToolLoopOptions): AsyncGenerator<ToolLoopEvent> {
+    const { handlers, labels = {} } = options;
+    const maxIterations = this.maxIterations(options.maxIterations);
+    const messages = [...options.messages];
+    const steps: ToolStep[] = [];
+    const usage = this.emptyUsage();
+    const answeredBy = {
+      model: options.model ?? this.llmProvider.defaultModel,
+    };
+    yield { type: 'usage', usage, model: answeredBy.model };
+
+    for (let iteration = 1; iteration <= maxIterations + 1; iteration++) {
+      const truncated = iteration > maxIterations;
+      const message = yield* this.streamCompletion(
+        options,
+        messages,
+        usage,
+        answeredBy,
+        truncated,
+      );
+      messages.push(message);
+
+      if (truncated || !message.tool_calls?.length) {
+        yield {
+          type: 'done',
+          result: {
+            message,
+            messages,
+            steps,
+            usage,
+            model: answeredBy.model,
+            iterations: Math.min(iteration, maxIterations),
+            truncated,
+          },
+        };
+        return;
+      }
+
+      for (const toolCall of message.tool_calls) {
+        yield {
+          type: 'tool_start',
+          toolCallId: toolCall.id,
+          name: toolCall.function.name,
+          label: labels[toolCall.function.name],
+        };
+      }
+      const turnSteps = await Promise.all(
+        message.tool_calls.map((toolCall) =>
+          this.execute(toolCall, handlers, iteration),
+        ),
+      );
+      for (const step of turnSteps) {
+        yield { type: 'tool_end', step };
+      }
+      steps.push(...turnSteps);
+      messages.push(...turnSteps.map((step) => this.toToolMessage(step)));
+    }
+  }
+
+  /**
+   * Streams one completion, yielding text deltas and returning the assembled
+   * assistant message (tool call fragments are merged by their index). Usage
+   * and the reported model are written to `usage` and `answeredBy`.
+   */
+  private async *streamCompletion(
+    options: ToolLoopOptions,
+    messages: ChatCompletionMessageParam[],
+    usage: CompletionUsage,
+    answeredBy: { model: string },
+    finalAnswer: boolean,
+  ): AsyncGenerator<ToolLoopEvent, ChatCompletionMessage> {
+    const stream = this.llmProvider.stream({
+      model: options.model,
+      messages,
+      tools: options.tools,
+      ...(finalAnswer ? { toolChoice: 'none' as const } : {}),
+      responseFormat: options.responseFormat,
+    });
+
+    let content = '';
+    const toolCalls: ChatCompletionMessageToolCall[] = [];
+    let started = false;
+    let counted = false;
+    try {
+      for await (const chunk of stream) {
+        started = true;
+        if (chunk.usage) counted = true;
+        this.addUsage(usage, chunk.usage);
+        if (chunk.model) answeredBy.model = chunk.model;
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          content += delta.content;
+          yield { type: 'delta', content: delta.content };
+        }
+        for (const fragment of delta.tool_calls ?? []) {
+          toolCalls[fragment.index] ??= {
+            id: '',
+            type: 'function',
+            function: { name: '', arguments: '' },
+          };
+          const toolCall = toolCalls[fragment.index];
+          if (fragment.id) toolCall.id = fragment.id;
+          toolCall.function.name += fragment.function?.name ?? '';
+          toolCall.function.arguments += fragment.function?.arguments ?? '';
+        }
+      }
+    } finally {
+      // Usage only comes with the last chunk; a started completion is billed anyway
+      if (started && !counted) {
+        const output =
+          content + toolCalls.map((call) => call?.function.arguments).join('');
+        this.addUsage(usage, this.estimateUsage(messages, output));
+      }
+    }
+    yield { type: 'usage', usage, model: answeredBy.model };
+
+    return {
+      role: 'assistant',
+      content: content || null,
+      refusal: null,
+      ...(toolCalls.length ? { tool_calls: toolCalls.filter(Boolean) } : {}),
+    };
+  }
+
+  private async execute(
+    toolCall: ChatCompletionMessageToolCall,
+    handlers: Record<string, ToolHandler>,
+    iteration: number,
+  ): Promise<ToolStep> {
+    const startedAt = Date.now();
+    const step: ToolStep = {
+      iteration,
+      toolCallId: toolCall.id,
+      name: toolCall.function.name,
+      arguments: {},
+      ok: false,
+      durationMs: 0,
+    };
+
+    try {
+      step.arguments = JSON.parse(toolCall.function.arguments || '{}');
+      const handler = handlers[step.name];
+      if (!handler) {
+        throw new Error(`Unknown tool "${step.name}"`);
+      }
+      const output = await handler(step.arguments);
+      if (output instanceof ToolOutput) {
+        step.result = output.content;
+        step.metadata = output.metadata;
+      } else {
+        step.result = output;
+      }
+      step.ok = true;
+    } catch (error) {
+      step.error = error.message;
+      step.code =
+        error instanceof AppException ? error.code : ErrorCode.TOOL_FAILED;
+    }
+    step.durationMs = Date.now() - startedAt;
+    return step;
+  }
+
+  private toToolMessage(step: ToolStep): ChatCompletionMessageParam {
+    let content: string;
+    if (!step.ok) {
+      content = JSON.stringify({ error: step.error, code: step.code });
+    } else if (typeof step.result === 'string') {
+      content = step.result;
+    } else {
+      content = JSON.stringify(step.result ?? null);
+    }
+    return { role: 'tool', tool_call_id: step.toolCallId, content };
+  }
+
+  private emptyUsage(): CompletionUsage {
+    return { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  }
+
+  private addUsage(total: CompletionUsage, usage?: CompletionUsage | null) {
+    if (!usage) return;
+    total.prompt_tokens += usage.prompt_tokens ?? 0;
+    total.completion_tokens += usage.completion_tokens ?? 0;
+    total.total_tokens += usage.total_tokens ?? 0;
+  }
+
+  /** About four characters per token, like the conversation history budget. */
+  private estimateUsage(
+    messages: ChatCompletionMessageParam[],
+    output: string,
+  ): CompletionUsage {
+    const prompt_tokens = Math.ceil(JSON.stringify(messages).length / 4);
+    const completion_tokens = Math.ceil(output.length / 4);
+    return {
+      prompt_tokens,
+      completion_tokens,
+      total_tokens: prompt_tokens + completion_tokens,
+    };
+  }
+
+  private maxIterations(override?: number): number {
+    const value = Number(
+      override ??
+        this.configService.get('TOOL_MAX_ITERATIONS') ??
+        DEFAULT_MAX_ITERATIONS,
+    );
+    return Number.isInteger(value) && value > 0
+      ? value
+      : DEFAULT_MAX_ITERATIONS;
+  }
+}
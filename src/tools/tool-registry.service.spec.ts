@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as Joi from 'joi';
+import { AiTool } from './decorators/ai-tool.decorator';
+import { ToolRegistry } from './tool-registry.service';
+import { JoiSchema } from '../common/validation/joi-schema.decorator';
+import { ToolContext } from './interfaces/tool-loop.interface';
+import { DEFAULT_TENANT } from '../tenants/tenants.service';
+
+@JoiSchema(
+  Joi.object({
+    to: Joi.string().valid('left', 'right').default('left'),
+  }),
+)
+class WaveArgs {
+  to?: 'left' | 'right';
+}
+
+@Injectable()
+class GreetingService {
+  @AiTool({
+    name: 'greet',
+    description: 'Greet someone',
+    schema: Joi.object({
+      name: Joi.string().required().description('Who to greet'),
+      times: Joi.number().integer().min(1).default(1),
+    }),
+    toolsets: ['greetings'],
+  })
+  async greet({ name, times }: { name: string; times: number }) {
+    return `Hello ${name}`.repeat(times);
+  }
+
+  @AiTool({
+    name: 'wave',
+    description: 'Wave',
+    schema: WaveArgs,
+    toolsets: ['other'],
+  })
+  async wave({ to }: WaveArgs, context?: ToolContext) {
+    const hand = to === 'left' ? 'o/' : '\\o';
+    return context?.tenant ? `${hand} from ${context.tenant.name}` : hand;
+  }
+}
+
+describe('ToolRegistry', () => {
+  let registry: ToolRegistry;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [ToolRegistry, GreetingService],
+    }).compile();
+    await module.init();
+
+    registry = module.get<ToolRegistry>(ToolRegistry);
+  });
+
+  it('discovers decorated methods and filters them by tool set', () => {
+    expect(registry.getTools('greetings')).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'greet',
+          description: 'Greet someone',
+          parameters: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Who to greet' },
+              times: { type: 'integer', default: 1, minimum: 1 },
+            },
+            required: ['name'],
+          },
+        },
+      },
+    ]);
+    expect(registry.getTools(['greetings', 'other'])).toHaveLength(2);
+  });
+
+  it('validates and converts arguments before calling the handler', async () => {
+    const { greet } = registry.getHandlers('greetings');
+
+    await expect(greet({ name: 'Ana', times: '2' })).resolves.toBe(
+      'Hello AnaHello Ana',
+    );
+    await expect(greet({ times: 0 })).rejects.toThrow(
+      'Invalid arguments for greet: "name" is required',
+    );
+  });
+
+  it('accepts @JoiSchema DTO classes as argument schemas', async () => {
+    expect(registry.getTools('other')[0].function.parameters).toEqual({
+      type: 'object',
+      properties: {
+        to: { type: 'string', enum: ['left', 'right'], default: 'left' },
+      },
+    });
+    await expect(registry.getHandlers('other').wave({})).resolves.toBe('o/');
+  });
+
+  it('keeps the enabled tools and passes the context to their handlers', async () => {
+    const scope = { enabled: ['wave'], context: { tenant: DEFAULT_TENANT } };
+
+    const handlers = registry.getHandlers(['greetings', 'other'], scope);
+
+    expect(
+      registry
+        .getTools(['greetings', 'other'], scope)
+        .map((tool) => tool.function.name),
+    ).toEqual(['wave']);
+    expect(Object.keys(handlers)).toEqual(['wave']);
+    await expect(handlers.wave({})).resolves.toBe('o/ from Default');
+  });
+
+  it('rejects classes without a Joi schema', () => {
+    class Untyped {}
+
+    expect(() =>
+      registry.register({
+        name: 'untyped',
+        description: '',
+        schema: Untyped,
+        toolsets: [],
+        handler: async () => null,
+      }),
+    ).toThrow('Untyped is not decorated with @JoiSchema');
+  });
+
+  it('rejects duplicate tool names', () => {
+    expect(() =>
+      registry.register({
+        name: 'greet',
+        description: '',
+        schema: Joi.object(),
+        toolsets: [],
+        handler: async () => null,
+      }),
+    ).toThrow('AI tool "greet" is already registered');
+  });
+});
@@ -0,0 +1,152 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { ChatCompletionTool } from 'openai/resources/chat/completions';
+import {
+  AI_TOOL_METADATA,
+  AiToolOptions,
+} from './decorators/ai-tool.decorator';
+import { ToolContext, ToolHandler } from './interfaces/tool-loop.interface';
+import * as Joi from 'joi';
+import { joiToJsonSchema } from '../common/validation/joi-to-json-schema';
+import { resolveJoiSchema } from '../common/validation/joi-schema.decorator';
+import { ValidationException } from '../common/errors/app.exception';
+
+export interface RegisteredTool extends AiToolOptions {
+  handler: ToolHandler;
+}
+
+/** A registered tool whose DTO class has been resolved to its Joi schema. */
+export interface ResolvedTool extends RegisteredTool {
+  schema: Joi.ObjectSchema;
+}
+
+/** Narrows the tools of a run, e.g. to those a tenant enabled. */
+export interface ToolScope {
+  /** Tool names to keep; every tool of the tool sets when omitted. */
+  enabled?: string[];
+  /** Passed to every handler. */
+  context?: ToolContext;
+}
+
+@Injectable()
+export class ToolRegistry implements OnModuleInit {
+  private readonly tools = new Map<string, ResolvedTool>();
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+  ) {}
+
+  /**
+   * Registers every provider method decorated with `@AiTool`.
+   */
+  onModuleInit() {
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const { instance } = wrapper;
+      if (!instance || typeof instance !== 'object') continue;
+
+      const prototype = Object.getPrototypeOf(instance);
+      for (const methodName of this.metadataScanner.getAllMethodNames(
+        prototype,
+      )) {
+        const options = this.reflector.get<AiToolOptions>(
+          AI_TOOL_METADATA,
+          instance[methodName],
+        );
+        if (options) {
+          this.register({
+            ...options,
+            handler: (args, context) => instance[methodName](args, context),
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Adds a tool to the registry.
+   *
+   * @throws {Error} If a tool with the same name is already registered, or
+   * its schema is a class without `@JoiSchema`.
+   */
+  register(tool: RegisteredTool) {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`AI tool "${tool.name}" is already registered`);
+    }
+    this.tools.set(tool.name, {
+      ...tool,
+      schema: resolveJoiSchema(tool.schema),
+    });
+  }
+
+  /**
+   * Returns the registered tools that belong to any of the given tool sets
+   * and are enabled in `scope`.
+   */
+  list(toolsets: string | string[], scope: ToolScope = {}): ResolvedTool[] {
+    const wanted = Array.isArray(toolsets) ? toolsets : [toolsets];
+    return [...this.tools.values()].filter(
+      (tool) =>
+        tool.toolsets.some((toolset) => wanted.includes(toolset)) &&
+        (!scope.enabled || scope.enabled.includes(tool.name)),
+    );
+  }
+
+  /**
+   * Builds the OpenAI tool definitions for the given tool sets.
+   */
+  getTools(
+    toolsets: string | string[],
+    scope?: ToolScope,
+  ): ChatCompletionTool[] {
+    return this.list(toolsets, scope).map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: { ...joiToJsonSchema(tool.schema) },
+      },
+    }));
+  }
+
+  /**
+   * Returns the progress labels of the given tool sets, keyed by tool name.
+   */
+  getLabels(
+    toolsets: string | string[],
+    scope?: ToolScope,
+  ): Record<string, string> {
+    const labels: Record<string, string> = {};
+    for (const tool of this.list(toolsets, scope)) {
+      if (tool.label) labels[tool.name] = tool.label;
+    }
+    return labels;
+  }
+
+  /**
+   * Builds the tool loop handlers for the given tool sets. Arguments are
+   * validated (and converted) with the tool's Joi schema before the handler
+   * runs; invalid arguments are rejected with an error the model can read.
+   * Handlers receive the `context` of the scope.
+   */
+  getHandlers(
+    toolsets: string | string[],
+    scope: ToolScope = {},
+  ): Record<string, ToolHandler> {
+    const handlers: Record<string, ToolHandler> = {};
+    for (const tool of this.list(toolsets, scope)) {
+      handlers[tool.name] = async (args) => {
+        const { error, value } = tool.schema.validate(args);
+        if (error) {
+          throw ValidationException.fromJoi(
+            error,
+            `Invalid arguments for ${tool.name}`,
+          );
+        }
+        return tool.handler(value, scope.context);
+      };
+    }
+    return handlers;
+  }
+}
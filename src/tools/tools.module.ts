@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { LlmModule } from '../llm/llm.module';
+import { ToolLoopService } from './tool-loop.service';
+import { ToolRegistry } from './tool-registry.service';
+
+@Module({
+  imports: [DiscoveryModule, LlmModule],
+  providers: [ToolLoopService, ToolRegistry],
+  exports: [ToolLoopService, ToolRegistry],
+})
+export class ToolsModule {}
@@ -0,0 +1,42 @@
+import { JsonFieldFilter } from './json-field-filter';
+
+async function feed(filter: JsonFieldFilter, pieces: string[]) {
+  const out: string[] = [];
+  for (const piece of pieces) out.push(await filter.push(piece));
+  return out;
+}
+
+describe('JsonFieldFilter', () => {
+  it('passes on the field value as it arrives and drops the rest', async () => {
+    const out = await feed(new JsonFieldFilter('answer'), [
+      '{"ans',
+      'wer":"These bo',
+      'ots fit',
+      '","recommendations":[{"productId":"boots","reason":"Tall"}]}',
+    ]);
+
+    expect(out).toEqual(['', 'These bo', 'ots fit', '']);
+  });
+
+  it('unescapes the value, even when an escape is split across pieces', async () => {
+    const out = await feed(new JsonFieldFilter('answer'), [
+      '{"answer":"Say \\',
+      '"hi\\"\\n\\u00',
+      'e9t\\u00e9 \\\\o/"}',
+    ]);
+
+    expect(out.join('')).toBe('Say "hi"\nété \\o/');
+  });
+
+  it('ignores the field inside nested objects and other values', async () => {
+    const out = await feed(new JsonFieldFilter('answer'), [
+      JSON.stringify({
+        meta: { answer: 'nested', note: 'answer' },
+        list: ['answer', { answer: 'deep' }],
+        answer: 'top',
+      }),
+    ]);
+
+    expect(out.join('')).toBe('top');
+  });
+});
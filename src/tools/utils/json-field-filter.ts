@@ -0,0 +1,102 @@
+import { DeltaFilter } from './prompt-stream';
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Passes on only the value of one top-level string field of a JSON object
+ * streamed in pieces, unescaped, e.g. the `answer` of a structured answer.
+ * Everything else, including nested fields of the same name, is dropped.
+ */
+export class JsonFieldFilter implements DeltaFilter {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  /** Hex digits of a `\u` escape read so far. */
+  private unicode?: string;
+  private readingKey = false;
+  private afterColon = false;
+  private key = '';
+  private emitting = false;
+
+  constructor(private readonly field: string) {}
+
+  async push(content: string): Promise<string> {
+    let out = '';
+    for (const char of content) {
+      if (this.inString) {
+        const text = this.readString(char);
+        if (text === undefined) continue;
+        if (this.readingKey) this.key += text;
+        else if (this.emitting) out += text;
+        continue;
+      }
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.readingKey = this.depth === 1 && !this.afterColon;
+          this.emitting =
+            this.depth === 1 && this.afterColon && this.key === this.field;
+          if (this.readingKey) this.key = '';
+          break;
+        case ':':
+          if (this.depth === 1) this.afterColon = true;
+          break;
+        case ',':
+          if (this.depth === 1) this.afterColon = false;
+          break;
+        case '{':
+        case '[':
+          this.depth++;
+          break;
+        case '}':
+        case ']':
+          this.depth--;
+          break;
+      }
+    }
+    return out;
+  }
+
+  async flush(): Promise<string> {
+    return '';
+  }
+
+  /** @returns The text a string character stands for, if any yet. */
+  private readString(char: string): string | undefined {
+    if (this.unicode !== undefined) {
+      this.unicode += char;
+      if (this.unicode.length < 4) return undefined;
+      const code = parseInt(this.unicode, 16);
+      this.unicode = undefined;
+      return String.fromCharCode(code);
+    }
+    if (this.escaped) {
+      this.escaped = false;
+      if (char === 'u') {
+        this.unicode = '';
+        return undefined;
+      }
+      return ESCAPES[char] ?? char;
+    }
+    if (char === '\\') {
+      this.escaped = true;
+      return undefined;
+    }
+    if (char === '"') {
+      this.inString = false;
+      this.readingKey = false;
+      this.emitting = false;
+      return undefined;
+    }
+    return char;
+  }
+}
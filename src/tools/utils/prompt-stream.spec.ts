@@ -0,0 +1,215 @@
+import { ToolLoopEvent } from '../interfaces/tool-loop.interface';
+import { DeltaFilter, toPromptStream } from './prompt-stream';
+import { UpstreamTimeoutException } from '../../common/errors/app.exception';
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('toPromptStream', () => {
+  it('maps loop events and merges the onDone payload into done', async () => {
+    async function* events(): AsyncGenerator<ToolLoopEvent> {
+      yield { type: 'delta', content: 'Hi' };
+      yield {
+        type: 'done',
+        result: {
+          message: { role: 'assistant', content: 'Hi', refusal: null },
+          messages: [],
+          steps: [],
+          usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+          model: 'mock-model',
+          iterations: 1,
+          truncated: false,
+        },
+      };
+    }
+
+    const sent = await collect(
+      toPromptStream(events(), async () => ({ conversationId: 'abc' })),
+    );
+
+    expect(sent).toEqual([
+      { event: 'delta', data: { content: 'Hi' } },
+      {
+        event: 'done',
+        data: {
+          conversationId: 'abc',
+          response: 'Hi',
+          steps: [],
+          usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+        },
+      },
+    ]);
+  });
+
+  it('streams the deltas through the filters and flushes them before done', async () => {
+    async function* events(): AsyncGenerator<ToolLoopEvent> {
+      yield { type: 'delta', content: 'Mail ada@' };
+      yield { type: 'delta', content: 'example.com. Or ' };
+      yield { type: 'delta', content: 'call.' };
+      yield {
+        type: 'done',
+        result: {
+          message: {
+            role: 'assistant',
+            content: 'Mail ada@example.com. Or call.',
+            refusal: null,
+          },
+          messages: [],
+          steps: [],
+          usage: { prompt_tokens: 1, completion_tokens: 3, total_tokens: 4 },
+          model: 'mock-model',
+          iterations: 1,
+          truncated: false,
+        },
+      };
+    }
+    let held = '';
+    const bySentence: DeltaFilter = {
+      push: async (content) => {
+        held += content;
+        const end = held.lastIndexOf('. ') + 1;
+        const sentences = end ? held.slice(0, end + 1) : '';
+        held = held.slice(sentences.length);
+        return sentences;
+      },
+      flush: async () => held,
+    };
+    const masking: DeltaFilter = {
+      push: async (content) => content.replace('ada@example.com', '[email]'),
+      flush: async () => '',
+    };
+    const onDone = jest
+      .fn()
+      .mockResolvedValue({ response: 'Mail [email]. Or call.' });
+
+    const sent = await collect(
+      toPromptStream(events(), onDone, undefined, [bySentence, masking]),
+    );
+
+    expect(sent).toEqual([
+      { event: 'delta', data: { content: 'Mail [email]. ' } },
+      { event: 'delta', data: { content: 'Or call.' } },
+      expect.objectContaining({ event: 'done' }),
+    ]);
+    expect(sent[2].data).toMatchObject({ response: 'Mail [email]. Or call.' });
+  });
+
+  it('sends the response from onDone when no delta got through', async () => {
+    async function* events(): AsyncGenerator<ToolLoopEvent> {
+      yield { type: 'delta', content: '{"answer":"Hi"}' };
+      yield {
+        type: 'done',
+        result: {
+          message: {
+            role: 'assistant',
+            content: '{"answer":"Hi"}',
+            refusal: null,
+          },
+          messages: [],
+          steps: [],
+          usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+          model: 'mock-model',
+          iterations: 1,
+          truncated: false,
+        },
+      };
+    }
+    const dropAll: DeltaFilter = {
+      push: async () => '',
+      flush: async () => '',
+    };
+
+    const sent = await collect(
+      toPromptStream(events(), async () => ({ response: 'Hi' }), undefined, [
+        dropAll,
+      ]),
+    );
+
+    expect(sent.map((event) => event.event)).toEqual(['delta', 'done']);
+    expect(sent[0].data).toEqual({ content: 'Hi' });
+  });
+
+  it('ends with an error event when the loop fails', async () => {
+    const events: AsyncIterable<ToolLoopEvent> = {
+      [Symbol.asyncIterator]: () => ({
+        next: () => Promise.reject(new UpstreamTimeoutException('openai')),
+      }),
+    };
+
+    const sent = await collect(toPromptStream(events, async () => ({})));
+
+    expect(sent).toEqual([
+      {
+        event: 'error',
+        data: {
+          statusCode: 504,
+          code: 'UPSTREAM_TIMEOUT',
+          message: 'openai did not respond in time',
+        },
+      },
+    ]);
+  });
+
+  describe('when the stream ends before done', () => {
+    const usage = { prompt_tokens: 40, completion_tokens: 5, total_tokens: 45 };
+    const step = {
+      iteration: 1,
+      toolCallId: 'call_1',
+      name: 'searchProduct',
+      arguments: { search: 'hat' },
+      ok: true,
+      durationMs: 3,
+    };
+
+    it('accounts for the usage so far when the client disconnects', async () => {
+      async function* events(): AsyncGenerator<ToolLoopEvent> {
+        yield { type: 'usage', usage, model: 'mock-model' };
+        yield {
+          type: 'tool_start',
+          toolCallId: 'call_1',
+          name: 'searchProduct',
+        };
+        yield { type: 'tool_end', step };
+        yield { type: 'usage', usage, model: 'mock-model' };
+      }
+      const onDone = jest.fn();
+      const onInterrupted = jest.fn().mockResolvedValue(undefined);
+
+      for await (const event of toPromptStream(
+        events(),
+        onDone,
+        onInterrupted,
+      )) {
+        if (event.event === 'tool_end') break;
+      }
+
+      expect(onDone).not.toHaveBeenCalled();
+      expect(onInterrupted).toHaveBeenCalledWith(
+        { steps: [step], usage, model: 'mock-model' },
+        'CLIENT_CLOSED',
+      );
+    });
+
+    it('accounts for the usage so far when the loop fails', async () => {
+      async function* events(): AsyncGenerator<ToolLoopEvent> {
+        yield { type: 'usage', usage, model: 'mock-model' };
+        throw new UpstreamTimeoutException('openai');
+      }
+      const onInterrupted = jest.fn().mockResolvedValue(undefined);
+
+      const sent = await collect(
+        toPromptStream(events(), async () => ({}), onInterrupted),
+      );
+
+      expect(onInterrupted).toHaveBeenCalledTimes(1);
+      expect(onInterrupted).toHaveBeenCalledWith(
+        { steps: [], usage, model: 'mock-model' },
+        'UPSTREAM_TIMEOUT',
+      );
+      expect(sent).toEqual([expect.objectContaining({ event: 'error' })]);
+    });
+  });
+});
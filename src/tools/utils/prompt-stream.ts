@@ -0,0 +1,144 @@
+import { Logger } from '@nestjs/common';
+import { SseEvent } from '../../common/sse/sse.interface';
+import { describeError } from '../../common/errors/error-response';
+import {
+  StreamInterruption,
+  ToolLoopEvent,
+  ToolLoopProgress,
+  ToolLoopResult,
+  ToolStep,
+} from '../interfaces/tool-loop.interface';
+
+const logger = new Logger('PromptStream');
+
+/**
+ * Rewrites the answer text on its way to the client, e.g. to mask it. It may
+ * hold text back until it has enough to decide, and is flushed at the end.
+ */
+export interface DeltaFilter {
+  /** @returns The text that can be sent now, possibly empty. */
+  push(content: string): Promise<string>;
+  /** @returns The text still held back, once the answer is complete. */
+  flush(): Promise<string>;
+}
+
+/**
+ * Turns tool loop events into the SSE events sent by the `prompt/stream`
+ * endpoints:
+ *
+ * - `delta`: `{ content }`, a piece of the answer as it arrives, after the
+ *   `filters`. If none was sent, the response from `onDone` is sent as one.
+ * - `tool_start`: `{ toolCallId, name, label }` when a tool starts running.
+ * - `tool_end`: `{ toolCallId, name, ok, error, code, durationMs }` when it finishes.
+ * - `done`: `{ response, steps, usage, ...extra }` once the answer is complete.
+ * - `error`: `{ statusCode, code, message }` if the stream fails, as in error
+ *   responses; nothing follows it.
+ *
+ * If the loop fails, or the client disconnects, before `done`, `onInterrupted`
+ * gets the tokens and tool steps used so far, so they are still accounted for.
+ *
+ * @param events - Events from `ToolLoopService.stream()`.
+ * @param onDone - Runs when the loop finishes; its result is merged into the `done` payload and may replace `usage`.
+ *   Its `response`, when set, replaces the raw answer in `done`.
+ * @param onInterrupted - Runs instead of `onDone` when the stream ends early, with the error code or `CLIENT_CLOSED`.
+ * @param filters - Applied in order to the model deltas; all of them are flushed before `onDone` runs.
+ */
+export async function* toPromptStream(
+  events: AsyncIterable<ToolLoopEvent>,
+  onDone: (result: ToolLoopResult) => Promise<Record<string, unknown>>,
+  onInterrupted?: (
+    progress: ToolLoopProgress,
+    reason: StreamInterruption,
+  ) => Promise<void>,
+  filters: DeltaFilter[] = [],
+): AsyncGenerator<SseEvent> {
+  const steps: ToolStep[] = [];
+  let streamed = false;
+  const filter = async (content: string, flush = false) => {
+    for (const step of filters) {
+      content =
+        (content ? await step.push(content) : '') +
+        (flush ? await step.flush() : '');
+    }
+    if (content) streamed = true;
+    return content;
+  };
+  let progress: ToolLoopProgress | undefined;
+  let settled = false;
+  const interrupt = async (reason: StreamInterruption) => {
+    settled = true;
+    if (!progress || !onInterrupted) return;
+    try {
+      await onInterrupted(progress, reason);
+    } catch (error) {
+      logger.warn(
+        `Could not account for an interrupted stream: ${error.message}`,
+      );
+    }
+  };
+
+  try {
+    for await (const event of events) {
+      switch (event.type) {
+        case 'delta': {
+          const content = await filter(event.content);
+          if (content) yield { event: 'delta', data: { content } };
+          break;
+        }
+        case 'usage':
+          progress = { steps, usage: event.usage, model: event.model };
+          break;
+        case 'tool_start':
+          yield {
+            event: 'tool_start',
+            data: {
+              toolCallId: event.toolCallId,
+              name: event.name,
+              label: event.label,
+            },
+          };
+          break;
+        case 'tool_end':
+          steps.push(event.step);
+          yield {
+            event: 'tool_end',
+            data: {
+              toolCallId: event.step.toolCallId,
+              name: event.step.name,
+              ok: event.step.ok,
+              error: event.step.error,
+              code: event.step.code,
+              durationMs: event.step.durationMs,
+            },
+          };
+          break;
+        case 'done': {
+          const rest = await filter('', true);
+          if (rest) yield { event: 'delta', data: { content: rest } };
+          settled = true;
+          const extra = await onDone(event.result);
+          const response = extra.response ?? event.result.message.content;
+          if (response && !streamed) {
+            yield { event: 'delta', data: { content: response } };
+          }
+          yield {
+            event: 'done',
+            data: {
+              response,
+              steps: event.result.steps,
+              usage: event.result.usage,
+              ...extra,
+            },
+          };
+          break;
+        }
+      }
+    }
+  } catch (error) {
+    const description = describeError(error);
+    if (!settled) await interrupt(description.code);
+    yield { event: 'error', data: description };
+  } finally {
+    if (!settled) await interrupt('CLIENT_CLOSED');
+  }
+}
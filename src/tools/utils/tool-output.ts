@@ -0,0 +1,12 @@
+/**
+ * Tool result with facts for the transcripts besides the text sent to the
+ * model, e.g. how many products a search found. Handlers return it instead
+ * of a plain value; the tool loop sends `content` to the model and keeps
+ * `metadata` on the step.
+ */
+export class ToolOutput<T = unknown> {
+  constructor(
+    readonly content: T,
+    readonly metadata: Record<string, unknown>,
+  ) {}
+}
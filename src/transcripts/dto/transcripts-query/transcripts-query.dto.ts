@@ -0,0 +1,72 @@
+import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+import { Assistant } from '../../interfaces/transcript.interface';
+
+const rangeKeys = {
+  from: Joi.string()
+    .isoDate()
+    .description('First day, YYYY-MM-DD (UTC); defaults to 6 days before `to`')
+    .example('2024-10-01'),
+  to: Joi.string()
+    .isoDate()
+    .description('Last day, YYYY-MM-DD (UTC); defaults to today')
+    .example('2024-10-07'),
+  tenantId: Joi.string()
+    .max(128)
+    .description('Only this tenant')
+    .example('tea-shop'),
+  assistant: Joi.string()
+    .valid('ai', 'products')
+    .description('Only `/ai/prompt*` or `/products/prompt*`'),
+};
+
+export const transcriptsQuerySchema = Joi.object({
+  ...rangeKeys,
+  conversationId: Joi.string().max(128).description('Only this conversation'),
+  clientId: Joi.string()
+    .max(128)
+    .description('Only this client, as listed in `/admin/usage`')
+    .example('tenant:tea-shop'),
+  blocked: Joi.boolean().description(
+    'Only prompts refused by the guardrails (`true`) or only answered ones (`false`)',
+  ),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(500)
+    .default(50)
+    .description('Transcripts to return, newest first'),
+});
+
+/** Query of `GET /admin/transcripts`. */
+@JoiSchema(transcriptsQuerySchema)
+export class TranscriptsQuery {
+  from?: string;
+  to?: string;
+  tenantId?: string;
+  assistant?: Assistant;
+  conversationId?: string;
+  clientId?: string;
+  blocked?: boolean;
+  limit?: number;
+}
+
+export const analyticsQuerySchema = Joi.object({
+  ...rangeKeys,
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(10)
+    .description('Entries of each top list'),
+});
+
+/** Query of `GET /admin/analytics`. */
+@JoiSchema(analyticsQuerySchema)
+export class AnalyticsQuery {
+  from?: string;
+  to?: string;
+  tenantId?: string;
+  assistant?: Assistant;
+  limit?: number;
+}
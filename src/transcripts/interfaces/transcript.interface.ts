@@ -0,0 +1,100 @@
+import { ErrorCode } from '../../common/errors/error-code';
+import { GuardrailFinding } from '../../guardrails/interfaces/guardrail.interface';
+import { RequestUsage } from '../../usage/interfaces/usage.interface';
+import { StreamInterruption } from '../../tools/interfaces/tool-loop.interface';
+
+/** Assistant that answered: `/ai/prompt*` or `/products/prompt*`. */
+export type Assistant = 'ai' | 'products';
+
+export interface TranscriptToolCall {
+  /** 1-based index of the model turn that requested the call. */
+  iteration: number;
+  name: string;
+  arguments: Record<string, any>;
+  ok: boolean;
+  /** What the model received, cut to `TRANSCRIPT_MAX_RESULT_CHARS`. */
+  result?: unknown;
+  error?: string;
+  code?: ErrorCode;
+  /** e.g. `{ resultCount, productIds }` of `searchProduct`. */
+  metadata?: Record<string, unknown>;
+  durationMs: number;
+}
+
+/** One answered prompt, with everything that happened to produce the answer. */
+export interface Transcript {
+  id: string;
+  /** Correlation ID of the HTTP request; also in the request logs. */
+  correlationId?: string;
+  /** ISO timestamp of the answer. */
+  createdAt: string;
+  assistant: Assistant;
+  /** Method and route, e.g. "POST /products/prompt". */
+  endpoint?: string;
+  clientId?: string;
+  tenantId: string;
+  conversationId: string;
+  prompt: string;
+  toolCalls: TranscriptToolCall[];
+  answer: string;
+  /** Product IDs the products assistant recommended. */
+  recommendations: string[];
+  model: string;
+  usage: RequestUsage;
+  /** From receiving the prompt to having the answer. */
+  latencyMs: number;
+  /** True when the tool iteration cap cut the loop short. */
+  truncated: boolean;
+  /** Redactions and blocks of the guardrail checks. */
+  guardrails?: GuardrailFinding[];
+  /** The check that refused the prompt or the answer; `answer` is empty then. */
+  blocked?: GuardrailFinding;
+  /**
+   * Why a streamed answer never completed (`CLIENT_CLOSED`, or the error code);
+   * `answer` is empty and `usage` covers the tokens used until then.
+   */
+  interrupted?: StreamInterruption;
+}
+
+export interface TranscriptFilter {
+  /** First and last day, YYYY-MM-DD (UTC), inclusive. */
+  from: string;
+  to: string;
+  tenantId?: string;
+  assistant?: Assistant;
+  conversationId?: string;
+  clientId?: string;
+  /** Only blocked (`true`) or only answered (`false`) prompts. */
+  blocked?: boolean;
+}
+
+export interface QueryCount {
+  query: string;
+  count: number;
+}
+
+export interface ToolStats {
+  name: string;
+  calls: number;
+  errors: number;
+  errorRate: number;
+}
+
+export interface AnalyticsReport {
+  from: string;
+  to: string;
+  transcripts: number;
+  conversations: number;
+  latency: { averageMs: number; p95Ms: number };
+  totalTokens: number;
+  costUsd: number;
+  /** Most asked prompts, compared case- and punctuation-insensitively. */
+  topQueries: QueryCount[];
+  searches: { total: number; zeroResults: number; zeroResultRate: number };
+  /** `searchProduct` queries that found nothing, most frequent first. */
+  zeroResultSearches: QueryCount[];
+  recommendedProducts: { productId: string; count: number }[];
+  tools: ToolStats[];
+  /** Prompts and answers refused by the guardrails, per check. */
+  blocked: { total: number; byCheck: { check: string; count: number }[] };
+}
@@ -0,0 +1,79 @@
+import { appendFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Transcript } from '../interfaces/transcript.interface';
+import { FileTranscriptStore } from './file-transcript.store';
+
+describe('FileTranscriptStore', () => {
+  let dir: string;
+
+  const transcript = (id: string, createdAt: string): Transcript => ({
+    id,
+    createdAt,
+    assistant: 'ai',
+    tenantId: 'default',
+    conversationId: 'conversation-1',
+    prompt: 'Weather in Paris?',
+    toolCalls: [],
+    answer: 'Sunny',
+    recommendations: [],
+    model: 'gpt-4o-mini',
+    usage: {
+      model: 'gpt-4o-mini',
+      prompt_tokens: 10,
+      completion_tokens: 2,
+      total_tokens: 12,
+      costUsd: 0,
+    },
+    latencyMs: 20,
+    truncated: false,
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'transcripts-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends concurrent transcripts that survive a restart', async () => {
+    const filePath = join(dir, 'nested', 'transcripts.jsonl');
+    const store = new FileTranscriptStore(filePath);
+    await Promise.all([
+      store.add(transcript('a', '2024-10-01T10:00:00.000Z')),
+      store.add(transcript('b', '2024-10-02T10:00:00.000Z')),
+      store.add(transcript('c', '2024-10-03T10:00:00.000Z')),
+    ]);
+    const reopened = new FileTranscriptStore(filePath);
+
+    expect(
+      (await reopened.list({ from: '2024-10-02', to: '2024-10-31' })).map(
+        (t) => t.id,
+      ),
+    ).toEqual(['b', 'c']);
+    expect(await reopened.get('a')).toEqual(
+      transcript('a', '2024-10-01T10:00:00.000Z'),
+    );
+  });
+
+  it('skips lines that cannot be parsed', async () => {
+    const filePath = join(dir, 'transcripts.jsonl');
+    const store = new FileTranscriptStore(filePath);
+    await store.add(transcript('a', '2024-10-01T10:00:00.000Z'));
+    appendFileSync(filePath, '{"id":"torn');
+
+    expect(
+      await store.list({ from: '2024-01-01', to: '2024-12-31' }),
+    ).toHaveLength(1);
+  });
+
+  it('starts empty when the file does not exist', async () => {
+    const store = new FileTranscriptStore(join(dir, 'missing.jsonl'));
+
+    expect(await store.list({ from: '2024-01-01', to: '2024-12-31' })).toEqual(
+      [],
+    );
+    expect(await store.get('a')).toBeUndefined();
+  });
+});
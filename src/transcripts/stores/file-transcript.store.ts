@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import {
+  Transcript,
+  TranscriptFilter,
+} from '../interfaces/transcript.interface';
+import { matchesFilter, TranscriptStore } from './transcript.store';
+
+/**
+ * Appends every transcript as one line of a JSON Lines file, so writing
+ * stays cheap however large the file grows. Lines that cannot be parsed,
+ * e.g. the last one after a crash mid-write, are skipped when reading.
+ */
+export class FileTranscriptStore extends TranscriptStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async add(transcript: Transcript) {
+    // Serialise appends so concurrent requests never interleave their lines.
+    const next = this.writeQueue.then(async () => {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${JSON.stringify(transcript)}\n`);
+    });
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  async list(filter: TranscriptFilter) {
+    return (await this.read()).filter((transcript) =>
+      matchesFilter(transcript, filter),
+    );
+  }
+
+  async get(id: string) {
+    return (await this.read()).find((transcript) => transcript.id === id);
+  }
+
+  private async read(): Promise<Transcript[]> {
+    await this.writeQueue;
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    const transcripts: Transcript[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        transcripts.push(JSON.parse(line));
+      } catch {
+        // Torn write: drop the line
+      }
+    }
+    return transcripts;
+  }
+}
@@ -0,0 +1,37 @@
+import {
+  Transcript,
+  TranscriptFilter,
+} from '../interfaces/transcript.interface';
+import { matchesFilter, TranscriptStore } from './transcript.store';
+
+/**
+ * Default store. Keeps the latest `maxEntries` transcripts in the process;
+ * they are lost on restart.
+ */
+export class InMemoryTranscriptStore extends TranscriptStore {
+  private readonly transcripts: Transcript[] = [];
+
+  constructor(private readonly maxEntries = 10000) {
+    super();
+  }
+
+  async add(transcript: Transcript) {
+    this.transcripts.push(structuredClone(transcript));
+    if (this.transcripts.length > this.maxEntries) {
+      this.transcripts.splice(0, this.transcripts.length - this.maxEntries);
+    }
+  }
+
+  async list(filter: TranscriptFilter) {
+    return this.transcripts
+      .filter((transcript) => matchesFilter(transcript, filter))
+      .map((transcript) => structuredClone(transcript));
+  }
+
+  async get(id: string) {
+    const transcript = this.transcripts.find(
+      (candidate) => candidate.id === id,
+    );
+    return transcript ? structuredClone(transcript) : undefined;
+  }
+}
@@ -0,0 +1,32 @@
+import {
+  Transcript,
+  TranscriptFilter,
+} from '../interfaces/transcript.interface';
+
+/**
+ * Persistence contract for transcripts. They are written once and never
+ * changed, so stores only append and filter.
+ */
+export abstract class TranscriptStore {
+  abstract add(transcript: Transcript): Promise<void>;
+  /** Matching transcripts, oldest first. */
+  abstract list(filter: TranscriptFilter): Promise<Transcript[]>;
+  abstract get(id: string): Promise<Transcript | undefined>;
+}
+
+export function matchesFilter(
+  transcript: Transcript,
+  filter: TranscriptFilter,
+): boolean {
+  const day = transcript.createdAt.slice(0, 10);
+  return (
+    day >= filter.from &&
+    day <= filter.to &&
+    (!filter.tenantId || transcript.tenantId === filter.tenantId) &&
+    (!filter.assistant || transcript.assistant === filter.assistant) &&
+    (!filter.conversationId ||
+      transcript.conversationId === filter.conversationId) &&
+    (!filter.clientId || transcript.clientId === filter.clientId) &&
+    (filter.blocked === undefined || !!transcript.blocked === filter.blocked)
+  );
+}
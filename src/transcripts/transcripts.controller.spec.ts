@@ -0,0 +1,42 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TranscriptsController } from './transcripts.controller';
+import { TranscriptsService } from './transcripts.service';
+
+describe('TranscriptsController', () => {
+  let controller: TranscriptsController;
+  const transcriptsService = {
+    list: jest.fn(),
+    get: jest.fn(),
+    analytics: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TranscriptsController],
+      providers: [
+        ConfigService,
+        { provide: TranscriptsService, useValue: transcriptsService },
+      ],
+    }).compile();
+
+    controller = module.get<TranscriptsController>(TranscriptsController);
+  });
+
+  it('passes the filters on to the service', async () => {
+    transcriptsService.list.mockResolvedValue({ total: 0, items: [] });
+    transcriptsService.analytics.mockResolvedValue({ transcripts: 0 });
+
+    await controller.list({ tenantId: 'tea-shop', limit: 5 });
+    await controller.analytics({ from: '2024-10-01', assistant: 'ai' });
+
+    expect(transcriptsService.list).toHaveBeenCalledWith({
+      tenantId: 'tea-shop',
+      limit: 5,
+    });
+    expect(transcriptsService.analytics).toHaveBeenCalledWith({
+      from: '2024-10-01',
+      assistant: 'ai',
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiErrorResponses } from '../common/errors/api-error-responses.decorator';
+import { ErrorCode } from '../common/errors/error-code';
+import { AdminGuard } from '../common/guards/admin.guard';
+import {
+  AnalyticsQuery,
+  TranscriptsQuery,
+} from './dto/transcripts-query/transcripts-query.dto';
+import { TranscriptsService } from './transcripts.service';
+
+@ApiTags('Admin') // Grouping under "Admin" for Swagger
+@ApiSecurity('admin-key')
+@UseGuards(AdminGuard)
+@Controller('admin')
+export class TranscriptsController {
+  constructor(private readonly transcriptsService: TranscriptsService) {}
+
+  @Get('transcripts')
+  @ApiOperation({ summary: 'List the transcripts of answered prompts' })
+  @ApiResponse({
+    status: 200,
+    description:
+      '`{ total, items }`, newest first; each transcript has the prompt, tool calls and results, answer, recommendations, latency and usage',
+  })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.FORBIDDEN,
+  )
+  list(@Query() query: TranscriptsQuery) {
+    return this.transcriptsService.list(query);
+  }
+
+  @Get('transcripts/:id')
+  @ApiOperation({ summary: 'Get one transcript' })
+  @ApiResponse({ status: 200, description: 'The transcript' })
+  @ApiErrorResponses(
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.FORBIDDEN,
+    ErrorCode.NOT_FOUND,
+  )
+  get(@Param('id') id: string) {
+    return this.transcriptsService.get(id);
+  }
+
+  @Get('analytics')
+  @ApiOperation({
+    summary:
+      'Top queries, searches without results, recommended products and tool error rates',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      '`{ from, to, transcripts, conversations, latency, totalTokens, costUsd, topQueries, searches, zeroResultSearches, recommendedProducts, tools }`',
+  })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.FORBIDDEN,
+  )
+  analytics(@Query() query: AnalyticsQuery) {
+    return this.transcriptsService.analytics(query);
+  }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { FileTranscriptStore } from './stores/file-transcript.store';
+import { InMemoryTranscriptStore } from './stores/in-memory-transcript.store';
+import { TranscriptStore } from './stores/transcript.store';
+import { TranscriptsController } from './transcripts.controller';
+import { TranscriptsService } from './transcripts.service';
+
+@Module({
+  controllers: [TranscriptsController],
+  providers: [
+    TranscriptsService,
+    {
+      // TRANSCRIPT_STORE=file appends to a JSON Lines file, anything else keeps the latest TRANSCRIPTS_MAX_ENTRIES in memory
+      provide: TranscriptStore,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get('TRANSCRIPT_STORE') === 'file'
+          ? new FileTranscriptStore(
+              configService.get('TRANSCRIPTS_FILE') ||
+                join(process.cwd(), 'data', 'transcripts.jsonl'),
+            )
+          : new InMemoryTranscriptStore(
+              Number(configService.get('TRANSCRIPTS_MAX_ENTRIES') ?? 10000),
+            ),
+    },
+  ],
+  exports: [TranscriptsService],
+})
+export class TranscriptsModule {}
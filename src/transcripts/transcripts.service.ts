@@ -0,0 +1,297 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { currentCorrelationId } from '../common/logging/request-context';
+import { GuardrailFinding } from '../guardrails/interfaces/guardrail.interface';
+import { Tenant } from '../tenants/interfaces/tenant.interface';
+import {
+  StreamInterruption,
+  ToolLoopProgress,
+  ToolLoopResult,
+} from '../tools/interfaces/tool-loop.interface';
+import {
+  RequestUsage,
+  UsageContext,
+} from '../usage/interfaces/usage.interface';
+import {
+  AnalyticsReport,
+  Assistant,
+  QueryCount,
+  ToolStats,
+  Transcript,
+  TranscriptFilter,
+} from './interfaces/transcript.interface';
+import { TranscriptStore } from './stores/transcript.store';
+
+const DEFAULT_MAX_RESULT_CHARS = 2000;
+const DEFAULT_REPORT_DAYS = 7;
+const DEFAULT_TOP = 10;
+const DAY_MS = 86_400_000;
+const NO_USAGE: RequestUsage = {
+  model: '',
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  total_tokens: 0,
+  costUsd: 0,
+};
+
+/** What the assistants know about an answered or blocked prompt. */
+export interface TranscriptInput {
+  assistant: Assistant;
+  tenant: Tenant;
+  conversationId: string;
+  prompt: string;
+  /**
+   * Missing when the guardrails blocked the prompt before the model ran; only
+   * the progress so far when a stream was interrupted.
+   */
+  result?: ToolLoopProgress & Partial<ToolLoopResult>;
+  answer?: string;
+  /** Product IDs of the products assistant's recommendations. */
+  recommendations?: string[];
+  usage?: RequestUsage;
+  guardrails?: GuardrailFinding[];
+  /** The guardrail check that refused the prompt or the answer. */
+  blocked?: GuardrailFinding;
+  /** Why a streamed answer never completed. */
+  interrupted?: StreamInterruption;
+  /** Client and endpoint, from `@MeteredClient()`. */
+  context?: UsageContext;
+  /** `Date.now()` when the prompt arrived. */
+  startedAt: number;
+}
+
+/**
+ * Audit trail of the assistants: every answered prompt is stored with its
+ * tool calls, answer, latency and tokens, and the transcripts feed the
+ * analytics report (top queries, searches without results, recommended
+ * products, tool error rates).
+ */
+@Injectable()
+export class TranscriptsService {
+  private readonly logger = new Logger(TranscriptsService.name);
+  private readonly maxResultChars: number;
+
+  constructor(
+    configService: ConfigService,
+    private readonly store: TranscriptStore,
+  ) {
+    this.maxResultChars = Number(
+      configService.get('TRANSCRIPT_MAX_RESULT_CHARS') ??
+        DEFAULT_MAX_RESULT_CHARS,
+    );
+  }
+
+  /**
+   * Stores the transcript of an answered or blocked prompt. A store failure
+   * is logged and never fails the request itself.
+   */
+  async record(input: TranscriptInput): Promise<Transcript> {
+    const usage = input.usage ?? NO_USAGE;
+    const transcript: Transcript = {
+      id: randomUUID(),
+      correlationId: currentCorrelationId(),
+      createdAt: new Date().toISOString(),
+      assistant: input.assistant,
+      endpoint: input.context?.endpoint,
+      clientId: input.context?.clientId,
+      tenantId: input.tenant.id,
+      conversationId: input.conversationId,
+      prompt: input.prompt,
+      toolCalls: (input.result?.steps ?? []).map((step) => ({
+        iteration: step.iteration,
+        name: step.name,
+        arguments: step.arguments,
+        ok: step.ok,
+        result: this.clip(step.result),
+        error: step.error,
+        code: step.code,
+        metadata: step.metadata,
+        durationMs: step.durationMs,
+      })),
+      answer: input.blocked ? '' : (input.answer ?? ''),
+      recommendations: input.recommendations ?? [],
+      model: usage.model,
+      usage,
+      latencyMs: Date.now() - input.startedAt,
+      truncated: input.result?.truncated ?? false,
+    };
+    if (input.guardrails?.length) transcript.guardrails = input.guardrails;
+    if (input.blocked) transcript.blocked = input.blocked;
+    if (input.interrupted) transcript.interrupted = input.interrupted;
+
+    try {
+      await this.store.add(transcript);
+    } catch (error) {
+      this.logger.warn(
+        `Could not store transcript ${transcript.id}: ${error.message}`,
+      );
+    }
+    if (transcript.blocked) {
+      this.logger.warn(
+        `${transcript.assistant} blocked the ${transcript.blocked.stage} of conversation ${transcript.conversationId} (${transcript.blocked.check}: ${transcript.blocked.reason})`,
+      );
+    } else if (transcript.interrupted) {
+      this.logger.warn(
+        `${transcript.assistant} stream of conversation ${transcript.conversationId} ended early (${transcript.interrupted}) after ${transcript.toolCalls.length} tool calls and ${transcript.usage.total_tokens} tokens`,
+      );
+    } else {
+      this.logger.log(
+        `${transcript.assistant} answered conversation ${transcript.conversationId} in ${transcript.latencyMs}ms with ${transcript.toolCalls.length} tool calls and ${transcript.usage.total_tokens} tokens`,
+      );
+    }
+    return transcript;
+  }
+
+  /** Transcripts between two days (the last 7 by default), newest first. */
+  async list(
+    filter: Partial<TranscriptFilter> & { limit?: number } = {},
+  ): Promise<{ total: number; items: Transcript[] }> {
+    const { limit = 50, ...rest } = filter;
+    const transcripts = await this.store.list(withDays(rest));
+    return {
+      total: transcripts.length,
+      items: transcripts.reverse().slice(0, limit),
+    };
+  }
+
+  /**
+   * @throws {NotFoundException} If no transcript has this ID.
+   */
+  async get(id: string): Promise<Transcript> {
+    const transcript = await this.store.get(id);
+    if (!transcript) {
+      throw new NotFoundException(`Transcript ${id} not found`);
+    }
+    return transcript;
+  }
+
+  /**
+   * Sums the transcripts between two days (the last 7 by default).
+   *
+   * @param filter - `limit` caps every top list (10 by default).
+   */
+  async analytics(
+    filter: Partial<TranscriptFilter> & { limit?: number } = {},
+  ): Promise<AnalyticsReport> {
+    const { limit = DEFAULT_TOP, ...rest } = filter;
+    const range = withDays(rest);
+    const transcripts = await this.store.list(range);
+
+    const queries = new Counter();
+    const zeroResults = new Counter();
+    const products = new Counter();
+    const blocked = new Counter();
+    const tools = new Map<string, ToolStats>();
+    let searches = 0;
+    for (const transcript of transcripts) {
+      queries.add(normalizeQuery(transcript.prompt));
+      if (transcript.blocked) blocked.add(transcript.blocked.check);
+      transcript.recommendations.forEach((id) => products.add(id));
+      for (const call of transcript.toolCalls) {
+        const stats = tools.get(call.name) ?? {
+          name: call.name,
+          calls: 0,
+          errors: 0,
+          errorRate: 0,
+        };
+        stats.calls++;
+        if (!call.ok) stats.errors++;
+        tools.set(call.name, stats);
+
+        if (call.name === 'searchProduct' && call.ok) {
+          searches++;
+          if (call.metadata?.resultCount === 0) {
+            zeroResults.add(normalizeQuery(String(call.arguments.search)));
+          }
+        }
+      }
+    }
+
+    const latencies = transcripts
+      .map((transcript) => transcript.latencyMs)
+      .sort((a, b) => a - b);
+    const sum = (values: number[]) =>
+      values.reduce((total, value) => total + value, 0);
+    return {
+      from: range.from,
+      to: range.to,
+      transcripts: transcripts.length,
+      conversations: new Set(transcripts.map((t) => t.conversationId)).size,
+      latency: {
+        averageMs: latencies.length
+          ? Math.round(sum(latencies) / latencies.length)
+          : 0,
+        p95Ms: latencies[Math.ceil(latencies.length * 0.95) - 1] ?? 0,
+      },
+      totalTokens: sum(transcripts.map((t) => t.usage.total_tokens)),
+      costUsd: sum(transcripts.map((t) => t.usage.costUsd)),
+      topQueries: queries.top(limit),
+      searches: {
+        total: searches,
+        zeroResults: zeroResults.total,
+        zeroResultRate: searches ? zeroResults.total / searches : 0,
+      },
+      zeroResultSearches: zeroResults.top(limit),
+      recommendedProducts: products
+        .top(limit)
+        .map(({ query, count }) => ({ productId: query, count })),
+      tools: [...tools.values()]
+        .map((stats) => ({ ...stats, errorRate: stats.errors / stats.calls }))
+        .sort((a, b) => b.calls - a.calls || a.name.localeCompare(b.name)),
+      blocked: {
+        total: blocked.total,
+        byCheck: blocked
+          .top(Infinity)
+          .map(({ query, count }) => ({ check: query, count })),
+      },
+    };
+  }
+
+  /** Long tool results are cut so transcripts stay small. */
+  private clip(result: unknown): unknown {
+    if (result === undefined) return result;
+    const text = typeof result === 'string' ? result : JSON.stringify(result);
+    if (text.length <= this.maxResultChars) {
+      return result;
+    }
+    return `${text.slice(0, this.maxResultChars)}…`;
+  }
+}
+
+class Counter {
+  private readonly counts = new Map<string, number>();
+  total = 0;
+
+  add(key: string) {
+    if (!key) return;
+    this.counts.set(key, (this.counts.get(key) ?? 0) + 1);
+    this.total++;
+  }
+
+  /** Most frequent first; ties in alphabetical order. */
+  top(limit: number): QueryCount[] {
+    return [...this.counts]
+      .map(([query, count]) => ({ query, count }))
+      .sort((a, b) => b.count - a.count || a.query.localeCompare(b.query))
+      .slice(0, limit);
+  }
+}
+
+/** "Red dress?" and "red  dress" count as the same query. */
+function normalizeQuery(text: string): string {
+  return (text ?? '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function withDays(filter: Partial<TranscriptFilter>): TranscriptFilter {
+  const to = filter.to ?? new Date().toISOString().slice(0, 10);
+  const from =
+    filter.from ??
+    new Date(Date.parse(`${to}T00:00:00Z`) - (DEFAULT_REPORT_DAYS - 1) * DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+  return { ...filter, from, to };
+}
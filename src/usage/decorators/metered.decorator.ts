@@ -0,0 +1,31 @@
+import {
+  applyDecorators,
+  createParamDecorator,
+  ExecutionContext,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiHeader } from '@nestjs/swagger';
+import { Request } from 'express';
+import { UsageGuard } from '../usage.guard';
+
+/**
+ * Counts the endpoint's token usage against the caller and enforces the
+ * caller's quotas (429 `RATE_LIMITED`). Pass `@MeteredClient()` on to the
+ * service so it can record the usage.
+ */
+export const Metered = () =>
+  applyDecorators(
+    UseGuards(UsageGuard),
+    ApiHeader({
+      name: 'x-client-id',
+      required: false,
+      description:
+        'Name of the calling app, shown in the logs. Usage and quotas are counted per tenant, or per caller IP',
+    }),
+  );
+
+/** The `UsageContext` of a `@Metered()` request. */
+export const MeteredClient = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<Request>().usageContext,
+);
@@ -0,0 +1,49 @@
+import * as Joi from 'joi';
+import { JoiSchema } from '../../../common/validation/joi-schema.decorator';
+import { UsageDimension } from '../../interfaces/usage.interface';
+
+const DIMENSIONS =
+  /^(day|client|endpoint|model)(,(day|client|endpoint|model))*$/;
+
+export const usageReportQuerySchema = Joi.object({
+  from: Joi.string()
+    .isoDate()
+    .description('First day, YYYY-MM-DD (UTC); defaults to 6 days before `to`')
+    .example('2024-10-01'),
+  to: Joi.string()
+    .isoDate()
+    .description('Last day, YYYY-MM-DD (UTC); defaults to today')
+    .example('2024-10-07'),
+  clientId: Joi.string()
+    .max(128)
+    .description('Only this client, as listed in the report')
+    .example('tenant:tea-shop'),
+  endpoint: Joi.string()
+    .max(128)
+    .description('Only this endpoint')
+    .example('POST /products/prompt'),
+  groupBy: Joi.string()
+    .pattern(DIMENSIONS)
+    .default('day')
+    .messages({
+      'string.pattern.base':
+        '{{#label}} must be a comma-separated list of day, client, endpoint and model',
+    })
+    .description('Comma-separated dimensions of the rows')
+    .example('client,endpoint'),
+});
+
+/** Query of `GET /admin/usage`. */
+@JoiSchema(usageReportQuerySchema)
+export class UsageReportQuery {
+  from?: string;
+  to?: string;
+  clientId?: string;
+  endpoint?: string;
+  groupBy?: string;
+}
+
+/** "client,endpoint" → `['client', 'endpoint']`. */
+export function parseDimensions(groupBy = 'day'): UsageDimension[] {
+  return [...new Set(groupBy.split(','))] as UsageDimension[];
+}
@@ -0,0 +1,57 @@
+/** Who made a metered request and through which endpoint. */
+export interface UsageContext {
+  /** e.g. "tenant:tea-shop" or "ip:127.0.0.1"; see `resolveClientId`. */
+  clientId: string;
+  /** `x-client-id` of the request, for the logs; never a quota key. */
+  label?: string;
+  /** Method and route, e.g. "POST /ai/prompt". */
+  endpoint: string;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/** Usage of one client, endpoint and model on one UTC day. */
+export interface UsageBucket extends UsageTotals, UsageContext {
+  /** YYYY-MM-DD, UTC. */
+  date: string;
+  model: string;
+}
+
+/** Token usage and cost of a single request, returned with its response. */
+export interface RequestUsage {
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  costUsd: number;
+}
+
+export interface UsageQuota {
+  /** Tokens a client may use per UTC day; 0 means unlimited. */
+  dailyTokens: number;
+  /** Metered requests a client may start per minute; 0 means unlimited. */
+  requestsPerMinute: number;
+}
+
+export type UsageDimension = 'day' | 'client' | 'endpoint' | 'model';
+
+export interface UsageReportRow extends UsageTotals {
+  date?: string;
+  clientId?: string;
+  endpoint?: string;
+  model?: string;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  groupBy: UsageDimension[];
+  totals: UsageTotals;
+  rows: UsageReportRow[];
+}
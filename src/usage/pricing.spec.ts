@@ -0,0 +1,28 @@
+import { costOf, DEFAULT_MODEL_PRICING, priceOf } from './pricing';
+
+describe('pricing', () => {
+  const usage = {
+    prompt_tokens: 1_000_000,
+    completion_tokens: 500_000,
+    total_tokens: 1_500_000,
+  };
+
+  it('matches the longest model prefix', () => {
+    expect(priceOf(DEFAULT_MODEL_PRICING, 'gpt-4o-mini-2024-07-18')).toEqual({
+      input: 0.15,
+      output: 0.6,
+    });
+    expect(priceOf(DEFAULT_MODEL_PRICING, 'gpt-4o-2024-08-06')).toEqual({
+      input: 2.5,
+      output: 10,
+    });
+  });
+
+  it('prices input and output tokens separately', () => {
+    expect(costOf(DEFAULT_MODEL_PRICING, 'gpt-4o-mini', usage)).toBe(0.45);
+  });
+
+  it('costs nothing for unknown models', () => {
+    expect(costOf(DEFAULT_MODEL_PRICING, 'llama3.1', usage)).toBe(0);
+  });
+});
@@ -0,0 +1,48 @@
+import { CompletionUsage } from 'openai/resources/completions';
+
+/** USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices of common models. Keys match model names by prefix, so
+ * "gpt-4o-mini" also prices "gpt-4o-mini-2024-07-18"; the longest key wins.
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+};
+
+/** Price of a model, or undefined for unknown (e.g. local) models. */
+export function priceOf(
+  pricing: Record<string, ModelPrice>,
+  model: string,
+): ModelPrice | undefined {
+  const key = Object.keys(pricing)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? pricing[key] : undefined;
+}
+
+/** Cost in USD, rounded to 6 decimals; 0 for models without a price. */
+export function costOf(
+  pricing: Record<string, ModelPrice>,
+  model: string,
+  usage: CompletionUsage,
+): number {
+  const price = priceOf(pricing, model);
+  if (!price) return 0;
+  const cost =
+    (usage.prompt_tokens * price.input +
+      usage.completion_tokens * price.output) /
+    1_000_000;
+  return Math.round(cost * 1e6) / 1e6;
+}
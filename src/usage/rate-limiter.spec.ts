@@ -0,0 +1,47 @@
+import { RateLimiter } from './rate-limiter';
+
+describe('RateLimiter', () => {
+  let now: number;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    now = 0;
+    limiter = new RateLimiter(1000, () => now);
+  });
+
+  it('allows up to the limit per window and reports the wait', () => {
+    expect(limiter.tryAcquire('ip:1', 2)).toBe(0);
+    now = 400;
+    expect(limiter.tryAcquire('ip:1', 2)).toBe(0);
+    now = 600;
+
+    expect(limiter.tryAcquire('ip:1', 2)).toBe(400);
+  });
+
+  it('slides the window', () => {
+    limiter.tryAcquire('ip:1', 1);
+    now = 1001;
+
+    expect(limiter.tryAcquire('ip:1', 1)).toBe(0);
+  });
+
+  it('counts each client separately', () => {
+    limiter.tryAcquire('ip:1', 1);
+
+    expect(limiter.tryAcquire('ip:2', 1)).toBe(0);
+  });
+
+  it('forgets clients once their window is empty', () => {
+    limiter.tryAcquire('ip:1', 1);
+    limiter.tryAcquire('ip:2', 1);
+    now = 1500;
+    limiter.tryAcquire('ip:3', 1);
+
+    expect(limiter.size).toBe(1);
+  });
+
+  it('keeps nothing for a client refused by a limit of 0', () => {
+    expect(limiter.tryAcquire('ip:1', 0)).toBe(1000);
+    expect(limiter.size).toBe(0);
+  });
+});
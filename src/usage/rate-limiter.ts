@@ -0,0 +1,52 @@
+/**
+ * Sliding-window request counter per client. Only the start times of the
+ * last window are kept, and clients without any are dropped, so memory stays
+ * bounded by the limit and the number of recent clients.
+ */
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>();
+  private lastPrune = 0;
+
+  constructor(
+    private readonly windowMs = 60_000,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /** Clients with requests in the current window. */
+  get size(): number {
+    return this.hits.size;
+  }
+
+  /**
+   * Counts a request of `clientId` if it fits in `limit`.
+   *
+   * @returns 0 when the request is allowed, otherwise the milliseconds until it would be.
+   */
+  tryAcquire(clientId: string, limit: number): number {
+    const now = this.now();
+    if (now - this.lastPrune >= this.windowMs) this.prune(now);
+    const recent = this.recent(clientId, now);
+    if (recent.length >= limit) {
+      if (recent.length) this.hits.set(clientId, recent);
+      else this.hits.delete(clientId);
+      return (recent[0] ?? now) + this.windowMs - now;
+    }
+    recent.push(now);
+    this.hits.set(clientId, recent);
+    return 0;
+  }
+
+  private recent(clientId: string, now: number): number[] {
+    return (this.hits.get(clientId) ?? []).filter(
+      (time) => time > now - this.windowMs,
+    );
+  }
+
+  /** Drops the clients that made no request in the last window. */
+  private prune(now: number): void {
+    this.lastPrune = now;
+    for (const clientId of this.hits.keys()) {
+      if (!this.recent(clientId, now).length) this.hits.delete(clientId);
+    }
+  }
+}
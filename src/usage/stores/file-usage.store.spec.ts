@@ -0,0 +1,60 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileUsageStore } from './file-usage.store';
+
+describe('FileUsageStore', () => {
+  let dir: string;
+
+  const usage = (date: string, clientId: string, totalTokens: number) => ({
+    date,
+    clientId,
+    endpoint: 'POST /ai/prompt',
+    model: 'gpt-4o-mini',
+    requests: 1,
+    promptTokens: totalTokens,
+    completionTokens: 0,
+    totalTokens,
+    costUsd: 0.001,
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'usage-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('sums concurrent requests into daily buckets that survive a restart', async () => {
+    const filePath = join(dir, 'nested', 'usage.json');
+    const store = new FileUsageStore(filePath);
+    await Promise.all([
+      store.add(usage('2024-10-01', 'ip:1', 10)),
+      store.add(usage('2024-10-01', 'ip:1', 5)),
+      store.add(usage('2024-10-02', 'ip:2', 7)),
+    ]);
+    const reopened = new FileUsageStore(filePath);
+
+    expect(
+      await reopened.list({ from: '2024-10-01', to: '2024-10-01' }),
+    ).toEqual([
+      { ...usage('2024-10-01', 'ip:1', 15), requests: 2, costUsd: 0.002 },
+    ]);
+    expect(
+      await reopened.list({
+        from: '2024-10-01',
+        to: '2024-10-31',
+        clientId: 'ip:2',
+      }),
+    ).toHaveLength(1);
+  });
+
+  it('starts empty when the file does not exist', async () => {
+    const store = new FileUsageStore(join(dir, 'missing.json'));
+
+    expect(await store.list({ from: '2024-01-01', to: '2024-12-31' })).toEqual(
+      [],
+    );
+  });
+});
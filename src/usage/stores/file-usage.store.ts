@@ -0,0 +1,31 @@
+import { JsonFile } from '../../common/storage/json-file';
+import { UsageBucket } from '../interfaces/usage.interface';
+import {
+  addToBuckets,
+  matchesFilter,
+  UsageFilter,
+  UsageStore,
+} from './usage.store';
+
+/**
+ * Keeps the daily buckets in a single JSON file so usage and quotas survive
+ * restarts.
+ */
+export class FileUsageStore extends UsageStore {
+  private readonly file: JsonFile<Record<string, UsageBucket>>;
+
+  constructor(filePath: string) {
+    super();
+    this.file = new JsonFile(filePath, () => ({}));
+  }
+
+  async add(usage: UsageBucket) {
+    await this.file.update((buckets) => addToBuckets(buckets, usage));
+  }
+
+  async list(filter: UsageFilter) {
+    return Object.values(await this.file.read()).filter((bucket) =>
+      matchesFilter(bucket, filter),
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { UsageBucket } from '../interfaces/usage.interface';
+import {
+  addToBuckets,
+  matchesFilter,
+  UsageFilter,
+  UsageStore,
+} from './usage.store';
+
+/** Default store. Usage is lost on restart. */
+export class InMemoryUsageStore extends UsageStore {
+  private readonly buckets: Record<string, UsageBucket> = {};
+
+  async add(usage: UsageBucket) {
+    addToBuckets(this.buckets, usage);
+  }
+
+  async list(filter: UsageFilter) {
+    return Object.values(this.buckets)
+      .filter((bucket) => matchesFilter(bucket, filter))
+      .map((bucket) => ({ ...bucket }));
+  }
+}
@@ -0,0 +1,49 @@
+import { UsageBucket } from '../interfaces/usage.interface';
+import { addTotals } from '../utils/totals';
+
+export interface UsageFilter {
+  /** First and last day, YYYY-MM-DD, inclusive. */
+  from: string;
+  to: string;
+  clientId?: string;
+  endpoint?: string;
+}
+
+/**
+ * Persistence contract for usage. Requests are summed into daily buckets per
+ * client, endpoint and model, so the store stays small however busy the API is.
+ */
+export abstract class UsageStore {
+  /** Adds `usage` to the bucket it belongs to, creating it if needed. */
+  abstract add(usage: UsageBucket): Promise<void>;
+  abstract list(filter: UsageFilter): Promise<UsageBucket[]>;
+}
+
+/** Identity of the bucket a usage belongs to. */
+export function bucketKey(bucket: UsageBucket): string {
+  return [bucket.date, bucket.clientId, bucket.endpoint, bucket.model].join(
+    '|',
+  );
+}
+
+/** Sums `usage` into `buckets`, keyed by `bucketKey`. */
+export function addToBuckets(
+  buckets: Record<string, UsageBucket>,
+  usage: UsageBucket,
+) {
+  const key = bucketKey(usage);
+  if (buckets[key]) {
+    addTotals(buckets[key], usage);
+  } else {
+    buckets[key] = { ...usage };
+  }
+}
+
+export function matchesFilter(bucket: UsageBucket, filter: UsageFilter) {
+  return (
+    bucket.date >= filter.from &&
+    bucket.date <= filter.to &&
+    (!filter.clientId || bucket.clientId === filter.clientId) &&
+    (!filter.endpoint || bucket.endpoint === filter.endpoint)
+  );
+}
@@ -0,0 +1,37 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UsageController } from './usage.controller';
+import { UsageService } from './usage.service';
+
+describe('UsageController', () => {
+  let controller: UsageController;
+  const usageService = { report: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [UsageController],
+      providers: [
+        ConfigService,
+        { provide: UsageService, useValue: usageService },
+      ],
+    }).compile();
+
+    controller = module.get<UsageController>(UsageController);
+  });
+
+  it('splits the requested dimensions', async () => {
+    usageService.report.mockResolvedValue({ rows: [] });
+
+    await controller.report({
+      from: '2024-10-01',
+      clientId: 'ip:1',
+      groupBy: 'client,endpoint,client',
+    });
+
+    expect(usageService.report).toHaveBeenCalledWith({
+      from: '2024-10-01',
+      clientId: 'ip:1',
+      groupBy: ['client', 'endpoint'],
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiErrorResponses } from '../common/errors/api-error-responses.decorator';
+import { ErrorCode } from '../common/errors/error-code';
+import { AdminGuard } from '../common/guards/admin.guard';
+import {
+  parseDimensions,
+  UsageReportQuery,
+} from './dto/usage-report/usage-report.dto';
+import { UsageService } from './usage.service';
+
+@ApiTags('Admin') // Grouping under "Admin" for Swagger
+@ApiSecurity('admin-key')
+@UseGuards(AdminGuard)
+@Controller('admin/usage')
+export class UsageController {
+  constructor(private readonly usageService: UsageService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Token usage and cost per day, client, endpoint or model',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      '`{ from, to, groupBy, totals, rows }`; every row and the totals have `requests`, `promptTokens`, `completionTokens`, `totalTokens` and `costUsd`',
+  })
+  @ApiErrorResponses(
+    ErrorCode.VALIDATION_ERROR,
+    ErrorCode.UNAUTHORIZED,
+    ErrorCode.FORBIDDEN,
+  )
+  report(@Query() query: UsageReportQuery) {
+    return this.usageService.report({
+      ...query,
+      groupBy: parseDimensions(query.groupBy),
+    });
+  }
+}
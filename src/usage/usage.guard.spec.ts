@@ -0,0 +1,78 @@
+import { ExecutionContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RateLimitException } from '../common/errors/app.exception';
+import { InMemoryUsageStore } from './stores/in-memory-usage.store';
+import { UsageGuard } from './usage.guard';
+import { UsageService } from './usage.service';
+import { DEFAULT_TENANT } from '../tenants/tenants.service';
+
+describe('UsageGuard', () => {
+  const contextOf = (req: object) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => req }),
+    }) as ExecutionContext;
+
+  const requestOf = (headers: Record<string, string> = {}) => ({
+    method: 'POST',
+    route: { path: '/ai/prompt' },
+    ip: '10.0.0.1',
+    header: (name: string) => headers[name],
+  });
+
+  let guard: UsageGuard;
+
+  beforeEach(() => {
+    guard = new UsageGuard(
+      new UsageService(
+        new ConfigService({ RATE_LIMIT_PER_MINUTE: '1' }),
+        new InMemoryUsageStore(),
+      ),
+    );
+  });
+
+  it('stores the usage context of the caller on the request', async () => {
+    const req = requestOf({ 'x-client-id': 'web-shop' });
+
+    expect(await guard.canActivate(contextOf(req))).toBe(true);
+    expect(req).toMatchObject({
+      usageContext: {
+        clientId: 'ip:10.0.0.1',
+        label: 'web-shop',
+        endpoint: 'POST /ai/prompt',
+      },
+    });
+  });
+
+  it('counts unauthenticated callers under their IP whatever headers they send', async () => {
+    await guard.canActivate(
+      contextOf(requestOf({ 'x-client-id': 'first', 'x-api-key': 'a' })),
+    );
+
+    await expect(
+      guard.canActivate(
+        contextOf(requestOf({ 'x-client-id': 'second', 'x-api-key': 'b' })),
+      ),
+    ).rejects.toThrow(RateLimitException);
+  });
+
+  it('counts authenticated requests under their tenant', async () => {
+    const req = {
+      ...requestOf({ 'x-api-key': 'secret' }),
+      tenant: { ...DEFAULT_TENANT, id: 'tea-shop' },
+    };
+
+    await guard.canActivate(contextOf(req));
+
+    expect(req).toMatchObject({
+      usageContext: { clientId: 'tenant:tea-shop' },
+    });
+  });
+
+  it('rejects callers over their quota', async () => {
+    await guard.canActivate(contextOf(requestOf()));
+
+    await expect(guard.canActivate(contextOf(requestOf()))).rejects.toThrow(
+      RateLimitException,
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { UsageContext } from './interfaces/usage.interface';
+import { UsageService } from './usage.service';
+import { resolveClientId, resolveClientLabel } from './utils/client-id';
+
+/**
+ * Admits metered requests against the caller's quotas and stores the
+ * `UsageContext` on `req.usageContext` for `@MeteredClient()`. Apply it with
+ * `@Metered()`.
+ */
+@Injectable()
+export class UsageGuard implements CanActivate {
+  constructor(private readonly usageService: UsageService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const req = context.switchToHttp().getRequest<Request>();
+    const usageContext: UsageContext = {
+      clientId: resolveClientId(req),
+      label: resolveClientLabel(req),
+      endpoint: `${req.method} ${req.route?.path ?? req.path}`,
+    };
+    await this.usageService.admit(usageContext.clientId);
+    req.usageContext = usageContext;
+    return true;
+  }
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    usageContext?: UsageContext;
+  }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { UsageController } from './usage.controller';
+import { UsageGuard } from './usage.guard';
+import { UsageService } from './usage.service';
+import { FileUsageStore } from './stores/file-usage.store';
+import { InMemoryUsageStore } from './stores/in-memory-usage.store';
+import { UsageStore } from './stores/usage.store';
+
+@Module({
+  controllers: [UsageController],
+  providers: [
+    UsageService,
+    UsageGuard,
+    {
+      // USAGE_STORE=file keeps usage (and so daily quotas) across restarts, anything else stays in memory
+      provide: UsageStore,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get('USAGE_STORE') === 'file'
+          ? new FileUsageStore(
+              configService.get('USAGE_FILE') ||
+                join(process.cwd(), 'data', 'usage.json'),
+            )
+          : new InMemoryUsageStore(),
+    },
+  ],
+  exports: [UsageService, UsageGuard],
+})
+export class UsageModule {}
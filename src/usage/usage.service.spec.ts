@@ -0,0 +1,133 @@
+import { ConfigService } from '@nestjs/config';
+import { RateLimitException } from '../common/errors/app.exception';
+import { InMemoryUsageStore } from './stores/in-memory-usage.store';
+import { UsageService } from './usage.service';
+
+describe('UsageService', () => {
+  const usage = (total: number) => ({
+    prompt_tokens: total - 10,
+    completion_tokens: 10,
+    total_tokens: total,
+  });
+  const web = { clientId: 'client:web', endpoint: 'POST /ai/prompt' };
+  const app = { clientId: 'client:app', endpoint: 'POST /products/prompt' };
+
+  const create = (config: Record<string, unknown> = {}) =>
+    new UsageService(new ConfigService(config), new InMemoryUsageStore());
+
+  it('prices the usage of a request', async () => {
+    const service = create();
+
+    expect(
+      await service.record(undefined, {
+        model: 'gpt-4o-mini',
+        usage: {
+          prompt_tokens: 1000,
+          completion_tokens: 500,
+          total_tokens: 1500,
+        },
+      }),
+    ).toEqual({
+      model: 'gpt-4o-mini',
+      prompt_tokens: 1000,
+      completion_tokens: 500,
+      total_tokens: 1500,
+      costUsd: 0.00045,
+    });
+  });
+
+  it('uses MODEL_PRICING over the defaults', async () => {
+    const service = create({
+      MODEL_PRICING: '{"llama3": {"input": 1, "output": 1}}',
+    });
+
+    const result = await service.record(undefined, {
+      model: 'llama3.1',
+      usage: usage(1_000_000),
+    });
+
+    expect(result.costUsd).toBe(1);
+  });
+
+  it('reports usage grouped by the requested dimensions', async () => {
+    const service = create();
+    await service.record(web, { model: 'gpt-4o-mini', usage: usage(100) });
+    await service.record(web, { model: 'gpt-4o', usage: usage(50) });
+    await service.record(app, { model: 'gpt-4o-mini', usage: usage(30) });
+
+    const report = await service.report({ groupBy: ['client'] });
+
+    expect(report.totals).toMatchObject({ requests: 3, totalTokens: 180 });
+    expect(report.rows).toEqual([
+      expect.objectContaining({
+        clientId: 'client:app',
+        requests: 1,
+        totalTokens: 30,
+      }),
+      expect.objectContaining({
+        clientId: 'client:web',
+        requests: 2,
+        totalTokens: 150,
+      }),
+    ]);
+    expect(report.rows[0]).not.toHaveProperty('date');
+  });
+
+  it('filters the report by endpoint', async () => {
+    const service = create();
+    await service.record(web, { model: 'gpt-4o-mini', usage: usage(100) });
+    await service.record(app, { model: 'gpt-4o-mini', usage: usage(30) });
+
+    const report = await service.report({
+      endpoint: 'POST /products/prompt',
+      groupBy: ['endpoint', 'model'],
+    });
+
+    expect(report.rows).toEqual([
+      expect.objectContaining({
+        endpoint: 'POST /products/prompt',
+        model: 'gpt-4o-mini',
+        totalTokens: 30,
+      }),
+    ]);
+  });
+
+  describe('admit', () => {
+    it('rejects clients over the per-minute limit', async () => {
+      const service = create({ RATE_LIMIT_PER_MINUTE: '2' });
+      await service.admit('client:web');
+      await service.admit('client:web');
+
+      const error = await service.admit('client:web').catch((e) => e);
+
+      expect(error).toBeInstanceOf(RateLimitException);
+      expect(error.retryAfterMs).toBeGreaterThan(0);
+      await expect(service.admit('client:app')).resolves.toBeUndefined();
+    });
+
+    it('rejects clients whose daily tokens are used up', async () => {
+      const service = create({ DAILY_TOKEN_QUOTA: '100' });
+      await service.record(web, { model: 'gpt-4o-mini', usage: usage(60) });
+      await service.admit(web.clientId);
+      await service.record(web, { model: 'gpt-4o-mini', usage: usage(60) });
+
+      await expect(service.admit(web.clientId)).rejects.toThrow(
+        'Daily quota of 100 tokens used up',
+      );
+    });
+
+    it('applies the per-client overrides of USAGE_QUOTAS', async () => {
+      const service = create({
+        RATE_LIMIT_PER_MINUTE: '1',
+        USAGE_QUOTAS: '{"client:app": {"requestsPerMinute": 0}}',
+      });
+
+      expect(service.quotaOf('client:app')).toEqual({
+        dailyTokens: 0,
+        requestsPerMinute: 0,
+      });
+      await service.admit('client:app');
+      await expect(service.admit('client:app')).resolves.toBeUndefined();
+    });
+  });
+});
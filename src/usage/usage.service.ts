@@ -0,0 +1,199 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CompletionUsage } from 'openai/resources/completions';
+import { RateLimitException } from '../common/errors/app.exception';
+import {
+  RequestUsage,
+  UsageContext,
+  UsageDimension,
+  UsageQuota,
+  UsageReport,
+  UsageReportRow,
+} from './interfaces/usage.interface';
+import { costOf, DEFAULT_MODEL_PRICING, ModelPrice } from './pricing';
+import { RateLimiter } from './rate-limiter';
+import { UsageStore } from './stores/usage.store';
+import { addTotals, emptyTotals } from './utils/totals';
+
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+const DEFAULT_REPORT_DAYS = 7;
+const DAY_MS = 86_400_000;
+
+/**
+ * Token and cost accounting of the prompt endpoints, and the quotas built on
+ * it. Usage is summed per client, endpoint, model and UTC day in the
+ * `UsageStore`; costs come from `MODEL_PRICING` merged over
+ * `DEFAULT_MODEL_PRICING`.
+ *
+ * Quotas: `RATE_LIMIT_PER_MINUTE` requests and `DAILY_TOKEN_QUOTA` tokens per
+ * client, with per-client overrides in `USAGE_QUOTAS`.
+ */
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+  private readonly pricing: Record<string, ModelPrice>;
+  private readonly quotas: Record<string, Partial<UsageQuota>>;
+  private readonly rateLimiter = new RateLimiter();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly store: UsageStore,
+  ) {
+    this.pricing = {
+      ...DEFAULT_MODEL_PRICING,
+      ...this.loadJson<Record<string, ModelPrice>>('MODEL_PRICING'),
+    };
+    this.quotas = this.loadJson('USAGE_QUOTAS');
+  }
+
+  /**
+   * Admits a request of `clientId` or rejects it with a 429. A request is
+   * admitted while the client has tokens left today, so the request that
+   * crosses the quota still completes.
+   *
+   * @throws {RateLimitException} If the daily token quota is used up or the per-minute limit is reached.
+   */
+  async admit(clientId: string): Promise<void> {
+    const quota = this.quotaOf(clientId);
+    if (quota.dailyTokens > 0) {
+      const used = await this.tokensUsedToday(clientId);
+      if (used >= quota.dailyTokens) {
+        throw new RateLimitException(
+          `Daily quota of ${quota.dailyTokens} tokens used up, it resets at 00:00 UTC`,
+          DAY_MS - (Date.now() % DAY_MS),
+        );
+      }
+    }
+    if (quota.requestsPerMinute > 0) {
+      const retryAfterMs = this.rateLimiter.tryAcquire(
+        clientId,
+        quota.requestsPerMinute,
+      );
+      if (retryAfterMs > 0) {
+        throw new RateLimitException(
+          `Rate limit of ${quota.requestsPerMinute} requests per minute exceeded`,
+          retryAfterMs,
+        );
+      }
+    }
+  }
+
+  /**
+   * Prices the usage of a finished request and, when it came through a
+   * metered endpoint, adds it to the client's totals.
+   *
+   * @param context - Set by `UsageGuard`; without it nothing is stored.
+   * @param result - Model and usage summed over every completion of the request.
+   */
+  async record(
+    context: UsageContext | undefined,
+    { model, usage }: { model: string; usage: CompletionUsage },
+  ): Promise<RequestUsage> {
+    const costUsd = costOf(this.pricing, model, usage);
+    if (context) {
+      await this.store.add({
+        clientId: context.clientId,
+        endpoint: context.endpoint,
+        date: today(),
+        model,
+        requests: 1,
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+        costUsd,
+      });
+    }
+    return {
+      model,
+      prompt_tokens: usage.prompt_tokens,
+      completion_tokens: usage.completion_tokens,
+      total_tokens: usage.total_tokens,
+      costUsd,
+    };
+  }
+
+  /**
+   * Usage between two days (the last 7 by default), optionally for one client
+   * or endpoint, grouped by any of day, client, endpoint and model.
+   */
+  async report({
+    from,
+    to = today(),
+    clientId,
+    endpoint,
+    groupBy = ['day'],
+  }: {
+    from?: string;
+    to?: string;
+    clientId?: string;
+    endpoint?: string;
+    groupBy?: UsageDimension[];
+  }): Promise<UsageReport> {
+    from ??= shiftDay(to, 1 - DEFAULT_REPORT_DAYS);
+    const buckets = await this.store.list({ from, to, clientId, endpoint });
+
+    const rows: Record<string, UsageReportRow> = {};
+    const totals = emptyTotals();
+    for (const bucket of buckets) {
+      const row: Partial<UsageReportRow> = {};
+      if (groupBy.includes('day')) row.date = bucket.date;
+      if (groupBy.includes('client')) row.clientId = bucket.clientId;
+      if (groupBy.includes('endpoint')) row.endpoint = bucket.endpoint;
+      if (groupBy.includes('model')) row.model = bucket.model;
+      const key = JSON.stringify(row);
+      rows[key] ??= { ...row, ...emptyTotals() };
+      addTotals(rows[key], bucket);
+      addTotals(totals, bucket);
+    }
+
+    return {
+      from,
+      to,
+      groupBy,
+      totals,
+      rows: Object.keys(rows)
+        .sort()
+        .map((key) => rows[key]),
+    };
+  }
+
+  /** Effective quota of a client: its `USAGE_QUOTAS` entry over the defaults. */
+  quotaOf(clientId: string): UsageQuota {
+    return {
+      dailyTokens: Number(this.configService.get('DAILY_TOKEN_QUOTA')) || 0,
+      requestsPerMinute: Number(
+        this.configService.get('RATE_LIMIT_PER_MINUTE') ??
+          DEFAULT_REQUESTS_PER_MINUTE,
+      ),
+      ...this.quotas[clientId],
+    };
+  }
+
+  private async tokensUsedToday(clientId: string): Promise<number> {
+    const date = today();
+    const buckets = await this.store.list({ from: date, to: date, clientId });
+    return buckets.reduce((sum, bucket) => sum + bucket.totalTokens, 0);
+  }
+
+  private loadJson<T>(name: string): T | Record<string, never> {
+    const raw = this.configService.get(name);
+    if (!raw) return {};
+    try {
+      return typeof raw === 'string' ? JSON.parse(raw) : raw;
+    } catch (error) {
+      this.logger.warn(`Ignoring invalid ${name}: ${error.message}`);
+      return {};
+    }
+  }
+}
+
+/** YYYY-MM-DD in UTC. */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function shiftDay(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
@@ -0,0 +1,31 @@
+import { Request } from 'express';
+import { DEFAULT_TENANT } from '../../tenants/tenants.service';
+
+/** Accepted `x-client-id` values: 1-64 safe characters. */
+const VALID_CLIENT = /^[\w.-]{1,64}$/;
+
+/**
+ * Identifies the caller for usage accounting and quotas:
+ *
+ * - `tenant:<id>` for a request authenticated as a tenant (`@Authenticated()`).
+ * - `ip:<address>` otherwise.
+ *
+ * Headers the caller is free to pick (`x-client-id`, an unchecked
+ * `x-api-key`) never choose the quota key, or a client could dodge its
+ * limits by sending a new value with every request.
+ */
+export function resolveClientId(req: Request): string {
+  if (req.tenant && req.tenant.id !== DEFAULT_TENANT.id) {
+    return `tenant:${req.tenant.id}`;
+  }
+  return `ip:${req.ip ?? 'unknown'}`;
+}
+
+/**
+ * Name the caller gives itself in `x-client-id`, e.g. "web-shop". Only
+ * reported in the logs; invalid values are ignored.
+ */
+export function resolveClientLabel(req: Request): string | undefined {
+  const client = req.header('x-client-id');
+  return client && VALID_CLIENT.test(client) ? client : undefined;
+}
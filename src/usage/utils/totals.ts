@@ -0,0 +1,20 @@
+import { UsageTotals } from '../interfaces/usage.interface';
+
+export function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+  };
+}
+
+/** Adds `usage` to `total` in place; costs are kept to 6 decimals. */
+export function addTotals(total: UsageTotals, usage: UsageTotals) {
+  total.requests += usage.requests;
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.totalTokens += usage.totalTokens;
+  total.costUsd = Math.round((total.costUsd + usage.costUsd) * 1e6) / 1e6;
+}
@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { join } from 'path';
+import * as request from 'supertest';
+import { AppModule } from './../src/app.module';
+import { LlmProvider } from './../src/llm/llm.provider';
+import { MockLlmProvider } from './../src/llm/providers/mock-llm.provider';
+
+describe('Shopify sync (e2e)', () => {
+  let app: INestApplication;
+  let store: Server;
+  let requests: string[];
+
+  beforeAll(async () => {
+    const products = readFileSync(
+      join(__dirname, 'fixtures', 'shopify', 'products.json'),
+    );
+    store = createServer((req, res) => {
+      requests.push(req.url);
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(products);
+    });
+    await new Promise<void>((resolve) => store.listen(0, resolve));
+
+    process.env.SHOPIFY_BASE_URL = `http://127.0.0.1:${(store.address() as AddressInfo).port}`;
+    process.env.SHOPIFY_STORE_URL = 'https://wizybot-demo-store.myshopify.com';
+    process.env.ADMIN_API_KEY = 'e2e-admin-key';
+  });
+
+  afterAll(async () => {
+    delete process.env.SHOPIFY_BASE_URL;
+    delete process.env.SHOPIFY_STORE_URL;
+    delete process.env.ADMIN_API_KEY;
+    await new Promise((resolve) => store.close(resolve));
+  });
+
+  beforeEach(async () => {
+    requests = [];
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(LlmProvider)
+      .useValue(new MockLlmProvider())
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('replaces the catalog with the store products at startup', async () => {
+    for (let i = 0; i < 50 && !requests.length; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    expect(requests).toEqual(['/products.json?limit=250&page=1']);
+
+    const sync = await request(app.getHttpServer())
+      .post('/admin/catalog/sync')
+      .set('x-admin-key', 'e2e-admin-key')
+      .expect(201);
+    expect(sync.body).toMatchObject({
+      catalogId: 'default',
+      fetched: 3,
+      imported: 2,
+      skipped: [{ handle: 'gift-card' }],
+    });
+
+    const dress = await request(app.getHttpServer())
+      .get('/products/womens-ruffle-tiered-dress')
+      .expect(200);
+    expect(dress.body).toMatchObject({
+      url: 'https://wizybot-demo-store.myshopify.com/products/womens-ruffle-tiered-dress',
+      price: { amount: 17, maxAmount: 19.5, currency: 'USD' },
+      skus: expect.arrayContaining([
+        expect.objectContaining({ options: { Color: 'Pink', Size: 'M' } }),
+      ]),
+    });
+    await request(app.getHttpServer())
+      .get('/products')
+      .expect(200)
+      .expect(({ body }) => expect(body.total).toBe(2));
+  });
+});
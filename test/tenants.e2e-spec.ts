@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from './../src/app.module';
+import { LlmProvider } from './../src/llm/llm.provider';
+import { MockLlmProvider } from './../src/llm/providers/mock-llm.provider';
+
+describe('Tenants (e2e)', () => {
+  let app: INestApplication;
+  let llm: MockLlmProvider;
+
+  beforeAll(() => {
+    process.env.TENANTS_FILE = 'test/fixtures/tenants.json';
+    process.env.ADMIN_API_KEY = 'e2e-admin-key';
+  });
+
+  afterAll(() => {
+    delete process.env.TENANTS_FILE;
+    delete process.env.ADMIN_API_KEY;
+  });
+
+  beforeEach(async () => {
+    llm = new MockLlmProvider();
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(LlmProvider)
+      .useValue(llm)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('requires an API key', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/ai/prompt')
+      .send({ prompt: 'Hello, who are you?' })
+      .expect(401);
+
+    expect(response.body.code).toBe('UNAUTHORIZED');
+    expect(llm.requests).toHaveLength(0);
+  });
+
+  it('/products (GET) lists the catalog of the tenant', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/products')
+      .set('x-api-key', 'tea-shop-test-key-0001')
+      .expect(200);
+
+    expect(response.body.items.map((product) => product.id)).toEqual([
+      'cast-iron-teapot',
+      'sencha-green-tea',
+    ]);
+  });
+
+  it('/ai/prompt (POST) answers tenants with the shared settings', async () => {
+    llm.enqueue({ content: 'Hello from the mock' });
+
+    await request(app.getHttpServer())
+      .post('/ai/prompt')
+      .set('x-api-key', 'demo-store-test-key-0001')
+      .send({ prompt: 'Hello, who are you?' })
+      .expect(201);
+
+    expect(llm.requests[0].messages[0].content).toBe(
+      'You are a helpful assistant.',
+    );
+  });
+
+  it('/conversations keeps each tenant to its own conversations', async () => {
+    llm.enqueue({ content: 'Hello from the mock' });
+    const answer = await request(app.getHttpServer())
+      .post('/ai/prompt')
+      .set('x-api-key', 'tea-shop-test-key-0001')
+      .send({ prompt: 'Hello, who are you?' })
+      .expect(201);
+    const path = `/conversations/${answer.body.conversationId}`;
+
+    await request(app.getHttpServer()).get('/conversations').expect(401);
+    const own = await request(app.getHttpServer())
+      .get('/conversations')
+      .set('x-api-key', 'tea-shop-test-key-0001')
+      .expect(200);
+    const other = await request(app.getHttpServer())
+      .get('/conversations')
+      .set('x-api-key', 'demo-store-test-key-0001')
+      .expect(200);
+    expect(own.body.map((conversation) => conversation.id)).toEqual([
+      answer.body.conversationId,
+    ]);
+    expect(other.body).toEqual([]);
+
+    await request(app.getHttpServer())
+      .get(path)
+      .set('x-api-key', 'demo-store-test-key-0001')
+      .expect(404);
+    await request(app.getHttpServer())
+      .delete(path)
+      .set('x-api-key', 'demo-store-test-key-0001')
+      .expect(404);
+    await request(app.getHttpServer())
+      .post('/ai/prompt')
+      .set('x-api-key', 'demo-store-test-key-0001')
+      .send({
+        prompt: 'What did I say before?',
+        conversationId: answer.body.conversationId,
+      })
+      .expect(404);
+    expect(llm.requests).toHaveLength(1);
+
+    await request(app.getHttpServer())
+      .get(path)
+      .set('x-api-key', 'tea-shop-test-key-0001')
+      .expect(200);
+    await request(app.getHttpServer())
+      .delete(path)
+      .set('x-api-key', 'tea-shop-test-key-0001')
+      .expect(204);
+  });
+
+  it('/admin/prompts/:name/preview (POST) renders the prompt of a tenant', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/admin/prompts/products-system/preview')
+      .set('x-admin-key', 'e2e-admin-key')
+      .send({ tenantId: 'demo-store', variables: { language: 'fr' } })
+      .expect(201);
+
+    expect(response.body).toMatchObject({
+      name: 'products-system',
+      version: 2,
+      missing: [],
+    });
+    expect(response.body.text).toMatch(
+      /^You are the shopping assistant of demo-store\. Use a playful tone\./,
+    );
+    expect(response.body.text).toContain('"fr" locale');
+
+    await request(app.getHttpServer())
+      .post('/admin/prompts/products-system/preview')
+      .set('x-admin-key', 'e2e-admin-key')
+      .send({ tenantId: 'unknown' })
+      .expect(404);
+  });
+});